@@ -0,0 +1,24 @@
+import Link from "next/link"
+import Image from "next/image"
+
+export default function AuthLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center px-4 py-12">
+      <Link href="/" className="flex items-center gap-2 mb-8">
+        <Image
+          src="/images/logo.jpg"
+          alt="Lontario logo"
+          width={36}
+          height={36}
+          className="rounded-lg"
+        />
+        <span className="text-xl font-semibold text-foreground">Lontario</span>
+      </Link>
+      <div className="w-full max-w-sm">{children}</div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import LoginForm from "./LoginForm"
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams
+  return <LoginForm next={next} initialError={error} />
+}
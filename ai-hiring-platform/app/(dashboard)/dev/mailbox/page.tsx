@@ -0,0 +1,173 @@
+"use client"
+
+import { useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Download, Inbox, Loader2, Paperclip, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+import { useClearOutbox, useOutboxEmails } from "@/hooks/use-dev-mailbox"
+import type { OutboxEmail } from "@/types"
+
+/** Data URL for downloading base64 content */
+const dataUrl = (contentType: string, base64: string) => `data:${contentType};base64,${base64}`
+
+/** Base64 of a UTF-8 string, in the browser */
+const toBase64 = (value: string) => {
+  const bytes = new TextEncoder().encode(value)
+  let binary = ""
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)))
+  return btoa(binary)
+}
+
+function EmailPreview({ email }: { email: OutboxEmail }) {
+  return (
+    <Card className="min-w-0">
+      <CardHeader>
+        <CardTitle className="text-base">{email.subject}</CardTitle>
+        <CardDescription className="space-y-0.5">
+          <span className="block">From: {email.from_address}</span>
+          <span className="block">To: {email.to_address}</span>
+          <span className="block">{new Date(email.created_at).toLocaleString()}</span>
+        </CardDescription>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {email.attachments.map((attachment) => (
+            <Button key={attachment.filename} variant="outline" size="sm" asChild>
+              <a
+                href={dataUrl(attachment.content_type.split(";")[0], attachment.content)}
+                download={attachment.filename}
+              >
+                <Paperclip className="mr-2 h-4 w-4" />
+                {attachment.filename}
+              </a>
+            </Button>
+          ))}
+          <Button variant="outline" size="sm" asChild>
+            <a href={dataUrl("message/rfc822", toBase64(email.raw))} download={`${email.id}.eml`}>
+              <Download className="mr-2 h-4 w-4" />
+              Download .eml
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="html">
+          <TabsList>
+            <TabsTrigger value="html">HTML</TabsTrigger>
+            <TabsTrigger value="text">Text</TabsTrigger>
+            <TabsTrigger value="raw">Source</TabsTrigger>
+          </TabsList>
+          <TabsContent value="html">
+            {/* Sandboxed: no scripts, links open outside the app */}
+            <iframe
+              title={email.subject}
+              srcDoc={email.html.replace("<head>", '<head><base target="_blank">')}
+              sandbox="allow-popups allow-popups-to-escape-sandbox"
+              className="w-full h-[600px] rounded-md border bg-white"
+            />
+          </TabsContent>
+          <TabsContent value="text">
+            <pre className="whitespace-pre-wrap text-sm rounded-md border p-4">{email.text.trim()}</pre>
+          </TabsContent>
+          <TabsContent value="raw">
+            <pre className="overflow-auto max-h-[600px] text-xs rounded-md border p-4">{email.raw}</pre>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function DevMailboxPage() {
+  const { data, isLoading, error } = useOutboxEmails()
+  const clearOutbox = useClearOutbox()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const emails = data?.emails ?? []
+  const selected = emails.find((email) => email.id === selectedId) ?? emails[0] ?? null
+
+  const handleClear = async () => {
+    try {
+      await clearOutbox.mutateAsync()
+      setSelectedId(null)
+      toast.success("Mailbox cleared")
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to clear the mailbox")
+    }
+  }
+
+  return (
+    <div className="container max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Dev Mailbox</h1>
+          <p className="text-muted-foreground">
+            Emails kept by the outbox transport instead of being sent
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleClear}
+          disabled={clearOutbox.isPending || emails.length === 0}
+        >
+          {clearOutbox.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Trash2 className="mr-2 h-4 w-4" />
+          )}
+          Clear
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            {error.message}
+          </CardContent>
+        </Card>
+      ) : emails.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 flex flex-col items-center gap-2 text-muted-foreground">
+            <Inbox className="h-8 w-8" />
+            <p className="text-sm">No emails yet. Schedule an interview to send one.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-[320px_1fr]">
+          <Card className="overflow-hidden h-fit">
+            <div className="divide-y divide-border">
+              {emails.map((email) => (
+                <button
+                  key={email.id}
+                  type="button"
+                  onClick={() => setSelectedId(email.id)}
+                  className={cn(
+                    "w-full text-left px-4 py-3 hover:bg-muted/50 transition-colors",
+                    selected?.id === email.id && "bg-muted"
+                  )}
+                >
+                  <p className="text-sm font-medium text-foreground truncate">{email.subject}</p>
+                  <p className="text-xs text-muted-foreground truncate">{email.to_address}</p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    {formatDistanceToNow(new Date(email.created_at), { addSuffix: true })}
+                    {email.attachments.length > 0 && <Paperclip className="h-3 w-3" />}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </Card>
+
+          {selected && <EmailPreview email={selected} />}
+        </div>
+      )}
+    </div>
+  )
+}
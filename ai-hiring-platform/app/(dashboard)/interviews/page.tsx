@@ -3,7 +3,7 @@
 import { useEffect, useState, useMemo } from "react";
 import Link from "next/link";
 import { format, isToday, isTomorrow } from "date-fns";
-import { Calendar, Clock, ExternalLink, MoreHorizontal, User, Search } from "lucide-react";
+import { Calendar, Clock, Download, ExternalLink, MoreHorizontal, User, Search } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,10 +18,12 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Skeleton } from "@/components/ui/skeleton";
+import { usePermissions } from "@/hooks/use-organization";
 import type { ScheduledInterviewWithDetails, InterviewStatus } from "@/types";
 
 const statusColors: Record<InterviewStatus, string> = {
   pending: "bg-gray-100 text-gray-800",
+  awaiting_booking: "bg-purple-100 text-purple-800",
   scheduled: "bg-blue-100 text-blue-800",
   ready: "bg-green-100 text-green-800",
   sent: "bg-blue-100 text-blue-800",
@@ -34,6 +36,7 @@ const statusColors: Record<InterviewStatus, string> = {
 };
 
 const statusOptions: { value: InterviewStatus; label: string }[] = [
+  { value: "awaiting_booking", label: "Awaiting Booking" },
   { value: "scheduled", label: "Scheduled" },
   { value: "ready", label: "Ready" },
   { value: "in_progress", label: "In Progress" },
@@ -106,6 +109,7 @@ export default function InterviewsPage() {
   const [interviews, setInterviews] = useState<ScheduledInterviewWithDetails[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { can } = usePermissions();
   const [searchQuery, setSearchQuery] = useState("");
   const [filters, setFilters] = useState<{ status: InterviewStatus[] }>({
     status: [],
@@ -175,6 +179,14 @@ export default function InterviewsPage() {
             View and manage all scheduled AI interviews
           </p>
         </div>
+        {can("interview:override") && (
+          <Button variant="outline" asChild>
+            <a href="/api/interviews/reviews/export?format=csv" download>
+              <Download className="h-4 w-4 mr-2" />
+              Export reviews
+            </a>
+          </Button>
+        )}
       </div>
 
       <div className="flex flex-col lg:flex-row gap-6">
@@ -281,7 +293,9 @@ export default function InterviewsPage() {
                     >
                       {interview.status === "in_progress"
                         ? "In Progress"
-                        : interview.status.charAt(0).toUpperCase() + interview.status.slice(1)}
+                        : interview.status === "awaiting_booking"
+                          ? "Awaiting Booking"
+                          : interview.status.charAt(0).toUpperCase() + interview.status.slice(1)}
                     </Badge>
 
                     {/* Actions */}
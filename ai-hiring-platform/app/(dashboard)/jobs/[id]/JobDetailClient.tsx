@@ -5,6 +5,7 @@ import Link from "next/link"
 import { Loader2, Archive, ArchiveRestore } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { AddCandidateDialog } from "@/components/jobs/add-candidate-dialog"
+import { ImportCandidatesDialog } from "@/components/jobs/import-candidates-dialog"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
@@ -29,10 +30,14 @@ import {
 } from "@/components/ui/alert-dialog"
 import { KanbanBoard } from "@/components/jobs/kanban-board"
 import { JobDetails } from "@/components/jobs/job-details"
+import { InterviewScoringCard } from "@/components/jobs/interview-scoring-card"
+import { InterviewPlanCard } from "@/components/jobs/interview-plan-card"
+import { CodingQuestionsCard } from "@/components/jobs/coding-questions-card"
 import { CandidatePanel } from "@/components/jobs/candidate-panel"
 import { ScheduleDialog } from "@/components/interview/ScheduleDialog"
 import { useJob, useArchiveJob, useUnarchiveJob } from "@/hooks/use-jobs"
 import { useCandidates, useMoveCandidate, useInvalidateCandidates } from "@/hooks/use-candidates"
+import { usePermissions } from "@/hooks/use-organization"
 import { useToast } from "@/hooks/use-toast"
 import { normalizeJob, normalizeCandidate, type Candidate, type CandidateStatus } from "@/lib/mock-data"
 import { cn } from "@/lib/utils"
@@ -69,6 +74,7 @@ export default function JobDetailClient({ jobId }: JobDetailClientProps) {
   const unarchiveJob = useUnarchiveJob()
   const { invalidateLists } = useInvalidateCandidates()
   const { toast } = useToast()
+  const { can } = usePermissions()
   const [showArchiveDialog, setShowArchiveDialog] = useState(false)
 
   // Normalize data
@@ -332,14 +338,22 @@ export default function JobDetailClient({ jobId }: JobDetailClientProps) {
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <AddCandidateDialog 
-                jobId={jobId} 
-                onSuccess={() => {
-                  // Refresh candidates list to show the newly scored candidate
-                  invalidateLists()
-                }}
-              />
-              {job.isArchived ? (
+              {can("candidate:create") && (
+                <ImportCandidatesDialog
+                  jobId={jobId}
+                  onSuccess={() => invalidateLists()}
+                />
+              )}
+              {can("candidate:create") && (
+                <AddCandidateDialog 
+                  jobId={jobId} 
+                  onSuccess={() => {
+                    // Refresh candidates list to show the newly scored candidate
+                    invalidateLists()
+                  }}
+                />
+              )}
+              {!can("job:update") ? null : job.isArchived ? (
                 <Button 
                   variant="outline" 
                   size="sm"
@@ -419,9 +433,10 @@ export default function JobDetailClient({ jobId }: JobDetailClientProps) {
                   onCandidateSelect={setSelectedCandidate}
                   onStatusChange={handleStatusChange}
                   selectedCandidateId={selectedCandidate?.id}
-                  onApprove={handleApprove}
-                  onReject={handleReject}
-                  onSchedule={handleScheduleInterview}
+                  canMove={can("candidate:move")}
+                  onApprove={can("candidate:move") ? handleApprove : undefined}
+                  onReject={can("candidate:move") ? handleReject : undefined}
+                  onSchedule={can("interview:schedule") ? handleScheduleInterview : undefined}
                 />
               )}
             </div>
@@ -448,6 +463,23 @@ export default function JobDetailClient({ jobId }: JobDetailClientProps) {
 
         <TabsContent value="details" className="flex-1 m-0 overflow-auto">
           <JobDetails job={job} />
+          <div className="container max-w-4xl mx-auto px-4 pb-8 space-y-6">
+            <InterviewScoringCard
+              jobId={jobId}
+              value={jobData?.interview_scoring}
+              canEdit={can("job:update")}
+            />
+            <CodingQuestionsCard
+              jobId={jobId}
+              value={jobData?.coding_questions}
+              canEdit={can("job:update")}
+            />
+            <InterviewPlanCard
+              jobId={jobId}
+              value={jobData?.interview_plan}
+              canEdit={can("job:update")}
+            />
+          </div>
         </TabsContent>
       </Tabs>
 
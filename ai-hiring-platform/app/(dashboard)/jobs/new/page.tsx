@@ -15,6 +15,7 @@ import {
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import { Textarea } from "@/components/ui/textarea"
 import {
   Select,
@@ -28,7 +29,9 @@ import { Badge } from "@/components/ui/badge"
 import { cn } from "@/lib/utils"
 import { toast } from "sonner"
 import { useCreateJob } from "@/hooks/use-jobs"
-import type { CreateJobRequest } from "@/types"
+import { ScreeningQuestionBuilder } from "@/components/jobs/screening-question-builder"
+import { SCREENING_QUESTION_TYPES } from "@/lib/screening"
+import type { CreateJobRequest, ScreeningQuestion } from "@/types"
 
 const steps = [
   { id: 1, name: "Basic Info" },
@@ -96,7 +99,15 @@ export default function NewJobPage() {
     type: "full-time" as "full-time" | "part-time" | "contract" | "internship",
     requirements: [""],
     description: "",
+    salaryMin: "",
+    salaryMax: "",
+    showSalary: false,
+    applicationDeadline: "",
+    requireCoverLetter: false,
+    requireLinkedin: false,
+    requireGithub: false,
   })
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([])
 
   const handleRequirementChange = (index: number, value: string) => {
     const newRequirements = [...formData.requirements]
@@ -168,6 +179,14 @@ We're building something special, and we'd love for you to be a part of it. Appl
 
   const transformFormData = (): CreateJobRequest => {
     const filteredRequirements = formData.requirements.filter((r) => r.trim())
+    // Drop unfinished questions and blank multiple-choice options
+    const filteredQuestions = screeningQuestions
+      .filter((q) => q.prompt.trim())
+      .map((q) =>
+        q.type === "multiple_choice"
+          ? { ...q, options: q.options?.map((o) => o.trim()).filter(Boolean) }
+          : q
+      )
     
     return {
       title: formData.title,
@@ -179,6 +198,16 @@ We're building something special, and we'd love for you to be a part of it. Appl
       description: formData.description,
       required_skills: filteredRequirements.length > 0 ? filteredRequirements : ["General skills"],
       nice_to_have_skills: [],
+      salary_min: formData.salaryMin ? Number(formData.salaryMin) : undefined,
+      salary_max: formData.salaryMax ? Number(formData.salaryMax) : undefined,
+      show_salary: formData.showSalary,
+      application_deadline: formData.applicationDeadline
+        ? new Date(formData.applicationDeadline).toISOString()
+        : undefined,
+      require_cover_letter: formData.requireCoverLetter,
+      require_linkedin: formData.requireLinkedin,
+      require_github: formData.requireGithub,
+      screening_questions: filteredQuestions,
     }
   }
 
@@ -461,6 +490,101 @@ We're building something special, and we'd love for you to be a part of it. Appl
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Application Settings</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Controls how this job appears on your public careers page.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="salaryMin">Salary Min</Label>
+                    <Input
+                      id="salaryMin"
+                      type="number"
+                      min={0}
+                      placeholder="e.g., 120000"
+                      value={formData.salaryMin}
+                      onChange={(e) =>
+                        setFormData({ ...formData, salaryMin: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="salaryMax">Salary Max</Label>
+                    <Input
+                      id="salaryMax"
+                      type="number"
+                      min={0}
+                      placeholder="e.g., 150000"
+                      value={formData.salaryMax}
+                      onChange={(e) =>
+                        setFormData({ ...formData, salaryMax: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="applicationDeadline">Application Deadline</Label>
+                    <Input
+                      id="applicationDeadline"
+                      type="datetime-local"
+                      value={formData.applicationDeadline}
+                      onChange={(e) =>
+                        setFormData({ ...formData, applicationDeadline: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  {[
+                    { key: "showSalary", label: "Show salary range on careers page" },
+                    { key: "requireCoverLetter", label: "Require a cover letter" },
+                    { key: "requireLinkedin", label: "Require a LinkedIn profile" },
+                    { key: "requireGithub", label: "Require a GitHub profile" },
+                  ].map((setting) => {
+                    const key = setting.key as
+                      | "showSalary"
+                      | "requireCoverLetter"
+                      | "requireLinkedin"
+                      | "requireGithub"
+                    return (
+                      <div key={key} className="flex items-center justify-between">
+                        <Label htmlFor={key} className="font-normal">
+                          {setting.label}
+                        </Label>
+                        <Switch
+                          id={key}
+                          checked={formData[key]}
+                          onCheckedChange={(checked) =>
+                            setFormData({ ...formData, [key]: checked })
+                          }
+                        />
+                      </div>
+                    )
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Screening Questions</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Asked on the application form. Answers that match a knockout
+                  rule are flagged for review, not rejected automatically.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <ScreeningQuestionBuilder
+                  questions={screeningQuestions}
+                  onChange={setScreeningQuestions}
+                />
+              </CardContent>
+            </Card>
+
             {/* AI Generate Button */}
             <Card className="border-primary/30 bg-primary/5">
               <CardContent className="py-6">
@@ -604,6 +728,30 @@ We're building something special, and we'd love for you to be a part of it. Appl
                   </div>
                 </div>
 
+                {/* Screening Questions */}
+                {screeningQuestions.some((q) => q.prompt.trim()) && (
+                  <div>
+                    <h4 className="text-sm font-medium text-foreground mb-2">
+                      Screening Questions
+                    </h4>
+                    <ul className="space-y-1">
+                      {screeningQuestions
+                        .filter((q) => q.prompt.trim())
+                        .map((q) => (
+                          <li
+                            key={q.id}
+                            className="flex items-start justify-between gap-2 text-sm text-muted-foreground"
+                          >
+                            <span>{q.prompt}</span>
+                            <Badge variant="outline" className="shrink-0">
+                              {SCREENING_QUESTION_TYPES.find((t) => t.value === q.type)?.label}
+                            </Badge>
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Description Preview */}
                 <div>
                   <h4 className="text-sm font-medium text-foreground mb-2">
@@ -8,11 +8,13 @@ import { Input } from "@/components/ui/input"
 import { JobFilters } from "@/components/jobs/job-filters"
 import { JobCard } from "@/components/jobs/job-card"
 import { useJobs } from "@/hooks/use-jobs"
+import { usePermissions } from "@/hooks/use-organization"
 import { normalizeJob, type Job } from "@/lib/mock-data"
 import { Skeleton } from "@/components/ui/skeleton"
 
 export default function JobsPage() {
   const [view, setView] = useState<"grid" | "list">("grid")
+  const { can } = usePermissions()
   const [searchQuery, setSearchQuery] = useState("")
   const [filters, setFilters] = useState({
     status: ["active"],
@@ -56,12 +58,14 @@ export default function JobsPage() {
             Manage your job postings and view candidates
           </p>
         </div>
-        <Link href="/jobs/new">
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Create Job
-          </Button>
-        </Link>
+        {can("job:create") && (
+          <Link href="/jobs/new">
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Job
+            </Button>
+          </Link>
+        )}
       </div>
 
       <div className="flex flex-col lg:flex-row gap-6">
@@ -140,9 +144,11 @@ export default function JobsPage() {
               <p className="text-muted-foreground mb-4">
                 Try adjusting your filters or search query
               </p>
-              <Link href="/jobs/new">
-                <Button>Create your first job</Button>
-              </Link>
+              {can("job:create") && (
+                <Link href="/jobs/new">
+                  <Button>Create your first job</Button>
+                </Link>
+              )}
             </div>
           ) : (
             <div
@@ -0,0 +1,374 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Loader2, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { AIUsageCard } from "@/components/settings/ai-usage-card"
+import { LLM_PROVIDERS } from "@/lib/constants"
+import {
+  useCurrentUser,
+  useFailedBackgroundJobs,
+  useOrganizationMembers,
+  usePermissions,
+  useRetryBackgroundJob,
+  useUpdateMemberRole,
+  useUpdateOrganization,
+} from "@/hooks/use-organization"
+import type { BackgroundJobType, LLMProviderName, UserRole } from "@/types"
+
+const roleOptions: { value: UserRole; label: string; description: string }[] = [
+  { value: "member", label: "Member", description: "View pipelines and comment" },
+  { value: "recruiter", label: "Recruiter", description: "Manage jobs, candidates and interviews" },
+  { value: "admin", label: "Admin", description: "Everything, plus organization settings" },
+]
+
+const jobTypeLabels: Record<BackgroundJobType, string> = {
+  score_candidate: "Candidate scoring",
+  pregenerate_questions: "Question generation",
+  send_email: "Email",
+  evaluate_interview: "Interview evaluation",
+}
+
+export default function SettingsPage() {
+  const { data: currentUser, isLoading } = useCurrentUser()
+  const { can } = usePermissions()
+  const { data: membersData, isLoading: membersLoading } = useOrganizationMembers()
+  const updateOrganization = useUpdateOrganization()
+  const updateMemberRole = useUpdateMemberRole()
+  const retryJob = useRetryBackgroundJob()
+
+  const [name, setName] = useState("")
+  const [slug, setSlug] = useState("")
+  const [aiProvider, setAiProvider] = useState<LLMProviderName | "default">("default")
+  const [aiModel, setAiModel] = useState("")
+  const [aiBudget, setAiBudget] = useState("")
+
+  const canManage = can("org:manage")
+  const { data: failedJobsData, isLoading: failedJobsLoading } = useFailedBackgroundJobs(canManage)
+  const organization = currentUser?.organization
+
+  useEffect(() => {
+    if (organization) {
+      setName(organization.name)
+      setSlug(organization.slug)
+      setAiProvider(organization.ai_provider ?? "default")
+      setAiModel(organization.ai_model ?? "")
+      setAiBudget(organization.ai_monthly_budget_usd?.toString() ?? "")
+    }
+  }, [organization])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await updateOrganization.mutateAsync({ name, slug })
+      toast.success("Organization settings saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save settings")
+    }
+  }
+
+  const handleSaveAI = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await updateOrganization.mutateAsync({
+        ai_provider: aiProvider === "default" ? null : aiProvider,
+        ai_model: aiModel.trim() || null,
+        ai_monthly_budget_usd: aiBudget.trim() ? Number(aiBudget) : null,
+      })
+      toast.success("AI settings saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save AI settings")
+    }
+  }
+
+  const handleRoleChange = async (memberId: string, role: UserRole) => {
+    try {
+      await updateMemberRole.mutateAsync({ id: memberId, role })
+      toast.success("Role updated")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update role")
+    }
+  }
+
+  const handleRetryJob = async (jobId: string) => {
+    try {
+      await retryJob.mutateAsync(jobId)
+      toast.success("Job queued for retry")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to retry job")
+    }
+  }
+
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Settings</h1>
+        <p className="text-muted-foreground">
+          {canManage
+            ? "Manage your organization and team"
+            : "Only admins can change organization settings"}
+        </p>
+      </div>
+
+      {/* Organization */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Organization</CardTitle>
+          <CardDescription>Shown to candidates on your careers pages</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : (
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="org-name">Name</Label>
+                <Input
+                  id="org-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={!canManage}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="org-slug">URL</Label>
+                <Input
+                  id="org-slug"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value.toLowerCase())}
+                  disabled={!canManage}
+                  required
+                />
+              </div>
+              {canManage && (
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={updateOrganization.isPending}>
+                    {updateOrganization.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save changes
+                  </Button>
+                </div>
+              )}
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* AI provider */}
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>AI Provider</CardTitle>
+            <CardDescription>
+              Where candidate data is sent for scoring, question generation and interview evaluation, and how much AI may cost each month
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <form onSubmit={handleSaveAI} className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="ai-provider">Provider</Label>
+                    <Select
+                      value={aiProvider}
+                      onValueChange={(value) => setAiProvider(value as LLMProviderName | "default")}
+                    >
+                      <SelectTrigger id="ai-provider">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Server default</SelectItem>
+                        {LLM_PROVIDERS.map((provider) => (
+                          <SelectItem key={provider.value} value={provider.value}>
+                            {provider.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ai-model">Model</Label>
+                    <Input
+                      id="ai-model"
+                      value={aiModel}
+                      onChange={(e) => setAiModel(e.target.value)}
+                      placeholder="Provider default"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ai-budget">Monthly budget (USD)</Label>
+                    <Input
+                      id="ai-budget"
+                      type="number"
+                      min="1"
+                      step="0.01"
+                      value={aiBudget}
+                      onChange={(e) => setAiBudget(e.target.value)}
+                      placeholder="No limit"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      AI features pause for the rest of the month once estimated spend reaches this
+                    </p>
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={updateOrganization.isPending}>
+                    {updateOrganization.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save AI settings
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* AI usage */}
+      {canManage && <AIUsageCard />}
+
+      {/* Team */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Team</CardTitle>
+          <CardDescription>
+            {roleOptions.map((role) => `${role.label}s: ${role.description.toLowerCase()}`).join(". ")}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {membersLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {membersData?.members.map((member) => {
+                const displayName = member.full_name || member.email
+                const initials = displayName
+                  .split(" ")
+                  .map((n) => n[0])
+                  .join("")
+                  .slice(0, 2)
+                  .toUpperCase()
+                const isSelf = member.id === currentUser?.profile.id
+
+                return (
+                  <div key={member.id} className="flex items-center justify-between py-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Avatar className="h-8 w-8">
+                        {member.avatar_url ? (
+                          <AvatarImage src={member.avatar_url} alt={displayName} />
+                        ) : null}
+                        <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                          {initials}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">
+                          {displayName}
+                          {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                      </div>
+                    </div>
+                    {canManage && !isSelf ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member.id, value as UserRole)}
+                        disabled={updateMemberRole.isPending}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roleOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline" className="capitalize">
+                        {member.role}
+                      </Badge>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Background jobs */}
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Background Jobs</CardTitle>
+            <CardDescription>
+              Scoring, question generation, emails and interview evaluation that failed after every retry
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {failedJobsLoading ? (
+              <div className="space-y-3">
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ) : !failedJobsData?.jobs.length ? (
+              <p className="text-sm text-muted-foreground">No failed jobs</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {failedJobsData.jobs.map((job) => (
+                  <div key={job.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground">
+                        {jobTypeLabels[job.type] ?? job.type}
+                      </p>
+                      <p className="text-xs text-destructive truncate" title={job.last_error ?? undefined}>
+                        {job.last_error || "Unknown error"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {job.attempts} {job.attempts === 1 ? "attempt" : "attempts"} · failed{" "}
+                        {formatDistanceToNow(new Date(job.updated_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRetryJob(job.id)}
+                      disabled={retryJob.isPending}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Retry
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
 
 // Validation schema for query parameters
 const listActivitiesSchema = z.object({
@@ -10,11 +10,13 @@ const listActivitiesSchema = z.object({
 
 /**
  * GET /api/activities
- * List recent activities across all candidates (MVP: no auth required)
+ * List recent activities across all candidates in the organization
  */
 export async function GET(req: NextRequest) {
   try {
-    const supabase = await createClient();
+    const { auth, error: authError } = await requirePermission("candidate:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Parse and validate query parameters
     const searchParams = Object.fromEntries(req.nextUrl.searchParams);
@@ -51,6 +53,7 @@ export async function GET(req: NextRequest) {
           job_id
         )
       `)
+      .eq("candidate.organization_id", organizationId)
       .order("created_at", { ascending: false })
       .limit(limit);
 
@@ -93,6 +96,12 @@ export async function GET(req: NextRequest) {
         case "interview_completed":
           message = `${candidateName} completed AI interview`;
           break;
+        case "interview_rescheduled":
+          message = `Interview rescheduled with ${candidateName}`;
+          break;
+        case "interview_declined":
+          message = `${candidateName} declined AI interview`;
+          break;
         case "resume_parsed":
           message = `Resume parsed for ${candidateName}`;
           break;
@@ -105,6 +114,9 @@ export async function GET(req: NextRequest) {
         case "comment_added":
           message = `Comment added on ${candidateName}`;
           break;
+        case "scorecard_submitted":
+          message = `Scorecard submitted for ${candidateName}`;
+          break;
         default:
           message = `Activity on ${candidateName}`;
       }
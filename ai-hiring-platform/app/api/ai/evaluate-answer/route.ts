@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { evaluateAnswer } from "@/lib/ai";
+import { requirePermission } from "@/lib/auth";
+import { evaluateAnswer, isAINotConfiguredError, isAIBudgetExceededError } from "@/lib/ai";
 import { ScoringCriteriaSchema } from "@/types";
 
 // Validation schema
@@ -17,11 +18,12 @@ const evaluateAnswerSchema = z.object({
 
 /**
  * POST /api/ai/evaluate-answer
- * Evaluate a candidate's interview answer using AI (MVP: no auth required)
+ * Evaluate a candidate's interview answer using AI
  */
 export async function POST(req: NextRequest) {
   try {
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("ai:use");
+    if (authError) return authError;
 
     // Parse and validate request body
     const body = await req.json();
@@ -41,7 +43,8 @@ export async function POST(req: NextRequest) {
       question,
       answer,
       job_context,
-      candidate_background
+      candidate_background,
+      { organizationId: auth.organizationId }
     );
 
     return NextResponse.json({
@@ -52,12 +55,18 @@ export async function POST(req: NextRequest) {
     console.error("Error evaluating answer:", error);
 
     if (error instanceof Error) {
-      if (error.message.includes("OPENAI_API_KEY")) {
+      if (isAINotConfiguredError(error)) {
         return NextResponse.json(
           { error: "AI service not configured", code: "AI_NOT_CONFIGURED" },
           { status: 503 }
         );
       }
+      if (isAIBudgetExceededError(error)) {
+        return NextResponse.json(
+          { error: error.message, code: "BUDGET_EXCEEDED" },
+          { status: 402 }
+        );
+      }
 
       if (error.message.includes("rate limit")) {
         return NextResponse.json(
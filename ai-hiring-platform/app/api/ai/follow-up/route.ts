@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
-import { generateFollowUpQuestion } from "@/lib/ai";
+import { requirePermission } from "@/lib/auth";
+import { generateFollowUpQuestion, isAINotConfiguredError, isAIBudgetExceededError } from "@/lib/ai";
 import { GeneratedQuestionSchema, JobDescriptionSchema } from "@/types";
 
 // Validation schema
@@ -17,12 +17,8 @@ const followUpSchema = z.object({
  */
 export async function POST(req: NextRequest) {
   try {
-    const supabase = await createClient();
-
-    // Verify authentication (optional for demo)
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    const { auth, error: authError } = await requirePermission("ai:use");
+    if (authError) return authError;
 
     // Parse and validate request body
     const body = await req.json();
@@ -41,7 +37,8 @@ export async function POST(req: NextRequest) {
     const followUp = await generateFollowUpQuestion(
       originalQuestion,
       candidateAnswer,
-      jobDescription
+      jobDescription,
+      { organizationId: auth.organizationId }
     );
 
     return NextResponse.json({
@@ -52,12 +49,18 @@ export async function POST(req: NextRequest) {
     console.error("Error generating follow-up:", error);
 
     if (error instanceof Error) {
-      if (error.message.includes("OPENAI_API_KEY")) {
+      if (isAINotConfiguredError(error)) {
         return NextResponse.json(
           { error: "AI service not configured", code: "AI_NOT_CONFIGURED" },
           { status: 503 }
         );
       }
+      if (isAIBudgetExceededError(error)) {
+        return NextResponse.json(
+          { error: error.message, code: "BUDGET_EXCEEDED" },
+          { status: 402 }
+        );
+      }
 
       if (error.message.includes("rate limit")) {
         return NextResponse.json(
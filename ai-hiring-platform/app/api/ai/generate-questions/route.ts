@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
-import { generateInterviewQuestions } from "@/lib/ai";
+import { requirePermission } from "@/lib/auth";
+import { generateInterviewQuestions, isAINotConfiguredError, isAIBudgetExceededError } from "@/lib/ai";
 import { JobDescriptionSchema, CandidateProfileSchema, QuestionCategory, GeneratedQuestion } from "@/types";
 
 // Validation schema
@@ -17,12 +17,9 @@ const generateQuestionsSchema = z.object({
  */
 export async function POST(req: NextRequest) {
   try {
-    const supabase = await createClient();
-
-    // Verify authentication (optional for demo, required for production)
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    const { auth, error: authError } = await requirePermission("ai:use");
+    if (authError) return authError;
+    const { user, organizationId } = auth;
 
     // Parse and validate request body
     const body = await req.json();
@@ -38,7 +35,7 @@ export async function POST(req: NextRequest) {
     const { job, candidate } = validation.data;
 
     // Generate questions using AI
-    const questionSet = await generateInterviewQuestions(job, candidate);
+    const questionSet = await generateInterviewQuestions(job, candidate, { organizationId });
 
     // Group questions by category for easier display
     const groupedByCategory: Record<QuestionCategory, GeneratedQuestion[]> = {
@@ -66,19 +63,25 @@ export async function POST(req: NextRequest) {
       groupedByCategory,
       totalEstimatedTime,
       generated_at: new Date().toISOString(),
-      generated_by: user?.id || "anonymous",
+      generated_by: user.id,
     });
   } catch (error) {
     console.error("Error generating questions:", error);
 
-    // Handle specific OpenAI errors
+    // Handle specific AI provider errors
     if (error instanceof Error) {
-      if (error.message.includes("OPENAI_API_KEY")) {
+      if (isAINotConfiguredError(error)) {
         return NextResponse.json(
           { error: "AI service not configured", code: "AI_NOT_CONFIGURED" },
           { status: 503 }
         );
       }
+      if (isAIBudgetExceededError(error)) {
+        return NextResponse.json(
+          { error: error.message, code: "BUDGET_EXCEEDED" },
+          { status: 402 }
+        );
+      }
 
       if (error.message.includes("rate limit")) {
         return NextResponse.json(
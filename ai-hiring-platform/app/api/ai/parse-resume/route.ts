@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { parseResume } from "@/lib/ai";
+import { requirePermission } from "@/lib/auth";
+import { parseResume, isAINotConfiguredError, isAIBudgetExceededError } from "@/lib/ai";
 
 // Validation schema
 const parseResumeSchema = z.object({
@@ -15,11 +16,12 @@ const parseResumeSchema = z.object({
 
 /**
  * POST /api/ai/parse-resume
- * Extract structured data from resume text using AI (MVP: no auth required)
+ * Extract structured data from resume text using AI
  */
 export async function POST(req: NextRequest) {
   try {
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("ai:use");
+    if (authError) return authError;
 
     // Parse and validate request body
     const body = await req.json();
@@ -35,7 +37,7 @@ export async function POST(req: NextRequest) {
     const { resume_text } = validation.data;
 
     // Parse resume using AI
-    const parsedResume = await parseResume(resume_text);
+    const parsedResume = await parseResume(resume_text, { organizationId: auth.organizationId });
 
     return NextResponse.json({
       ...parsedResume,
@@ -45,12 +47,18 @@ export async function POST(req: NextRequest) {
     console.error("Error parsing resume:", error);
 
     if (error instanceof Error) {
-      if (error.message.includes("OPENAI_API_KEY")) {
+      if (isAINotConfiguredError(error)) {
         return NextResponse.json(
           { error: "AI service not configured", code: "AI_NOT_CONFIGURED" },
           { status: 503 }
         );
       }
+      if (isAIBudgetExceededError(error)) {
+        return NextResponse.json(
+          { error: error.message, code: "BUDGET_EXCEEDED" },
+          { status: 402 }
+        );
+      }
 
       if (error.message.includes("rate limit")) {
         return NextResponse.json(
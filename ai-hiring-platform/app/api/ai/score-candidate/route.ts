@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { scoreCandidate } from "@/lib/ai";
+import { requirePermission } from "@/lib/auth";
+import { scoreCandidate, isAINotConfiguredError, isAIBudgetExceededError } from "@/lib/ai";
 
 // Validation schema
 const scoreCandidateSchema = z.object({
@@ -22,11 +23,12 @@ const scoreCandidateSchema = z.object({
 
 /**
  * POST /api/ai/score-candidate
- * Calculate AI match score between a candidate and job (MVP: no auth required)
+ * Calculate AI match score between a candidate and job
  */
 export async function POST(req: NextRequest) {
   try {
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("ai:use");
+    if (authError) return authError;
 
     // Parse and validate request body
     const body = await req.json();
@@ -42,7 +44,7 @@ export async function POST(req: NextRequest) {
     const { candidate, job } = validation.data;
 
     // Generate score using AI
-    const matchScore = await scoreCandidate(candidate, job);
+    const matchScore = await scoreCandidate(candidate, job, { organizationId: auth.organizationId });
 
     return NextResponse.json({
       ...matchScore,
@@ -52,12 +54,18 @@ export async function POST(req: NextRequest) {
     console.error("Error scoring candidate:", error);
 
     if (error instanceof Error) {
-      if (error.message.includes("OPENAI_API_KEY")) {
+      if (isAINotConfiguredError(error)) {
         return NextResponse.json(
           { error: "AI service not configured", code: "AI_NOT_CONFIGURED" },
           { status: 503 }
         );
       }
+      if (isAIBudgetExceededError(error)) {
+        return NextResponse.json(
+          { error: error.message, code: "BUDGET_EXCEEDED" },
+          { status: 402 }
+        );
+      }
 
       if (error.message.includes("rate limit")) {
         return NextResponse.json(
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
 import {
   fetchGitHubProfile,
   extractGitHubUsername,
@@ -22,12 +22,8 @@ const scrapeProfileSchema = z.object({
  */
 export async function POST(req: NextRequest) {
   try {
-    const supabase = await createClient();
-
-    // Verify authentication (optional for demo)
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    const { error: authError } = await requirePermission("ai:use");
+    if (authError) return authError;
 
     // Parse and validate request body
     const body = await req.json();
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
+
+// Validation schema for new comments
+const createCommentSchema = z.object({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+  mentioned_users: z.array(z.string().uuid()).optional().default([]),
+});
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/candidates/[id]/comments
+ * Add a comment on a candidate (any team member)
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { auth, error: authError } = await requirePermission("candidate:comment");
+    if (authError) return authError;
+    const { supabase, user, organizationId } = auth;
+
+    const body = await req.json();
+    const validation = createCommentSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Verify candidate exists in the caller's organization
+    const { data: candidate } = await supabase
+      .from("candidates")
+      .select("id")
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (!candidate) {
+      return NextResponse.json(
+        { error: "Candidate not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const { content, mentioned_users } = validation.data;
+
+    const { data: comment, error: insertError } = await supabase
+      .from("candidate_comments")
+      .insert({
+        candidate_id: id,
+        author_id: user.id,
+        content,
+        mentioned_users,
+      })
+      .select(`
+        *,
+        author:profiles!candidate_comments_author_id_fkey(id, full_name, avatar_url)
+      `)
+      .single();
+
+    if (insertError) {
+      console.error("Insert error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to add comment", code: "DB_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    // Log activity
+    await supabase.from("candidate_activities").insert({
+      candidate_id: id,
+      activity_type: "comment_added",
+      performed_by: user.id,
+      metadata: { comment_id: comment.id },
+      is_internal: true,
+    });
+
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error in POST /api/candidates/[id]/comments:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
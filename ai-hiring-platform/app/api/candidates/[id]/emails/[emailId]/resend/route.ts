@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+import { RESENDABLE_EMAIL_STATUSES } from "@/lib/constants";
+import { enqueueJob, type BackgroundJobPayloads } from "@/lib/queue";
+import type { EmailStatus } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string; emailId: string }>;
+}
+
+/**
+ * POST /api/candidates/[id]/emails/[emailId]/resend
+ * Send a failed or bounced email again, with the same content
+ *
+ * The resend is a new send_email job (and a new email log entry pointing
+ * back at this one). Emails that a newer email for the same interview has
+ * replaced, such as an invite for a time since rescheduled, can't be resent.
+ */
+export async function POST(_req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, emailId } = await params;
+    const { auth, error: authError } = await requirePermission("interview:schedule");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const { data: email } = await supabase
+      .from("email_log")
+      .select("id, interview_id, background_job_id, to_address, status, created_at")
+      .eq("id", emailId)
+      .eq("candidate_id", id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (!email) {
+      return NextResponse.json(
+        { error: "Email not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    if (!(RESENDABLE_EMAIL_STATUSES as readonly EmailStatus[]).includes(email.status)) {
+      return NextResponse.json(
+        { error: "Only failed or bounced emails can be resent", code: "INVALID_STATUS" },
+        { status: 400 }
+      );
+    }
+
+    if (email.interview_id) {
+      const { count } = await supabase
+        .from("email_log")
+        .select("id", { count: "exact", head: true })
+        .eq("interview_id", email.interview_id)
+        .eq("to_address", email.to_address)
+        .gt("created_at", email.created_at)
+        .not("status", "in", `(${RESENDABLE_EMAIL_STATUSES.join(",")})`);
+
+      if (count) {
+        return NextResponse.json(
+          { error: "A newer email has already been sent for this interview", code: "SUPERSEDED" },
+          { status: 409 }
+        );
+      }
+    }
+
+    // The template data lives in the original job's payload
+    const { data: job } = email.background_job_id
+      ? await supabase
+          .from("background_jobs")
+          .select("payload")
+          .eq("id", email.background_job_id)
+          .single()
+      : { data: null };
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "The original email is no longer available", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const { to, type, data, interview_id } = job.payload as BackgroundJobPayloads["send_email"];
+    const queued = await enqueueJob(
+      "send_email",
+      { to, type, data, interview_id, resent_from: email.id },
+      { organizationId, dedupeKey: `email_resend:${email.id}` }
+    );
+
+    if (!queued) {
+      return NextResponse.json(
+        { error: "This email is already being resent", code: "DUPLICATE_JOB" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ message: "Email queued for resending" });
+  } catch (error) {
+    console.error("Unexpected error in POST /api/candidates/[id]/emails/[emailId]/resend:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
 import { CandidateStage } from "@/types";
 
 // Validation schema
@@ -25,19 +25,16 @@ interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-// MVP placeholder user ID (used when auth is disabled)
-const MVP_USER_ID = "00000000-0000-0000-0000-000000000000";
-
 /**
  * POST /api/candidates/[id]/move
- * Move a candidate to a new stage (MVP: no auth required)
+ * Move a candidate to a new stage
  */
 export async function POST(req: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("candidate:move");
+    if (authError) return authError;
+    const { supabase, user, organizationId } = auth;
 
     // Parse and validate request body
     const body = await req.json();
@@ -70,6 +67,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         job:jobs!inner(id, title)
       `)
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (candidateError || !candidate) {
@@ -79,8 +77,6 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // MVP: Skip job ownership check
-
     const oldStage = candidate.stage as CandidateStage;
 
     // Update candidate stage
@@ -114,7 +110,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       .from("candidate_activities")
       .insert({
         candidate_id: id,
-        performed_by: MVP_USER_ID,
+        performed_by: user.id,
         activity_type: stage === "rejected" ? "rejected" : "stage_changed",
         old_value: oldStage,
         new_value: stage,
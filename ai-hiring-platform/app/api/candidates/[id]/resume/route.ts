@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+import { enqueueJob } from "@/lib/queue";
+import { getResumeContentType, storeResume, validateResumeFile } from "@/lib/resume";
+import { getStorage } from "@/lib/storage";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/candidates/[id]/resume
+ * Stream the candidate's resume file
+ *
+ * Served inline for the preview; pass `?download=1` to download instead.
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { auth, error: authError } = await requirePermission("candidate:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const { data: candidate, error: candidateError } = await supabase
+      .from("candidates")
+      .select("id, resume_url, resume_filename")
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (candidateError || !candidate) {
+      return NextResponse.json(
+        { error: "Candidate not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    if (!candidate.resume_url) {
+      return NextResponse.json(
+        { error: "No resume uploaded", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const data = await getStorage().download(candidate.resume_url);
+    const download = req.nextUrl.searchParams.get("download") === "1";
+    const filename = (candidate.resume_filename || "resume").replace(/["\r\n]/g, "");
+    // Header values must be Latin-1; non-ASCII names go in filename* (RFC 6266)
+    const asciiFilename = filename.replace(/[^\x20-\x7e]|\\/g, "_");
+    const encodedFilename = encodeURIComponent(filename).replace(
+      /['()*]/g,
+      (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": getResumeContentType(candidate.resume_url),
+        "Content-Length": String(data.length),
+        "Content-Disposition": `${download ? "attachment" : "inline"}; filename="${asciiFilename}"; filename*=UTF-8''${encodedFilename}`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Unexpected error in GET /api/candidates/[id]/resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/candidates/[id]/resume
+ * Upload (or replace) the candidate's resume
+ *
+ * Expects multipart/form-data with a `file` field (PDF, DOCX or TXT).
+ * The text is extracted and the candidate re-scored in the background.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { auth, error: authError } = await requirePermission("candidate:update");
+    if (authError) return authError;
+    const { supabase, user, organizationId } = auth;
+
+    const formData = await req.formData().catch(() => null);
+    const file = formData?.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "A resume file is required", code: "MISSING_FILE" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateResumeFile(file);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error, code: validation.code },
+        { status: 400 }
+      );
+    }
+
+    const { data: candidate, error: candidateError } = await supabase
+      .from("candidates")
+      .select("id, resume_url")
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (candidateError || !candidate) {
+      return NextResponse.json(
+        { error: "Candidate not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const resume = await storeResume(organizationId, candidate.id, file, validation);
+
+    const { error: updateError } = await supabase
+      .from("candidates")
+      .update(resume)
+      .eq("id", id)
+      .eq("organization_id", organizationId);
+
+    if (updateError) {
+      console.error("Update error:", updateError);
+      // Don't leave an orphaned file behind
+      await getStorage().remove(resume.resume_url).catch(() => {});
+      return NextResponse.json(
+        { error: "Failed to save resume", code: "UPDATE_FAILED" },
+        { status: 500 }
+      );
+    }
+
+    // Remove the previous file (best effort)
+    if (candidate.resume_url && candidate.resume_url !== resume.resume_url) {
+      getStorage().remove(candidate.resume_url).catch((error) => {
+        console.error("Failed to remove previous resume:", error);
+      });
+    }
+
+    // Log activity
+    await supabase.from("candidate_activities").insert({
+      candidate_id: id,
+      performed_by: user.id,
+      activity_type: "resume_uploaded",
+      new_value: resume.resume_filename,
+      metadata: { replaced: !!candidate.resume_url },
+    });
+
+    // Re-score with the new resume (non-blocking on failure)
+    if (resume.resume_text) {
+      try {
+        await enqueueJob("score_candidate", { candidate_id: id }, { organizationId });
+      } catch (error) {
+        console.error("Failed to queue AI scoring:", error);
+      }
+    }
+
+    return NextResponse.json({
+      resume_filename: resume.resume_filename,
+      has_text: !!resume.resume_text,
+    });
+  } catch (error) {
+    console.error("Unexpected error in POST /api/candidates/[id]/resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
 
 // Validation schema for updates
 const updateCandidateSchema = z.object({
@@ -11,6 +11,8 @@ const updateCandidateSchema = z.object({
   portfolio_url: z.string().url().nullable().optional(),
   is_starred: z.boolean().optional(),
   is_archived: z.boolean().optional(),
+  /** Extended-time accommodation for interview time limits */
+  interview_time_multiplier: z.number().min(1).max(3).optional(),
 });
 
 interface RouteParams {
@@ -19,23 +21,24 @@ interface RouteParams {
 
 /**
  * GET /api/candidates/[id]
- * Get a single candidate with full details (MVP: no auth required)
+ * Get a single candidate with full details
  */
 export async function GET(req: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("candidate:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Fetch candidate with job details
     const { data: candidate, error: candidateError } = await supabase
       .from("candidates")
       .select(`
         *,
-        job:jobs!inner(id, title, required_skills)
+        job:jobs!inner(id, title, required_skills, interview_plan)
       `)
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (candidateError || !candidate) {
@@ -45,8 +48,6 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // MVP: Skip job ownership check
-
     // Fetch activities
     const { data: activities } = await supabase
       .from("candidate_activities")
@@ -65,6 +66,24 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       .eq("candidate_id", id)
       .order("created_at", { ascending: false });
 
+    // Fetch scorecards from human interview stages
+    const { data: scorecards } = await supabase
+      .from("candidate_scorecards")
+      .select(`
+        *,
+        interviewer:profiles!candidate_scorecards_interviewer_id_fkey(id, full_name, avatar_url)
+      `)
+      .eq("candidate_id", id)
+      .order("submitted_at", { ascending: true });
+
+    // Fetch emails sent about the candidate's interviews
+    const { data: emails } = await supabase
+      .from("email_log")
+      .select("*")
+      .eq("candidate_id", id)
+      .order("created_at", { ascending: false })
+      .limit(50);
+
     // Fetch interview if exists
     const { data: interview } = await supabase
       .from("ai_interviews")
@@ -78,6 +97,8 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       ...candidate,
       activities: activities || [],
       comments: comments || [],
+      scorecards: scorecards || [],
+      emails: emails || [],
       interview: interview || null,
     });
   } catch (error) {
@@ -91,14 +112,14 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 
 /**
  * PATCH /api/candidates/[id]
- * Update a candidate (MVP: no auth required)
+ * Update a candidate
  */
 export async function PATCH(req: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("candidate:update");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Parse and validate request body
     const body = await req.json();
@@ -111,11 +132,12 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // MVP: Skip job ownership check - verify candidate exists
+    // Verify candidate exists in the caller's organization
     const { data: candidate } = await supabase
       .from("candidates")
       .select("id")
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (!candidate) {
@@ -156,20 +178,21 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
 
 /**
  * DELETE /api/candidates/[id]
- * Delete a candidate (MVP: no auth required)
+ * Delete a candidate
  */
 export async function DELETE(req: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-
-    // MVP: Auth disabled - delete directly
+    const { auth, error: authError } = await requirePermission("candidate:delete");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Delete candidate
     const { error: deleteError } = await supabase
       .from("candidates")
       .delete()
-      .eq("id", id);
+      .eq("id", id)
+      .eq("organization_id", organizationId);
 
     if (deleteError) {
       console.error("Delete error:", deleteError);
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+import { parseInterviewPlan, resolveScorecardRatings } from "@/lib/scorecards";
+import { SubmitScorecardRequestSchema, type Json } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/candidates/[id]/scorecards
+ * Submit the signed-in interviewer's scorecard for a stage
+ *
+ * Ratings must refer to competencies planned for the stage in the job's
+ * interview plan. Each interviewer has one scorecard per stage;
+ * submitting again replaces it.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { auth, error: authError } = await requirePermission("candidate:scorecard");
+    if (authError) return authError;
+    const { supabase, user, organizationId } = auth;
+
+    const body = await req.json();
+    const validation = SubmitScorecardRequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Verify candidate exists in the caller's organization
+    const { data: candidate } = await supabase
+      .from("candidates")
+      .select("id, job_id, jobs:job_id(interview_plan)")
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (!candidate) {
+      return NextResponse.json(
+        { error: "Candidate not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const { stage, notes, decision } = validation.data;
+    const job = candidate.jobs as unknown as { interview_plan: Json | null } | null;
+    const { ratings, unknown } = resolveScorecardRatings(
+      parseInterviewPlan(job?.interview_plan),
+      stage,
+      validation.data.ratings
+    );
+
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Some ratings are for competencies not planned for this stage",
+          code: "INVALID_COMPETENCY",
+          competency_ids: unknown,
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const { data: scorecard, error: upsertError } = await supabase
+      .from("candidate_scorecards")
+      .upsert(
+        {
+          organization_id: organizationId,
+          candidate_id: id,
+          job_id: candidate.job_id,
+          interviewer_id: user.id,
+          stage,
+          ratings,
+          notes: notes || null,
+          decision,
+          submitted_at: now,
+          updated_at: now,
+        },
+        { onConflict: "candidate_id,stage,interviewer_id" }
+      )
+      .select(`
+        *,
+        interviewer:profiles!candidate_scorecards_interviewer_id_fkey(id, full_name, avatar_url)
+      `)
+      .single();
+
+    if (upsertError) {
+      console.error("Upsert error:", upsertError);
+      return NextResponse.json(
+        { error: "Failed to save scorecard", code: "DB_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    // Log activity
+    await supabase.from("candidate_activities").insert({
+      candidate_id: id,
+      activity_type: "scorecard_submitted",
+      performed_by: user.id,
+      metadata: { scorecard_id: scorecard.id, stage, decision },
+      is_internal: true,
+    });
+
+    return NextResponse.json(scorecard, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error in POST /api/candidates/[id]/scorecards:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
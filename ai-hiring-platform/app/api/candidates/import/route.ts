@@ -0,0 +1,250 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
+import { findDuplicateEmails, validateImportRow } from "@/lib/candidate-import";
+import { CANDIDATE_IMPORT } from "@/lib/constants";
+import { enqueueJobs } from "@/lib/queue";
+import type { ImportCandidatesResponse, ImportRowResult } from "@/types";
+
+// Validation schemas
+// Rows are validated one by one below so errors can be reported per row
+const importSchema = z.object({
+  job_id: z.string().uuid(),
+  import_id: z.string().uuid(),
+  format: z.enum(["csv", "greenhouse", "lever"]),
+  candidates: z.array(z.record(z.unknown())).min(1).max(CANDIDATE_IMPORT.maxRows),
+  dry_run: z.boolean().default(false),
+});
+
+const statusSchema = z.object({
+  job_id: z.string().uuid(),
+  import_id: z.string().uuid(),
+});
+
+/**
+ * GET /api/candidates/import?job_id=xxx&import_id=xxx
+ * Scoring progress of the candidates created by an import
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { auth, error: authError } = await requirePermission("candidate:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const validation = statusSchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { job_id, import_id } = validation.data;
+
+    const { data: candidates, error: dbError } = await supabase
+      .from("candidates")
+      .select("ai_score")
+      .eq("organization_id", organizationId)
+      .eq("job_id", job_id)
+      .eq("import_batch_id", import_id);
+
+    if (dbError) {
+      console.error("Database error:", dbError);
+      return NextResponse.json(
+        { error: "Failed to fetch import status", code: "DB_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      total: candidates.length,
+      scored: candidates.filter((c) => c.ai_score !== null).length,
+    });
+  } catch (error) {
+    console.error("Unexpected error in GET /api/candidates/import:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/candidates/import
+ * Bulk-create candidates for a job from mapped CSV/ATS export rows
+ *
+ * Each row is validated and checked for duplicates (same job + email,
+ * like POST /api/candidates, or repeated within the request). With
+ * `dry_run` nothing is written; otherwise valid rows are created and
+ * scored in the background. Large imports are sent in several requests
+ * sharing one `import_id`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { auth, error: authError } = await requirePermission("candidate:create");
+    if (authError) return authError;
+    const { supabase, user, organizationId } = auth;
+
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = importSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { job_id, import_id, format, candidates, dry_run } = validation.data;
+
+    // Verify job exists in the caller's organization and is active
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select("id, title, status")
+      .eq("id", job_id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: "Job not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== "active") {
+      return NextResponse.json(
+        { error: "Job is not accepting applications", code: "JOB_CLOSED" },
+        { status: 400 }
+      );
+    }
+
+    // Validate each row
+    const rows = candidates.map((candidate) => validateImportRow(candidate));
+    const emails = rows.map((row) => (row.valid ? row.data.email : undefined));
+
+    // Find emails that already applied to this job
+    const existingEmails = new Set<string>();
+    const validEmails = emails.filter((email): email is string => !!email);
+
+    // In chunks: the emails go in the query string. Imported emails are
+    // lowercased, existing ones may not be.
+    for (let start = 0; start < validEmails.length; start += CANDIDATE_IMPORT.duplicateCheckChunkSize) {
+      const { data: existing, error: existingError } = await supabase
+        .from("candidates")
+        .select("email_normalized")
+        .eq("job_id", job_id)
+        .in("email_normalized", validEmails.slice(start, start + CANDIDATE_IMPORT.duplicateCheckChunkSize));
+
+      if (existingError) {
+        console.error("Database error:", existingError);
+        return NextResponse.json(
+          { error: "Failed to check for duplicates", code: "DB_ERROR" },
+          { status: 500 }
+        );
+      }
+
+      existing.forEach((c) => existingEmails.add(c.email_normalized));
+    }
+
+    const repeatedInFile = findDuplicateEmails(emails);
+
+    const results: ImportRowResult[] = rows.map((row, index) => {
+      if (!row.valid) {
+        return { index, status: "invalid", errors: row.errors };
+      }
+      if (existingEmails.has(row.data.email)) {
+        return { index, status: "duplicate", errors: ["Already applied to this job"] };
+      }
+      if (repeatedInFile.has(index)) {
+        return { index, status: "duplicate", errors: ["Email appears earlier in the file"] };
+      }
+      return { index, status: "valid" };
+    });
+
+    const toCreate = results.flatMap((result) => {
+      const row = rows[result.index];
+      return result.status === "valid" && row.valid ? [{ index: result.index, data: row.data }] : [];
+    });
+
+    if (!dry_run && toCreate.length > 0) {
+      const now = new Date().toISOString();
+
+      const { data: created, error: insertError } = await supabase
+        .from("candidates")
+        .insert(
+          toCreate.map(({ data }) => ({
+            ...data,
+            job_id,
+            organization_id: organizationId,
+            stage: "applied",
+            applied_at: data.applied_at ?? now,
+            import_batch_id: import_id,
+          }))
+        )
+        .select("id");
+
+      if (insertError) {
+        console.error("Insert error:", insertError);
+        return NextResponse.json(
+          { error: "Failed to import candidates", code: "INSERT_FAILED" },
+          { status: 500 }
+        );
+      }
+
+      for (const { index } of toCreate) {
+        results[index].status = "created";
+      }
+
+      // Log activities
+      const { error: activityError } = await supabase
+        .from("candidate_activities")
+        .insert(
+          created.map((candidate) => ({
+            candidate_id: candidate.id,
+            performed_by: user.id,
+            activity_type: "candidate_imported",
+            new_value: "applied",
+            metadata: { job_title: job.title, format, import_id },
+          }))
+        );
+
+      if (activityError) {
+        console.error("Failed to log import activities:", activityError);
+      }
+
+      // Queue AI scoring (non-blocking on failure)
+      try {
+        await enqueueJobs(
+          created.map((candidate) => ({
+            type: "score_candidate" as const,
+            payload: { candidate_id: candidate.id },
+            organizationId,
+          }))
+        );
+      } catch (error) {
+        console.error("Failed to queue AI scoring:", error);
+      }
+    }
+
+    const response: ImportCandidatesResponse = {
+      results,
+      summary: {
+        valid: results.filter((r) => r.status === "valid").length,
+        invalid: results.filter((r) => r.status === "invalid").length,
+        duplicate: results.filter((r) => r.status === "duplicate").length,
+        created: results.filter((r) => r.status === "created").length,
+      },
+    };
+
+    return NextResponse.json(response, { status: dry_run ? 200 : 201 });
+  } catch (error) {
+    console.error("Unexpected error in POST /api/candidates/import:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
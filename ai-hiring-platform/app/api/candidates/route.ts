@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
-import { processAndScoreCandidate } from "@/lib/ai";
+import { requirePermission } from "@/lib/auth";
+import { enqueueJob } from "@/lib/queue";
+import { ScreeningAnswerSchema } from "@/types";
 
 // Validation schemas
 const listCandidatesSchema = z.object({
@@ -40,19 +41,19 @@ const createCandidateSchema = z.object({
   github_url: z.string().url().optional(),
   portfolio_url: z.string().url().optional(),
   cover_letter: z.string().optional(),
-  screening_answers: z.array(z.unknown()).optional(),
+  screening_answers: z.array(ScreeningAnswerSchema).optional(),
   source: z.string().default("direct"),
 });
 
 /**
  * GET /api/candidates
- * List candidates for a job (MVP: no auth required)
+ * List candidates for a job in the caller's organization
  */
 export async function GET(req: NextRequest) {
   try {
-    const supabase = await createClient();
-
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("candidate:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Parse and validate query parameters
     const searchParams = Object.fromEntries(req.nextUrl.searchParams);
@@ -72,11 +73,12 @@ export async function GET(req: NextRequest) {
       validation.data;
     const offset = (page - 1) * limit;
 
-    // MVP: Skip job ownership check - just verify job exists
+    // Verify the job belongs to the caller's organization
     const { data: job, error: jobError } = await supabase
       .from("jobs")
       .select("id")
       .eq("id", job_id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (jobError || !job) {
@@ -185,11 +187,13 @@ export async function GET(req: NextRequest) {
 
 /**
  * POST /api/candidates
- * Create a new candidate (for public applications or manual entry)
+ * Create a new candidate (manual entry by a recruiter)
  */
 export async function POST(req: NextRequest) {
   try {
-    const supabase = await createClient();
+    const { auth, error: authError } = await requirePermission("candidate:create");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Parse and validate request body
     const body = await req.json();
@@ -204,11 +208,12 @@ export async function POST(req: NextRequest) {
 
     const candidateData = validation.data;
 
-    // Verify job exists and is active (for public applications)
+    // Verify job exists in the caller's organization and is active
     const { data: job, error: jobError } = await supabase
       .from("jobs")
       .select("id, status")
       .eq("id", candidateData.job_id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (jobError || !job) {
@@ -245,6 +250,7 @@ export async function POST(req: NextRequest) {
       .from("candidates")
       .insert({
         ...candidateData,
+        organization_id: organizationId,
         stage: "applied",
         applied_at: new Date().toISOString(),
       })
@@ -259,20 +265,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Trigger AI scoring in the background (don't await to avoid blocking response)
-    // The scoring will update the candidate record asynchronously
-    processAndScoreCandidate({
-      id: candidate.id,
-      job_id: candidate.job_id,
-      full_name: candidate.full_name,
-      email: candidate.email,
-      github_url: candidate.github_url,
-      linkedin_url: candidate.linkedin_url,
-      cover_letter: candidate.cover_letter,
-      resume_text: candidate.resume_text,
-    }).catch((error) => {
-      console.error("Background AI scoring failed:", error);
-    });
+    // Queue AI scoring (non-blocking on failure)
+    // The scoring job will update the candidate record asynchronously
+    try {
+      await enqueueJob("score_candidate", { candidate_id: candidate.id }, { organizationId });
+    } catch (error) {
+      console.error("Failed to queue AI scoring:", error);
+    }
 
     return NextResponse.json(candidate, { status: 201 });
   } catch (error) {
@@ -0,0 +1,249 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getApplicationWindow, getCareersJob } from "@/lib/careers";
+import { enqueueJob } from "@/lib/queue";
+import { storeResume, validateResumeFile } from "@/lib/resume";
+import { validateScreeningAnswers } from "@/lib/screening";
+import { createAdminClient } from "@/lib/supabase/server";
+import { ScreeningAnswerSchema } from "@/types";
+
+// Empty strings from the form are treated as "not provided"
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .transform((val) => val || undefined);
+
+const optionalUrl = z
+  .string()
+  .trim()
+  .url("Invalid URL")
+  .optional()
+  .or(z.literal("").transform(() => undefined));
+
+// Validation schema
+const applySchema = z.object({
+  full_name: z.string().trim().min(2, "Name must be at least 2 characters").max(200),
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  phone: optionalText(50),
+  location: optionalText(200),
+  linkedin_url: optionalUrl,
+  github_url: optionalUrl,
+  portfolio_url: optionalUrl,
+  cover_letter: optionalText(10000),
+  screening_answers: z.array(ScreeningAnswerSchema).max(20).optional().default([]),
+  utm_source: optionalText(100),
+  utm_medium: optionalText(100),
+  utm_campaign: optionalText(100),
+});
+
+interface RouteParams {
+  params: Promise<{ orgSlug: string; jobSlug: string }>;
+}
+
+/**
+ * POST /api/careers/[orgSlug]/[jobSlug]/apply
+ * Public endpoint - submit an application from the careers page
+ *
+ * Accepts JSON, or multipart/form-data with the application JSON in an
+ * `application` field and an optional `resume` file.
+ *
+ * Creates the candidate in the job's organization and queues AI scoring.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgSlug, jobSlug } = await params;
+
+    const result = await getCareersJob(orgSlug, jobSlug);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Job not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const { organization, job } = result;
+
+    const applicationWindow = getApplicationWindow(job);
+    if (!applicationWindow.open) {
+      return NextResponse.json(
+        { error: applicationWindow.message, code: "JOB_CLOSED", reason: applicationWindow.reason },
+        { status: 400 }
+      );
+    }
+
+    // Parse request body (multipart when a resume is attached)
+    let body: unknown;
+    let resumeFile: File | null = null;
+
+    if (req.headers.get("content-type")?.includes("multipart/form-data")) {
+      const formData = await req.formData();
+      const resume = formData.get("resume");
+      resumeFile = resume instanceof File && resume.size > 0 ? resume : null;
+      try {
+        body = JSON.parse(String(formData.get("application") ?? "{}"));
+      } catch {
+        body = null;
+      }
+    } else {
+      body = await req.json();
+    }
+
+    const resumeValidation = resumeFile ? validateResumeFile(resumeFile) : null;
+    if (resumeValidation && !resumeValidation.valid) {
+      return NextResponse.json(
+        {
+          error: resumeValidation.error,
+          code: resumeValidation.code,
+          details: { formErrors: [], fieldErrors: { resume: [resumeValidation.error] } },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate application fields
+    const validation = applySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const application = validation.data;
+
+    // Enforce the job's required fields and screening questions
+    const missingFields: Record<string, string[]> = {};
+    if (job.require_cover_letter && !application.cover_letter) {
+      missingFields.cover_letter = ["A cover letter is required for this position"];
+    }
+    if (job.require_linkedin && !application.linkedin_url) {
+      missingFields.linkedin_url = ["A LinkedIn profile is required for this position"];
+    }
+    if (job.require_github && !application.github_url) {
+      missingFields.github_url = ["A GitHub profile is required for this position"];
+    }
+
+    const screeningErrors = validateScreeningAnswers(
+      job.screening_questions,
+      application.screening_answers
+    );
+    for (const [questionId, message] of Object.entries(screeningErrors)) {
+      missingFields[`screening.${questionId}`] = [message];
+    }
+
+    if (Object.keys(missingFields).length > 0) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: { formErrors: [], fieldErrors: missingFields },
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    // Check for duplicate application
+    const { data: existing } = await supabase
+      .from("candidates")
+      .select("id")
+      .eq("job_id", job.id)
+      .eq("email", application.email)
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "You have already applied for this position", code: "DUPLICATE" },
+        { status: 409 }
+      );
+    }
+
+    // Create candidate
+    // Only keep answers to questions the job actually asks
+    const questionIds = new Set(job.screening_questions.map((q) => q.id));
+    const screeningAnswers = application.screening_answers.filter((a) =>
+      questionIds.has(a.question_id)
+    );
+
+    const { data: candidate, error: insertError } = await supabase
+      .from("candidates")
+      .insert({
+        ...application,
+        screening_answers: screeningAnswers,
+        job_id: job.id,
+        organization_id: organization.id,
+        stage: "applied",
+        source: "careers_page",
+        applied_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Insert error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to submit application", code: "INSERT_FAILED" },
+        { status: 500 }
+      );
+    }
+
+    // Store the resume (failures don't block the application)
+    if (resumeFile && resumeValidation?.valid) {
+      try {
+        const resume = await storeResume(organization.id, candidate.id, resumeFile, resumeValidation);
+        const { error: resumeError } = await supabase
+          .from("candidates")
+          .update(resume)
+          .eq("id", candidate.id);
+
+        if (resumeError) {
+          console.error("Failed to save resume:", resumeError);
+        }
+      } catch (error) {
+        console.error("Failed to store resume:", error);
+      }
+    }
+
+    // Log activity (non-blocking on failure)
+    const { error: activityError } = await supabase
+      .from("candidate_activities")
+      .insert({
+        candidate_id: candidate.id,
+        activity_type: "application_submitted",
+        new_value: "applied",
+        metadata: {
+          job_title: job.title,
+          source: "careers_page",
+          utm_source: application.utm_source ?? null,
+        },
+      });
+
+    if (activityError) {
+      console.error("Failed to log application activity:", activityError);
+    }
+
+    // Queue AI scoring (non-blocking on failure)
+    try {
+      await enqueueJob("score_candidate", { candidate_id: candidate.id }, { organizationId: organization.id });
+    } catch (error) {
+      console.error("Failed to queue AI scoring:", error);
+    }
+
+    // Only confirm receipt - never echo the candidate record to the public
+    return NextResponse.json(
+      { success: true, message: "Application submitted successfully" },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Unexpected error in POST /api/careers/[orgSlug]/[jobSlug]/apply:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/server";
-import {
-  sendInterviewReminderEmail,
-  sendBatchEmails,
-  type EmailType,
-} from "@/lib/email";
+import type { EmailType } from "@/lib/email";
 import type { EmailTemplateData } from "@/lib/email/templates";
+import { enqueueJob } from "@/lib/queue";
 
 /**
  * GET /api/cron/interview-reminders
  * 
- * Cron job to send interview reminder emails
+ * Cron job to queue interview reminder emails
  * - 24-hour reminder: Sent day before scheduled time
  * - 1-hour reminder: Sent 1 hour before scheduled time
+ *
+ * Emails are queued as `send_email` background jobs so failed sends are
+ * retried by /api/cron/process-jobs.
  * 
  * Should run every 15 minutes via Vercel Cron
  */
@@ -41,6 +41,7 @@ export async function GET(request: NextRequest) {
       .from("ai_interviews")
       .select(`
         id,
+        organization_id,
         scheduled_at,
         interview_link,
         interview_duration_minutes,
@@ -68,6 +69,7 @@ export async function GET(request: NextRequest) {
       .from("ai_interviews")
       .select(`
         id,
+        organization_id,
         scheduled_at,
         interview_link,
         interview_duration_minutes,
@@ -95,6 +97,7 @@ export async function GET(request: NextRequest) {
       type: EmailType;
       data: EmailTemplateData;
       interviewId: string;
+      organizationId: string;
       reminderType: "24h" | "1h";
     }> = [];
 
@@ -117,6 +120,7 @@ export async function GET(request: NextRequest) {
             durationMinutes: interview.interview_duration_minutes || 30,
           },
           interviewId: interview.id,
+          organizationId: interview.organization_id,
           reminderType: "24h",
         });
       }
@@ -141,37 +145,35 @@ export async function GET(request: NextRequest) {
             durationMinutes: interview.interview_duration_minutes || 30,
           },
           interviewId: interview.id,
+          organizationId: interview.organization_id,
           reminderType: "1h",
         });
       }
     }
 
-    // Send emails
-    let sentCount = 0;
+    // Queue emails
+    let queuedCount = 0;
     let failedCount = 0;
     const errors: string[] = [];
 
     for (const email of emailsToSend) {
       try {
-        const result = await sendInterviewReminderEmail(
-          email.to,
-          email.data,
-          email.reminderType === "24h" ? 24 : 1
-        );
-
-        if (result.success) {
-          sentCount++;
-
-          // Update reminder_sent_at for 24h reminders
-          if (email.reminderType === "24h") {
-            await supabase
-              .from("ai_interviews")
-              .update({ reminder_sent_at: now.toISOString() })
-              .eq("id", email.interviewId);
+        await enqueueJob(
+          "send_email",
+          { to: email.to, type: email.type, data: email.data, interview_id: email.interviewId },
+          {
+            organizationId: email.organizationId,
+            dedupeKey: `${email.type}:${email.interviewId}`,
           }
-        } else {
-          failedCount++;
-          errors.push(`${email.to}: ${result.error}`);
+        );
+        queuedCount++;
+
+        // Update reminder_sent_at for 24h reminders
+        if (email.reminderType === "24h") {
+          await supabase
+            .from("ai_interviews")
+            .update({ reminder_sent_at: now.toISOString() })
+            .eq("id", email.interviewId);
         }
       } catch (err) {
         failedCount++;
@@ -183,7 +185,7 @@ export async function GET(request: NextRequest) {
       success: true,
       summary: {
         total_checked: (interviews24h?.length || 0) + (interviews1h?.length || 0),
-        emails_sent: sentCount,
+        emails_queued: queuedCount,
         emails_failed: failedCount,
         timestamp: now.toISOString(),
       },
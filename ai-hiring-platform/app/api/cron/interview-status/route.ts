@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/server";
+import { interviewDeadline, isPastDeadline, normalizeTimeMultiplier } from "@/lib/interview-clock";
+import {
+  completeInterview,
+  INTERVIEW_CLOCK_COLUMNS,
+  joinedTimeMultiplier,
+} from "@/lib/interview-completion";
 
 /**
  * GET /api/cron/interview-status
@@ -7,7 +13,8 @@ import { createAdminClient } from "@/lib/supabase/server";
  * Cron job to update interview statuses based on time
  * - Mark "scheduled" as "ready" when scheduled time has passed
  * - Mark "ready" as "missed" if 2+ hours past scheduled time without starting
- * - Mark "in_progress" as "abandoned" if no activity for 2+ hours
+ * - Submit timed "in_progress" interviews whose time limit has run out
+ * - Mark "in_progress" as "abandoned" if no activity (answers or page heartbeat) for 2+ hours
  * - Mark interviews as "expired" when expiration time has passed
  * 
  * Should run every 5 minutes via Vercel Cron
@@ -29,6 +36,7 @@ export async function GET(request: NextRequest) {
     const updates = {
       scheduled_to_ready: 0,
       ready_to_missed: 0,
+      in_progress_time_up: 0,
       in_progress_to_abandoned: 0,
       expired: 0,
     };
@@ -92,12 +100,39 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // 3. Mark "in_progress" interviews as "abandoned" if no update for 2+ hours
+    // 3. Submit timed interviews whose time ran out with the answers saved so far
+    //    (before the abandoned check, so they are evaluated rather than abandoned)
+    const { data: timedInterviews, error: timedError } = await supabase
+      .from("ai_interviews")
+      .select(`id, candidate_id, organization_id, ${INTERVIEW_CLOCK_COLUMNS}`)
+      .eq("status", "in_progress")
+      .eq("enforce_time_limit", true)
+      .not("started_at", "is", null);
+
+    if (timedError) {
+      console.error("Error fetching timed interviews:", timedError);
+    } else {
+      for (const interview of timedInterviews ?? []) {
+        const multiplier = normalizeTimeMultiplier(joinedTimeMultiplier(interview));
+        if (!isPastDeadline(interviewDeadline(interview, multiplier), now)) continue;
+
+        try {
+          if (await completeInterview(interview, { timeUp: true, now })) {
+            updates.in_progress_time_up++;
+          }
+        } catch (completeError) {
+          console.error(`Error submitting timed-out interview ${interview.id}:`, completeError);
+        }
+      }
+    }
+
+    // 4. Mark "in_progress" interviews as "abandoned" if no update or heartbeat for 2+ hours
     const { data: inProgressInterviews, error: inProgressError } = await supabase
       .from("ai_interviews")
       .select("id, candidate_id")
       .eq("status", "in_progress")
-      .lte("updated_at", twoHoursAgo.toISOString());
+      .lte("updated_at", twoHoursAgo.toISOString())
+      .or(`last_heartbeat_at.is.null,last_heartbeat_at.lte.${twoHoursAgo.toISOString()}`);
 
     if (inProgressError) {
       console.error("Error fetching in_progress interviews:", inProgressError);
@@ -126,11 +161,11 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // 4. Mark interviews as "expired" when expiration time has passed
+    // 5. Mark interviews as "expired" when expiration time has passed
     const { data: expiredInterviews, error: expiredError } = await supabase
       .from("ai_interviews")
       .select("id, candidate_id")
-      .in("status", ["scheduled", "ready", "pending"])
+      .in("status", ["awaiting_booking", "scheduled", "ready", "pending"])
       .lte("expires_at", now.toISOString());
 
     if (expiredError) {
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processBackgroundJobs } from "@/lib/queue/worker";
+
+/**
+ * GET /api/cron/process-jobs
+ * 
+ * Cron job that runs due background jobs (candidate scoring, question
+ * pre-generation, emails, interview evaluation). Failed jobs are retried
+ * with exponential backoff until they reach max_attempts.
+ * 
+ * Should run every minute via Vercel Cron
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    // In production, verify the cron secret
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const summary = await processBackgroundJobs({ limit: 20 });
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        ...summary,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Cron job error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
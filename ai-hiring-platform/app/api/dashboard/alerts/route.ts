@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { requirePermission } from "@/lib/auth";
 
 interface DashboardAlert {
   id: string;
@@ -11,11 +11,13 @@ interface DashboardAlert {
 
 /**
  * GET /api/dashboard/alerts
- * Get actionable alerts for the dashboard (MVP: no auth required)
+ * Get actionable alerts for the dashboard for the organization
  */
 export async function GET() {
   try {
-    const supabase = await createClient();
+    const { auth, error: authError } = await requirePermission("candidate:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
     const alerts: DashboardAlert[] = [];
 
     // 1. High-scoring candidates (ai_score >= 90) in 'applied' stage per job
@@ -25,6 +27,7 @@ export async function GET() {
         job_id,
         job:jobs!inner(id, title)
       `)
+      .eq("organization_id", organizationId)
       .gte("ai_score", 90)
       .eq("stage", "applied")
       .eq("is_archived", false);
@@ -63,6 +66,7 @@ export async function GET() {
     const { count: pendingInterviewsCount, error: pendingError } = await supabase
       .from("ai_interviews")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .in("status", ["pending", "scheduled"])
       .is("started_at", null);
 
@@ -84,6 +88,7 @@ export async function GET() {
     const { count: completedInterviewsCount, error: completedError } = await supabase
       .from("ai_interviews")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .eq("status", "completed")
       .is("reviewed_at", null);
 
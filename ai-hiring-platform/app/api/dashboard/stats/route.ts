@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { requirePermission } from "@/lib/auth";
 
 interface StatWithTrend {
   value: number;
@@ -15,11 +15,13 @@ interface DashboardStats {
 
 /**
  * GET /api/dashboard/stats
- * Get aggregated dashboard statistics (MVP: no auth required)
+ * Get aggregated dashboard statistics for the organization
  */
 export async function GET() {
   try {
-    const supabase = await createClient();
+    const { auth, error: authError } = await requirePermission("job:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Get current date boundaries
     const now = new Date();
@@ -37,6 +39,7 @@ export async function GET() {
     const { count: activeJobsCount, error: activeJobsError } = await supabase
       .from("jobs")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .eq("status", "active")
       .eq("is_archived", false);
 
@@ -48,6 +51,7 @@ export async function GET() {
     const { count: activeJobsLastWeek } = await supabase
       .from("jobs")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .eq("status", "active")
       .eq("is_archived", false)
       .lt("created_at", weekAgo.toISOString());
@@ -56,6 +60,7 @@ export async function GET() {
     const { count: newApplicationsCount, error: newAppsError } = await supabase
       .from("candidates")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .gte("applied_at", weekAgo.toISOString());
 
     if (newAppsError) {
@@ -66,6 +71,7 @@ export async function GET() {
     const { count: applicationsLastWeek } = await supabase
       .from("candidates")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .gte("applied_at", twoWeeksAgo.toISOString())
       .lt("applied_at", weekAgo.toISOString());
 
@@ -73,6 +79,7 @@ export async function GET() {
     const { count: aiMatchesTodayCount, error: aiMatchesError } = await supabase
       .from("candidates")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .gte("ai_score", 80)
       .gte("updated_at", today.toISOString());
 
@@ -84,6 +91,7 @@ export async function GET() {
     const { count: aiMatchesYesterday } = await supabase
       .from("candidates")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .gte("ai_score", 80)
       .gte("updated_at", yesterday.toISOString())
       .lt("updated_at", today.toISOString());
@@ -92,6 +100,7 @@ export async function GET() {
     const { count: hiredThisWeekCount, error: hiredError } = await supabase
       .from("candidates")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .eq("stage", "hired")
       .gte("updated_at", weekAgo.toISOString());
 
@@ -103,6 +112,7 @@ export async function GET() {
     const { count: hiredLastWeek } = await supabase
       .from("candidates")
       .select("*", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
       .eq("stage", "hired")
       .gte("updated_at", twoWeeksAgo.toISOString())
       .lt("updated_at", weekAgo.toISOString());
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+import { getEmailTransportName } from "@/lib/email/transports";
+import { clearOutbox, listOutboxEmails } from "@/lib/email/transports/outbox";
+import type { ListOutboxEmailsResponse } from "@/types";
+
+/**
+ * The mailbox only exists while emails go to the outbox, and never in
+ * production: the outbox holds every organization's emails
+ */
+function mailboxUnavailable() {
+  if (getEmailTransportName() === "outbox" && process.env.NODE_ENV !== "production") {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      error: "The dev mailbox is only available with EMAIL_TRANSPORT=outbox outside production",
+      code: "NOT_FOUND",
+    },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/dev/mailbox
+ * List emails kept by the outbox transport, newest first (admins only)
+ *
+ * Query params:
+ * - limit: Max results (default: 50, max: 200)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const unavailable = mailboxUnavailable();
+    if (unavailable) return unavailable;
+
+    const { error: authError } = await requirePermission("org:manage");
+    if (authError) return authError;
+
+    const { searchParams } = new URL(req.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1), 200);
+
+    const response: ListOutboxEmailsResponse = { emails: await listOutboxEmails(limit) };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Unexpected error in GET /api/dev/mailbox:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/dev/mailbox
+ * Empty the outbox (admins only)
+ */
+export async function DELETE() {
+  try {
+    const unavailable = mailboxUnavailable();
+    if (unavailable) return unavailable;
+
+    const { error: authError } = await requirePermission("org:manage");
+    if (authError) return authError;
+
+    await clearOutbox();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unexpected error in DELETE /api/dev/mailbox:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { isSlotAvailable, parseAvailability } from "@/lib/interview-availability";
+import { calendarSequence } from "@/lib/email/calendar";
+import { enqueueJob } from "@/lib/queue";
+import { BookInterviewRequestSchema } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/interviews/[id]/book
+ * The candidate picks the start time of an interview sent as a booking link
+ *
+ * The start must fit the availability the recruiter set when scheduling.
+ * The interview then becomes `scheduled`, expires 24 hours after the chosen
+ * time, and the candidate gets the scheduled email with its calendar invite.
+ *
+ * The [id] parameter can be either the interview ID or the access_token.
+ * For public interview links, the access_token is used as the route param.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = BookInterviewRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, scheduled_at, timezone } = validation.data;
+    const supabase = createAdminClient();
+
+    // Build query - support lookup by access_token (for public interview links)
+    let query = supabase
+      .from("ai_interviews")
+      .select(`
+        id,
+        status,
+        interview_duration_minutes,
+        interview_link,
+        candidate_timezone,
+        custom_message,
+        organization_id,
+        candidate_id,
+        availability,
+        candidates:candidate_id (email, full_name),
+        jobs:job_id (title)
+      `);
+
+    // If token matches id, look up by access_token (public interview link pattern)
+    if (token === id) {
+      query = query.eq("access_token", token);
+    } else {
+      query = query.eq("id", id).eq("access_token", token);
+    }
+
+    const { data: interview, error: fetchError } = await query.single();
+
+    if (fetchError || !interview) {
+      return NextResponse.json(
+        {
+          error: "Invalid interview or access token",
+          code: "INVALID_TOKEN",
+        },
+        { status: 401 }
+      );
+    }
+
+    if (interview.status !== "awaiting_booking") {
+      return NextResponse.json(
+        {
+          error: `Cannot book an interview with status: ${interview.status}`,
+          code: "INVALID_STATUS",
+        },
+        { status: 400 }
+      );
+    }
+
+    // For availabilities in local time: the timezone set when scheduling, else the browser's
+    const candidateTimezone = interview.candidate_timezone || timezone;
+    const durationMinutes = interview.interview_duration_minutes || 30;
+    const scheduledDate = new Date(scheduled_at);
+    const availability = parseAvailability(interview.availability);
+    if (
+      !availability ||
+      !isSlotAvailable(availability, scheduledDate, durationMinutes, { candidateTimezone })
+    ) {
+      return NextResponse.json(
+        {
+          error: "That time isn't available. Please pick one of the offered times.",
+          code: "SLOT_UNAVAILABLE",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Calculate expiration (24 hours after scheduled time)
+    const expiresAt = new Date(scheduledDate);
+    expiresAt.setHours(expiresAt.getHours() + 24);
+
+    // The status guard stops two tabs from both booking
+    const now = new Date();
+    const { data: booked, error: updateError } = await supabase
+      .from("ai_interviews")
+      .update({
+        status: "scheduled",
+        scheduled_at: scheduledDate.toISOString(),
+        expires_at: expiresAt.toISOString(),
+        booked_at: now.toISOString(),
+        candidate_timezone: candidateTimezone,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", interview.id)
+      .eq("status", "awaiting_booking")
+      .select("id");
+
+    if (updateError) {
+      console.error("Failed to book interview:", updateError);
+      return NextResponse.json(
+        {
+          error: "Failed to book interview",
+          code: "DATABASE_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!booked || booked.length === 0) {
+      return NextResponse.json(
+        {
+          error: "The interview changed in the meantime. Please reload the page.",
+          code: "CONFLICT",
+        },
+        { status: 409 }
+      );
+    }
+
+    await supabase.from("candidate_activities").insert({
+      candidate_id: interview.candidate_id,
+      activity_type: "interview_scheduled",
+      metadata: {
+        interview_id: interview.id,
+        scheduled_at: scheduledDate.toISOString(),
+        duration_minutes: durationMinutes,
+        booked_by_candidate: true,
+      },
+      notes: `Candidate booked the AI interview for ${scheduledDate.toLocaleString()}`,
+      is_internal: false,
+    });
+
+    // Confirm with a calendar invite (non-blocking on failure)
+    const candidate = interview.candidates as unknown as { email: string | null; full_name: string | null } | null;
+    const job = interview.jobs as unknown as { title: string } | null;
+    if (candidate?.email) {
+      try {
+        await enqueueJob(
+          "send_email",
+          {
+            to: candidate.email,
+            type: "interview_scheduled",
+            data: {
+              candidateName: candidate.full_name || "Candidate",
+              jobTitle: job?.title || "the role",
+              interviewLink: interview.interview_link || "",
+              scheduledAt: scheduledDate.toISOString(),
+              durationMinutes,
+              customMessage: interview.custom_message ?? undefined,
+              interviewId: interview.id,
+              timezone: candidateTimezone,
+              calendarSequence: calendarSequence(now),
+            },
+            interview_id: interview.id,
+          },
+          { organizationId: interview.organization_id, dedupeKey: `interview_scheduled:${interview.id}` }
+        );
+      } catch (error) {
+        console.error("Failed to queue booking confirmation:", error);
+      }
+    }
+
+    return NextResponse.json({
+      scheduled_at: scheduledDate.toISOString(),
+      expires_at: expiresAt.toISOString(),
+      message: "Interview booked successfully",
+    });
+  } catch (error) {
+    console.error("Unexpected error in POST /api/interviews/[id]/book:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import {
+  buildInterviewClock,
+  interviewDeadline,
+  isPastDeadline,
+  normalizeTimeMultiplier,
+} from "@/lib/interview-clock";
+import {
+  completeInterview,
+  INTERVIEW_CLOCK_COLUMNS,
+  joinedTimeMultiplier,
+  startQuestionClock,
+} from "@/lib/interview-completion";
+import { InterviewClockRequestSchema } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/interviews/[id]/clock
+ * Get the interview clock (InterviewClock) for the candidate's countdown
+ *
+ * Sending `question_id` marks that question as opened, which starts its
+ * time limit the first time. Once the interview's time limit has passed,
+ * the interview is submitted and `time_up` is set.
+ *
+ * The candidate's page syncs every minute, so this is also its heartbeat
+ * for the abandonment check.
+ *
+ * The [id] parameter can be either the interview ID or the access_token.
+ * For public interview links, the access_token is used as the route param.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = InterviewClockRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, question_id } = validation.data;
+    const supabase = createAdminClient();
+
+    // Build query - support lookup by access_token (for public interview links)
+    let query = supabase
+      .from("ai_interviews")
+      .select(`id, status, candidate_id, organization_id, ${INTERVIEW_CLOCK_COLUMNS}`);
+
+    // If token matches id, look up by access_token (public interview link pattern)
+    if (token === id) {
+      query = query.eq("access_token", token);
+    } else {
+      query = query.eq("id", id).eq("access_token", token);
+    }
+
+    const { data: interview, error: fetchError } = await query.single();
+
+    if (fetchError || !interview) {
+      return NextResponse.json(
+        {
+          error: "Invalid interview or access token",
+          code: "INVALID_TOKEN",
+        },
+        { status: 401 }
+      );
+    }
+
+    if (interview.status !== "in_progress") {
+      return NextResponse.json(
+        {
+          error: `Interview is ${interview.status}`,
+          code: "INVALID_STATUS",
+          details: { status: interview.status },
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const multiplier = normalizeTimeMultiplier(joinedTimeMultiplier(interview));
+
+    if (isPastDeadline(interviewDeadline(interview, multiplier), now)) {
+      await completeInterview(interview, { timeUp: true, now });
+      return NextResponse.json(buildInterviewClock(interview, multiplier, null, true, now));
+    }
+
+    await supabase
+      .from("ai_interviews")
+      .update({ last_heartbeat_at: now.toISOString() })
+      .eq("id", interview.id);
+
+    let question: { id: string; started_at: string | null } | null = null;
+    if (question_id) {
+      const { data } = await supabase
+        .from("interview_questions")
+        .select("id, started_at")
+        .eq("id", question_id)
+        .eq("interview_id", interview.id)
+        .single();
+
+      if (!data) {
+        return NextResponse.json(
+          { error: "Question not found", code: "NOT_FOUND" },
+          { status: 404 }
+        );
+      }
+
+      // Opening the question starts its time limit the first time
+      question = await startQuestionClock(interview, data, now, { opened: true });
+    }
+
+    return NextResponse.json(buildInterviewClock(interview, multiplier, question, false, now));
+  } catch (error) {
+    console.error("Unexpected error in POST /api/interviews/[id]/clock:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
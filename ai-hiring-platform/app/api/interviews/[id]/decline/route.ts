@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { calendarSequence } from "@/lib/email/calendar";
+import { enqueueJob } from "@/lib/queue";
+import { getAppUrl } from "@/lib/utils";
+import { DeclineInterviewRequestSchema } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/interviews/[id]/decline
+ * The candidate declines their scheduled interview
+ *
+ * The interview is cancelled and the recruiter who created the job is
+ * emailed. The candidate gets the cancellation email, whose calendar invite
+ * removes the interview from their calendar. Only interviews that haven't
+ * started can be declined.
+ *
+ * The [id] parameter can be either the interview ID or the access_token.
+ * For public interview links, the access_token is used as the route param.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = DeclineInterviewRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, reason } = validation.data;
+    const supabase = createAdminClient();
+
+    // Build query - support lookup by access_token (for public interview links)
+    let query = supabase
+      .from("ai_interviews")
+      .select(`
+        id,
+        status,
+        started_at,
+        scheduled_at,
+        interview_duration_minutes,
+        interview_link,
+        candidate_timezone,
+        organization_id,
+        candidate_id,
+        job_id,
+        candidates:candidate_id (email, full_name),
+        jobs:job_id (title, created_by)
+      `);
+
+    // If token matches id, look up by access_token (public interview link pattern)
+    if (token === id) {
+      query = query.eq("access_token", token);
+    } else {
+      query = query.eq("id", id).eq("access_token", token);
+    }
+
+    const { data: interview, error: fetchError } = await query.single();
+
+    if (fetchError || !interview) {
+      return NextResponse.json(
+        {
+          error: "Invalid interview or access token",
+          code: "INVALID_TOKEN",
+        },
+        { status: 401 }
+      );
+    }
+
+    if (interview.status !== "scheduled" || interview.started_at) {
+      return NextResponse.json(
+        {
+          error: `Cannot decline an interview with status: ${interview.status}`,
+          code: "INVALID_STATUS",
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const { data: declined, error: updateError } = await supabase
+      .from("ai_interviews")
+      .update({
+        status: "cancelled",
+        declined_at: now.toISOString(),
+        decline_reason: reason ?? null,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", interview.id)
+      .eq("status", "scheduled")
+      .select("id");
+
+    if (updateError) {
+      console.error("Failed to decline interview:", updateError);
+      return NextResponse.json(
+        {
+          error: "Failed to decline interview",
+          code: "DATABASE_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!declined || declined.length === 0) {
+      return NextResponse.json(
+        {
+          error: "The interview changed in the meantime. Please reload the page.",
+          code: "CONFLICT",
+        },
+        { status: 409 }
+      );
+    }
+
+    await supabase.from("candidate_activities").insert({
+      candidate_id: interview.candidate_id,
+      activity_type: "interview_declined",
+      metadata: {
+        interview_id: interview.id,
+        scheduled_at: interview.scheduled_at,
+        reason,
+      },
+      notes: "Candidate declined the AI interview",
+      is_internal: false,
+    });
+
+    // Notify the candidate and the recruiter (non-blocking on failure)
+    const candidate = interview.candidates as unknown as { email: string | null; full_name: string | null } | null;
+    const job = interview.jobs as unknown as { title: string; created_by: string | null } | null;
+    try {
+      if (candidate?.email && interview.scheduled_at) {
+        await enqueueJob(
+          "send_email",
+          {
+            to: candidate.email,
+            type: "interview_cancelled",
+            data: {
+              candidateName: candidate.full_name || "Candidate",
+              jobTitle: job?.title || "the role",
+              interviewLink: interview.interview_link || "",
+              scheduledAt: interview.scheduled_at,
+              durationMinutes: interview.interview_duration_minutes || 30,
+              cancellationReason: "You declined this interview",
+              interviewId: interview.id,
+              timezone: interview.candidate_timezone,
+              calendarSequence: calendarSequence(now),
+            },
+            interview_id: interview.id,
+          },
+          { organizationId: interview.organization_id, dedupeKey: `interview_cancelled:${interview.id}` }
+        );
+      }
+
+      const { data: recruiter } = job?.created_by
+        ? await supabase.from("profiles").select("email, full_name").eq("id", job.created_by).single()
+        : { data: null };
+      if (recruiter?.email) {
+        await enqueueJob(
+          "send_email",
+          {
+            to: recruiter.email,
+            type: "interview_declined",
+            data: {
+              candidateName: candidate?.full_name || "A candidate",
+              jobTitle: job?.title || "the role",
+              interviewLink: `${getAppUrl()}/jobs/${interview.job_id}`,
+              scheduledAt: interview.scheduled_at ?? now.toISOString(),
+              durationMinutes: interview.interview_duration_minutes || 30,
+              recipientName: recruiter.full_name || "there",
+              candidateReason: reason,
+            },
+            interview_id: interview.id,
+          },
+          { organizationId: interview.organization_id, dedupeKey: `interview_declined:${interview.id}` }
+        );
+      }
+    } catch (error) {
+      console.error("Failed to queue decline emails:", error);
+    }
+
+    return NextResponse.json({ message: "Interview declined" });
+  } catch (error) {
+    console.error("Unexpected error in POST /api/interviews/[id]/decline:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import {
+  interviewDeadline,
+  isPastDeadline,
+  normalizeTimeMultiplier,
+  questionDeadline,
+} from "@/lib/interview-clock";
+import {
+  completeInterview,
+  INTERVIEW_CLOCK_COLUMNS,
+  joinedTimeMultiplier,
+  startQuestionClock,
+} from "@/lib/interview-completion";
+import { SaveDraftRequestSchema, type SaveDraftResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/interviews/[id]/draft
+ * Autosave the answer the candidate is writing
+ *
+ * Drafts let a refresh or crash resume where the candidate left off, and
+ * count as the answer if the interview's time runs out before it's saved.
+ * Saving a draft is also a heartbeat for the abandonment check.
+ *
+ * The [id] parameter can be either the interview ID or the access_token.
+ * For public interview links, the access_token is used as the route param.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = SaveDraftRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, question_id, draft, language } = validation.data;
+    const supabase = createAdminClient();
+
+    // Build query - support lookup by access_token (for public interview links)
+    let query = supabase
+      .from("ai_interviews")
+      .select(`id, status, candidate_id, organization_id, ${INTERVIEW_CLOCK_COLUMNS}`);
+
+    // If token matches id, look up by access_token (public interview link pattern)
+    if (token === id) {
+      query = query.eq("access_token", token);
+    } else {
+      query = query.eq("id", id).eq("access_token", token);
+    }
+
+    const { data: interview, error: fetchError } = await query.single();
+
+    if (fetchError || !interview) {
+      return NextResponse.json(
+        {
+          error: "Invalid interview or access token",
+          code: "INVALID_TOKEN",
+        },
+        { status: 401 }
+      );
+    }
+
+    if (interview.status !== "in_progress") {
+      return NextResponse.json(
+        {
+          error: `Cannot save a draft for interview with status: ${interview.status}`,
+          code: "INVALID_STATUS",
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const multiplier = normalizeTimeMultiplier(joinedTimeMultiplier(interview));
+
+    if (isPastDeadline(interviewDeadline(interview, multiplier), now)) {
+      await completeInterview(interview, { timeUp: true, now });
+      return NextResponse.json(
+        {
+          error: "Time is up for this interview. Your saved answers have been submitted.",
+          code: "TIME_EXPIRED",
+        },
+        { status: 410 }
+      );
+    }
+
+    const { data: found } = await supabase
+      .from("interview_questions")
+      .select("id, started_at, candidate_answer")
+      .eq("id", question_id)
+      .eq("interview_id", interview.id)
+      .single();
+
+    if (!found) {
+      return NextResponse.json(
+        { error: "Question not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    // Starts the question's time limit if the page never opened it
+    const question = await startQuestionClock(interview, found, now);
+
+    if (question.candidate_answer !== null) {
+      return NextResponse.json(
+        { error: "This question has already been answered", code: "ALREADY_ANSWERED" },
+        { status: 409 }
+      );
+    }
+
+    if (isPastDeadline(questionDeadline(interview, question, multiplier), now)) {
+      return NextResponse.json(
+        {
+          error: "Time is up for this question",
+          code: "QUESTION_TIME_EXPIRED",
+        },
+        { status: 409 }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from("interview_questions")
+      .update({
+        draft_answer: draft,
+        draft_saved_at: now.toISOString(),
+        ...(language && { code_language: language }),
+      })
+      .eq("id", question.id);
+
+    if (updateError) {
+      console.error("Failed to save draft:", updateError);
+      return NextResponse.json(
+        {
+          error: "Failed to save draft",
+          code: "DATABASE_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+
+    await supabase
+      .from("ai_interviews")
+      .update({ last_heartbeat_at: now.toISOString() })
+      .eq("id", interview.id);
+
+    const response: SaveDraftResponse = {
+      question_id: question.id,
+      saved_at: now.toISOString(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Unexpected error in PUT /api/interviews/[id]/draft:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import {
+  candidateRescheduleStatus,
+  isSlotAvailable,
+  parseAvailability,
+} from "@/lib/interview-availability";
+import { calendarSequence } from "@/lib/email/calendar";
+import { enqueueJob } from "@/lib/queue";
+import { getAppUrl } from "@/lib/utils";
+import { CandidateRescheduleRequestSchema } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/interviews/[id]/reschedule
+ * The candidate moves their scheduled interview to another slot
+ *
+ * The new start must fit the availability the recruiter set when
+ * scheduling, and the candidate can only reschedule
+ * `max_candidate_reschedules` times. Both the candidate and the recruiter
+ * who created the job are emailed. Recruiters reschedule with
+ * PATCH /api/interviews/[id] instead.
+ *
+ * The [id] parameter can be either the interview ID or the access_token.
+ * For public interview links, the access_token is used as the route param.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = CandidateRescheduleRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, scheduled_at, reason } = validation.data;
+    const supabase = createAdminClient();
+
+    // Build query - support lookup by access_token (for public interview links)
+    let query = supabase
+      .from("ai_interviews")
+      .select(`
+        id,
+        status,
+        started_at,
+        scheduled_at,
+        interview_duration_minutes,
+        interview_link,
+        candidate_timezone,
+        organization_id,
+        candidate_id,
+        job_id,
+        availability,
+        max_candidate_reschedules,
+        candidate_reschedule_count,
+        candidates:candidate_id (email, full_name),
+        jobs:job_id (title, created_by)
+      `);
+
+    // If token matches id, look up by access_token (public interview link pattern)
+    if (token === id) {
+      query = query.eq("access_token", token);
+    } else {
+      query = query.eq("id", id).eq("access_token", token);
+    }
+
+    const { data: interview, error: fetchError } = await query.single();
+
+    if (fetchError || !interview) {
+      return NextResponse.json(
+        {
+          error: "Invalid interview or access token",
+          code: "INVALID_TOKEN",
+        },
+        { status: 401 }
+      );
+    }
+
+    const rescheduleStatus = candidateRescheduleStatus(interview);
+    if (!rescheduleStatus.allowed) {
+      return NextResponse.json(
+        { error: rescheduleStatus.reason, code: "RESCHEDULE_NOT_ALLOWED" },
+        { status: 409 }
+      );
+    }
+
+    const durationMinutes = interview.interview_duration_minutes || 30;
+    const scheduledDate = new Date(scheduled_at);
+    const availability = parseAvailability(interview.availability)!;
+    if (
+      !isSlotAvailable(availability, scheduledDate, durationMinutes, {
+        candidateTimezone: interview.candidate_timezone,
+      })
+    ) {
+      return NextResponse.json(
+        {
+          error: "That time isn't available. Please pick one of the offered times.",
+          code: "SLOT_UNAVAILABLE",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Calculate new expiration (24 hours after new scheduled time)
+    const expiresAt = new Date(scheduledDate);
+    expiresAt.setHours(expiresAt.getHours() + 24);
+
+    // The count guard stops two tabs from both using the last reschedule
+    const { data: updated, error: updateError } = await supabase
+      .from("ai_interviews")
+      .update({
+        scheduled_at: scheduledDate.toISOString(),
+        expires_at: expiresAt.toISOString(),
+        candidate_reschedule_count: interview.candidate_reschedule_count + 1,
+        reminder_sent_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", interview.id)
+      .eq("status", "scheduled")
+      .eq("candidate_reschedule_count", interview.candidate_reschedule_count)
+      .select("id");
+
+    if (updateError) {
+      console.error("Failed to reschedule interview:", updateError);
+      return NextResponse.json(
+        {
+          error: "Failed to reschedule interview",
+          code: "DATABASE_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!updated || updated.length === 0) {
+      return NextResponse.json(
+        {
+          error: "The interview changed in the meantime. Please reload the page.",
+          code: "CONFLICT",
+        },
+        { status: 409 }
+      );
+    }
+
+    await supabase.from("candidate_activities").insert({
+      candidate_id: interview.candidate_id,
+      activity_type: "interview_rescheduled",
+      metadata: {
+        interview_id: interview.id,
+        old_scheduled_at: interview.scheduled_at,
+        new_scheduled_at: scheduledDate.toISOString(),
+        reason,
+        by_candidate: true,
+      },
+      notes: `Candidate rescheduled the interview to ${scheduledDate.toLocaleString()}`,
+      is_internal: false,
+    });
+
+    // Notify the candidate and the recruiter (non-blocking on failure)
+    const candidate = interview.candidates as unknown as { email: string | null; full_name: string | null } | null;
+    const job = interview.jobs as unknown as { title: string; created_by: string | null } | null;
+    const emailData = {
+      candidateName: candidate?.full_name || "Candidate",
+      jobTitle: job?.title || "the role",
+      interviewLink: interview.interview_link || "",
+      scheduledAt: scheduledDate.toISOString(),
+      oldScheduledAt: interview.scheduled_at ?? undefined,
+      durationMinutes,
+      rescheduledByCandidate: true,
+      candidateReason: reason,
+      interviewId: interview.id,
+      timezone: interview.candidate_timezone,
+      calendarSequence: calendarSequence(),
+    };
+    const dedupeKey = `interview_rescheduled:${interview.id}:${interview.candidate_reschedule_count + 1}`;
+
+    try {
+      if (candidate?.email) {
+        await enqueueJob(
+          "send_email",
+          { to: candidate.email, type: "interview_rescheduled", data: emailData, interview_id: interview.id },
+          { organizationId: interview.organization_id, dedupeKey }
+        );
+      }
+
+      const { data: recruiter } = job?.created_by
+        ? await supabase.from("profiles").select("email, full_name").eq("id", job.created_by).single()
+        : { data: null };
+      if (recruiter?.email) {
+        await enqueueJob(
+          "send_email",
+          {
+            to: recruiter.email,
+            type: "interview_rescheduled",
+            data: {
+              ...emailData,
+              recipientName: recruiter.full_name || "there",
+              interviewLink: `${getAppUrl()}/jobs/${interview.job_id}`,
+            },
+            interview_id: interview.id,
+          },
+          { organizationId: interview.organization_id, dedupeKey: `${dedupeKey}:recruiter` }
+        );
+      }
+    } catch (error) {
+      console.error("Failed to queue reschedule emails:", error);
+    }
+
+    return NextResponse.json({
+      scheduled_at: scheduledDate.toISOString(),
+      expires_at: expiresAt.toISOString(),
+      reschedules_remaining: rescheduleStatus.remaining - 1,
+      message: "Interview rescheduled successfully",
+    });
+  } catch (error) {
+    console.error("Unexpected error in POST /api/interviews/[id]/reschedule:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,11 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { requirePermission } from "@/lib/auth";
+import {
+  computeInterviewScore,
+  parseInterviewScoringConfig,
+  scoredAnswerFromRow,
+} from "@/lib/interview-scoring";
+import { InterviewReviewRequestSchema, type Json } from "@/types";
 
 /**
  * POST /api/interviews/:id/review
@@ -8,9 +14,6 @@ import { createClient } from "@/lib/supabase/server";
  * This endpoint is called when a recruiter views a completed interview summary.
  * It sets the reviewed_at timestamp, which removes the interview from the
  * "Needs Your Attention" alerts on the dashboard.
- * 
- * MVP: No authentication required. In production, reviewed_by would be set
- * to the authenticated user's ID.
  */
 export async function POST(
   request: Request,
@@ -26,13 +29,16 @@ export async function POST(
       );
     }
 
-    const supabase = await createClient();
+    const { auth, error: authError } = await requirePermission("interview:review");
+    if (authError) return authError;
+    const { supabase, user, organizationId } = auth;
 
     // First, check if the interview exists and is completed
     const { data: interview, error: fetchError } = await supabase
       .from("ai_interviews")
       .select("id, status, reviewed_at")
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (fetchError) {
@@ -76,10 +82,11 @@ export async function POST(
       .from("ai_interviews")
       .update({
         reviewed_at: now,
-        // reviewed_by: userId, // TODO: Add when auth is implemented
+        reviewed_by: user.id,
         updated_at: now,
       })
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .select("id, reviewed_at")
       .single();
 
@@ -105,6 +112,177 @@ export async function POST(
   }
 }
 
+/**
+ * PUT /api/interviews/:id/review
+ * Override AI scores and the recommendation of a completed interview
+ * (recruiters and admins)
+ *
+ * Saves the reviewer's human_score / human_feedback per question and
+ * recomputes overall_score with the job's scoring config. The AI values
+ * stay in ai_score, ai_overall_score and ai_recommendation so AI and
+ * human judgements can be compared (GET /api/interviews/reviews/export).
+ * An overridden recommendation replaces the score-based one.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { auth, error: authError } = await requirePermission("interview:override");
+    if (authError) return authError;
+    const { supabase, user, organizationId } = auth;
+
+    const body = await request.json();
+    const validation = InterviewReviewRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+    const review = validation.data;
+
+    const { data: interview, error: fetchError } = await supabase
+      .from("ai_interviews")
+      .select("id, status, reviewed_at, human_recommendation, jobs:job_id(interview_scoring)")
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Interview not found", code: "NOT_FOUND" },
+          { status: 404 }
+        );
+      }
+      console.error("Error fetching interview:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch interview", code: "FETCH_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    if (interview.status !== "completed") {
+      return NextResponse.json(
+        {
+          error: "Only completed interviews can be reviewed",
+          code: "INVALID_STATUS",
+          current_status: interview.status,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: questions, error: questionsError } = await supabase
+      .from("interview_questions")
+      .select("id, question_order, category, difficulty, scoring_rubric, ai_score, ai_evaluation_breakdown, human_score")
+      .eq("interview_id", id)
+      .order("question_order", { ascending: true });
+
+    if (questionsError) {
+      console.error("Error fetching interview questions:", questionsError);
+      return NextResponse.json(
+        { error: "Failed to fetch interview questions", code: "FETCH_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    // Overrides only apply to graded answers of this interview
+    const graded = new Map(
+      (questions || []).filter((q) => q.ai_score !== null).map((q) => [q.id, q])
+    );
+    const unknown = review.questions.filter((q) => !graded.has(q.question_id));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Some questions are not graded answers of this interview",
+          code: "INVALID_QUESTION",
+          question_ids: unknown.map((q) => q.question_id),
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date().toISOString();
+
+    for (const override of review.questions) {
+      const { error: questionError } = await supabase
+        .from("interview_questions")
+        .update({
+          human_score: override.human_score,
+          human_feedback: override.human_feedback ?? null,
+          human_reviewed_by: override.human_score !== null ? user.id : null,
+          human_reviewed_at: override.human_score !== null ? now : null,
+        })
+        .eq("id", override.question_id)
+        .eq("interview_id", id);
+
+      if (questionError) {
+        console.error("Error saving question override:", questionError);
+        return NextResponse.json(
+          { error: "Failed to save question override", code: "UPDATE_ERROR" },
+          { status: 500 }
+        );
+      }
+
+      graded.set(override.question_id, {
+        ...graded.get(override.question_id)!,
+        human_score: override.human_score,
+      });
+    }
+
+    const job = interview.jobs as unknown as { interview_scoring: Json | null } | null;
+    const breakdown = computeInterviewScore(
+      Array.from(graded.values()).map(scoredAnswerFromRow),
+      parseInterviewScoringConfig(job?.interview_scoring)
+    );
+    const humanRecommendation =
+      review.recommendation !== undefined ? review.recommendation : interview.human_recommendation;
+
+    const { data: updatedInterview, error: updateError } = await supabase
+      .from("ai_interviews")
+      .update({
+        overall_score: breakdown.overall_score,
+        recommendation: humanRecommendation ?? breakdown.recommendation,
+        score_breakdown: breakdown,
+        human_recommendation: humanRecommendation,
+        ...(review.reason !== undefined ? { review_reason: review.reason } : {}),
+        human_reviewed_at: now,
+        human_reviewed_by: user.id,
+        reviewed_at: interview.reviewed_at ?? now,
+        ...(interview.reviewed_at ? {} : { reviewed_by: user.id }),
+        updated_at: now,
+      })
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error saving interview review:", updateError);
+      return NextResponse.json(
+        { error: "Failed to save interview review", code: "UPDATE_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(updatedInterview);
+  } catch (error) {
+    console.error("Unexpected error in PUT /api/interviews/:id/review:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * DELETE /api/interviews/:id/review
  * Unmark an interview as reviewed (mark as needing attention again)
@@ -125,7 +303,9 @@ export async function DELETE(
       );
     }
 
-    const supabase = await createClient();
+    const { auth, error: authError } = await requirePermission("interview:review");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     const { data: updatedInterview, error: updateError } = await supabase
       .from("ai_interviews")
@@ -135,6 +315,7 @@ export async function DELETE(
         updated_at: new Date().toISOString(),
       })
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .select("id, reviewed_at")
       .single();
 
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { requirePermission } from "@/lib/auth";
+import { calendarSequence } from "@/lib/email/calendar";
+import { buildIntegrityNotes, type IntegrityQuestion } from "@/lib/interview-integrity";
+import { enqueueJob } from "@/lib/queue";
 import { RescheduleInterviewRequestSchema } from "@/types";
 
 interface RouteParams {
@@ -8,12 +11,15 @@ interface RouteParams {
 
 /**
  * GET /api/interviews/[id]
- * Fetch interview details by ID
+ * Fetch interview details by ID, with integrity notes built from the
+ * signals recorded while the candidate answered
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
+    const { auth, error: authError } = await requirePermission("interview:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     const { data: interview, error } = await supabase
       .from("ai_interviews")
@@ -48,11 +54,21 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           answered_at,
           time_spent_seconds,
           ai_score,
-          ai_feedback
+          ai_feedback,
+          ai_evaluation_breakdown,
+          human_score,
+          human_feedback,
+          parent_question_id,
+          follow_up_rationale,
+          question_type,
+          code_language,
+          code_execution,
+          integrity_signals
         )
       `
       )
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (error || !interview) {
@@ -65,7 +81,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    return NextResponse.json({ interview });
+    const integrityNotes = buildIntegrityNotes(
+      (interview.interview_questions ?? []) as unknown as IntegrityQuestion[]
+    );
+
+    return NextResponse.json({ interview: { ...interview, integrity_notes: integrityNotes } });
   } catch (error) {
     console.error("Get interview error:", error);
     return NextResponse.json(
@@ -85,14 +105,17 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
+    const { auth, error: authError } = await requirePermission("interview:schedule");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
     const body = await request.json();
-    const supabase = await createClient();
 
     // Fetch current interview
     const { data: currentInterview, error: fetchError } = await supabase
       .from("ai_interviews")
-      .select("*, candidates:candidate_id(email, full_name)")
+      .select("*, candidates:candidate_id(email, full_name), jobs:job_id(title)")
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (fetchError || !currentInterview) {
@@ -134,9 +157,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         );
       }
 
-      // Can only reschedule if interview hasn't started
+      // Can only reschedule if interview hasn't started. A fixed time also
+      // settles an unbooked link.
       if (
-        !["pending", "scheduled", "ready"].includes(currentInterview.status)
+        !["pending", "awaiting_booking", "scheduled", "ready"].includes(currentInterview.status)
       ) {
         return NextResponse.json(
           {
@@ -161,6 +185,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
           updated_at: new Date().toISOString(),
         })
         .eq("id", id)
+      .eq("organization_id", organizationId)
         .select()
         .single();
 
@@ -189,11 +214,33 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         is_internal: false,
       });
 
-      // TODO: Send reschedule notification email
-      if (send_notification) {
-        console.log(
-          `[TODO] Send reschedule email to ${currentInterview.candidates?.email}`
-        );
+      // Queue the reschedule email (non-blocking on failure)
+      if (send_notification && currentInterview.candidates?.email) {
+        const sequence = calendarSequence();
+        try {
+          await enqueueJob(
+            "send_email",
+            {
+              to: currentInterview.candidates.email,
+              type: "interview_rescheduled",
+              data: {
+                candidateName: currentInterview.candidates.full_name || "Candidate",
+                jobTitle: currentInterview.jobs?.title || "the role",
+                interviewLink: currentInterview.interview_link || "",
+                scheduledAt: scheduled_at,
+                oldScheduledAt: currentInterview.scheduled_at ?? undefined,
+                durationMinutes: currentInterview.interview_duration_minutes || 30,
+                interviewId: id,
+                timezone: currentInterview.candidate_timezone,
+                calendarSequence: sequence,
+              },
+              interview_id: id,
+            },
+            { organizationId, dedupeKey: `interview_rescheduled:${id}:${sequence}` }
+          );
+        } catch (error) {
+          console.error("Failed to queue reschedule email:", error);
+        }
       }
 
       return NextResponse.json({
@@ -218,6 +265,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       .from("ai_interviews")
       .update(updates)
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .select()
       .single();
 
@@ -252,7 +300,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
+    const { auth, error: authError } = await requirePermission("interview:schedule");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
     const { searchParams } = new URL(request.url);
     const sendNotification = searchParams.get("send_notification") !== "false";
     const cancellationReason =
@@ -261,8 +311,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     // Fetch current interview
     const { data: currentInterview, error: fetchError } = await supabase
       .from("ai_interviews")
-      .select("*, candidates:candidate_id(email, full_name)")
+      .select("*, candidates:candidate_id(email, full_name), jobs:job_id(title)")
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (fetchError || !currentInterview) {
@@ -294,6 +345,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
         updated_at: new Date().toISOString(),
       })
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .select()
       .single();
 
@@ -320,11 +372,32 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       is_internal: false,
     });
 
-    // TODO: Send cancellation notification email
-    if (sendNotification) {
-      console.log(
-        `[TODO] Send cancellation email to ${currentInterview.candidates?.email}`
-      );
+    // Queue the cancellation email, which also removes the calendar event (non-blocking on failure)
+    if (sendNotification && currentInterview.candidates?.email && currentInterview.scheduled_at) {
+      try {
+        await enqueueJob(
+          "send_email",
+          {
+            to: currentInterview.candidates.email,
+            type: "interview_cancelled",
+            data: {
+              candidateName: currentInterview.candidates.full_name || "Candidate",
+              jobTitle: currentInterview.jobs?.title || "the role",
+              interviewLink: currentInterview.interview_link || "",
+              scheduledAt: currentInterview.scheduled_at,
+              durationMinutes: currentInterview.interview_duration_minutes || 30,
+              cancellationReason,
+              interviewId: id,
+              timezone: currentInterview.candidate_timezone,
+              calendarSequence: calendarSequence(),
+            },
+            interview_id: id,
+          },
+          { organizationId, dedupeKey: `interview_cancelled:${id}` }
+        );
+      } catch (error) {
+        console.error("Failed to queue cancellation email:", error);
+      }
     }
 
     return NextResponse.json({
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { isSandboxBusyError, parseCodingSpec, runCode } from "@/lib/code-sandbox";
+import { RunCodeRequestSchema } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/interviews/[id]/run-code
+ * Run the candidate's code for a coding question against its visible test cases
+ *
+ * Hidden test cases only run when the interview is evaluated. Nothing is
+ * saved; answers are saved with PATCH /api/interviews/[id]/submit.
+ *
+ * The [id] parameter can be either the interview ID or the access_token.
+ * For public interview links, the access_token is used as the route param.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = RunCodeRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, question_id, language, code } = validation.data;
+    const supabase = createAdminClient();
+
+    // Build query - support lookup by access_token (for public interview links)
+    let query = supabase
+      .from("ai_interviews")
+      .select("id, status");
+
+    // If token matches id, look up by access_token (public interview link pattern)
+    if (token === id) {
+      query = query.eq("access_token", token);
+    } else {
+      query = query.eq("id", id).eq("access_token", token);
+    }
+
+    const { data: interview, error: fetchError } = await query.single();
+
+    if (fetchError || !interview) {
+      return NextResponse.json(
+        {
+          error: "Invalid interview or access token",
+          code: "INVALID_TOKEN",
+        },
+        { status: 401 }
+      );
+    }
+
+    if (interview.status !== "in_progress") {
+      return NextResponse.json(
+        {
+          error: `Cannot run code for interview with status: ${interview.status}`,
+          code: "INVALID_STATUS",
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: question } = await supabase
+      .from("interview_questions")
+      .select("id, question_type, coding_spec")
+      .eq("id", question_id)
+      .eq("interview_id", interview.id)
+      .single();
+
+    const spec = question?.question_type === "coding" ? parseCodingSpec(question.coding_spec) : null;
+    if (!spec) {
+      return NextResponse.json(
+        { error: "Coding question not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    if (!spec.languages.includes(language)) {
+      return NextResponse.json(
+        { error: `This question can't be answered in ${language}`, code: "INVALID_LANGUAGE" },
+        { status: 400 }
+      );
+    }
+
+    const result = await runCode(spec, language, code, spec.test_cases.filter((t) => !t.hidden));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (isSandboxBusyError(error)) {
+      return NextResponse.json(
+        { error: (error as Error).message, code: "SANDBOX_BUSY" },
+        { status: 503 }
+      );
+    }
+    console.error("Unexpected error in POST /api/interviews/[id]/run-code:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/server";
-import { StartInterviewResponse } from "@/types";
+import { candidateCodingSpec, parseCodingSpec } from "@/lib/code-sandbox";
+import {
+  buildInterviewClock,
+  interviewDeadline,
+  isPastDeadline,
+  normalizeTimeMultiplier,
+} from "@/lib/interview-clock";
+import { candidateRescheduleStatus, parseAvailability } from "@/lib/interview-availability";
+import { completeInterview, joinedTimeMultiplier } from "@/lib/interview-completion";
+import { InterviewQuestion, Json, StartInterviewResponse } from "@/types";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+/**
+ * Hides coding questions' hidden test cases and stored test results from the candidate
+ */
+function toCandidateQuestions(questions: InterviewQuestion[] | null): InterviewQuestion[] {
+  return (questions || []).map((q) => {
+    const spec = q.question_type === "coding" ? parseCodingSpec(q.coding_spec) : null;
+    return spec
+      ? { ...q, coding_spec: candidateCodingSpec(spec) as unknown as Json, code_execution: null }
+      : q;
+  });
+}
+
 /**
  * POST /api/interviews/[id]/start
  * Candidate starts their interview (validates token and time)
@@ -46,6 +67,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           title,
           company_name:created_by,
           level
+        ),
+        candidates:candidate_id (
+          interview_time_multiplier
         )
       `
       );
@@ -80,6 +104,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Use the actual interview ID for all subsequent operations
     const interviewId = interview.id;
+    const multiplier = normalizeTimeMultiplier(joinedTimeMultiplier(interview));
 
     // Check if interview has expired
     if (now > expiresAt) {
@@ -112,8 +137,31 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // A booking link can't be started until the candidate picks a time
+    if (interview.status === "awaiting_booking") {
+      return NextResponse.json(
+        {
+          error: "Choose a time for your interview first",
+          code: "NOT_BOOKED",
+        },
+        { status: 400 }
+      );
+    }
+
     // Check if interview is already in progress
     if (interview.status === "in_progress") {
+      // The time limit ran out while the candidate was away
+      if (isPastDeadline(interviewDeadline(interview, multiplier), now)) {
+        await completeInterview(interview, { timeUp: true, now });
+        return NextResponse.json(
+          {
+            error: "Time is up for this interview. Your saved answers have been submitted.",
+            code: "TIME_EXPIRED",
+          },
+          { status: 410 }
+        );
+      }
+
       // Allow resuming - fetch questions and return
       const { data: questions } = await supabase
         .from("interview_questions")
@@ -123,9 +171,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
       const response: StartInterviewResponse = {
         interview_id: interviewId,
-        questions: questions || [],
+        questions: toCandidateQuestions(questions),
         total_duration_minutes: interview.interview_duration_minutes || 30,
         expires_at: interview.expires_at,
+        clock: buildInterviewClock(interview, multiplier, null, false, now),
       };
 
       return NextResponse.json(response);
@@ -210,9 +259,17 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const response: StartInterviewResponse = {
       interview_id: interviewId,
-      questions: questions || [],
+      questions: toCandidateQuestions(questions),
       total_duration_minutes: interview.interview_duration_minutes || 30,
       expires_at: interview.expires_at,
+      // The clock starts now
+      clock: buildInterviewClock(
+        { ...interview, started_at: now.toISOString() },
+        multiplier,
+        null,
+        false,
+        now
+      ),
     };
 
     return NextResponse.json(response);
@@ -255,13 +312,22 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         scheduled_at,
         expires_at,
         interview_duration_minutes,
+        enforce_time_limit,
+        question_time_limit_minutes,
         total_questions,
         questions_answered,
         started_at,
+        availability,
+        max_candidate_reschedules,
+        candidate_reschedule_count,
+        declined_at,
         jobs:job_id (
           id,
           title,
           level
+        ),
+        candidates:candidate_id (
+          interview_time_multiplier
         )
       `
       );
@@ -305,9 +371,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     if (now > expiresAt) {
       canStart = false;
       reason = "Interview has expired";
+    } else if (interview.declined_at) {
+      canStart = false;
+      reason = "You declined this interview";
     } else if (["completed", "cancelled", "expired"].includes(interview.status)) {
       canStart = false;
       reason = `Interview is ${interview.status}`;
+    } else if (interview.status === "awaiting_booking") {
+      canStart = false;
+      reason = "Choose a time for your interview";
     } else if (scheduledAt) {
       const graceperiod = 5 * 60 * 1000; // 5 minutes
       const canStartAt = new Date(scheduledAt.getTime() - graceperiod);
@@ -332,8 +404,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       reason,
       job: interview.jobs,
       duration_minutes: interview.interview_duration_minutes,
+      enforce_time_limit: interview.enforce_time_limit,
+      question_time_limit_minutes: interview.question_time_limit_minutes,
+      time_multiplier: normalizeTimeMultiplier(joinedTimeMultiplier(interview)),
       total_questions: interview.total_questions,
       questions_answered: interview.questions_answered,
+      scheduled_at: interview.scheduled_at,
+      declined: interview.declined_at !== null,
+      reschedule: candidateRescheduleStatus(interview),
+      availability: parseAvailability(interview.availability),
       ...timeInfo,
     });
   } catch (error) {
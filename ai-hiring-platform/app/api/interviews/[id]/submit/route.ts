@@ -1,12 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/server";
-import { evaluateAnswer } from "@/lib/ai/openai";
+import { askFollowUpIfNeeded } from "@/lib/ai";
+import {
+  interviewDeadline,
+  isPastDeadline,
+  normalizeTimeMultiplier,
+  questionDeadline,
+} from "@/lib/interview-clock";
+import {
+  completeInterview,
+  INTERVIEW_CLOCK_COLUMNS,
+  joinedTimeMultiplier,
+  startQuestionClock,
+} from "@/lib/interview-completion";
 import { z } from "zod";
-import type {
-  SubmitInterviewResponse,
-  InterviewRecommendation,
-  QuestionCategory,
-  ScoringCriteria,
+import {
+  CodeLanguageSchema,
+  IntegritySignalsSchema,
+  type InterviewQuestion,
+  type SaveAnswerResponse,
+  type SubmitInterviewResponse,
 } from "@/types";
 
 interface RouteParams {
@@ -18,20 +31,29 @@ const SubmitAnswerSchema = z.object({
   question_id: z.string().uuid(),
   answer: z.string().min(1, "Answer cannot be empty"),
   time_spent_seconds: z.number().min(0),
+  /** Language of a coding answer */
+  language: CodeLanguageSchema.optional(),
+  /** What the candidate's browser observed while the question was open */
+  integrity_signals: IntegritySignalsSchema.optional(),
 });
 
-// Schema for full interview submission
+// Schema for full interview submission; may be empty when time ran out
 const SubmitInterviewSchema = z.object({
   token: z.string(),
-  answers: z.array(SubmitAnswerSchema).min(1),
+  answers: z.array(SubmitAnswerSchema),
 });
 
 /**
  * POST /api/interviews/[id]/submit
  * Submit all answers for an interview
  *
- * This endpoint processes all answers, evaluates them with AI,
- * calculates the overall score, and completes the interview.
+ * This endpoint saves all answers, completes the interview and queues
+ * AI evaluation (see lib/ai/interview-evaluation), which fills in the
+ * overall score and recommendation shortly after.
+ *
+ * Answers to questions whose time limit has passed are ignored, and once
+ * the interview's own time limit has passed only answers already saved
+ * count (see lib/interview-clock).
  * 
  * The [id] parameter can be either the interview ID or the access_token.
  * For public interview links, the access_token is used as the route param.
@@ -62,24 +84,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Build query - support lookup by access_token (for public interview links)
     let query = supabase
       .from("ai_interviews")
-      .select(
-        `
-        *,
-        candidates:candidate_id (
-          id,
-          full_name,
-          extracted_skills,
-          resume_text
-        ),
-        jobs:job_id (
-          id,
-          title,
-          level,
-          description,
-          required_skills
-        )
-      `
-      );
+      .select(`id, status, expires_at, candidate_id, organization_id, ${INTERVIEW_CLOCK_COLUMNS}`);
 
     // If token matches id, look up by access_token (public interview link pattern)
     if (token === id) {
@@ -144,7 +149,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Fetch interview questions
     const { data: questions, error: questionsError } = await supabase
       .from("interview_questions")
-      .select("*")
+      .select("id, started_at")
       .eq("interview_id", interviewId);
 
     if (questionsError || !questions) {
@@ -157,133 +162,48 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Create a map of questions for quick lookup
-    const questionMap = new Map(questions.map((q) => [q.id, q]));
+    // Only accept answers to this interview's questions, while their time allows
+    const questionsById = new Map(questions.map((q) => [q.id, q]));
+    const multiplier = normalizeTimeMultiplier(joinedTimeMultiplier(interview));
+    const timeUp = isPastDeadline(interviewDeadline(interview, multiplier), now);
 
-    // Build job context for AI evaluation
-    const jobContext = `${interview.jobs?.title || "Role"} (${interview.jobs?.level || ""}): ${interview.jobs?.description?.slice(0, 500) || ""}`;
-    const candidateBackground = `${interview.candidates?.full_name || "Candidate"} - Skills: ${(interview.candidates?.extracted_skills || []).join(", ")}`;
-
-    // Process each answer
-    const evaluationResults: Array<{
-      question_id: string;
-      score: number;
-      feedback: string;
-    }> = [];
+    // Start the limits of questions the page never opened, before any of
+    // these answers count as the previous answer
+    for (const answer of answers) {
+      const question = questionsById.get(answer.question_id);
+      if (question && !question.started_at) {
+        questionsById.set(question.id, await startQuestionClock(interview, question, now));
+      }
+    }
 
+    // Save each answer; evaluation happens in the background
     for (const answer of answers) {
-      const question = questionMap.get(answer.question_id);
+      const question = questionsById.get(answer.question_id);
       if (!question) {
         console.warn(`Question not found: ${answer.question_id}`);
         continue;
       }
-
-      // Evaluate the answer using AI
-      let evaluation;
-      try {
-        evaluation = await evaluateAnswer(
-          {
-            text: question.question_text,
-            category: question.category as QuestionCategory,
-            scoring_rubric: (question.scoring_rubric as ScoringCriteria[]) || [],
-          },
-          answer.answer,
-          jobContext,
-          candidateBackground
-        );
-      } catch (aiError) {
-        console.error(
-          `Failed to evaluate answer for question ${answer.question_id}:`,
-          aiError
-        );
-        // Provide a default evaluation if AI fails
-        evaluation = {
-          score: 5,
-          feedback: "Unable to evaluate - answer recorded",
-          breakdown: [],
-        };
+      if (timeUp || isPastDeadline(questionDeadline(interview, question, multiplier), now)) {
+        continue;
       }
 
-      evaluationResults.push({
-        question_id: answer.question_id,
-        score: evaluation.score,
-        feedback: evaluation.feedback,
-      });
-
-      // Update the question with the answer and evaluation
       await supabase
         .from("interview_questions")
         .update({
           candidate_answer: answer.answer,
           answered_at: now.toISOString(),
           time_spent_seconds: answer.time_spent_seconds,
-          ai_score: evaluation.score,
-          ai_feedback: evaluation.feedback,
-          ai_evaluation_breakdown: evaluation.breakdown,
+          code_language: answer.language ?? null,
+          // Keep signals saved with the answer if the final submit has none
+          ...(answer.integrity_signals && { integrity_signals: answer.integrity_signals }),
         })
         .eq("id", answer.question_id);
     }
 
-    // Calculate overall score (average of all question scores, scaled to 100)
-    const totalScore = evaluationResults.reduce((sum, r) => sum + r.score, 0);
-    const averageScore = totalScore / evaluationResults.length;
-    const overallScore = Math.round(averageScore * 10); // Scale 0-10 to 0-100
-
-    // Determine recommendation based on score
-    let recommendation: InterviewRecommendation;
-    if (overallScore >= 85) {
-      recommendation = "strong_yes";
-    } else if (overallScore >= 70) {
-      recommendation = "yes";
-    } else if (overallScore >= 55) {
-      recommendation = "maybe";
-    } else if (overallScore >= 40) {
-      recommendation = "no";
-    } else {
-      recommendation = "strong_no";
-    }
-
-    // Generate summary of strengths and concerns
-    const strengths: string[] = [];
-    const concerns: string[] = [];
-
-    for (const result of evaluationResults) {
-      if (result.score >= 7) {
-        strengths.push(result.feedback.split(".")[0] || "Strong performance");
-      } else if (result.score <= 4) {
-        concerns.push(result.feedback.split(".")[0] || "Needs improvement");
-      }
-    }
-
-    // Generate AI summary
-    const aiSummary = `Candidate completed the interview with an overall score of ${overallScore}%. ${
-      strengths.length > 0
-        ? `Strengths include: ${strengths.slice(0, 3).join("; ")}.`
-        : ""
-    } ${
-      concerns.length > 0
-        ? `Areas for improvement: ${concerns.slice(0, 3).join("; ")}.`
-        : ""
-    }`;
-
-    // Update interview with final results
-    const { error: updateError } = await supabase
-      .from("ai_interviews")
-      .update({
-        status: "completed",
-        completed_at: now.toISOString(),
-        questions_answered: answers.length,
-        overall_score: overallScore,
-        ai_summary: aiSummary,
-        strengths: strengths.slice(0, 5),
-        concerns: concerns.slice(0, 5),
-        recommendation,
-        updated_at: now.toISOString(),
-      })
-      .eq("id", interviewId);
-
-    if (updateError) {
-      console.error("Failed to complete interview:", updateError);
+    try {
+      await completeInterview(interview, { timeUp, now });
+    } catch (completeError) {
+      console.error("Failed to complete interview:", completeError);
       return NextResponse.json(
         {
           error: "Failed to save interview results",
@@ -293,34 +213,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Update candidate's last activity (preserve original AI match analysis)
-    // Interview results are stored on ai_interviews table, not overwritten on candidate
-    await supabase
-      .from("candidates")
-      .update({
-        last_activity_at: now.toISOString(),
-      })
-      .eq("id", interview.candidate_id);
-
-    // Log activity
-    await supabase.from("candidate_activities").insert({
-      candidate_id: interview.candidate_id,
-      activity_type: "interview_completed",
-      metadata: {
-        interview_id: interviewId,
-        overall_score: overallScore,
-        questions_answered: answers.length,
-        recommendation,
-      },
-      notes: `Completed AI interview with score: ${overallScore}%`,
-      is_internal: false,
-    });
-
     const response: SubmitInterviewResponse = {
       interview_id: interviewId,
       status: "completed",
-      overall_score: overallScore,
-      summary: aiSummary,
+      overall_score: null,
+      summary: null,
     };
 
     return NextResponse.json(response);
@@ -339,6 +236,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 /**
  * PATCH /api/interviews/[id]/submit
  * Submit a single answer (for real-time saving)
+ *
+ * In adaptive interviews a shallow or ambiguous answer gets a follow-up
+ * question inserted right after it (see lib/ai/follow-ups), returned as
+ * `follow_up` for the candidate to answer next.
+ *
+ * Answers after the question's time limit are refused. After the
+ * interview's time limit the interview is submitted with the answers
+ * saved so far instead.
  * 
  * The [id] parameter can be either the interview ID or the access_token.
  * For public interview links, the access_token is used as the route param.
@@ -348,7 +253,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     const { id } = await params;
     const body = await request.json();
 
-    const { token, question_id, answer, time_spent_seconds } = body;
+    const { token, question_id, answer, time_spent_seconds, language, integrity_signals } = body;
 
     if (!token || !question_id || !answer) {
       return NextResponse.json(
@@ -365,7 +270,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     // Build query - support lookup by access_token (for public interview links)
     let query = supabase
       .from("ai_interviews")
-      .select("id, status, candidate_id");
+      .select(`id, status, candidate_id, organization_id, max_follow_ups, ${INTERVIEW_CLOCK_COLUMNS}`);
 
     // If token matches id, look up by access_token (public interview link pattern)
     if (token === id) {
@@ -399,14 +304,57 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Update the question with the answer
     const now = new Date();
+    const multiplier = normalizeTimeMultiplier(joinedTimeMultiplier(interview));
+
+    if (isPastDeadline(interviewDeadline(interview, multiplier), now)) {
+      await completeInterview(interview, { timeUp: true, now });
+      return NextResponse.json(
+        {
+          error: "Time is up for this interview. Your saved answers have been submitted.",
+          code: "TIME_EXPIRED",
+        },
+        { status: 410 }
+      );
+    }
+
+    const { data: found } = await supabase
+      .from("interview_questions")
+      .select("id, started_at")
+      .eq("id", question_id)
+      .eq("interview_id", interviewId)
+      .single();
+
+    if (!found) {
+      return NextResponse.json(
+        { error: "Question not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    // Starts the question's time limit if the page never opened it
+    const question = await startQuestionClock(interview, found, now);
+
+    if (isPastDeadline(questionDeadline(interview, question, multiplier), now)) {
+      return NextResponse.json(
+        {
+          error: "Time is up for this question",
+          code: "QUESTION_TIME_EXPIRED",
+        },
+        { status: 409 }
+      );
+    }
+
+    // Update the question with the answer
     const { error: updateError } = await supabase
       .from("interview_questions")
       .update({
         candidate_answer: answer,
         answered_at: now.toISOString(),
         time_spent_seconds: time_spent_seconds || 0,
+        code_language: CodeLanguageSchema.safeParse(language).success ? language : null,
+        // Signals are informational; malformed ones are dropped, never block the answer
+        ...(IntegritySignalsSchema.safeParse(integrity_signals).success && { integrity_signals }),
       })
       .eq("id", question_id)
       .eq("interview_id", interviewId);
@@ -437,11 +385,24 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       })
       .eq("id", interviewId);
 
-    return NextResponse.json({
+    // The answer is saved either way; without AI the interview just carries on
+    let followUp: InterviewQuestion | null = null;
+    if (interview.max_follow_ups > 0) {
+      try {
+        followUp = await askFollowUpIfNeeded(interviewId, question_id);
+      } catch (followUpError) {
+        console.error("Failed to ask follow-up question:", followUpError);
+      }
+    }
+
+    const response: SaveAnswerResponse = {
       success: true,
       question_id,
       saved_at: now.toISOString(),
-    });
+      follow_up: followUp,
+    };
+
+    return NextResponse.json(response);
   } catch (error) {
     console.error("Save answer error:", error);
     return NextResponse.json(
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
+import {
+  buildReviewExportRows,
+  formatReviewExportCsv,
+  summarizeReviewAgreement,
+  type ReviewedInterview,
+} from "@/lib/interview-review";
+
+// Validation schemas
+const exportSchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+  since: z.string().date().optional(),
+  job_id: z.string().uuid().optional(),
+});
+
+/** Most reviewed interviews returned by one export */
+const MAX_EXPORT_INTERVIEWS = 1000;
+
+/**
+ * GET /api/interviews/reviews/export?format=csv|json&since=YYYY-MM-DD&job_id=xxx
+ * Export human-reviewed interviews as labelled data
+ *
+ * One row per graded answer with the AI and human scores side by side.
+ * CSV is returned as a download; JSON also includes AI-vs-human agreement
+ * per month.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { auth, error: authError } = await requirePermission("interview:override");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const validation = exportSchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, since, job_id } = validation.data;
+
+    let query = supabase
+      .from("ai_interviews")
+      .select(`
+        id,
+        job_id,
+        overall_score,
+        ai_overall_score,
+        ai_recommendation,
+        human_recommendation,
+        review_reason,
+        human_reviewed_at,
+        jobs:job_id (title),
+        interview_questions (
+          id,
+          question_order,
+          category,
+          difficulty,
+          question_text,
+          candidate_answer,
+          ai_score,
+          ai_prompt_version,
+          human_score,
+          human_feedback
+        )
+      `)
+      .eq("organization_id", organizationId)
+      .not("human_reviewed_at", "is", null)
+      .order("human_reviewed_at", { ascending: false })
+      .limit(MAX_EXPORT_INTERVIEWS);
+
+    if (since) {
+      query = query.gte("human_reviewed_at", since);
+    }
+    if (job_id) {
+      query = query.eq("job_id", job_id);
+    }
+
+    const { data: interviews, error: dbError } = await query;
+
+    if (dbError) {
+      console.error("Database error:", dbError);
+      return NextResponse.json(
+        { error: "Failed to fetch reviewed interviews", code: "DB_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    const rows = buildReviewExportRows((interviews || []) as unknown as ReviewedInterview[]);
+
+    if (format === "json") {
+      return NextResponse.json({ rows, agreement: summarizeReviewAgreement(rows) });
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(formatReviewExportCsv(rows), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="interview-reviews-${date}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Unexpected error in GET /api/interviews/reviews/export:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
+import { requirePermission } from "@/lib/auth";
 import { generateInterviewQuestions } from "@/lib/ai/openai";
+import { isAIBudgetExceededError } from "@/lib/ai/usage";
+import { enqueueJob } from "@/lib/queue";
+import { calendarSequence } from "@/lib/email/calendar";
 import { getAppUrl } from "@/lib/utils";
+import { CODING_QUESTION_RUBRIC } from "@/lib/constants";
 import {
+  CodingQuestionsSchema,
   ScheduleInterviewRequestSchema,
   ScheduleInterviewResponse,
   JobDescription,
@@ -14,9 +19,18 @@ import {
 /**
  * POST /api/interviews/schedule
  * Schedule an AI interview for a candidate
+ *
+ * With `scheduling_mode: "booking"` there is no fixed time: the candidate
+ * gets a booking link and picks a slot inside `availability` (see
+ * POST /api/interviews/[id]/book). Until then the interview is
+ * `awaiting_booking` and expires at the end of the availability.
  */
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await requirePermission("interview:schedule");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
     const body = await request.json();
 
     // Validate request body
@@ -35,16 +49,25 @@ export async function POST(request: NextRequest) {
     const {
       candidate_id,
       job_id,
+      scheduling_mode,
       scheduled_at,
       duration_minutes,
       send_immediate_invite,
       custom_message,
       candidate_timezone,
+      max_follow_ups,
+      enforce_time_limit,
+      question_time_limit_minutes,
+      time_multiplier,
+      availability,
+      max_candidate_reschedules,
     } = validation.data;
 
-    // Validate scheduled_at is in the future
-    const scheduledDate = new Date(scheduled_at);
-    if (scheduledDate <= new Date()) {
+    const isBooking = scheduling_mode === "booking";
+
+    // Validate scheduled_at (or, for booking links, the window) is in the future
+    const scheduledDate = isBooking ? null : new Date(scheduled_at!);
+    if (scheduledDate && scheduledDate <= new Date()) {
       return NextResponse.json(
         {
           error: "Scheduled time must be in the future",
@@ -53,14 +76,22 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-
-    const supabase = await createClient();
+    if (isBooking && new Date(availability!.ends_at) <= new Date()) {
+      return NextResponse.json(
+        {
+          error: "Availability must end in the future",
+          code: "INVALID_SCHEDULE_TIME",
+        },
+        { status: 400 }
+      );
+    }
 
     // Fetch candidate with job details
     const { data: candidate, error: candidateError } = await supabase
       .from("candidates")
       .select("*")
       .eq("id", candidate_id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (candidateError || !candidate) {
@@ -78,6 +109,7 @@ export async function POST(request: NextRequest) {
       .from("jobs")
       .select("*")
       .eq("id", job_id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (jobError || !job) {
@@ -96,7 +128,7 @@ export async function POST(request: NextRequest) {
       .select("id, status")
       .eq("candidate_id", candidate_id)
       .eq("job_id", job_id)
-      .in("status", ["scheduled", "ready", "in_progress"])
+      .in("status", ["awaiting_booking", "scheduled", "ready", "in_progress"])
       .single();
 
     if (existingInterview) {
@@ -120,9 +152,15 @@ export async function POST(request: NextRequest) {
     const baseUrl = getAppUrl();
     const interviewLink = `${baseUrl}/interview/${accessToken}`;
 
-    // Calculate expiration (24 hours after scheduled time)
-    const expiresAt = new Date(scheduledDate);
-    expiresAt.setHours(expiresAt.getHours() + 24);
+    // Calculate expiration (24 hours after scheduled time, or the end of
+    // the availability for an unbooked link)
+    let expiresAt: Date;
+    if (scheduledDate) {
+      expiresAt = new Date(scheduledDate);
+      expiresAt.setHours(expiresAt.getHours() + 24);
+    } else {
+      expiresAt = new Date(availability!.ends_at);
+    }
 
     // Try to use pre-generated questions first (instant scheduling!)
     let questionSet: { questions: GeneratedQuestion[]; totalEstimatedTime: number } | null = null;
@@ -177,7 +215,8 @@ export async function POST(request: NextRequest) {
       try {
         const generatedSet = await generateInterviewQuestions(
           jobDescription,
-          candidateProfile
+          candidateProfile,
+          { organizationId, jobId: job_id }
         );
         questionSet = {
           questions: generatedSet.questions,
@@ -185,6 +224,12 @@ export async function POST(request: NextRequest) {
         };
       } catch (aiError) {
         console.error("Failed to generate questions:", aiError);
+        if (isAIBudgetExceededError(aiError)) {
+          return NextResponse.json(
+            { error: (aiError as Error).message, code: "BUDGET_EXCEEDED" },
+            { status: 402 }
+          );
+        }
         return NextResponse.json(
           {
             error: "Failed to generate interview questions",
@@ -195,23 +240,34 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // The job's coding questions follow the generated ones
+    const parsedCodingQuestions = CodingQuestionsSchema.safeParse(job.coding_questions ?? []);
+    const codingQuestions = parsedCodingQuestions.success ? parsedCodingQuestions.data : [];
+
     // Create the AI interview record
     const { data: interview, error: interviewError } = await supabase
       .from("ai_interviews")
       .insert({
+        organization_id: organizationId,
         candidate_id,
         job_id,
         model_used: "gpt-4o-2024-08-06",
-        total_questions: questionSet.questions.length,
-        status: "scheduled",
+        total_questions: questionSet.questions.length + codingQuestions.length,
+        status: isBooking ? "awaiting_booking" : "scheduled",
         questions_answered: 0,
         access_token: accessToken,
         expires_at: expiresAt.toISOString(),
-        scheduled_at: scheduled_at,
+        scheduled_at: scheduledDate ? scheduled_at : null,
         interview_link: interviewLink,
         interview_duration_minutes: duration_minutes,
         candidate_timezone: candidate_timezone || null,
         custom_message: custom_message || null,
+        max_follow_ups,
+        enforce_time_limit,
+        question_time_limit_minutes,
+        availability,
+        // Rescheduling needs an availability to pick slots from
+        max_candidate_reschedules: availability ? max_candidate_reschedules : 0,
       })
       .select()
       .single();
@@ -227,8 +283,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Insert the generated questions into interview_questions table
-    const questionsToInsert = questionSet.questions.map(
+    // Insert the generated and coding questions into interview_questions table
+    const questionsToInsert: Record<string, unknown>[] = questionSet.questions.map(
       (q: GeneratedQuestion, index: number) => ({
         interview_id: interview.id,
         question_text: q.question,
@@ -240,6 +296,25 @@ export async function POST(request: NextRequest) {
         scoring_rubric: q.scoringRubric,
       })
     );
+    questionsToInsert.push(
+      ...codingQuestions.map((q, index) => ({
+        interview_id: interview.id,
+        question_text: q.prompt,
+        question_context: null,
+        category: "technical",
+        difficulty: q.difficulty,
+        question_order: questionSet.questions.length + index + 1,
+        estimated_time_minutes: q.estimated_minutes,
+        scoring_rubric: CODING_QUESTION_RUBRIC,
+        question_type: "coding",
+        coding_spec: {
+          function_name: q.function_name,
+          languages: q.languages,
+          starter_code: q.starter_code,
+          test_cases: q.test_cases,
+        },
+      }))
+    );
 
     const { error: questionsError } = await supabase
       .from("interview_questions")
@@ -268,16 +343,27 @@ export async function POST(request: NextRequest) {
         .eq("id", candidate_id);
     }
 
+    // Extra time is an accommodation for the candidate, kept for later interviews
+    if (time_multiplier !== undefined) {
+      await supabase
+        .from("candidates")
+        .update({ interview_time_multiplier: time_multiplier })
+        .eq("id", candidate_id);
+    }
+
     // Log activity
     await supabase.from("candidate_activities").insert({
       candidate_id,
       activity_type: "interview_scheduled",
       metadata: {
         interview_id: interview.id,
-        scheduled_at,
+        scheduled_at: scheduledDate ? scheduled_at : null,
         duration_minutes,
+        booking_link: isBooking,
       },
-      notes: `AI Interview scheduled for ${new Date(scheduled_at).toLocaleString()}`,
+      notes: scheduledDate
+        ? `AI Interview scheduled for ${scheduledDate.toLocaleString()}`
+        : `AI Interview booking link sent, bookable until ${expiresAt.toLocaleString()}`,
       is_internal: false,
     });
 
@@ -305,12 +391,53 @@ export async function POST(request: NextRequest) {
         .eq("id", candidate_id);
     }
 
-    // TODO: Send email notification if send_immediate_invite is true
-    // This will be implemented in the email-system todo
-    if (send_immediate_invite) {
-      console.log(
-        `[TODO] Send invite email to ${candidate.email} for interview at ${scheduled_at}`
-      );
+    // Queue the invite email (non-blocking on failure). Booking links get
+    // the calendar invite once the candidate has picked a time.
+    if (send_immediate_invite && candidate.email) {
+      try {
+        await enqueueJob(
+          "send_email",
+          scheduledDate
+            ? {
+                to: candidate.email,
+                type: "interview_scheduled",
+                data: {
+                  candidateName: candidate.full_name || "Candidate",
+                  jobTitle: job.title,
+                  interviewLink,
+                  scheduledAt: scheduledDate.toISOString(),
+                  durationMinutes: duration_minutes,
+                  customMessage: custom_message,
+                  interviewId: interview.id,
+                  timezone: candidate_timezone || null,
+                  calendarSequence: calendarSequence(),
+                },
+                interview_id: interview.id,
+              }
+            : {
+                to: candidate.email,
+                type: "interview_booking",
+                data: {
+                  candidateName: candidate.full_name || "Candidate",
+                  jobTitle: job.title,
+                  interviewLink,
+                  scheduledAt: new Date(
+                    Math.max(new Date(availability!.starts_at).getTime(), Date.now())
+                  ).toISOString(),
+                  bookingDeadline: availability!.ends_at,
+                  durationMinutes: duration_minutes,
+                  customMessage: custom_message,
+                },
+                interview_id: interview.id,
+              },
+          {
+            organizationId,
+            dedupeKey: `${scheduledDate ? "interview_scheduled" : "interview_booking"}:${interview.id}`,
+          }
+        );
+      } catch (error) {
+        console.error("Failed to queue interview invite:", error);
+      }
     }
 
     const response: ScheduleInterviewResponse = {
@@ -338,7 +465,9 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
+    const { auth, error: authError } = await requirePermission("interview:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
     const { searchParams } = new URL(request.url);
 
     const jobId = searchParams.get("job_id");
@@ -363,7 +492,9 @@ export async function GET(request: NextRequest) {
         )
       `
       )
-      .not("scheduled_at", "is", null)
+      .eq("organization_id", organizationId)
+      // Unbooked links have no scheduled_at yet
+      .or("scheduled_at.not.is.null,status.eq.awaiting_booking")
       .order("scheduled_at", { ascending: true })
       .range(offset, offset + limit - 1);
 
@@ -376,6 +507,7 @@ export async function GET(request: NextRequest) {
     } else {
       // Default: show upcoming and active interviews
       query = query.in("status", [
+        "awaiting_booking",
         "scheduled",
         "ready",
         "in_progress",
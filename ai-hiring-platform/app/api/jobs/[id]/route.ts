@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
+import {
+  CodingQuestionsSchema,
+  InterviewPlanSchema,
+  InterviewScoringConfigSchema,
+  ScreeningQuestionSchema,
+} from "@/types";
 
 // Validation schema for updates
 const updateJobSchema = z.object({
@@ -21,7 +27,10 @@ const updateJobSchema = z.object({
   status: z.enum(["draft", "active", "paused", "closed"]).optional(),
   is_archived: z.boolean().optional(),
   application_deadline: z.string().datetime().nullable().optional(),
-  screening_questions: z.array(z.unknown()).optional(),
+  screening_questions: z.array(ScreeningQuestionSchema).max(20).optional(),
+  interview_scoring: InterviewScoringConfigSchema.nullable().optional(),
+  interview_plan: InterviewPlanSchema.nullable().optional(),
+  coding_questions: CodingQuestionsSchema.optional(),
   require_cover_letter: z.boolean().optional(),
   require_linkedin: z.boolean().optional(),
   require_github: z.boolean().optional(),
@@ -33,20 +42,21 @@ interface RouteParams {
 
 /**
  * GET /api/jobs/[id]
- * Get a single job with candidate summary (MVP: no auth required)
+ * Get a single job with candidate summary
  */
 export async function GET(req: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("job:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Fetch job
     const { data: job, error: jobError } = await supabase
       .from("jobs")
       .select("*")
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .single();
 
     if (jobError || !job) {
@@ -105,14 +115,14 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 
 /**
  * PUT /api/jobs/[id]
- * Update a job (MVP: no auth required)
+ * Update a job
  */
 export async function PUT(req: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("job:update");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Parse and validate request body
     const body = await req.json();
@@ -140,9 +150,17 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
       .from("jobs")
       .update(updateData)
       .eq("id", id)
+      .eq("organization_id", organizationId)
       .select()
       .single();
 
+    if (updateError?.code === "PGRST116") {
+      return NextResponse.json(
+        { error: "Job not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
     if (updateError) {
       console.error("Update error:", updateError);
       return NextResponse.json(
@@ -170,20 +188,21 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
 
 /**
  * DELETE /api/jobs/[id]
- * Delete a job (MVP: no auth required)
+ * Delete a job
  */
 export async function DELETE(req: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
-
-    // MVP: Auth disabled
+    const { auth, error: authError } = await requirePermission("job:delete");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Delete job (cascades to candidates)
     const { error: deleteError } = await supabase
       .from("jobs")
       .delete()
-      .eq("id", id);
+      .eq("id", id)
+      .eq("organization_id", organizationId);
 
     if (deleteError) {
       console.error("Delete error:", deleteError);
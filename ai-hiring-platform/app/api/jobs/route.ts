@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient, createAdminClient } from "@/lib/supabase/server";
 import { z } from "zod";
+import { requirePermission, type AuthContext } from "@/lib/auth";
 import { generateJobDescription } from "@/lib/ai";
+import { slugify } from "@/lib/utils";
+import {
+  CodingQuestionsSchema,
+  InterviewPlanSchema,
+  InterviewScoringConfigSchema,
+  ScreeningQuestionSchema,
+} from "@/types";
 
 // Validation schemas
 const createJobSchema = z.object({
@@ -18,6 +25,15 @@ const createJobSchema = z.object({
   nice_to_have_skills: z.array(z.string()).optional().default([]),
   salary_min: z.number().positive().optional(),
   salary_max: z.number().positive().optional(),
+  show_salary: z.boolean().optional().default(false),
+  application_deadline: z.string().datetime().optional(),
+  require_cover_letter: z.boolean().optional().default(false),
+  require_linkedin: z.boolean().optional().default(false),
+  require_github: z.boolean().optional().default(false),
+  screening_questions: z.array(ScreeningQuestionSchema).max(20).optional().default([]),
+  interview_scoring: InterviewScoringConfigSchema.nullable().optional(),
+  interview_plan: InterviewPlanSchema.nullable().optional(),
+  coding_questions: CodingQuestionsSchema.optional().default([]),
   use_ai_description: z.boolean().optional().default(false),
   status: z.enum(["draft", "active"]).optional().default("draft"),
 });
@@ -34,15 +50,41 @@ const listJobsSchema = z.object({
   order: z.enum(["asc", "desc"]).default("desc"),
 });
 
+/**
+ * Builds a careers page slug from the job title that is unique within the organization
+ * e.g. "senior-engineer", then "senior-engineer-2" for the next job with the same title
+ */
+async function generateJobSlug(
+  supabase: AuthContext["supabase"],
+  organizationId: string,
+  title: string
+): Promise<string> {
+  const base = slugify(title);
+
+  const { data: existing } = await supabase
+    .from("jobs")
+    .select("slug")
+    .eq("organization_id", organizationId)
+    .like("slug", `${base}%`);
+
+  const taken = new Set((existing ?? []).map((job) => job.slug));
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+
+  return slug;
+}
+
 /**
  * GET /api/jobs
- * List all jobs (MVP: no auth required)
+ * List all jobs for the caller's organization
  */
 export async function GET(req: NextRequest) {
   try {
-    const supabase = await createClient();
-
-    // MVP: Auth disabled - all jobs accessible
+    const { auth, error: authError } = await requirePermission("job:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
 
     // Parse and validate query parameters
     const searchParams = Object.fromEntries(req.nextUrl.searchParams);
@@ -61,10 +103,11 @@ export async function GET(req: NextRequest) {
     const { status, include_archived, page, limit, sort, order } = validation.data;
     const offset = (page - 1) * limit;
 
-    // Build query - MVP: no user filter
+    // Build query - scoped to the caller's organization
     let query = supabase
       .from("jobs")
       .select("*", { count: "exact" })
+      .eq("organization_id", organizationId)
       .order(sort, { ascending: order === "asc" })
       .range(offset, offset + limit - 1);
 
@@ -138,40 +181,15 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// MVP placeholder user ID (used when auth is disabled)
-const MVP_USER_ID = "00000000-0000-0000-0000-000000000000";
-
-// Ensure MVP placeholder profile exists
-async function ensureMvpProfile(supabase: ReturnType<typeof createAdminClient>) {
-  const { error } = await supabase
-    .from("profiles")
-    .upsert(
-      {
-        id: MVP_USER_ID,
-        email: "mvp@placeholder.local",
-        full_name: "MVP User",
-        role: "recruiter",
-      },
-      { onConflict: "id" }
-    );
-
-  if (error) {
-    console.error("Failed to ensure MVP profile:", error);
-    throw new Error("Failed to create MVP profile for job creation");
-  }
-}
-
 /**
  * POST /api/jobs
- * Create a new job posting (MVP: no auth required)
+ * Create a new job posting in the caller's organization
  */
 export async function POST(req: NextRequest) {
   try {
-    // MVP: Use admin client to bypass RLS (no auth required)
-    const supabase = createAdminClient();
-
-    // Ensure MVP placeholder profile exists for foreign key constraint
-    await ensureMvpProfile(supabase);
+    const { auth, error: authError } = await requirePermission("job:create");
+    if (authError) return authError;
+    const { supabase, user, organizationId } = auth;
 
     // Parse and validate request body
     const body = await req.json();
@@ -197,19 +215,23 @@ export async function POST(req: NextRequest) {
           base_description: jobData.description,
           department: jobData.department,
           location: jobData.location,
-        });
+        }, { organizationId });
       } catch (aiError) {
         console.error("AI description generation failed:", aiError);
         // Fall back to original description
       }
     }
 
+    const slug = await generateJobSlug(supabase, organizationId, jobData.title);
+
     // Insert job
     const { data: job, error: insertError } = await supabase
       .from("jobs")
       .insert({
-        created_by: MVP_USER_ID,
+        organization_id: organizationId,
+        created_by: user.id,
         title: jobData.title,
+        slug,
         level: jobData.level,
         department: jobData.department,
         location: jobData.location,
@@ -220,8 +242,18 @@ export async function POST(req: NextRequest) {
         nice_to_have_skills: jobData.nice_to_have_skills,
         salary_min: jobData.salary_min,
         salary_max: jobData.salary_max,
+        show_salary: jobData.show_salary,
+        application_deadline: jobData.application_deadline,
+        require_cover_letter: jobData.require_cover_letter,
+        require_linkedin: jobData.require_linkedin,
+        require_github: jobData.require_github,
+        screening_questions: jobData.screening_questions,
+        interview_scoring: jobData.interview_scoring ?? null,
+        interview_plan: jobData.interview_plan ?? null,
+        coding_questions: jobData.coding_questions,
         ai_generated_description: jobData.use_ai_description,
         status: jobData.status,
+        published_at: jobData.status === "active" ? new Date().toISOString() : null,
       })
       .select()
       .single();
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { requireAuth, getPermissions } from "@/lib/auth";
+import type { CurrentUserResponse } from "@/types";
+
+/**
+ * GET /api/me
+ * Get the signed-in user's profile, organization and permissions
+ */
+export async function GET() {
+  try {
+    const { auth, error: authError } = await requireAuth();
+    if (authError) return authError;
+    const { supabase, profile, organizationId } = auth;
+
+    const { data: organization, error: dbError } = await supabase
+      .from("organizations")
+      .select("*")
+      .eq("id", organizationId)
+      .single();
+
+    if (dbError || !organization) {
+      console.error("Failed to load organization:", dbError);
+      return NextResponse.json(
+        { error: "Organization not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const response: CurrentUserResponse = {
+      profile,
+      organization,
+      permissions: getPermissions(profile),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Unexpected error in GET /api/me:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
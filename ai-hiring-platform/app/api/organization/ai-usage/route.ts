@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
+import type { AIFeature, AIUsageResponse, AIUsageTotals } from "@/types";
+
+// Validation schema for query parameters
+const aiUsageQuerySchema = z.object({
+  months: z.coerce.number().int().min(1).max(12).default(6),
+  month: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/, "Use YYYY-MM")
+    .optional(),
+});
+
+/** Row returned by the get_ai_usage_rollup function */
+interface UsageRollupRow {
+  month: string;
+  feature: AIFeature;
+  job_id: string | null;
+  calls: number;
+  failed_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number | string;
+}
+
+function emptyTotals(): AIUsageTotals {
+  return { calls: 0, failed_calls: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 };
+}
+
+function addToTotals(totals: AIUsageTotals, row: UsageRollupRow) {
+  totals.calls += Number(row.calls);
+  totals.failed_calls += Number(row.failed_calls);
+  totals.prompt_tokens += Number(row.prompt_tokens);
+  totals.completion_tokens += Number(row.completion_tokens);
+  totals.cost_usd += Number(row.cost_usd);
+}
+
+/** Sums rows into one total per key, most expensive first */
+function groupTotals<K>(rows: UsageRollupRow[], keyOf: (row: UsageRollupRow) => K) {
+  const groups = new Map<K, AIUsageTotals>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const totals = groups.get(key) ?? emptyTotals();
+    addToTotals(totals, row);
+    groups.set(key, totals);
+  }
+  return [...groups.entries()].sort(([, a], [, b]) => b.cost_usd - a.cost_usd);
+}
+
+/**
+ * GET /api/organization/ai-usage
+ * AI usage and estimated cost for the organization (admins only):
+ * monthly totals, plus per-feature and per-job breakdowns
+ *
+ * Query params:
+ * - months: Number of calendar months to include, current month included (default: 6, max: 12)
+ * - month: Limit the feature and job breakdowns to one month (YYYY-MM)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { auth, error: authError } = await requirePermission("org:manage");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const { searchParams } = new URL(req.url);
+    const validation = aiUsageQuerySchema.safeParse({
+      months: searchParams.get("months") ?? undefined,
+      month: searchParams.get("month") ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { months, month } = validation.data;
+    const now = new Date();
+    const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+
+    const [rollupResult, budgetResult] = await Promise.all([
+      supabase.rpc("get_ai_usage_rollup", {
+        p_organization_id: organizationId,
+        p_since: since.toISOString(),
+      }),
+      supabase.rpc("get_ai_budget_status", { p_organization_id: organizationId }).maybeSingle(),
+    ]);
+
+    if (rollupResult.error || budgetResult.error) {
+      console.error("Database error:", rollupResult.error ?? budgetResult.error);
+      return NextResponse.json(
+        { error: "Failed to fetch AI usage", code: "FETCH_FAILED" },
+        { status: 500 }
+      );
+    }
+
+    const rows = (rollupResult.data ?? []) as UsageRollupRow[];
+    const budget = budgetResult.data as { budget_usd: number | string | null; spent_usd: number | string } | null;
+
+    // Monthly totals, newest first; "2026-10-01" -> "2026-10"
+    const monthTotals = groupTotals(rows, (row) => row.month.slice(0, 7))
+      .map(([key, totals]) => ({ month: key, ...totals }))
+      .sort((a, b) => b.month.localeCompare(a.month));
+
+    const breakdownRows = month ? rows.filter((row) => row.month.startsWith(month)) : rows;
+
+    const byFeature = groupTotals(breakdownRows, (row) => row.feature).map(([feature, totals]) => ({
+      feature,
+      ...totals,
+    }));
+
+    const jobTotals = groupTotals(breakdownRows, (row) => row.job_id);
+    const jobIds = jobTotals.map(([jobId]) => jobId).filter((id): id is string => !!id);
+    const jobTitles = new Map<string, string>();
+
+    if (jobIds.length > 0) {
+      const { data: jobs } = await supabase
+        .from("jobs")
+        .select("id, title")
+        .eq("organization_id", organizationId)
+        .in("id", jobIds);
+      for (const job of jobs ?? []) {
+        jobTitles.set(job.id, job.title);
+      }
+    }
+
+    const response: AIUsageResponse = {
+      budget: {
+        monthly_budget_usd: budget?.budget_usd != null ? Number(budget.budget_usd) : null,
+        spent_this_month_usd: Number(budget?.spent_usd ?? 0),
+      },
+      months: monthTotals,
+      by_feature: byFeature,
+      by_job: jobTotals.map(([jobId, totals]) => ({
+        job_id: jobId,
+        job_title: jobId ? jobTitles.get(jobId) ?? null : null,
+        ...totals,
+      })),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Unexpected error in GET /api/organization/ai-usage:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
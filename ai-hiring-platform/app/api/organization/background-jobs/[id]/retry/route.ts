@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/server";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/organization/background-jobs/[id]/retry
+ * Re-queue a failed background job with a fresh set of attempts (admins only)
+ */
+export async function POST(_req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { auth, error: authError } = await requirePermission("org:manage");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const { data: job } = await supabase
+      .from("background_jobs")
+      .select("id, status")
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== "failed") {
+      return NextResponse.json(
+        { error: "Only failed jobs can be retried", code: "INVALID_STATUS" },
+        { status: 400 }
+      );
+    }
+
+    // Users can't update jobs (the worker trusts their payloads), so the
+    // retry goes through the admin client and touches only the retry state
+    const { data: updatedJob, error: updateError } = await createAdminClient()
+      .from("background_jobs")
+      .update({
+        status: "pending",
+        attempts: 0,
+        run_at: new Date().toISOString(),
+        last_error: null,
+      })
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .eq("status", "failed")
+      .select()
+      .single();
+
+    if (updateError) {
+      // Unique violation on dedupe_key - the same work is already queued
+      if (updateError.code === "23505") {
+        return NextResponse.json(
+          { error: "The same job is already queued", code: "DUPLICATE_JOB" },
+          { status: 409 }
+        );
+      }
+      console.error("Update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to retry job", code: "UPDATE_FAILED" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(updatedJob);
+  } catch (error) {
+    console.error("Unexpected error in POST /api/organization/background-jobs/[id]/retry:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
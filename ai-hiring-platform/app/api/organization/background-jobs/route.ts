@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
+import type { ListBackgroundJobsResponse } from "@/types";
+
+// Validation schema for query parameters
+const listJobsQuerySchema = z.object({
+  status: z.enum(["pending", "running", "completed", "failed"]).default("failed"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * GET /api/organization/background-jobs
+ * List the organization's background jobs, most recently updated first
+ * (admins only). Defaults to failed jobs.
+ *
+ * Query params:
+ * - status: pending | running | completed | failed (default: failed)
+ * - limit: Max results (default: 50, max: 100)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { auth, error: authError } = await requirePermission("org:manage");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const { searchParams } = new URL(req.url);
+    const validation = listJobsQuerySchema.safeParse({
+      status: searchParams.get("status") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { status, limit } = validation.data;
+
+    const { data: jobs, error: dbError } = await supabase
+      .from("background_jobs")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .eq("status", status)
+      .order("updated_at", { ascending: false })
+      .limit(limit);
+
+    if (dbError) {
+      console.error("Database error:", dbError);
+      return NextResponse.json(
+        { error: "Failed to fetch background jobs", code: "FETCH_FAILED" },
+        { status: 500 }
+      );
+    }
+
+    const response: ListBackgroundJobsResponse = { jobs: jobs ?? [] };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Unexpected error in GET /api/organization/background-jobs:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requirePermission } from "@/lib/auth";
+
+const updateMemberRoleSchema = z.object({
+  role: z.enum(["member", "recruiter", "admin"]),
+});
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/organization/members/[id]
+ * Change a team member's role (admins only)
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { auth, error: authError } = await requirePermission("org:manage");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const body = await req.json();
+    const validation = updateMemberRoleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { role } = validation.data;
+
+    const { data: member } = await supabase
+      .from("profiles")
+      .select("id, role")
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    // Never leave an organization without an admin
+    if (member.role === "admin" && role !== "admin") {
+      const { count: adminCount } = await supabase
+        .from("profiles")
+        .select("*", { count: "exact", head: true })
+        .eq("organization_id", organizationId)
+        .eq("role", "admin");
+
+      if ((adminCount ?? 0) <= 1) {
+        return NextResponse.json(
+          {
+            error: "An organization must have at least one admin",
+            code: "LAST_ADMIN",
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: updatedMember, error: updateError } = await supabase
+      .from("profiles")
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("organization_id", organizationId)
+      .select("id, email, full_name, role, avatar_url, created_at")
+      .single();
+
+    if (updateError) {
+      console.error("Update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update member", code: "DB_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(updatedMember);
+  } catch (error) {
+    console.error("Unexpected error in PATCH /api/organization/members/[id]:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+
+/**
+ * GET /api/organization/members
+ * List team members in the caller's organization
+ */
+export async function GET() {
+  try {
+    const { auth, error: authError } = await requirePermission("org:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const { data: members, error: dbError } = await supabase
+      .from("profiles")
+      .select("id, email, full_name, role, avatar_url, created_at")
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: true });
+
+    if (dbError) {
+      console.error("Database error:", dbError);
+      return NextResponse.json(
+        { error: "Failed to fetch members", code: "DB_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ members: members || [] });
+  } catch (error) {
+    console.error("Unexpected error in GET /api/organization/members:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  clearOrganizationProviderCache,
+  isLLMProviderConfigured,
+  resumeJobsWaitingForAIBudget,
+} from "@/lib/ai";
+import { requirePermission } from "@/lib/auth";
+import { LLM_PROVIDERS } from "@/lib/constants";
+
+// Validation schema for organization settings
+const updateOrganizationSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100).optional(),
+  slug: z
+    .string()
+    .min(2)
+    .max(60)
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use lowercase letters, numbers and hyphens")
+    .optional(),
+  // null = server default
+  ai_provider: z.enum(["openai", "anthropic", "azure_openai", "local"]).nullable().optional(),
+  ai_model: z.string().trim().max(100).nullable().optional(),
+  // null = no budget
+  ai_monthly_budget_usd: z.number().positive().max(1_000_000).nullable().optional(),
+});
+
+/**
+ * GET /api/organization
+ * Get the caller's organization
+ */
+export async function GET() {
+  try {
+    const { auth, error: authError } = await requirePermission("org:view");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const { data: organization, error: dbError } = await supabase
+      .from("organizations")
+      .select("*")
+      .eq("id", organizationId)
+      .single();
+
+    if (dbError || !organization) {
+      return NextResponse.json(
+        { error: "Organization not found", code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(organization);
+  } catch (error) {
+    console.error("Unexpected error in GET /api/organization:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/organization
+ * Update organization settings (admins only)
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const { auth, error: authError } = await requirePermission("org:manage");
+    if (authError) return authError;
+    const { supabase, organizationId } = auth;
+
+    const body = await req.json();
+    const validation = updateOrganizationSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          code: "VALIDATION_ERROR",
+          details: validation.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { ai_provider, ai_model, ai_monthly_budget_usd } = validation.data;
+
+    // Don't allow a provider whose credentials are missing - every AI call would fail
+    if (ai_provider && !isLLMProviderConfigured(ai_provider)) {
+      const label = LLM_PROVIDERS.find((p) => p.value === ai_provider)?.label ?? ai_provider;
+      return NextResponse.json(
+        { error: `${label} is not configured on this server`, code: "AI_PROVIDER_NOT_CONFIGURED" },
+        { status: 400 }
+      );
+    }
+
+    const { data: organization, error: updateError } = await supabase
+      .from("organizations")
+      .update({
+        ...validation.data,
+        // Store an empty model as null (provider default)
+        ...(ai_model !== undefined ? { ai_model: ai_model || null } : {}),
+      })
+      .eq("id", organizationId)
+      .select()
+      .single();
+
+    if (updateError) {
+      // Unique violation on slug
+      if (updateError.code === "23505") {
+        return NextResponse.json(
+          { error: "That URL is already taken", code: "SLUG_TAKEN" },
+          { status: 409 }
+        );
+      }
+      console.error("Update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update organization", code: "DB_ERROR" },
+        { status: 500 }
+      );
+    }
+
+    if (ai_provider !== undefined || ai_model !== undefined) {
+      clearOrganizationProviderCache(organizationId);
+    }
+
+    // Jobs that stopped on the old budget shouldn't wait for next month
+    if (ai_monthly_budget_usd !== undefined) {
+      await resumeJobsWaitingForAIBudget(organizationId);
+    }
+
+    return NextResponse.json(organization);
+  } catch (error) {
+    console.error("Unexpected error in PATCH /api/organization:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyDeliveryEvent, type DeliveryEvent } from "@/lib/email/log";
+import { verifyResendWebhook } from "@/lib/email/transports/resend";
+
+/** Resend event types and the email log status each one sets */
+const EVENT_STATUSES: Record<string, DeliveryEvent["status"]> = {
+  "email.delivery_delayed": "delivery_delayed",
+  "email.delivered": "delivered",
+  "email.opened": "opened",
+  "email.clicked": "opened",
+  "email.bounced": "bounced",
+  "email.complained": "complained",
+};
+
+/** The parts of a Resend webhook event used here */
+interface ResendWebhookEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id?: string;
+    bounce?: { message?: string };
+  };
+}
+
+/**
+ * POST /api/webhooks/resend
+ *
+ * Delivery webhook from Resend: moves logged emails on to delivered,
+ * opened, bounced or complained. Authenticated by the webhook signature
+ * (RESEND_WEBHOOK_SECRET).
+ *
+ * Unknown events and emails are acknowledged with 200 so Resend doesn't
+ * keep retrying them.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.text();
+
+    if (!verifyResendWebhook(body, req.headers)) {
+      return NextResponse.json(
+        { error: "Invalid webhook signature", code: "INVALID_SIGNATURE" },
+        { status: 401 }
+      );
+    }
+
+    const event = JSON.parse(body) as ResendWebhookEvent;
+    const status = EVENT_STATUSES[event.type];
+    if (!status || !event.data?.email_id) {
+      return NextResponse.json({ received: true, applied: false });
+    }
+
+    const applied = await applyDeliveryEvent({
+      messageId: event.data.email_id,
+      status,
+      occurredAt: event.created_at || new Date().toISOString(),
+      detail: event.data.bounce?.message,
+    });
+
+    return NextResponse.json({ received: true, applied });
+  } catch (error) {
+    console.error("Unexpected error in POST /api/webhooks/resend:", error);
+    return NextResponse.json(
+      { error: "Internal server error", code: "INTERNAL_ERROR" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * GET /auth/callback
+ * Exchange the code from a Supabase email link for a session
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl;
+  const code = searchParams.get("code");
+  const next = searchParams.get("next");
+  const redirectPath =
+    next && next.startsWith("/") && !next.startsWith("//") ? next : "/dashboard";
+
+  if (code) {
+    const supabase = await createClient();
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+
+    if (!error) {
+      return NextResponse.redirect(`${origin}${redirectPath}`);
+    }
+
+    console.error("Auth code exchange failed:", error);
+  }
+
+  return NextResponse.redirect(
+    `${origin}/login?error=${encodeURIComponent("Could not verify your sign-in link")}`
+  );
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * POST /auth/signout
+ * End the current session and return to the login page
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  await supabase.auth.signOut();
+
+  return NextResponse.redirect(new URL("/login", request.url), {
+    status: 303,
+  });
+}
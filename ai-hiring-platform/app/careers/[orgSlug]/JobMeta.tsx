@@ -0,0 +1,48 @@
+import { Briefcase, DollarSign, MapPin } from "lucide-react"
+import { EMPLOYMENT_TYPES, JOB_LEVELS, LOCATION_TYPES } from "@/lib/constants"
+import { formatSalaryRange } from "@/lib/utils"
+import type { PublicJob } from "@/types"
+
+interface JobMetaProps {
+  job: PublicJob
+}
+
+function labelFor(options: readonly { value: string; label: string }[], value: string | null) {
+  return options.find((option) => option.value === value)?.label
+}
+
+/**
+ * One-line summary of a job's location, level, type and (if public) salary
+ */
+export function JobMeta({ job }: JobMetaProps) {
+  const location = [job.location, labelFor(LOCATION_TYPES, job.location_type)]
+    .filter(Boolean)
+    .join(" · ")
+  const type = [labelFor(JOB_LEVELS, job.level), labelFor(EMPLOYMENT_TYPES, job.employment_type)]
+    .filter(Boolean)
+    .join(" · ")
+  const salary = formatSalaryRange(job.salary_min, job.salary_max, job.salary_currency)
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+      {location && (
+        <span className="flex items-center gap-1">
+          <MapPin className="h-4 w-4" />
+          {location}
+        </span>
+      )}
+      {type && (
+        <span className="flex items-center gap-1">
+          <Briefcase className="h-4 w-4" />
+          {type}
+        </span>
+      )}
+      {salary && (
+        <span className="flex items-center gap-1">
+          <DollarSign className="h-4 w-4" />
+          {salary}
+        </span>
+      )}
+    </div>
+  )
+}
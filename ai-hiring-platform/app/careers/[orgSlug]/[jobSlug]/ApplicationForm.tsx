@@ -0,0 +1,401 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import { CheckCircle, FileText, FileUp, Github, Globe, Linkedin, Loader2, Mail, MapPin, Phone, User } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Textarea } from "@/components/ui/textarea"
+import { RESUME_UPLOAD } from "@/lib/constants"
+import { validateScreeningAnswers } from "@/lib/screening"
+import type { CareersApplicationRequest, PublicJob, ScreeningAnswer, ScreeningQuestion } from "@/types"
+
+const baseSchema = z.object({
+  full_name: z.string().min(2, "Name must be at least 2 characters"),
+  email: z.string().email("Invalid email address"),
+  phone: z.string().optional(),
+  location: z.string().optional(),
+  linkedin_url: z.string().url("Invalid URL").optional().or(z.literal("")),
+  github_url: z.string().url("Invalid URL").optional().or(z.literal("")),
+  portfolio_url: z.string().url("Invalid URL").optional().or(z.literal("")),
+  cover_letter: z.string().optional(),
+  /** Screening answers keyed by question id */
+  screening: z.record(z.string()),
+})
+
+type FormValues = z.infer<typeof baseSchema>
+
+/**
+ * Converts form values to API answers; numeric answers are sent as numbers
+ */
+function toScreeningAnswers(
+  questions: ScreeningQuestion[],
+  screening: Record<string, string>
+): ScreeningAnswer[] {
+  return questions.flatMap((question) => {
+    const value = screening[question.id]?.trim()
+    if (!value) return []
+    return [{
+      question_id: question.id,
+      value: question.type === "numeric" && Number.isFinite(Number(value)) ? Number(value) : value,
+    }]
+  })
+}
+
+/**
+ * Adds the job's required-field settings and screening questions on top of the base schema
+ */
+function buildSchema(job: PublicJob) {
+  return baseSchema.superRefine((values, ctx) => {
+    const screeningErrors = validateScreeningAnswers(
+      job.screening_questions,
+      toScreeningAnswers(job.screening_questions, values.screening)
+    )
+    for (const [questionId, message] of Object.entries(screeningErrors)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["screening", questionId], message })
+    }
+    if (job.require_cover_letter && !values.cover_letter?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cover_letter"], message: "A cover letter is required" })
+    }
+    if (job.require_linkedin && !values.linkedin_url) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["linkedin_url"], message: "A LinkedIn profile is required" })
+    }
+    if (job.require_github && !values.github_url) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["github_url"], message: "A GitHub profile is required" })
+    }
+  })
+}
+
+interface ApplicationFormProps {
+  orgSlug: string
+  job: PublicJob
+  utm: Pick<CareersApplicationRequest, "utm_source" | "utm_medium" | "utm_campaign">
+}
+
+export default function ApplicationForm({ orgSlug, job, utm }: ApplicationFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [resumeFile, setResumeFile] = useState<File | null>(null)
+  const [resumeError, setResumeError] = useState<string | null>(null)
+  const schema = useMemo(() => buildSchema(job), [job])
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      full_name: "",
+      email: "",
+      phone: "",
+      location: "",
+      linkedin_url: "",
+      github_url: "",
+      portfolio_url: "",
+      cover_letter: "",
+      screening: {},
+    },
+  })
+
+  const handleResumeChange = (file: File | null) => {
+    setResumeError(null)
+    if (file && file.size > RESUME_UPLOAD.maxSize) {
+      setResumeError(`Resume must be smaller than ${RESUME_UPLOAD.maxSize / (1024 * 1024)} MB`)
+      setResumeFile(null)
+      return
+    }
+    setResumeFile(file)
+  }
+
+  const onSubmit = async (values: FormValues) => {
+    if (resumeError) return
+    setIsSubmitting(true)
+    setSubmitError(null)
+
+    try {
+      const { screening, ...fields } = values
+      const body: CareersApplicationRequest = {
+        ...fields,
+        ...utm,
+        screening_answers: toScreeningAnswers(job.screening_questions, screening),
+      }
+
+      const formData = new FormData()
+      formData.append("application", JSON.stringify(body))
+      if (resumeFile) formData.append("resume", resumeFile)
+
+      const response = await fetch(`/api/careers/${orgSlug}/${job.slug}/apply`, {
+        method: "POST",
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+
+        // Surface server-side field errors next to their inputs
+        const fieldErrors: Record<string, string[]> = error.details?.fieldErrors ?? {}
+        for (const [field, messages] of Object.entries(fieldErrors)) {
+          if (messages.length === 0) continue
+          if (field === "resume") {
+            setResumeError(messages[0])
+          } else if (field.startsWith("screening.")) {
+            form.setError(field as `screening.${string}`, { message: messages[0] })
+          } else if (field in values) {
+            form.setError(field as keyof FormValues, { message: messages[0] })
+          }
+        }
+
+        throw new Error(error.error || "Failed to submit application")
+      }
+
+      setSubmitted(true)
+    } catch (error) {
+      console.error("Error submitting application:", error)
+      setSubmitError(error instanceof Error ? error.message : "Failed to submit application")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (submitted) {
+    return (
+      <div className="text-center space-y-3 py-8">
+        <div className="mx-auto h-12 w-12 rounded-full bg-success/10 flex items-center justify-center">
+          <CheckCircle className="h-6 w-6 text-success" />
+        </div>
+        <h3 className="font-semibold text-lg">Application submitted</h3>
+        <p className="text-sm text-muted-foreground">
+          Thanks for applying to {job.title}. We&apos;ll be in touch by email about next steps.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {/* Basic Information */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="full_name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  Full Name *
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="Jane Doe" autoComplete="name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  Email *
+                </FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="jane@example.com" autoComplete="email" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center gap-2">
+                  <Phone className="h-4 w-4" />
+                  Phone
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="+1 (555) 123-4567" autoComplete="tel" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="location"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4" />
+                  Location
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="New York, NY" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Profile Links */}
+        <div className="space-y-4">
+          <FormField
+            control={form.control}
+            name="linkedin_url"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center gap-2">
+                  <Linkedin className="h-4 w-4" />
+                  LinkedIn URL{job.require_linkedin && " *"}
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="https://linkedin.com/in/janedoe" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="github_url"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center gap-2">
+                  <Github className="h-4 w-4" />
+                  GitHub URL{job.require_github && " *"}
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="https://github.com/janedoe" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="portfolio_url"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center gap-2">
+                  <Globe className="h-4 w-4" />
+                  Portfolio URL
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="https://janedoe.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Resume */}
+        <div className="space-y-2">
+          <Label htmlFor="resume" className="flex items-center gap-2">
+            <FileUp className="h-4 w-4" />
+            Resume
+          </Label>
+          <Input
+            id="resume"
+            type="file"
+            accept={RESUME_UPLOAD.accept}
+            onChange={(e) => handleResumeChange(e.target.files?.[0] ?? null)}
+          />
+          {resumeError ? (
+            <p className="text-sm font-medium text-destructive">{resumeError}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground">PDF, DOCX or TXT, up to 5 MB</p>
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="cover_letter"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                Cover Letter{job.require_cover_letter && " *"}
+              </FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Tell us why you're interested in this role..."
+                  rows={6}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Screening Questions */}
+        {job.screening_questions.length > 0 && (
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-muted-foreground">Screening Questions</h3>
+            {job.screening_questions.map((question) => (
+              <FormField
+                key={question.id}
+                control={form.control}
+                name={`screening.${question.id}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {question.prompt}{question.required && " *"}
+                    </FormLabel>
+                    <FormControl>
+                      {question.type === "text" ? (
+                        <Textarea rows={3} {...field} value={field.value ?? ""} />
+                      ) : question.type === "numeric" ? (
+                        <Input type="number" className="w-40" {...field} value={field.value ?? ""} />
+                      ) : (
+                        <RadioGroup value={field.value ?? ""} onValueChange={field.onChange}>
+                          {(question.type === "yes_no"
+                            ? [{ value: "yes", label: "Yes" }, { value: "no", label: "No" }]
+                            : (question.options ?? []).map((option) => ({ value: option, label: option }))
+                          ).map((option) => (
+                            <div key={option.value} className="flex items-center gap-2">
+                              <RadioGroupItem value={option.value} id={`${question.id}-${option.value}`} />
+                              <Label htmlFor={`${question.id}-${option.value}`} className="font-normal">
+                                {option.label}
+                              </Label>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      )}
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        )}
+
+        {submitError && (
+          <p className="text-sm text-destructive">{submitError}</p>
+        )}
+
+        <Button type="submit" className="w-full sm:w-auto" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {isSubmitting ? "Submitting..." : "Submit Application"}
+        </Button>
+      </form>
+    </Form>
+  )
+}
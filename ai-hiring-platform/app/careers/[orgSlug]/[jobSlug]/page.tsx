@@ -0,0 +1,112 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft, Clock } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { getApplicationWindow, getCareersJob } from "@/lib/careers"
+import { JobMeta } from "../JobMeta"
+import ApplicationForm from "./ApplicationForm"
+
+interface CareersJobPageProps {
+  params: Promise<{ orgSlug: string; jobSlug: string }>
+  searchParams: Promise<{ utm_source?: string; utm_medium?: string; utm_campaign?: string }>
+}
+
+export async function generateMetadata({ params }: CareersJobPageProps): Promise<Metadata> {
+  const { orgSlug, jobSlug } = await params
+  const result = await getCareersJob(orgSlug, jobSlug)
+  if (!result) {
+    return { title: "Careers" }
+  }
+  return {
+    title: `${result.job.title} at ${result.organization.name}`,
+    description: result.job.description.slice(0, 160),
+  }
+}
+
+export default async function CareersJobPage({ params, searchParams }: CareersJobPageProps) {
+  const { orgSlug, jobSlug } = await params
+  const { utm_source, utm_medium, utm_campaign } = await searchParams
+  const result = await getCareersJob(orgSlug, jobSlug)
+
+  if (!result) {
+    notFound()
+  }
+
+  const { organization, job } = result
+  const applicationWindow = getApplicationWindow(job)
+
+  return (
+    <div className="container max-w-4xl mx-auto px-4 py-12 space-y-8">
+      <Link href={`/careers/${organization.slug}`}>
+        <Button variant="ghost" size="sm" className="-ml-2">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All positions at {organization.name}
+        </Button>
+      </Link>
+
+      <header className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <h1 className="text-3xl font-bold text-foreground">{job.title}</h1>
+          {job.department && <Badge variant="secondary">{job.department}</Badge>}
+        </div>
+        <JobMeta job={job} />
+        {job.application_deadline && applicationWindow.open && (
+          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4" />
+            Applications close {new Date(job.application_deadline).toLocaleString()}
+          </p>
+        )}
+      </header>
+
+      <Card>
+        <CardContent className="space-y-6">
+          <div className="whitespace-pre-line text-sm leading-relaxed text-foreground">
+            {job.description}
+          </div>
+
+          {job.required_skills.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-medium text-foreground">Required skills</h2>
+              <div className="flex flex-wrap gap-2">
+                {job.required_skills.map((skill) => (
+                  <Badge key={skill} variant="outline">{skill}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {job.nice_to_have_skills.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-medium text-foreground">Nice to have</h2>
+              <div className="flex flex-wrap gap-2">
+                {job.nice_to_have_skills.map((skill) => (
+                  <Badge key={skill} variant="secondary">{skill}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card id="apply">
+        <CardHeader>
+          <CardTitle className="text-lg">Apply for this position</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {applicationWindow.open ? (
+            <ApplicationForm
+              orgSlug={organization.slug}
+              job={job}
+              utm={{ utm_source, utm_medium, utm_campaign }}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">{applicationWindow.message}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ChevronRight } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent } from "@/components/ui/card"
+import { getCareersOrganization, listCareersJobs } from "@/lib/careers"
+import { JobMeta } from "./JobMeta"
+
+interface CareersPageProps {
+  params: Promise<{ orgSlug: string }>
+}
+
+export async function generateMetadata({ params }: CareersPageProps): Promise<Metadata> {
+  const { orgSlug } = await params
+  const organization = await getCareersOrganization(orgSlug)
+  return {
+    title: organization ? `Careers at ${organization.name}` : "Careers",
+  }
+}
+
+export default async function CareersPage({ params }: CareersPageProps) {
+  const { orgSlug } = await params
+  const organization = await getCareersOrganization(orgSlug)
+
+  if (!organization) {
+    notFound()
+  }
+
+  const jobs = await listCareersJobs(organization.id)
+
+  // Group by department for easier scanning
+  const departments = new Map<string, typeof jobs>()
+  for (const job of jobs) {
+    const department = job.department || "Other"
+    departments.set(department, [...(departments.get(department) ?? []), job])
+  }
+
+  return (
+    <div className="container max-w-4xl mx-auto px-4 py-12">
+      <header className="mb-10 space-y-2">
+        <h1 className="text-3xl font-bold text-foreground">Careers at {organization.name}</h1>
+        <p className="text-muted-foreground">
+          {jobs.length === 0
+            ? "There are no open positions right now. Check back soon."
+            : `${jobs.length} open ${jobs.length === 1 ? "position" : "positions"}`}
+        </p>
+      </header>
+
+      <div className="space-y-10">
+        {Array.from(departments.entries()).map(([department, departmentJobs]) => (
+          <section key={department} className="space-y-3">
+            <h2 className="text-sm font-medium uppercase tracking-wide text-muted-foreground">
+              {department}
+            </h2>
+            {departmentJobs.map((job) => (
+              <Link key={job.id} href={`/careers/${organization.slug}/${job.slug}`} className="block">
+                <Card className="transition-colors hover:border-primary/50">
+                  <CardContent className="flex items-center justify-between gap-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold text-foreground">{job.title}</h3>
+                        {job.application_deadline && (
+                          <Badge variant="outline">
+                            Apply by {new Date(job.application_deadline).toLocaleDateString()}
+                          </Badge>
+                        )}
+                      </div>
+                      <JobMeta job={job} />
+                    </div>
+                    <ChevronRight className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Careers",
+  description: "Open positions and job applications",
+};
+
+export default function CareersLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-linear-to-b from-background to-muted/20">
+      {children}
+    </div>
+  );
+}
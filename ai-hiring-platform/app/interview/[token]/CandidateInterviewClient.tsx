@@ -1,14 +1,20 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback } from "react";
 import { format, formatDistanceToNow } from "date-fns";
 import {
   AlertCircle,
   ArrowRight,
+  CalendarCheck,
+  CalendarX,
   CheckCircle,
   Clock,
+  CloudOff,
+  Dumbbell,
+  CornerDownRight,
   Loader2,
   Play,
+  RotateCcw,
   Send,
   Timer,
 } from "lucide-react";
@@ -18,15 +24,32 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Progress } from "@/components/ui/progress";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import type { InterviewQuestion } from "@/types";
+import { CodingQuestionPanel, type CandidateCodingSpec } from "@/components/interview/CodingQuestionPanel";
+import { CandidateRescheduleOptions } from "@/components/interview/CandidateRescheduleOptions";
+import { PracticeInterview } from "@/components/interview/PracticeInterview";
+import { SlotPicker } from "@/components/interview/SlotPicker";
+import { SystemCheck } from "@/components/interview/SystemCheck";
+import { useIntegritySignals } from "@/hooks/use-integrity-signals";
+import type { CandidateRescheduleStatus } from "@/lib/interview-availability";
+import type {
+  CodeLanguage,
+  InterviewAvailability,
+  InterviewClock,
+  InterviewQuestion,
+  SaveAnswerResponse,
+  SaveDraftResponse,
+} from "@/types";
 
 // Interview states
 type InterviewState =
   | "loading"
+  | "booking"
   | "too_early"
   | "ready"
+  | "practice"
   | "in_progress"
   | "completed"
+  | "declined"
   | "expired"
   | "invalid";
 
@@ -41,18 +64,97 @@ interface InterviewData {
     level?: string;
   };
   duration_minutes: number;
+  /** Submitted automatically when the duration (times time_multiplier) runs out */
+  enforce_time_limit?: boolean;
+  question_time_limit_minutes?: number | null;
+  /** Extended-time accommodation */
+  time_multiplier?: number;
   total_questions: number;
   questions_answered: number;
   scheduled_at?: string;
   minutes_until_start?: number;
   expires_at?: string;
+  /** The candidate declined the interview */
+  declined?: boolean;
+  reschedule?: CandidateRescheduleStatus;
+  /** Slots the candidate can book or reschedule to */
+  availability?: InterviewAvailability | null;
 }
 
 interface QuestionWithAnswer extends InterviewQuestion {
   user_answer: string;
+  /** Language of a coding answer, null for text questions */
+  user_language: CodeLanguage | null;
   time_started: number;
 }
 
+// Coding questions come with their visible test cases only
+const codingSpecOf = (question: InterviewQuestion) =>
+  question.question_type === "coding" && question.coding_spec
+    ? (question.coding_spec as unknown as CandidateCodingSpec)
+    : null;
+
+// Picks up the saved answer or draft; coding questions start from the starter code
+const withAnswerState = (question: InterviewQuestion): QuestionWithAnswer => {
+  const spec = codingSpecOf(question);
+  const language = spec ? question.code_language ?? spec.languages[0] : null;
+  return {
+    ...question,
+    user_answer:
+      question.candidate_answer ||
+      question.draft_answer ||
+      (spec && language ? spec.starter_code[language] ?? "" : ""),
+    user_language: language,
+    time_started: Date.now(),
+  };
+};
+
+/** How often the answer being written is autosaved to the server */
+const DRAFT_AUTOSAVE_INTERVAL_MS = 10000;
+
+// Drafts kept on this device too, so a refresh or lost connection doesn't lose typed text
+type LocalDrafts = Record<string, { answer: string; language: CodeLanguage | null; saved_at: number }>;
+
+const localDraftsKey = (token: string) => `interview-drafts:${token}`;
+
+const readLocalDrafts = (token: string): LocalDrafts => {
+  try {
+    return JSON.parse(localStorage.getItem(localDraftsKey(token)) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const writeLocalDraft = (token: string, question: QuestionWithAnswer) => {
+  try {
+    const drafts = readLocalDrafts(token);
+    drafts[question.id] = {
+      answer: question.user_answer,
+      language: question.user_language,
+      saved_at: Date.now(),
+    };
+    localStorage.setItem(localDraftsKey(token), JSON.stringify(drafts));
+  } catch {
+    // Storage full or disabled; the server draft still applies
+  }
+};
+
+// Local drafts newer than the server's win, e.g. typed while offline
+const withLocalDraft = (question: QuestionWithAnswer, drafts: LocalDrafts): QuestionWithAnswer => {
+  const local = drafts[question.id];
+  if (!local || question.candidate_answer) return question;
+  const serverSavedAt = question.draft_saved_at ? new Date(question.draft_saved_at).getTime() : 0;
+  if (local.saved_at <= serverSavedAt) return question;
+  return { ...question, user_answer: local.answer, user_language: local.language ?? question.user_language };
+};
+
+// e.g. "4:05"
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
 interface CandidateInterviewClientProps {
   token: string;
 }
@@ -65,7 +167,25 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [countdown, setCountdown] = useState<number>(0);
-  const [elapsedTime, setElapsedTime] = useState(0);
+  // The server keeps the interview clock; the countdown follows it
+  const [clock, setClock] = useState<InterviewClock | null>(null);
+  // Server time minus device time, so a wrong device clock doesn't skew the countdown
+  const [clockOffset, setClockOffset] = useState(0);
+  const [questionDeadlines, setQuestionDeadlines] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(() => Date.now());
+  // Deadlines already acted on ("interview" or a question ID)
+  const timeUpHandled = useRef<Set<string>>(new Set());
+  const [isOnline, setIsOnline] = useState(true);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  // Starting is blocked until the browser and connection pass the system check
+  const [systemCheckPassed, setSystemCheckPassed] = useState(false);
+  // Start time picked from a booking link
+  const [bookingSlot, setBookingSlot] = useState("");
+  // Last draft text the server has, per question
+  const serverDrafts = useRef<Record<string, string>>({});
+  const integrity = useIntegritySignals(
+    state === "in_progress" ? questions[currentQuestionIndex]?.id ?? null : null
+  );
 
   // Fetch interview data
   const fetchInterviewStatus = useCallback(async () => {
@@ -94,7 +214,11 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
 
       // Determine state based on response
       if (!data.can_start) {
-        if (data.reason?.includes("not started yet") || data.minutes_until_start) {
+        if (data.declined) {
+          setState("declined");
+        } else if (data.status === "awaiting_booking") {
+          setState("booking");
+        } else if (data.reason?.includes("not started yet") || data.minutes_until_start) {
           setState("too_early");
           setCountdown(data.minutes_until_start || 0);
         } else if (data.status === "completed") {
@@ -107,7 +231,8 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
           setError(data.reason || "Unable to access interview");
         }
       } else {
-        setState(data.status === "in_progress" ? "in_progress" : "ready");
+        // In-progress interviews resume from the ready screen
+        setState("ready");
       }
     } catch (err) {
       setState("invalid");
@@ -115,7 +240,73 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
     }
   }, [token]);
 
+  const applyClock = (next: InterviewClock) => {
+    setClock(next);
+    setClockOffset(new Date(next.server_time).getTime() - Date.now());
+    const { question_id, question_deadline } = next;
+    if (question_id && question_deadline) {
+      setQuestionDeadlines((current) => ({ ...current, [question_id]: question_deadline }));
+    }
+    if (next.time_up) {
+      setState("completed");
+    }
+  };
+
+  // Sync the countdown with the server; opening a question starts its time limit
+  const syncClock = useCallback(
+    async (questionId?: string) => {
+      try {
+        const response = await fetch(`/api/interviews/${token}/clock`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token, question_id: questionId }),
+        });
+        if (response.status === 400) {
+          // No longer in progress, e.g. submitted from another tab
+          fetchInterviewStatus();
+          return;
+        }
+        if (response.ok) {
+          applyClock(await response.json());
+        }
+      } catch {
+        // Keep counting down from the last sync
+      }
+    },
+    [token, fetchInterviewStatus]
+  );
+
   // Start the interview
+  // Book the picked start time, then show the scheduled interview
+  const bookInterview = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/interviews/${token}/book`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          token,
+          scheduled_at: bookingSlot,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to book interview");
+      }
+
+      setBookingSlot("");
+      await fetchInterviewStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to book interview");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const startInterview = async (forceStart = false) => {
     setIsSubmitting(true);
     setError(null);
@@ -135,24 +326,32 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
           setCountdown(errorData.details?.minutes_until_start || 0);
           return;
         }
+        if (errorData.code === "TIME_EXPIRED") {
+          // Time ran out while away; the saved answers were submitted
+          setState("completed");
+          return;
+        }
         throw new Error(errorData.error || "Failed to start interview");
       }
 
       const data = await response.json();
 
-      // Initialize questions with user answer tracking
+      // Initialize questions with user answer tracking, restoring drafts
+      const localDrafts = readLocalDrafts(token);
       const questionsWithAnswers: QuestionWithAnswer[] = data.questions.map(
-        (q: InterviewQuestion) => ({
-          ...q,
-          user_answer: q.candidate_answer || "",
-          time_started: Date.now(),
-        })
+        (q: InterviewQuestion) => withLocalDraft(withAnswerState(q), localDrafts)
+      );
+      serverDrafts.current = Object.fromEntries(
+        data.questions
+          .filter((q: InterviewQuestion) => q.draft_answer !== null)
+          .map((q: InterviewQuestion) => [q.id, q.draft_answer])
       );
 
       setQuestions(questionsWithAnswers);
+      applyClock(data.clock);
       setState("in_progress");
 
-      // Find first unanswered question
+      // Resume at the first unanswered question
       const firstUnanswered = questionsWithAnswers.findIndex(
         (q) => !q.candidate_answer
       );
@@ -164,6 +363,50 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
     }
   };
 
+  // Save the current answer; in adaptive interviews the server may
+  // insert a follow-up question right after it
+  const saveCurrentAnswer = async (): Promise<InterviewQuestion | null> => {
+    const currentQuestion = questions[currentQuestionIndex];
+    const response = await fetch(`/api/interviews/${token}/submit`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        token,
+        question_id: currentQuestion.id,
+        answer: currentQuestion.user_answer,
+        time_spent_seconds: Math.floor((Date.now() - currentQuestion.time_started) / 1000),
+        language: currentQuestion.user_language ?? undefined,
+        integrity_signals: integrity.signalsFor(currentQuestion.id),
+      }),
+    });
+
+    if (response.status === 410) {
+      // Time ran out; the server has submitted the interview
+      setState("completed");
+    }
+    if (!response.ok) {
+      throw new Error("Failed to save answer");
+    }
+
+    const data: SaveAnswerResponse = await response.json();
+    if (!data.follow_up || questions.some((q) => q.id === data.follow_up?.id)) {
+      return null;
+    }
+    return data.follow_up;
+  };
+
+  // Show the next question, inserting a follow-up first if there is one
+  const goToNextQuestion = (followUp: InterviewQuestion | null) => {
+    const updatedQuestions = [...questions];
+    if (followUp) {
+      updatedQuestions.splice(currentQuestionIndex + 1, 0, withAnswerState(followUp));
+    }
+    // Update the time_started for the next question
+    updatedQuestions[currentQuestionIndex + 1].time_started = Date.now();
+    setQuestions(updatedQuestions);
+    setCurrentQuestionIndex(currentQuestionIndex + 1);
+  };
+
   // Save answer and move to next question
   const saveAndNext = async () => {
     const currentQuestion = questions[currentQuestionIndex];
@@ -176,28 +419,18 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
     setError(null);
 
     try {
-      // Save the current answer
-      await fetch(`/api/interviews/${token}/submit`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          token,
-          question_id: currentQuestion.id,
-          answer: currentQuestion.user_answer,
-          time_spent_seconds: Math.floor((Date.now() - currentQuestion.time_started) / 1000),
-        }),
-      });
+      const followUp = await saveCurrentAnswer();
 
       // Move to next question or show completion if last
-      if (currentQuestionIndex < questions.length - 1) {
-        // Update the time_started for the next question
-        const updatedQuestions = [...questions];
-        updatedQuestions[currentQuestionIndex + 1].time_started = Date.now();
-        setQuestions(updatedQuestions);
-        setCurrentQuestionIndex(currentQuestionIndex + 1);
+      if (followUp || currentQuestionIndex < questions.length - 1) {
+        goToNextQuestion(followUp);
       }
     } catch (err) {
-      setError("Failed to save answer. Please try again.");
+      setError(
+        isOnline
+          ? "Failed to save answer. Please try again."
+          : "You're offline. Your answer is kept on this device; try again once you're back online."
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -215,23 +448,14 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
     setError(null);
 
     try {
-      // Prepare all answers
-      const answers = questions.map((q) => ({
-        question_id: q.id,
-        answer: q.user_answer,
-        time_spent_seconds: q.time_spent_seconds || 0,
-      }));
-
-      const response = await fetch(`/api/interviews/${token}/submit`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ token, answers }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to submit interview");
+      // The last answer can still earn a follow-up; answer it before submitting
+      const followUp = await saveCurrentAnswer();
+      if (followUp) {
+        goToNextQuestion(followUp);
+        return;
       }
 
+      await postAllAnswers(questions);
       setState("completed");
     } catch (err) {
       setError("Failed to submit interview. Please try again.");
@@ -240,18 +464,162 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
     }
   };
 
+  // Submit the interview with every answer written so far
+  const postAllAnswers = async (answered: QuestionWithAnswer[]) => {
+    const answers = answered.map((q) => ({
+      question_id: q.id,
+      answer: q.user_answer,
+      time_spent_seconds: q.time_spent_seconds || 0,
+      language: q.user_language ?? undefined,
+      integrity_signals: integrity.signalsFor(q.id),
+    }));
+
+    const response = await fetch(`/api/interviews/${token}/submit`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token, answers }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to submit interview");
+    }
+  };
+
+  // The interview's time ran out: submit what's written. If that fails the
+  // server still submits the saved answers, so the interview ends either way.
+  const submitOnTimeUp = async () => {
+    setIsSubmitting(true);
+    try {
+      await postAllAnswers(questions.filter((q) => q.user_answer.trim()));
+    } catch {
+      // Submitted by the server
+    } finally {
+      setIsSubmitting(false);
+      setState("completed");
+    }
+  };
+
+  // The question's time ran out: save what's written and move on
+  const moveOnAfterQuestionTimeUp = async () => {
+    const currentQuestion = questions[currentQuestionIndex];
+    setIsSubmitting(true);
+    setError(null);
+
+    let followUp: InterviewQuestion | null = null;
+    try {
+      if (currentQuestion.user_answer.trim()) {
+        followUp = await saveCurrentAnswer();
+      }
+    } catch {
+      // Too late to save; the question is locked either way
+    } finally {
+      setIsSubmitting(false);
+    }
+
+    if (followUp || currentQuestionIndex < questions.length - 1) {
+      goToNextQuestion(followUp);
+    } else {
+      await submitOnTimeUp();
+    }
+  };
+
   // Update answer for current question
   const updateAnswer = (answer: string) => {
     const updatedQuestions = [...questions];
     updatedQuestions[currentQuestionIndex].user_answer = answer;
     setQuestions(updatedQuestions);
+    writeLocalDraft(token, updatedQuestions[currentQuestionIndex]);
   };
 
+  // Switch a coding answer's language; untouched starter code is swapped for the new language's
+  const updateLanguage = (language: CodeLanguage) => {
+    const updatedQuestions = [...questions];
+    const question = updatedQuestions[currentQuestionIndex];
+    const spec = codingSpecOf(question);
+    const previousStarter = (question.user_language && spec?.starter_code[question.user_language]) ?? "";
+    if (spec && (!question.user_answer.trim() || question.user_answer === previousStarter)) {
+      question.user_answer = spec.starter_code[language] ?? "";
+    }
+    question.user_language = language;
+    setQuestions(updatedQuestions);
+    writeLocalDraft(token, question);
+  };
+
+  // Autosave the answer being written, if it changed since the last save
+  const saveDraft = useCallback(async (question: QuestionWithAnswer | undefined, keepalive = false) => {
+    if (!question || question.candidate_answer) return;
+    if (serverDrafts.current[question.id] === question.user_answer) return;
+
+    try {
+      const response = await fetch(`/api/interviews/${token}/draft`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          token,
+          question_id: question.id,
+          draft: question.user_answer,
+          language: question.user_language ?? undefined,
+        }),
+        keepalive,
+      });
+      if (response.ok) {
+        const data: SaveDraftResponse = await response.json();
+        serverDrafts.current[question.id] = question.user_answer;
+        setDraftSavedAt(new Date(data.saved_at));
+      }
+    } catch {
+      // Offline; the local draft is saved again on the next attempt
+    }
+  }, [token]);
+
   // Initial fetch
   useEffect(() => {
     fetchInterviewStatus();
   }, [fetchInterviewStatus]);
 
+  // Track connectivity, saving the draft as soon as the connection is back
+  const currentQuestionRef = useRef<QuestionWithAnswer | undefined>(undefined);
+  currentQuestionRef.current = state === "in_progress" ? questions[currentQuestionIndex] : undefined;
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    const onOnline = () => {
+      setIsOnline(true);
+      saveDraft(currentQuestionRef.current);
+    };
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, [saveDraft]);
+
+  // Autosave drafts while the interview is open, and when the page is hidden or closed
+  useEffect(() => {
+    if (state !== "in_progress") return;
+    const interval = setInterval(() => saveDraft(currentQuestionRef.current), DRAFT_AUTOSAVE_INTERVAL_MS);
+    const onHide = () => {
+      if (document.visibilityState === "hidden") saveDraft(currentQuestionRef.current, true);
+    };
+    document.addEventListener("visibilitychange", onHide);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", onHide);
+    };
+  }, [state, saveDraft]);
+
+  // Drafts on this device aren't needed once the interview is submitted
+  useEffect(() => {
+    if (state === "completed") {
+      try {
+        localStorage.removeItem(localDraftsKey(token));
+      } catch {
+        // Storage disabled
+      }
+    }
+  }, [state, token]);
+
   // Countdown timer for too_early state
   useEffect(() => {
     if (state === "too_early" && countdown > 0) {
@@ -270,23 +638,59 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
     }
   }, [state, countdown, fetchInterviewStatus]);
 
-  // Elapsed time tracker for in_progress state
+  // Clock tick for in_progress state
   useEffect(() => {
     if (state === "in_progress") {
-      const interval = setInterval(() => {
-        setElapsedTime((prev) => prev + 1);
-      }, 1000);
-
+      const interval = setInterval(() => setNow(Date.now()), 1000);
       return () => clearInterval(interval);
     }
   }, [state]);
 
-  // Format elapsed time
-  const formatElapsedTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
-  };
+  // Start each question's clock when it's shown, and resync every minute
+  const currentQuestionId = state === "in_progress" ? questions[currentQuestionIndex]?.id : undefined;
+  useEffect(() => {
+    if (!currentQuestionId) return;
+    syncClock(currentQuestionId);
+    const interval = setInterval(() => syncClock(currentQuestionId), 60000);
+    return () => clearInterval(interval);
+  }, [currentQuestionId, syncClock]);
+
+  // Act on deadlines as they pass, with the handlers of the latest render
+  const timeUpHandlersRef = useRef({ submitOnTimeUp, moveOnAfterQuestionTimeUp });
+  timeUpHandlersRef.current = { submitOnTimeUp, moveOnAfterQuestionTimeUp };
+  useEffect(() => {
+    if (state !== "in_progress" || isSubmitting || !currentQuestionId) return;
+    const serverNow = now + clockOffset;
+
+    if (clock?.deadline && serverNow >= new Date(clock.deadline).getTime()) {
+      if (!timeUpHandled.current.has("interview")) {
+        timeUpHandled.current.add("interview");
+        timeUpHandlersRef.current.submitOnTimeUp();
+      }
+      return;
+    }
+
+    const questionDeadline = questionDeadlines[currentQuestionId];
+    if (questionDeadline && serverNow >= new Date(questionDeadline).getTime()) {
+      if (!timeUpHandled.current.has(currentQuestionId)) {
+        timeUpHandled.current.add(currentQuestionId);
+        timeUpHandlersRef.current.moveOnAfterQuestionTimeUp();
+      }
+    }
+  }, [now, state, isSubmitting, currentQuestionId, clock, clockOffset, questionDeadlines]);
+
+  // Reschedule and decline, until the interview starts
+  const rescheduleOptions =
+    interviewData?.status === "scheduled" && interviewData.reschedule ? (
+      <CandidateRescheduleOptions
+        token={token}
+        durationMinutes={interviewData.duration_minutes}
+        reschedule={interviewData.reschedule}
+        availability={interviewData.availability ?? null}
+        onRescheduled={() => fetchInterviewStatus()}
+        onDeclined={() => setState("declined")}
+      />
+    ) : null;
 
   // Loading state
   if (state === "loading") {
@@ -327,6 +731,76 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
     );
   }
 
+  // Booking state
+  if (state === "booking" && interviewData) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mb-4">
+              <CalendarCheck className="h-8 w-8 text-primary" />
+            </div>
+            <CardTitle>Choose Your Interview Time</CardTitle>
+            <CardDescription>
+              Pick whichever time suits you best
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {interviewData.job && (
+              <div className="text-center">
+                <p className="font-medium">{interviewData.job.title}</p>
+                {interviewData.job.level && (
+                  <Badge variant="secondary" className="mt-1">
+                    {interviewData.job.level}
+                  </Badge>
+                )}
+              </div>
+            )}
+
+            {interviewData.availability && (
+              <SlotPicker
+                availability={interviewData.availability}
+                durationMinutes={interviewData.duration_minutes}
+                value={bookingSlot}
+                onChange={setBookingSlot}
+                emptyMessage="There are no times left to book. Please contact the recruiter who sent you this link."
+              />
+            )}
+
+            <div className="text-center text-sm text-muted-foreground">
+              <p>Times are shown in your timezone.</p>
+              <p className="mt-2">Duration: ~{interviewData.duration_minutes} minutes</p>
+            </div>
+
+            {error && (
+              <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            <Button
+              onClick={bookInterview}
+              disabled={isSubmitting || !bookingSlot}
+              className="w-full"
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Booking...
+                </>
+              ) : (
+                <>
+                  <CalendarCheck className="mr-2 h-4 w-4" />
+                  Book Interview
+                </>
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   // Too early state
   if (state === "too_early" && interviewData) {
     const scheduledDate = interviewData.scheduled_at
@@ -407,6 +881,8 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
                 Check Availability
               </Button>
             </div>
+
+            {rescheduleOptions}
           </CardContent>
         </Card>
       </div>
@@ -415,6 +891,7 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
 
   // Ready state
   if (state === "ready" && interviewData) {
+    const isResuming = interviewData.status === "in_progress";
     return (
       <div className="min-h-screen flex items-center justify-center bg-background p-4">
         <Card className="max-w-lg w-full">
@@ -422,9 +899,11 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
             <div className="mx-auto w-16 h-16 rounded-full bg-green-500/10 flex items-center justify-center mb-4">
               <Play className="h-8 w-8 text-green-500" />
             </div>
-            <CardTitle>Ready to Begin</CardTitle>
+            <CardTitle>{isResuming ? "Welcome Back" : "Ready to Begin"}</CardTitle>
             <CardDescription>
-              Your AI interview is ready to start
+              {isResuming
+                ? `You've answered ${interviewData.questions_answered} of ${interviewData.total_questions} questions. Your progress has been saved.`
+                : "Your AI interview is ready to start"}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -446,8 +925,20 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Duration</span>
-                <span className="font-medium">~{interviewData.duration_minutes} minutes</span>
+                <span className="font-medium">
+                  {interviewData.enforce_time_limit
+                    ? `${Math.round(interviewData.duration_minutes * (interviewData.time_multiplier ?? 1))} minutes, timed`
+                    : `~${interviewData.duration_minutes} minutes`}
+                </span>
               </div>
+              {interviewData.question_time_limit_minutes && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Per question</span>
+                  <span className="font-medium">
+                    {Math.round(interviewData.question_time_limit_minutes * (interviewData.time_multiplier ?? 1))} minutes
+                  </span>
+                </div>
+              )}
             </div>
 
             <div className="space-y-2 text-sm text-muted-foreground">
@@ -455,27 +946,53 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
               <ul className="list-disc list-inside space-y-1">
                 <li>Find a quiet place with stable internet</li>
                 <li>Your answers are automatically saved</li>
-                <li>You can take your time - there's no strict time limit per question</li>
+                {interviewData.question_time_limit_minutes ? (
+                  <li>When a question&apos;s time runs out, what you&apos;ve written is saved and the next one opens</li>
+                ) : (
+                  <li>You can take your time - there&apos;s no strict time limit per question</li>
+                )}
+                {interviewData.enforce_time_limit && (
+                  <li>When the interview&apos;s time runs out, your answers are submitted automatically</li>
+                )}
                 <li>Be specific and provide examples when possible</li>
               </ul>
             </div>
 
+            <SystemCheck token={token} onResult={setSystemCheckPassed} />
+
             {error && (
               <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-lg">
                 {error}
               </div>
             )}
 
+            {!isResuming && (
+              <Button
+                variant="outline"
+                onClick={() => setState("practice")}
+                disabled={isSubmitting}
+                className="w-full"
+              >
+                <Dumbbell className="mr-2 h-4 w-4" />
+                Try a practice question
+              </Button>
+            )}
+
             <Button
               onClick={startInterview}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !systemCheckPassed}
               className="w-full"
               size="lg"
             >
               {isSubmitting ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Starting...
+                  {isResuming ? "Resuming..." : "Starting..."}
+                </>
+              ) : isResuming ? (
+                <>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Resume Interview
                 </>
               ) : (
                 <>
@@ -484,17 +1001,38 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
                 </>
               )}
             </Button>
+
+            {!isResuming && rescheduleOptions}
           </CardContent>
         </Card>
       </div>
     );
   }
 
+  // Practice run, nothing is saved
+  if (state === "practice" && interviewData) {
+    return (
+      <PracticeInterview
+        questionTimeLimitMinutes={interviewData.question_time_limit_minutes}
+        onExit={() => setState("ready")}
+      />
+    );
+  }
+
   // In progress state
   if (state === "in_progress" && questions.length > 0) {
     const currentQuestion = questions[currentQuestionIndex];
+    const currentSpec = codingSpecOf(currentQuestion);
     const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
     const isLastQuestion = currentQuestionIndex === questions.length - 1;
+    const serverNow = now + clockOffset;
+    const secondsUntil = (deadline: string | null | undefined) =>
+      deadline ? Math.max(0, Math.ceil((new Date(deadline).getTime() - serverNow) / 1000)) : null;
+    const interviewSecondsLeft = secondsUntil(clock?.deadline);
+    const questionSecondsLeft = secondsUntil(questionDeadlines[currentQuestion.id]);
+    const elapsedSeconds = clock?.started_at
+      ? Math.max(0, Math.floor((serverNow - new Date(clock.started_at).getTime()) / 1000))
+      : 0;
 
     return (
       <div className="min-h-screen bg-background">
@@ -509,10 +1047,30 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
                 {currentQuestion.category && (
                   <Badge variant="outline">{currentQuestion.category}</Badge>
                 )}
+                {currentQuestion.parent_question_id && (
+                  <Badge variant="outline" className="gap-1">
+                    <CornerDownRight className="h-3 w-3" />
+                    Follow-up
+                  </Badge>
+                )}
               </div>
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <Timer className="h-4 w-4" />
-                {formatElapsedTime(elapsedTime)}
+              <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                {questionSecondsLeft !== null && (
+                  <span className={cn(questionSecondsLeft < 30 && "text-destructive font-medium")}>
+                    This question: {formatSeconds(questionSecondsLeft)}
+                  </span>
+                )}
+                <span
+                  className={cn(
+                    "flex items-center gap-2",
+                    interviewSecondsLeft !== null && interviewSecondsLeft < 60 && "text-destructive font-medium"
+                  )}
+                >
+                  <Timer className="h-4 w-4" />
+                  {interviewSecondsLeft !== null
+                    ? `${formatSeconds(interviewSecondsLeft)} left`
+                    : formatSeconds(elapsedSeconds)}
+                </span>
               </div>
             </div>
             <Progress value={progress} className="h-2" />
@@ -544,16 +1102,42 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
             </div>
 
             {/* Answer input */}
-            <div className="space-y-2">
-              <Textarea
-                placeholder="Type your answer here..."
-                value={currentQuestion.user_answer}
-                onChange={(e) => updateAnswer(e.target.value)}
-                rows={8}
-                className="resize-none"
-              />
-              <p className="text-xs text-muted-foreground text-right">
-                {currentQuestion.user_answer.length} characters
+            <div {...integrity.handlers}>
+              {currentSpec && currentQuestion.user_language ? (
+                <CodingQuestionPanel
+                  key={currentQuestion.id}
+                  token={token}
+                  questionId={currentQuestion.id}
+                  spec={currentSpec}
+                  language={currentQuestion.user_language}
+                  code={currentQuestion.user_answer}
+                  onLanguageChange={updateLanguage}
+                  onCodeChange={updateAnswer}
+                  disabled={isSubmitting}
+                />
+              ) : (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="Type your answer here..."
+                    value={currentQuestion.user_answer}
+                    onChange={(e) => updateAnswer(e.target.value)}
+                    rows={8}
+                    className="resize-none"
+                  />
+                  <p className="text-xs text-muted-foreground text-right">
+                    {currentQuestion.user_answer.length} characters
+                  </p>
+                </div>
+              )}
+              <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                {!isOnline ? (
+                  <>
+                    <CloudOff className="h-3 w-3" />
+                    Offline - your answer is kept on this device and saved when you reconnect
+                  </>
+                ) : (
+                  draftSavedAt && `Draft saved at ${format(draftSavedAt, "h:mm:ss a")}`
+                )}
               </p>
             </div>
 
@@ -635,6 +1219,31 @@ export default function CandidateInterviewClient({ token }: CandidateInterviewCl
     );
   }
 
+  // Declined state
+  if (state === "declined") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+              <CalendarX className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <CardTitle>Interview Declined</CardTitle>
+            <CardDescription>
+              You&apos;ve declined this interview
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            <p className="text-sm text-muted-foreground">
+              The hiring team has been told. If you change your mind, please
+              contact the recruiter who sent you this link.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   // Completed state
   if (state === "completed") {
     return (
@@ -7,8 +7,11 @@ import {
   Briefcase,
   Calendar,
   LayoutDashboard,
+  LogOut,
+  Settings,
 } from "lucide-react"
 
+import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 
 // #region agent log
@@ -19,6 +22,7 @@ const navigation = [
   { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
   { name: "Jobs", href: "/jobs", icon: Briefcase },
   { name: "Interviews", href: "/interviews", icon: Calendar },
+  { name: "Settings", href: "/settings", icon: Settings },
 ]
 
 // #region agent log
@@ -72,6 +76,12 @@ export function AppHeader() {
 
         {/* Actions */}
         <div className="flex items-center gap-3">
+          <form action="/auth/signout" method="post">
+            <Button type="submit" variant="ghost" size="sm" className="text-muted-foreground">
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          </form>
         </div>
       </div>
     </header>
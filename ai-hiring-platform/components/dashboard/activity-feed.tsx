@@ -4,6 +4,7 @@ import { useState } from "react"
 import {
   ArrowRight,
   Calendar,
+  ClipboardCheck,
   FileCheck,
   Sparkles,
   UserPlus,
@@ -35,6 +36,8 @@ const getActivityIcon = (type: string) => {
     case "ai_scored":
       return { icon: Sparkles, color: "text-success", bg: "bg-success/10" }
     case "interview_scheduled":
+    case "interview_rescheduled":
+    case "interview_declined":
     case "interview_completed":
       return { icon: Calendar, color: "text-warning", bg: "bg-warning/10" }
     case "stage_changed":
@@ -46,6 +49,8 @@ const getActivityIcon = (type: string) => {
       return { icon: Star, color: "text-warning", bg: "bg-warning/10" }
     case "comment_added":
       return { icon: MessageSquare, color: "text-muted-foreground", bg: "bg-muted" }
+    case "scorecard_submitted":
+      return { icon: ClipboardCheck, color: "text-primary", bg: "bg-primary/10" }
     default:
       return { icon: FileCheck, color: "text-muted-foreground", bg: "bg-muted" }
   }
@@ -43,6 +43,7 @@ interface UpcomingInterviewsSectionProps {
 
 const statusColors: Record<InterviewStatus, string> = {
   pending: "bg-gray-100 text-gray-800",
+  awaiting_booking: "bg-purple-100 text-purple-800",
   scheduled: "bg-blue-100 text-blue-800",
   ready: "bg-green-100 text-green-800",
   sent: "bg-blue-100 text-blue-800",
@@ -196,7 +197,9 @@ export function UpcomingInterviewsSection({
                   >
                     {interview.status === "in_progress"
                       ? "In Progress"
-                      : interview.status.charAt(0).toUpperCase() + interview.status.slice(1)}
+                      : interview.status === "awaiting_booking"
+                        ? "Awaiting Booking"
+                        : interview.status.charAt(0).toUpperCase() + interview.status.slice(1)}
                   </Badge>
 
                   {/* Actions */}
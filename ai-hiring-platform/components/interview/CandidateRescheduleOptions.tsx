@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarClock, Loader2, XCircle } from "lucide-react";
+import type { CandidateRescheduleStatus } from "@/lib/interview-availability";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { InterviewAvailability } from "@/types";
+import { SlotPicker } from "./SlotPicker";
+
+interface CandidateRescheduleOptionsProps {
+  /** Interview access token */
+  token: string;
+  durationMinutes: number;
+  reschedule: CandidateRescheduleStatus;
+  availability: InterviewAvailability | null;
+  /** Called with the new start time */
+  onRescheduled: (scheduledAt: string) => void;
+  onDeclined: () => void;
+}
+
+type Mode = "closed" | "reschedule" | "decline";
+
+/**
+ * Lets the candidate move their scheduled interview to another offered
+ * slot, or decline it, from the interview link
+ */
+export function CandidateRescheduleOptions({
+  token,
+  durationMinutes,
+  reschedule,
+  availability,
+  onRescheduled,
+  onDeclined,
+}: CandidateRescheduleOptionsProps) {
+  const [mode, setMode] = useState<Mode>("closed");
+  const [slot, setSlot] = useState<string>("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    setMode("closed");
+    setSlot("");
+    setReason("");
+    setError(null);
+  };
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/interviews/${token}/${mode === "reschedule" ? "reschedule" : "decline"}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            token,
+            ...(mode === "reschedule" && { scheduled_at: slot }),
+            reason: reason.trim() || undefined,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong. Please try again.");
+      }
+
+      if (mode === "reschedule") {
+        onRescheduled(slot);
+      } else {
+        onDeclined();
+      }
+      close();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (mode === "closed") {
+    return (
+      <div className="border-t pt-4 space-y-2">
+        <p className="text-sm text-center text-muted-foreground">Can&apos;t make it?</p>
+        <div className="flex gap-2">
+          {reschedule.allowed && (
+            <Button variant="outline" className="flex-1" onClick={() => setMode("reschedule")}>
+              <CalendarClock className="mr-2 h-4 w-4" />
+              Pick another time
+            </Button>
+          )}
+          <Button variant="ghost" className="flex-1" onClick={() => setMode("decline")}>
+            <XCircle className="mr-2 h-4 w-4" />
+            Decline interview
+          </Button>
+        </div>
+        {reschedule.allowed && (
+          <p className="text-xs text-center text-muted-foreground">
+            You can reschedule {reschedule.remaining === 1 ? "once more" : `${reschedule.remaining} more times`}.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t pt-4 space-y-4">
+      {mode === "reschedule" ? (
+        availability && (
+          <SlotPicker
+            availability={availability}
+            durationMinutes={durationMinutes}
+            value={slot}
+            onChange={setSlot}
+            emptyMessage="There are no other times available. Please contact the recruiter who sent you this link."
+          />
+        )
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          The interview will be cancelled and the hiring team will be told. This can&apos;t be undone.
+        </p>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="candidate-reason" className="text-xs font-normal text-muted-foreground">
+          Reason (optional, shared with the hiring team)
+        </Label>
+        <Textarea
+          id="candidate-reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+          maxLength={500}
+          className="resize-none"
+        />
+      </div>
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={close} disabled={isSubmitting}>
+          {mode === "reschedule" ? "Cancel" : "Keep my interview"}
+        </Button>
+        <Button
+          variant={mode === "decline" ? "destructive" : "default"}
+          className="flex-1"
+          onClick={submit}
+          disabled={isSubmitting || (mode === "reschedule" && !slot)}
+        >
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {mode === "reschedule" ? "Confirm new time" : "Decline interview"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useRef } from "react";
+import { cn } from "@/lib/utils";
+import type { CodeLanguage } from "@/types";
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  language: CodeLanguage;
+  disabled?: boolean;
+  minLines?: number;
+  className?: string;
+}
+
+const INDENT: Record<CodeLanguage, string> = {
+  javascript: "  ",
+  typescript: "  ",
+  python: "    ",
+};
+
+/**
+ * Lightweight code editor: monospace textarea with line numbers, Tab to
+ * indent and auto-indent on Enter
+ */
+export function CodeEditor({
+  value,
+  onChange,
+  language,
+  disabled = false,
+  minLines = 16,
+  className,
+}: CodeEditorProps) {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const lineCount = Math.max(value.split("\n").length, minLines);
+
+  // Replaces the selection and puts the cursor after the inserted text
+  const insert = (textarea: HTMLTextAreaElement, text: string) => {
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(value.slice(0, selectionStart) + text + value.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + text.length;
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    if (e.key === "Tab" && !e.shiftKey) {
+      e.preventDefault();
+      insert(textarea, INDENT[language]);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const lineStart = value.lastIndexOf("\n", textarea.selectionStart - 1) + 1;
+      const currentLine = value.slice(lineStart, textarea.selectionStart);
+      const indent = currentLine.match(/^\s*/)?.[0] ?? "";
+      const opensBlock = /[{[(:]\s*$/.test(currentLine);
+      insert(textarea, `\n${indent}${opensBlock ? INDENT[language] : ""}`);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex rounded-md border border-input bg-muted/30 font-mono text-sm focus-within:ring-2 focus-within:ring-ring",
+        disabled && "opacity-60",
+        className
+      )}
+    >
+      <div
+        ref={gutterRef}
+        aria-hidden
+        className="select-none overflow-hidden border-r border-border px-3 py-2 text-right text-muted-foreground"
+        style={{ height: `${minLines * 1.5}rem` }}
+      >
+        {Array.from({ length: lineCount }, (_, i) => (
+          <div key={i} className="leading-6">
+            {i + 1}
+          </div>
+        ))}
+      </div>
+      <textarea
+        aria-label="Code editor"
+        value={value}
+        disabled={disabled}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoCorrect="off"
+        wrap="off"
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => {
+          if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        className="flex-1 resize-none bg-transparent px-3 py-2 leading-6 outline-none"
+        style={{ height: `${minLines * 1.5}rem` }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { CheckCircle2, EyeOff, Loader2, Play, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CODE_LANGUAGES } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+import type { CodeExecutionResult, CodeLanguage, CodingQuestionSpec } from "@/types";
+import { CodeEditor } from "./CodeEditor";
+
+/**
+ * Coding question as the candidate gets it: visible tests only
+ */
+export type CandidateCodingSpec = CodingQuestionSpec & { hidden_test_count: number };
+
+interface CodingQuestionPanelProps {
+  /** Interview access token */
+  token: string;
+  questionId: string;
+  spec: CandidateCodingSpec;
+  language: CodeLanguage;
+  code: string;
+  onLanguageChange: (language: CodeLanguage) => void;
+  onCodeChange: (code: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Code editor with language choice and a test runner for the question's
+ * visible test cases
+ */
+export function CodingQuestionPanel({
+  token,
+  questionId,
+  spec,
+  language,
+  code,
+  onLanguageChange,
+  onCodeChange,
+  disabled = false,
+}: CodingQuestionPanelProps) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<CodeExecutionResult | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const runTests = async () => {
+    setIsRunning(true);
+    setRunError(null);
+
+    try {
+      const response = await fetch(`/api/interviews/${token}/run-code`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, question_id: questionId, language, code }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to run code");
+      }
+
+      setResult(await response.json());
+    } catch (err) {
+      setRunError(err instanceof Error ? err.message : "Failed to run code");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Select
+          value={language}
+          onValueChange={(value) => {
+            onLanguageChange(value as CodeLanguage);
+            setResult(null);
+          }}
+          disabled={disabled || spec.languages.length < 2}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CODE_LANGUAGES.filter((l) => spec.languages.includes(l.value)).map((l) => (
+              <SelectItem key={l.value} value={l.value}>
+                {l.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="font-mono text-xs text-muted-foreground">Implement {spec.function_name}()</p>
+      </div>
+
+      <CodeEditor value={code} onChange={onCodeChange} language={language} disabled={disabled} />
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {spec.test_cases.length} example test{spec.test_cases.length === 1 ? "" : "s"}
+          {spec.hidden_test_count > 0 &&
+            ` · ${spec.hidden_test_count} hidden test${spec.hidden_test_count === 1 ? "" : "s"} run after you submit`}
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={runTests}
+          disabled={disabled || isRunning || !code.trim() || spec.test_cases.length === 0}
+        >
+          {isRunning ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="mr-2 h-4 w-4" />
+          )}
+          Run tests
+        </Button>
+      </div>
+
+      {runError && (
+        <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-lg">{runError}</div>
+      )}
+
+      {result && (
+        <div className="rounded-lg border p-3 space-y-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Badge variant={result.status === "passed" ? "default" : "destructive"}>
+              {result.passed}/{result.total} passed
+            </Badge>
+            {result.status === "timeout" && <span className="text-muted-foreground">Timed out</span>}
+          </div>
+          {result.error && (
+            <pre className="whitespace-pre-wrap text-xs text-destructive">{result.error}</pre>
+          )}
+          {result.results.map((r) => {
+            const test = spec.test_cases.find((t) => t.id === r.test_id);
+            return (
+              <div key={r.test_id} className="flex items-start gap-2">
+                {r.passed ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-500 mt-0.5" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-destructive mt-0.5" />
+                )}
+                <div className="font-mono text-xs space-y-0.5">
+                  <p className={cn(!r.passed && "text-destructive")}>
+                    {r.hidden && <EyeOff className="inline h-3 w-3 mr-1" />}
+                    {r.name}
+                  </p>
+                  {test && !r.passed && (
+                    <p className="text-muted-foreground">
+                      {spec.function_name}({test.args.map((a) => JSON.stringify(a)).join(", ")}) expected{" "}
+                      {JSON.stringify(test.expected)}
+                      {r.error ? `, threw ${r.error}` : `, got ${JSON.stringify(r.actual ?? null)}`}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {result.output && (
+            <pre className="max-h-32 overflow-auto rounded bg-muted p-2 text-xs">{result.output}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowLeft, ArrowRight, CheckCircle, Loader2, Send, Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PRACTICE_QUESTIONS } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+
+interface PracticeInterviewProps {
+  /** The real interview's per-question limit; the practice run is then timed too */
+  questionTimeLimitMinutes?: number | null;
+  /** Back to the real interview's start screen */
+  onExit: () => void;
+}
+
+// e.g. "4:05"
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+/**
+ * A practice run of the candidate interview with generic sample questions
+ *
+ * Mirrors the real interview's question screen, timer and submission, but
+ * runs entirely in the browser: nothing is sent to the server, scored or
+ * stored against the interview.
+ */
+export function PracticeInterview({ questionTimeLimitMinutes, onExit }: PracticeInterviewProps) {
+  const [answers, setAnswers] = useState<string[]>(() => PRACTICE_QUESTIONS.map(() => ""));
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [seconds, setSeconds] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  const currentQuestion = PRACTICE_QUESTIONS[currentIndex];
+  const isLastQuestion = currentIndex === PRACTICE_QUESTIONS.length - 1;
+  // Timed like the real questions when those have a limit
+  const secondsLimit = questionTimeLimitMinutes ? currentQuestion.estimated_time_minutes * 60 : null;
+  const secondsLeft = secondsLimit !== null ? Math.max(0, secondsLimit - seconds) : null;
+
+  useEffect(() => {
+    if (isDone) return;
+    const interval = setInterval(() => setSeconds((s) => s + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isDone]);
+
+  const next = useCallback(() => {
+    if (isLastQuestion) {
+      // A short pause, like saving in the real interview
+      setIsSubmitting(true);
+      setTimeout(() => {
+        setIsSubmitting(false);
+        setIsDone(true);
+      }, 800);
+      return;
+    }
+    setCurrentIndex((index) => index + 1);
+    setSeconds(0);
+  }, [isLastQuestion]);
+
+  // Move on when a timed practice question runs out, as the real interview does
+  useEffect(() => {
+    if (secondsLeft === 0 && !isSubmitting && !isDone) next();
+  }, [secondsLeft, isSubmitting, isDone, next]);
+
+  if (isDone) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-16 h-16 rounded-full bg-green-500/10 flex items-center justify-center mb-4">
+              <CheckCircle className="h-8 w-8 text-green-500" />
+            </div>
+            <CardTitle>Practice Complete</CardTitle>
+            <CardDescription>That&apos;s how the interview works</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-center">
+            <p className="text-muted-foreground">
+              Your practice answers weren&apos;t saved or shared with anyone. The real
+              interview has its own questions and works the same way.
+            </p>
+            <Button onClick={onExit} className="w-full">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to start
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const answer = answers[currentIndex];
+  const progress = ((currentIndex + 1) / PRACTICE_QUESTIONS.length) * 100;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-background border-b">
+        <div className="max-w-3xl mx-auto px-4 py-3">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <Badge>Practice</Badge>
+              <Badge variant="secondary">
+                Question {currentIndex + 1} of {PRACTICE_QUESTIONS.length}
+              </Badge>
+              <Badge variant="outline">{currentQuestion.category}</Badge>
+            </div>
+            <span
+              className={cn(
+                "flex items-center gap-2 text-sm text-muted-foreground",
+                secondsLeft !== null && secondsLeft < 30 && "text-destructive font-medium"
+              )}
+            >
+              <Timer className="h-4 w-4" />
+              {secondsLeft !== null ? `${formatSeconds(secondsLeft)} left` : formatSeconds(seconds)}
+            </span>
+          </div>
+          <Progress value={progress} className="h-2" />
+        </div>
+      </div>
+
+      {/* Main content */}
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <div className="space-y-6">
+          <div className="bg-muted text-sm text-muted-foreground p-3 rounded-lg">
+            This is a practice question. Your answer isn&apos;t saved or scored.
+          </div>
+
+          <div className="space-y-2">
+            <h2 className="text-xl font-semibold">{currentQuestion.question_text}</h2>
+            <p className="text-muted-foreground">{currentQuestion.question_context}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Type your answer here..."
+              value={answer}
+              onChange={(e) =>
+                setAnswers((prev) => prev.map((a, idx) => (idx === currentIndex ? e.target.value : a)))
+              }
+              rows={8}
+              className="resize-none"
+            />
+            <p className="text-xs text-muted-foreground text-right">{answer.length} characters</p>
+          </div>
+
+          {/* Navigation */}
+          <div className="flex items-center justify-between pt-4">
+            <Button variant="outline" onClick={onExit} disabled={isSubmitting}>
+              Exit practice
+            </Button>
+
+            <Button onClick={next} disabled={isSubmitting || !answer.trim()}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Submitting...
+                </>
+              ) : isLastQuestion ? (
+                <>
+                  <Send className="mr-2 h-4 w-4" />
+                  Submit Practice
+                </>
+              ) : (
+                <>
+                  Next
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
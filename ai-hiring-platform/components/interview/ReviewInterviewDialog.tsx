@@ -0,0 +1,294 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { RECOMMENDATIONS } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useInterview, useSaveInterviewReview } from "@/hooks/use-interviews";
+import type { CodeExecutionResult, InterviewRecommendation } from "@/types";
+
+interface ReviewInterviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  interviewId: string;
+  onSaved?: () => void;
+}
+
+interface QuestionDraft {
+  /** Human score as typed; empty keeps the AI score */
+  score: string;
+  feedback: string;
+}
+
+/** Select value for "no override" */
+const SCORE_BASED = "score_based";
+
+// e.g. "python · tests 4/5 passed"
+const codeTestSummary = (language: string | null, execution: CodeExecutionResult | null) =>
+  execution
+    ? `${execution.language} · tests ${execution.passed}/${execution.total} passed`
+    : `${language ?? "Code"} · tests not run`;
+
+/**
+ * Lets a recruiter override per-question AI scores and the recommendation
+ * of a completed interview. AI values are kept alongside the overrides.
+ */
+export function ReviewInterviewDialog({
+  open,
+  onOpenChange,
+  interviewId,
+  onSaved,
+}: ReviewInterviewDialogProps) {
+  const { data: interview, isLoading } = useInterview(interviewId, open);
+  const saveReview = useSaveInterviewReview();
+
+  const [drafts, setDrafts] = useState<Record<string, QuestionDraft>>({});
+  const [recommendation, setRecommendation] = useState<string>(SCORE_BASED);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const graded = (interview?.interview_questions ?? [])
+    .filter((q) => q.ai_score !== null)
+    .sort((a, b) => a.question_order - b.question_order);
+
+  // Start from the saved review each time the dialog opens
+  useEffect(() => {
+    if (!open || !interview) return;
+    setDrafts(
+      Object.fromEntries(
+        interview.interview_questions.map((q) => [
+          q.id,
+          {
+            score: q.human_score !== null ? String(q.human_score) : "",
+            feedback: q.human_feedback ?? "",
+          },
+        ])
+      )
+    );
+    setRecommendation(interview.human_recommendation ?? SCORE_BASED);
+    setReason(interview.review_reason ?? "");
+    setError(null);
+  }, [open, interview]);
+
+  const changedQuestions = graded.filter((q) => {
+    const draft = drafts[q.id];
+    if (!draft) return false;
+    const savedScore = q.human_score !== null ? String(q.human_score) : "";
+    return draft.score.trim() !== savedScore || draft.feedback.trim() !== (q.human_feedback ?? "");
+  });
+  const humanRecommendation =
+    recommendation === SCORE_BASED ? null : (recommendation as InterviewRecommendation);
+  const recommendationChanged = humanRecommendation !== (interview?.human_recommendation ?? null);
+  const hasOverrides =
+    graded.some((q) => drafts[q.id]?.score.trim()) || humanRecommendation !== null;
+  const needsReason = hasOverrides && !reason.trim();
+
+  const updateDraft = (id: string, patch: Partial<QuestionDraft>) =>
+    setDrafts((current) => ({ ...current, [id]: { ...current[id], ...patch } }));
+
+  const handleSave = () => {
+    const questions = [];
+    for (const q of changedQuestions) {
+      const draft = drafts[q.id];
+      const score = draft.score.trim() === "" ? null : Number(draft.score);
+      if (score !== null && (Number.isNaN(score) || score < 0 || score > 10 || (score * 2) % 1 !== 0)) {
+        setError(`Q${q.question_order}: scores go from 0 to 10 in steps of 0.5`);
+        return;
+      }
+      questions.push({
+        question_id: q.id,
+        human_score: score,
+        human_feedback: draft.feedback.trim() || null,
+      });
+    }
+
+    setError(null);
+    saveReview.mutate(
+      {
+        interviewId,
+        review: {
+          questions,
+          ...(recommendationChanged ? { recommendation: humanRecommendation } : {}),
+          ...(reason.trim() ? { reason: reason.trim() } : {}),
+        },
+      },
+      {
+        onSuccess: () => {
+          onOpenChange(false);
+          onSaved?.();
+        },
+        onError: (err) => setError(err.message),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Review interview scores</DialogTitle>
+          <DialogDescription>
+            Adjust scores you disagree with. The AI scores are kept, and the interview score is
+            recomputed from your overrides.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !interview ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+            {interview.integrity_notes?.length > 0 && (
+              <div className="rounded-lg border border-border bg-muted/40 p-3 space-y-2">
+                <p className="text-sm font-medium text-foreground">Integrity notes</p>
+                <p className="text-xs text-muted-foreground">
+                  What the candidate&apos;s browser observed during the interview. Each of these has
+                  ordinary explanations; use them to decide what to ask about in a human round.
+                </p>
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {interview.integrity_notes.map((note, i) => (
+                    <li key={i}>
+                      <span className="font-medium text-foreground">Q{note.question_order}</span>{" "}
+                      {note.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {graded.map((q) => (
+              <div key={q.id} className="rounded-lg border border-border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-sm font-medium text-foreground">
+                    Q{q.question_order}. {q.parent_question_id && (
+                      <span className="text-muted-foreground">(Follow-up) </span>
+                    )}
+                    {q.question_text}
+                  </p>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    AI {Number(q.ai_score)}/10
+                  </span>
+                </div>
+                {q.follow_up_rationale && (
+                  <p className="text-xs text-muted-foreground">Asked because: {q.follow_up_rationale}</p>
+                )}
+                {q.candidate_answer && (
+                  <p
+                    className={cn(
+                      "text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4",
+                      q.question_type === "coding" && "font-mono text-xs"
+                    )}
+                  >
+                    {q.candidate_answer}
+                  </p>
+                )}
+                {q.question_type === "coding" && (
+                  <p className="text-xs text-muted-foreground">
+                    {codeTestSummary(q.code_language, q.code_execution as unknown as CodeExecutionResult | null)}
+                  </p>
+                )}
+                {q.ai_feedback && (
+                  <p className="text-xs text-muted-foreground italic">{q.ai_feedback}</p>
+                )}
+                <div className="grid grid-cols-[6rem_1fr] gap-2 items-start">
+                  <div className="space-y-1">
+                    <Label htmlFor={`score-${q.id}`} className="text-xs">Your score</Label>
+                    <Input
+                      id={`score-${q.id}`}
+                      type="number"
+                      min={0}
+                      max={10}
+                      step={0.5}
+                      placeholder={String(Number(q.ai_score))}
+                      value={drafts[q.id]?.score ?? ""}
+                      onChange={(e) => updateDraft(q.id, { score: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`feedback-${q.id}`} className="text-xs">Notes</Label>
+                    <Textarea
+                      id={`feedback-${q.id}`}
+                      rows={2}
+                      placeholder="Why this answer deserves a different score"
+                      value={drafts[q.id]?.feedback ?? ""}
+                      onChange={(e) => updateDraft(q.id, { feedback: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label>Recommendation</Label>
+              <Select value={recommendation} onValueChange={setRecommendation}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SCORE_BASED}>Use score-based recommendation</SelectItem>
+                  {(Object.keys(RECOMMENDATIONS) as InterviewRecommendation[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {RECOMMENDATIONS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {interview.ai_recommendation && (
+                <p className="text-xs text-muted-foreground">
+                  AI recommended {RECOMMENDATIONS[interview.ai_recommendation].label} (
+                  {interview.ai_overall_score ?? 0}%)
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="review-reason">Reason for overrides</Label>
+              <Textarea
+                id="review-reason"
+                rows={2}
+                placeholder="Required when you change a score or the recommendation"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!interview || needsReason || saveReview.isPending}
+          >
+            {saveReview.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save review
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,6 +4,7 @@ import * as React from "react";
 import { useState } from "react";
 import { format } from "date-fns";
 import { CalendarIcon, Clock, Loader2, Zap } from "lucide-react";
+import { TIME_ACCOMMODATIONS } from "@/lib/constants";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
@@ -42,7 +43,8 @@ interface ScheduleDialogProps {
   questionGenerationStatus?: "none" | "pending" | "generating" | "ready" | "failed";
   onScheduled?: (interview: {
     id: string;
-    scheduled_at: string;
+    /** null for a booking link, until the candidate picks a time */
+    scheduled_at: string | null;
     interview_link: string;
   }) => void;
 }
@@ -72,6 +74,48 @@ const DURATION_OPTIONS = [
   { value: "60", label: "60 minutes" },
 ];
 
+const FOLLOW_UP_OPTIONS = [
+  { value: "0", label: "Off" },
+  { value: "1", label: "Up to 1" },
+  { value: "2", label: "Up to 2" },
+  { value: "3", label: "Up to 3" },
+];
+
+const TIME_LIMIT_OPTIONS = [
+  { value: "guide", label: "Guide only" },
+  { value: "enforced", label: "Submit automatically when time runs out" },
+];
+
+const QUESTION_LIMIT_OPTIONS = [
+  { value: "none", label: "No limit" },
+  { value: "3", label: "3 minutes" },
+  { value: "5", label: "5 minutes" },
+  { value: "10", label: "10 minutes" },
+  { value: "15", label: "15 minutes" },
+];
+
+const RESCHEDULE_OPTIONS = [
+  { value: "0", label: "Not allowed" },
+  { value: "1", label: "Once" },
+  { value: "2", label: "Up to 2 times" },
+  { value: "3", label: "Up to 3 times" },
+];
+
+const SCHEDULING_MODE_OPTIONS = [
+  { value: "fixed", label: "Pick a time" },
+  { value: "booking", label: "Let the candidate choose" },
+];
+
+const RESCHEDULE_WINDOW_OPTIONS = [
+  { value: "3", label: "3 days" },
+  { value: "5", label: "5 days" },
+  { value: "7", label: "7 days" },
+  { value: "14", label: "14 days" },
+];
+
+/** Select value that leaves the candidate's saved accommodation as is */
+const KEEP_ACCOMMODATION = "keep";
+
 export function ScheduleDialog({
   open,
   onOpenChange,
@@ -84,18 +128,28 @@ export function ScheduleDialog({
   onScheduled,
 }: ScheduleDialogProps) {
   const hasPreGeneratedQuestions = questionGenerationStatus === "ready";
+  const [schedulingMode, setSchedulingMode] = useState<"fixed" | "booking">("fixed");
   const [date, setDate] = useState<Date | undefined>(undefined);
   const [time, setTime] = useState<string>("09:00");
   const [duration, setDuration] = useState<string>("30");
+  const [maxFollowUps, setMaxFollowUps] = useState<string>("0");
+  const [timeLimit, setTimeLimit] = useState<string>("guide");
+  const [questionLimit, setQuestionLimit] = useState<string>("none");
+  const [accommodation, setAccommodation] = useState<string>(KEEP_ACCOMMODATION);
+  const [maxReschedules, setMaxReschedules] = useState<string>("0");
+  const [rescheduleWindowDays, setRescheduleWindowDays] = useState<string>("5");
+  const [dayStart, setDayStart] = useState<string>("08:00");
+  const [dayEnd, setDayEnd] = useState<string>("22:00");
   const [customMessage, setCustomMessage] = useState<string>("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Get user's timezone
   const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const isBooking = schedulingMode === "booking";
 
   const handleSchedule = async () => {
-    if (!date) {
+    if (!isBooking && !date) {
       setError("Please select a date");
       return;
     }
@@ -105,17 +159,41 @@ export function ScheduleDialog({
 
     try {
       // Combine date and time
-      const [hours, minutes] = time.split(":").map(Number);
-      const scheduledDate = new Date(date);
-      scheduledDate.setHours(hours, minutes, 0, 0);
+      let scheduledDate: Date | null = null;
+      if (!isBooking) {
+        const [hours, minutes] = time.split(":").map(Number);
+        scheduledDate = new Date(date!);
+        scheduledDate.setHours(hours, minutes, 0, 0);
+
+        // Validate it's in the future
+        if (scheduledDate <= new Date()) {
+          setError("Please select a future date and time");
+          setIsLoading(false);
+          return;
+        }
+      }
 
-      // Validate it's in the future
-      if (scheduledDate <= new Date()) {
-        setError("Please select a future date and time");
+      if ((isBooking || maxReschedules !== "0") && dayStart >= dayEnd) {
+        setError(isBooking ? "Booking hours must end after they start" : "Rescheduling hours must end after they start");
         setIsLoading(false);
         return;
       }
 
+      // Candidates can book or move the interview to any slot from now until
+      // the window ends. Booking hours are in the candidate's own timezone.
+      const availabilityEnd = new Date(scheduledDate ?? new Date());
+      availabilityEnd.setDate(availabilityEnd.getDate() + parseInt(rescheduleWindowDays));
+      const availability =
+        !isBooking && maxReschedules === "0"
+          ? null
+          : {
+              starts_at: new Date().toISOString(),
+              ends_at: availabilityEnd.toISOString(),
+              day_start: dayStart,
+              day_end: dayEnd,
+              timezone: isBooking ? null : timezone,
+            };
+
       const response = await fetch("/api/interviews/schedule", {
         method: "POST",
         headers: {
@@ -124,11 +202,19 @@ export function ScheduleDialog({
         body: JSON.stringify({
           candidate_id: candidateId,
           job_id: jobId,
-          scheduled_at: scheduledDate.toISOString(),
+          scheduling_mode: schedulingMode,
+          scheduled_at: scheduledDate?.toISOString(),
           duration_minutes: parseInt(duration),
           send_immediate_invite: true,
           custom_message: customMessage || undefined,
-          candidate_timezone: timezone,
+          // Booked interviews take the candidate's timezone from their browser
+          candidate_timezone: isBooking ? undefined : timezone,
+          max_follow_ups: parseInt(maxFollowUps),
+          enforce_time_limit: timeLimit === "enforced",
+          question_time_limit_minutes: questionLimit === "none" ? null : parseInt(questionLimit),
+          ...(accommodation !== KEEP_ACCOMMODATION && { time_multiplier: Number(accommodation) }),
+          availability,
+          max_candidate_reschedules: parseInt(maxReschedules),
         }),
       });
 
@@ -159,13 +245,73 @@ export function ScheduleDialog({
   };
 
   const resetForm = () => {
+    setSchedulingMode("fixed");
     setDate(undefined);
     setTime("09:00");
     setDuration("30");
+    setMaxFollowUps("0");
+    setTimeLimit("guide");
+    setQuestionLimit("none");
+    setAccommodation(KEEP_ACCOMMODATION);
+    setMaxReschedules("0");
+    setRescheduleWindowDays("5");
+    setDayStart("08:00");
+    setDayEnd("22:00");
     setCustomMessage("");
     setError(null);
   };
 
+  // Window and daily hours for booking and rescheduling
+  const availabilityFields = (
+    <div className="grid grid-cols-3 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs font-normal text-muted-foreground">Up to</Label>
+        <Select value={rescheduleWindowDays} onValueChange={setRescheduleWindowDays}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RESCHEDULE_WINDOW_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs font-normal text-muted-foreground">From</Label>
+        <Select value={dayStart} onValueChange={setDayStart}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIME_SLOTS.map((slot) => (
+              <SelectItem key={slot.value} value={slot.value}>
+                {slot.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs font-normal text-muted-foreground">Until</Label>
+        <Select value={dayEnd} onValueChange={setDayEnd}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIME_SLOTS.map((slot) => (
+              <SelectItem key={slot.value} value={slot.value}>
+                {slot.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+
   // Format the preview date/time
   const getPreviewDateTime = () => {
     if (!date) return null;
@@ -200,57 +346,93 @@ export function ScheduleDialog({
         </DialogHeader>
 
         <div className="space-y-6 py-4">
-          {/* Date Picker */}
+          {/* Scheduling Mode */}
           <div className="space-y-2">
-            <Label>Date</Label>
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button
-                  variant="outline"
-                  className={cn(
-                    "w-full justify-start text-left font-normal",
-                    !date && "text-muted-foreground"
-                  )}
-                >
-                  <CalendarIcon className="mr-2 h-4 w-4" />
-                  {date ? format(date, "PPP") : "Select a date"}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0" align="start">
-                <Calendar
-                  mode="single"
-                  selected={date}
-                  onSelect={(selectedDate) => setDate(selectedDate)}
-                  disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
-                  initialFocus
-                />
-              </PopoverContent>
-            </Popover>
-          </div>
-
-          {/* Time Picker */}
-          <div className="space-y-2">
-            <Label>Time</Label>
-            <Select value={time} onValueChange={setTime}>
-              <SelectTrigger className="w-full">
-                <div className="flex items-center">
-                  <Clock className="mr-2 h-4 w-4 text-muted-foreground" />
-                  <SelectValue placeholder="Select time" />
+            <Label>Scheduling</Label>
+            <RadioGroup
+              value={schedulingMode}
+              onValueChange={(value) => setSchedulingMode(value as "fixed" | "booking")}
+              className="flex gap-4"
+            >
+              {SCHEDULING_MODE_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value} id={`mode-${option.value}`} />
+                  <Label
+                    htmlFor={`mode-${option.value}`}
+                    className="font-normal cursor-pointer"
+                  >
+                    {option.label}
+                  </Label>
                 </div>
-              </SelectTrigger>
-              <SelectContent>
-                {TIME_SLOTS.map((slot) => (
-                  <SelectItem key={slot.value} value={slot.value}>
-                    {slot.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            <p className="text-xs text-muted-foreground">
-              Timezone: {timezone}
-            </p>
+              ))}
+            </RadioGroup>
           </div>
 
+          {isBooking ? (
+            /* Booking Window */
+            <div className="space-y-2">
+              <Label>Availability</Label>
+              {availabilityFields}
+              <p className="text-xs text-muted-foreground">
+                The candidate gets a booking link and picks a start time in the next{" "}
+                {rescheduleWindowDays} days, between these hours in their own timezone.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Date Picker */}
+              <div className="space-y-2">
+                <Label>Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        "w-full justify-start text-left font-normal",
+                        !date && "text-muted-foreground"
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {date ? format(date, "PPP") : "Select a date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={date}
+                      onSelect={(selectedDate) => setDate(selectedDate)}
+                      disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+
+              {/* Time Picker */}
+              <div className="space-y-2">
+                <Label>Time</Label>
+                <Select value={time} onValueChange={setTime}>
+                  <SelectTrigger className="w-full">
+                    <div className="flex items-center">
+                      <Clock className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <SelectValue placeholder="Select time" />
+                    </div>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_SLOTS.map((slot) => (
+                      <SelectItem key={slot.value} value={slot.value}>
+                        {slot.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Timezone: {timezone}
+                </p>
+              </div>
+            </>
+          )}
+
           {/* Duration Selector */}
           <div className="space-y-2">
             <Label>Interview Duration</Label>
@@ -273,6 +455,104 @@ export function ScheduleDialog({
             </RadioGroup>
           </div>
 
+          {/* Time Limits */}
+          <div className="space-y-2">
+            <Label>Time Limits</Label>
+            <Select value={timeLimit} onValueChange={setTimeLimit}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIME_LIMIT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs font-normal text-muted-foreground">Per question</Label>
+                <Select value={questionLimit} onValueChange={setQuestionLimit}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUESTION_LIMIT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs font-normal text-muted-foreground">Extra time</Label>
+                <Select value={accommodation} onValueChange={setAccommodation}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={KEEP_ACCOMMODATION}>Candidate&apos;s current</SelectItem>
+                    {TIME_ACCOMMODATIONS.map((option) => (
+                      <SelectItem key={option.value} value={String(option.value)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Limits are kept by the server. Extra time is saved on the candidate and stretches both limits.
+            </p>
+          </div>
+
+          {/* Candidate Rescheduling */}
+          <div className="space-y-2">
+            <Label>Candidate Rescheduling</Label>
+            <Select value={maxReschedules} onValueChange={setMaxReschedules}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESCHEDULE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {maxReschedules !== "0" && !isBooking && availabilityFields}
+            <p className="text-xs text-muted-foreground">
+              {maxReschedules === "0"
+                ? "The candidate can still decline from their interview link."
+                : isBooking
+                  ? "After booking, the candidate can pick a new time within the same availability."
+                  : `The candidate can pick a new time from their interview link, up to ${rescheduleWindowDays} days after the scheduled date, between these hours (${timezone}).`}
+            </p>
+          </div>
+
+          {/* Adaptive Follow-ups */}
+          <div className="space-y-2">
+            <Label>Adaptive Follow-ups</Label>
+            <Select value={maxFollowUps} onValueChange={setMaxFollowUps}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FOLLOW_UP_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Ask a follow-up question after shallow or unclear answers, while time allows.
+            </p>
+          </div>
+
           {/* Custom Message */}
           <div className="space-y-2">
             <Label htmlFor="custom-message">
@@ -289,7 +569,7 @@ export function ScheduleDialog({
           </div>
 
           {/* Preview */}
-          {date && (
+          {(date || isBooking) && (
             <div className="rounded-lg border bg-muted/50 p-4 space-y-2">
               <p className="text-sm font-medium">Interview Summary</p>
               <div className="text-sm text-muted-foreground space-y-1">
@@ -303,12 +583,22 @@ export function ScheduleDialog({
                 </p>
                 <p>
                   <span className="font-medium text-foreground">Scheduled:</span>{" "}
-                  {getPreviewDateTime()}
+                  {isBooking
+                    ? `Candidate chooses, within ${rescheduleWindowDays} days`
+                    : getPreviewDateTime()}
                 </p>
                 <p>
                   <span className="font-medium text-foreground">Duration:</span>{" "}
                   {duration} minutes
+                  {timeLimit === "enforced" && " (enforced)"}
+                  {questionLimit !== "none" && `, ${questionLimit} min per question`}
                 </p>
+                {maxFollowUps !== "0" && (
+                  <p>
+                    <span className="font-medium text-foreground">Follow-ups:</span>{" "}
+                    up to {maxFollowUps}
+                  </p>
+                )}
               </div>
             </div>
           )}
@@ -332,12 +622,14 @@ export function ScheduleDialog({
           >
             Cancel
           </Button>
-          <Button onClick={handleSchedule} disabled={isLoading || !date}>
+          <Button onClick={handleSchedule} disabled={isLoading || (!isBooking && !date)}>
             {isLoading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Scheduling...
               </>
+            ) : isBooking ? (
+              "Send Booking Link"
             ) : (
               "Schedule Interview"
             )}
@@ -55,6 +55,7 @@ const statusConfig: Record<
   { label: string; variant: "default" | "secondary" | "destructive" | "outline"; color: string }
 > = {
   pending: { label: "Pending", variant: "secondary", color: "bg-gray-500" },
+  awaiting_booking: { label: "Awaiting Booking", variant: "secondary", color: "bg-purple-500" },
   scheduled: { label: "Scheduled", variant: "default", color: "bg-blue-500" },
   ready: { label: "Ready", variant: "default", color: "bg-green-500" },
   sent: { label: "Sent", variant: "secondary", color: "bg-blue-400" },
@@ -121,6 +122,9 @@ export function ScheduledStatusCard({
   };
 
   const getTimeDisplay = () => {
+    if (interview.status === "awaiting_booking") {
+      return `Waiting for the candidate to book, link expires ${formatDistanceToNow(new Date(interview.expires_at), { addSuffix: true })}`;
+    }
     if (!scheduledDate) return null;
 
     if (isPast(scheduledDate)) {
@@ -133,8 +137,8 @@ export function ScheduledStatusCard({
     return `Starts ${formatDistanceToNow(scheduledDate, { addSuffix: true })}`;
   };
 
-  const canCancel = ["scheduled", "ready", "pending"].includes(interview.status);
-  const canReschedule = ["scheduled", "ready", "pending"].includes(interview.status);
+  const canCancel = ["awaiting_booking", "scheduled", "ready", "pending"].includes(interview.status);
+  const canReschedule = ["awaiting_booking", "scheduled", "ready", "pending"].includes(interview.status);
 
   return (
     <>
@@ -0,0 +1,96 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { listAvailableSlots } from "@/lib/interview-availability";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { InterviewAvailability } from "@/types";
+
+interface SlotPickerProps {
+  availability: InterviewAvailability;
+  durationMinutes: number;
+  /** Selected start time (ISO 8601), or "" */
+  value: string;
+  onChange: (start: string) => void;
+  /** Shown when no slot is left */
+  emptyMessage: string;
+}
+
+/**
+ * Day and time selects for the offered interview slots, in the browser's
+ * timezone
+ */
+export function SlotPicker({
+  availability,
+  durationMinutes,
+  value,
+  onChange,
+  emptyMessage,
+}: SlotPickerProps) {
+  const [day, setDay] = useState<string>("");
+
+  // Offered slots, grouped by day in the candidate's own timezone
+  const slotsByDay = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    const candidateTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    for (const start of listAvailableSlots(availability, durationMinutes, { candidateTimezone })) {
+      const key = format(new Date(start), "yyyy-MM-dd");
+      groups.set(key, [...(groups.get(key) ?? []), start]);
+    }
+    return groups;
+  }, [availability, durationMinutes]);
+
+  const days = Array.from(slotsByDay.keys());
+
+  if (days.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs font-normal text-muted-foreground">Day</Label>
+        <Select
+          value={day}
+          onValueChange={(next) => {
+            setDay(next);
+            onChange("");
+          }}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Select a day" />
+          </SelectTrigger>
+          <SelectContent>
+            {days.map((key) => (
+              <SelectItem key={key} value={key}>
+                {format(new Date(slotsByDay.get(key)![0]), "EEE, MMM d")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs font-normal text-muted-foreground">Time</Label>
+        <Select value={value} onValueChange={onChange} disabled={!day}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Select a time" />
+          </SelectTrigger>
+          <SelectContent>
+            {(slotsByDay.get(day) ?? []).map((start) => (
+              <SelectItem key={start} value={start}>
+                {format(new Date(start), "h:mm a")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
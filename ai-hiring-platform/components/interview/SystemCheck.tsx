@@ -0,0 +1,152 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SystemCheckProps {
+  /** Interview access token, used to check the connection to the server */
+  token: string;
+  /** Called after each run; false while any check fails */
+  onResult: (passed: boolean) => void;
+}
+
+interface CheckResult {
+  id: "browser" | "storage" | "connection" | "screen";
+  label: string;
+  /** "warn" doesn't block the interview */
+  status: "pass" | "warn" | "fail";
+  detail: string;
+}
+
+/** Server round trips slower than this are flagged */
+const SLOW_CONNECTION_MS = 2000;
+const CONNECTION_TIMEOUT_MS = 10000;
+
+// Features the interview page relies on
+const checkBrowser = (): CheckResult => {
+  const supported =
+    typeof fetch === "function" &&
+    typeof Promise === "function" &&
+    typeof AbortController === "function" &&
+    typeof requestAnimationFrame === "function" &&
+    typeof Intl?.DateTimeFormat === "function";
+  return {
+    id: "browser",
+    label: "Browser",
+    status: supported ? "pass" : "fail",
+    detail: supported
+      ? "Your browser supports the interview"
+      : "Your browser is missing features the interview needs. Please use a recent Chrome, Firefox, Safari or Edge.",
+  };
+};
+
+// Local storage keeps typed answers across a refresh
+const checkStorage = (): CheckResult => {
+  try {
+    localStorage.setItem("interview-system-check", "1");
+    localStorage.removeItem("interview-system-check");
+    return { id: "storage", label: "Local storage", status: "pass", detail: "Answers can be kept on this device" };
+  } catch {
+    return {
+      id: "storage",
+      label: "Local storage",
+      status: "warn",
+      detail: "Private browsing or blocked storage: answers are still saved online, but not on this device",
+    };
+  }
+};
+
+const checkConnection = async (token: string): Promise<CheckResult> => {
+  const label = "Connection";
+  if (!navigator.onLine) {
+    return { id: "connection", label, status: "fail", detail: "You appear to be offline" };
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CONNECTION_TIMEOUT_MS);
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(`/api/interviews/${token}/start?token=${token}`, {
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    const ms = Math.round(performance.now() - startedAt);
+    if (!response.ok) {
+      return { id: "connection", label, status: "fail", detail: "The interview server couldn't be reached" };
+    }
+    return ms > SLOW_CONNECTION_MS
+      ? { id: "connection", label, status: "warn", detail: `Slow connection (${ms} ms). Answers may take a moment to save.` }
+      : { id: "connection", label, status: "pass", detail: `Connected (${ms} ms)` };
+  } catch {
+    return { id: "connection", label, status: "fail", detail: "The interview server couldn't be reached" };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const checkScreen = (): CheckResult =>
+  window.innerWidth < 640
+    ? { id: "screen", label: "Screen", status: "warn", detail: "A larger screen makes writing answers easier" }
+    : { id: "screen", label: "Screen", status: "pass", detail: "Screen size is fine" };
+
+const STATUS_ICONS = {
+  pass: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  warn: <AlertTriangle className="h-4 w-4 text-amber-500" />,
+  fail: <XCircle className="h-4 w-4 text-destructive" />,
+};
+
+/**
+ * Checks the candidate's browser and connection before the interview can
+ * start. Failed checks block the start; warnings are only shown.
+ */
+export function SystemCheck({ token, onResult }: SystemCheckProps) {
+  const [results, setResults] = useState<CheckResult[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const runChecks = useCallback(async () => {
+    setIsChecking(true);
+    const checks = [checkBrowser(), checkStorage(), await checkConnection(token), checkScreen()];
+    setResults(checks);
+    setIsChecking(false);
+    onResult(checks.every((check) => check.status !== "fail"));
+  }, [token, onResult]);
+
+  useEffect(() => {
+    runChecks();
+  }, [runChecks]);
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">System check</p>
+        <Button variant="ghost" size="sm" onClick={runChecks} disabled={isChecking}>
+          {isChecking ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Check again
+        </Button>
+      </div>
+      {results.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Checking your browser and connection...</p>
+      ) : (
+        <ul className="space-y-2">
+          {results.map((result) => (
+            <li key={result.id} className="flex items-start gap-2 text-sm">
+              <span className="mt-0.5">{STATUS_ICONS[result.status]}</span>
+              <span>
+                <span className="font-medium">{result.label}</span>
+                <span className={cn("block text-muted-foreground", result.status === "fail" && "text-destructive")}>
+                  {result.detail}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -7,4 +7,11 @@ export { ScoringRubric } from "./ScoringRubric"
 export { FollowUpGenerator } from "./FollowUpGenerator"
 export { InterviewErrorBoundary, ErrorAlert } from "./InterviewErrorBoundary"
 export { ScheduleDialog } from "./ScheduleDialog"
+export { ReviewInterviewDialog } from "./ReviewInterviewDialog"
 export { ScheduledStatusCard } from "./ScheduledStatusCard"
+export { CodeEditor } from "./CodeEditor"
+export { CodingQuestionPanel, type CandidateCodingSpec } from "./CodingQuestionPanel"
+export { SystemCheck } from "./SystemCheck"
+export { PracticeInterview } from "./PracticeInterview"
+export { CandidateRescheduleOptions } from "./CandidateRescheduleOptions"
+export { SlotPicker } from "./SlotPicker"
@@ -24,8 +24,10 @@ import type { Candidate } from "@/lib/mock-data"
 interface CandidateCardProps {
   candidate: Candidate
   onClick: () => void
-  onDragStart: (e: React.DragEvent) => void
+  /** Omit to make the card non-draggable (e.g. user can't move candidates) */
+  onDragStart?: (e: React.DragEvent) => void
   isSelected?: boolean
+  /** Quick actions are only shown when their handler is provided */
   onApprove?: (candidate: Candidate) => void
   onReject?: (candidate: Candidate) => void
   onSchedule?: (candidate: Candidate) => void
@@ -52,7 +54,7 @@ export function CandidateCard({
         "border-2 border-transparent",
         isSelected && "border-primary ring-1 ring-primary/20"
       )}
-      draggable
+      draggable={!!onDragStart}
       onDragStart={onDragStart}
       onClick={onClick}
     >
@@ -107,6 +109,7 @@ export function CandidateCard({
         {/* Quick Actions */}
         <div className="flex items-center justify-between pt-2 border-t border-border">
           <div className="flex items-center gap-1">
+            {onApprove && (
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -124,6 +127,8 @@ export function CandidateCard({
               </TooltipTrigger>
               <TooltipContent>Move to next stage</TooltipContent>
             </Tooltip>
+            )}
+            {onReject && (
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -141,6 +146,8 @@ export function CandidateCard({
               </TooltipTrigger>
               <TooltipContent>Reject candidate</TooltipContent>
             </Tooltip>
+            )}
+            {onSchedule && (
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -184,6 +191,7 @@ export function CandidateCard({
                 )}
               </TooltipContent>
             </Tooltip>
+            )}
           </div>
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
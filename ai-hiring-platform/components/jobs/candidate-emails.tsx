@@ -0,0 +1,126 @@
+"use client"
+
+import { formatDistanceToNow } from "date-fns"
+import { Loader2, Mail, RotateCw } from "lucide-react"
+import { RESENDABLE_EMAIL_STATUSES } from "@/lib/constants"
+import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useResendEmail } from "@/hooks/use-candidates"
+import { usePermissions } from "@/hooks/use-organization"
+import { useToast } from "@/hooks/use-toast"
+import type { EmailLogEntry, EmailStatus } from "@/types"
+
+const typeLabels: Record<string, string> = {
+  interview_scheduled: "Interview invite",
+  interview_booking: "Booking link",
+  interview_reminder_24h: "Reminder (24 hours)",
+  interview_reminder_1h: "Reminder (1 hour)",
+  interview_completed: "Interview completed",
+  interview_rescheduled: "Reschedule notice",
+  interview_cancelled: "Cancellation notice",
+  interview_declined: "Decline notice",
+}
+
+const statusConfig: Record<EmailStatus, { label: string; className: string }> = {
+  retrying: { label: "Retrying", className: "bg-amber-100 text-amber-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+  sent: { label: "Sent", className: "bg-blue-100 text-blue-800" },
+  delivery_delayed: { label: "Delayed", className: "bg-amber-100 text-amber-800" },
+  delivered: { label: "Delivered", className: "bg-green-100 text-green-800" },
+  opened: { label: "Opened", className: "bg-green-100 text-green-800" },
+  bounced: { label: "Bounced", className: "bg-red-100 text-red-800" },
+  complained: { label: "Marked as spam", className: "bg-red-100 text-red-800" },
+}
+
+const canResend = (status: EmailStatus) =>
+  (RESENDABLE_EMAIL_STATUSES as readonly EmailStatus[]).includes(status)
+
+interface CandidateEmailsProps {
+  candidateId: string
+  /** The candidate's email log, newest first */
+  emails: EmailLogEntry[]
+}
+
+/**
+ * Emails sent about a candidate's interviews, with their delivery status.
+ * Failed and bounced emails can be resent.
+ */
+export function CandidateEmails({ candidateId, emails }: CandidateEmailsProps) {
+  const { can } = usePermissions()
+  const { toast } = useToast()
+  const resendEmail = useResendEmail()
+
+  const resentIds = new Set(emails.map((email) => email.resent_from_id).filter(Boolean))
+
+  const handleResend = (emailId: string) => {
+    resendEmail.mutate(
+      { candidateId, emailId },
+      {
+        onSuccess: () =>
+          toast({ title: "Email queued", description: "It will be sent again within a minute." }),
+        onError: (error) =>
+          toast({ title: "Failed to resend email", description: error.message, variant: "destructive" }),
+      }
+    )
+  }
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+        <Mail className="h-4 w-4 text-primary" />
+        Emails
+      </h3>
+      {emails.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No emails sent yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {emails.map((email) => {
+            const status = statusConfig[email.status]
+            const resending = resendEmail.isPending && resendEmail.variables?.emailId === email.id
+            return (
+              <div key={email.id} className="rounded-lg border border-border p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-foreground truncate">
+                    {typeLabels[email.type] ?? email.type.replace(/_/g, " ")}
+                    {email.resent_from_id && (
+                      <span className="text-muted-foreground font-normal"> (resent)</span>
+                    )}
+                  </span>
+                  <Badge variant="secondary" className={cn("shrink-0 text-xs", status.className)}>
+                    {status.label}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  To {email.to_address} •{" "}
+                  <span title={new Date(email.sent_at ?? email.created_at).toLocaleString()}>
+                    {formatDistanceToNow(new Date(email.sent_at ?? email.created_at), { addSuffix: true })}
+                  </span>
+                </p>
+                {email.error && (
+                  <p className="text-xs text-destructive">{email.error}</p>
+                )}
+                {canResend(email.status) && !resentIds.has(email.id) && can("interview:schedule") && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="mt-1"
+                    onClick={() => handleResend(email.id)}
+                    disabled={resending}
+                  >
+                    {resending ? (
+                      <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                    ) : (
+                      <RotateCw className="mr-2 h-3 w-3" />
+                    )}
+                    Resend
+                  </Button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </section>
+  )
+}
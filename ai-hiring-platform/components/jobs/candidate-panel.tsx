@@ -7,17 +7,24 @@ import {
   CalendarClock,
   CheckCircle,
   ClipboardCheck,
-  ExternalLink,
+  Download,
+  FileText,
   Github,
   Globe,
   Linkedin,
   Loader2,
   Mail,
+  MessageSquare,
+  PencilLine,
   Trash2,
+  Upload,
   X,
 } from "lucide-react"
+import { QUESTION_CATEGORIES, RECOMMENDATIONS, RESUME_UPLOAD } from "@/lib/constants"
+import { parseInterviewScoreBreakdown } from "@/lib/interview-scoring"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import {
@@ -45,12 +52,29 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import { AIScoreBadge } from "@/components/ai-score-badge"
-import { ScheduleDialog } from "@/components/interview"
+import { ReviewInterviewDialog, ScheduleDialog } from "@/components/interview"
+import { CandidateScorecards, type ScorecardWithInterviewer } from "@/components/jobs/candidate-scorecards"
+import { CandidateEmails } from "@/components/jobs/candidate-emails"
 import { useToast } from "@/hooks/use-toast"
-import { useDeleteCandidate, useCandidate } from "@/hooks/use-candidates"
+import { useDeleteCandidate, useCandidate, useAddComment, useUploadResume } from "@/hooks/use-candidates"
 import { useMarkInterviewReviewed } from "@/hooks/use-dashboard"
+import { usePermissions } from "@/hooks/use-organization"
 import type { Candidate } from "@/lib/mock-data"
-import type { AIInterview } from "@/types"
+import {
+  InterviewReportSchema,
+  type AIInterview,
+  type CandidateComment,
+  type CandidateScoreBreakdown,
+  type CandidateStage,
+  type EmailLogEntry,
+  type InterviewReportPoint,
+  type Json,
+} from "@/types"
+
+/** Comment as returned by GET /api/candidates/[id] (joined with its author) */
+type CommentWithAuthor = CandidateComment & {
+  author: { id: string; full_name: string | null; avatar_url: string | null } | null
+}
 
 interface CandidatePanelProps {
   candidate: Candidate
@@ -59,7 +83,7 @@ interface CandidatePanelProps {
   open: boolean
   onClose: () => void
   onStatusChange: (status: Candidate["status"]) => void
-  onInterviewScheduled?: (interview: { id: string; scheduled_at: string; interview_link: string }) => void
+  onInterviewScheduled?: (interview: { id: string; scheduled_at: string | null; interview_link: string }) => void
   onDelete?: () => void
 }
 
@@ -134,12 +158,40 @@ export function CandidatePanel({
   // All hooks must be called before any early return (Rules of Hooks)
   const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [reviewDialogOpen, setReviewDialogOpen] = useState(false)
+  const [commentDraft, setCommentDraft] = useState("")
   const { toast } = useToast()
+  const { can } = usePermissions()
   const deleteCandidate = useDeleteCandidate()
+  const addComment = useAddComment()
+  const uploadResume = useUploadResume()
+  const resumeInputRef = useRef<HTMLInputElement>(null)
   
   // Fetch detailed candidate data including interview (only when we have a valid candidate)
   const { data: candidateDetails } = useCandidate(open && candidate?.id ? candidate.id : '')
   const interview = candidateDetails?.interview as AIInterview | null
+  const scoreBreakdown = parseInterviewScoreBreakdown(interview?.score_breakdown)
+  const parsedReport = InterviewReportSchema.safeParse(interview?.ai_report)
+  const report = parsedReport.success ? parsedReport.data : null
+  // Interviews evaluated without a report only have plain strengths/concerns
+  const toPoints = (points: string[] | null | undefined): InterviewReportPoint[] =>
+    (points ?? []).map((point) => ({ point, question_orders: [] }))
+  const interviewStrengths = report?.strengths ?? toPoints(interview?.strengths)
+  const interviewConcerns = report?.concerns ?? toPoints(interview?.concerns)
+  const comments = (candidateDetails?.comments ?? []) as CommentWithAuthor[]
+  const scorecards = ((candidateDetails as Record<string, unknown> | undefined)?.scorecards ??
+    []) as ScorecardWithInterviewer[]
+  const emails = ((candidateDetails as Record<string, unknown> | undefined)?.emails ?? []) as EmailLogEntry[]
+  const screening = ((candidateDetails as Record<string, unknown> | undefined)
+    ?.ai_score_breakdown as CandidateScoreBreakdown | null | undefined)?.screening
+  const resume = candidateDetails
+    ? {
+        url: candidateDetails.resume_url,
+        filename: candidateDetails.resume_filename,
+        text: candidateDetails.resume_text,
+      }
+    : null
+  const resumeEndpoint = candidate ? `/api/candidates/${candidate.id}/resume` : ""
   
   // Merge fresh API data with prop data to display up-to-date scored information
   const displayCandidate = useMemo(() => {
@@ -227,10 +279,12 @@ export function CandidatePanel({
     .map((n) => n[0])
     .join("")
 
-  const handleInterviewScheduled = (interview: { id: string; scheduled_at: string; interview_link: string }) => {
+  const handleInterviewScheduled = (interview: { id: string; scheduled_at: string | null; interview_link: string }) => {
     toast({
-      title: "Interview Scheduled",
-      description: `AI interview scheduled for ${new Date(interview.scheduled_at).toLocaleDateString()} at ${new Date(interview.scheduled_at).toLocaleTimeString()}`,
+      title: interview.scheduled_at ? "Interview Scheduled" : "Booking Link Sent",
+      description: interview.scheduled_at
+        ? `AI interview scheduled for ${new Date(interview.scheduled_at).toLocaleDateString()} at ${new Date(interview.scheduled_at).toLocaleTimeString()}`
+        : "The candidate will pick a time for their AI interview",
     })
     onInterviewScheduled?.(interview)
   }
@@ -254,6 +308,43 @@ export function CandidatePanel({
     }
   }
 
+  const handleAddComment = async () => {
+    const content = commentDraft.trim()
+    if (!content) return
+
+    try {
+      await addComment.mutateAsync({ candidateId: candidate.id, content })
+      setCommentDraft("")
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add comment",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleResumeSelected = async (file: File | undefined) => {
+    if (resumeInputRef.current) resumeInputRef.current.value = ""
+    if (!file) return
+
+    try {
+      const result = await uploadResume.mutateAsync({ candidateId: candidate.id, file })
+      toast({
+        title: "Resume Uploaded",
+        description: result.has_text
+          ? "The candidate will be re-scored with the new resume."
+          : "No text could be extracted, so the candidate was not re-scored.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload resume",
+        variant: "destructive",
+      })
+    }
+  }
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
       <DialogContent className="max-w-[70vw] sm:max-w-[70vw] w-[70vw] h-[85vh] max-h-[85vh] p-0 flex flex-col overflow-hidden">
@@ -292,23 +383,29 @@ export function CandidatePanel({
                 showIcon
                 explanation="AI match score based on skills, experience, and job requirements analysis."
               />
-              <Select
-                value={displayCandidate.status}
-                onValueChange={(value) =>
-                  onStatusChange(value as Candidate["status"])
-                }
-              >
-                <SelectTrigger className="w-36">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {statusOptions.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              {can("candidate:move") ? (
+                <Select
+                  value={displayCandidate.status}
+                  onValueChange={(value) =>
+                    onStatusChange(value as Candidate["status"])
+                  }
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statusOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="text-sm px-3 py-1.5 rounded-md border border-border text-foreground">
+                  {statusOptions.find((option) => option.value === displayCandidate.status)?.label}
+                </span>
+              )}
             </div>
           </div>
         </DialogHeader>
@@ -328,6 +425,12 @@ export function CandidatePanel({
             >
               Resume
             </TabsTrigger>
+            <TabsTrigger 
+              value="scorecards" 
+              className="flex-1 data-[state=active]:bg-primary/10 data-[state=active]:text-primary data-[state=active]:shadow-none transition-all"
+            >
+              Scorecards
+            </TabsTrigger>
             <TabsTrigger 
               value="timeline" 
               className="flex-1 data-[state=active]:bg-primary/10 data-[state=active]:text-primary data-[state=active]:shadow-none transition-all"
@@ -344,6 +447,17 @@ export function CandidatePanel({
                 <h3 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
                   <ClipboardCheck className="h-4 w-4 text-primary" />
                   Interview Results
+                  {can("interview:override") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto h-7 text-xs"
+                      onClick={() => setReviewDialogOpen(true)}
+                    >
+                      <PencilLine className="h-3.5 w-3.5 mr-1" />
+                      Review scores
+                    </Button>
+                  )}
                 </h3>
                 <div className="space-y-3">
                   {/* Score and Recommendation */}
@@ -355,6 +469,11 @@ export function CandidatePanel({
                       (interview.overall_score ?? 0) >= 50 ? "text-warning" : "text-destructive"
                     )}>
                       {interview.overall_score ?? 0}%
+                      {interview.human_reviewed_at && interview.ai_overall_score !== interview.overall_score && (
+                        <span className="ml-1 text-xs font-normal text-muted-foreground">
+                          (reviewed · AI {interview.ai_overall_score ?? 0}%)
+                        </span>
+                      )}
                     </span>
                   </div>
                   {interview.recommendation && (
@@ -372,6 +491,16 @@ export function CandidatePanel({
                       </span>
                     </div>
                   )}
+                  {interview.human_recommendation && interview.ai_recommendation && (
+                    <p className="text-xs text-muted-foreground text-right">
+                      Set by reviewer · AI recommended {RECOMMENDATIONS[interview.ai_recommendation].label}
+                    </p>
+                  )}
+                  {interview.review_reason && (
+                    <p className="text-xs text-muted-foreground">
+                      Review note: {interview.review_reason}
+                    </p>
+                  )}
                   {interview.completed_at && (
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Completed</span>
@@ -384,6 +513,61 @@ export function CandidatePanel({
                       </span>
                     </div>
                   )}
+                  {/* How the score was computed */}
+                  {scoreBreakdown && (
+                    <div className="pt-2 border-t border-border/50 space-y-2">
+                      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                        Score breakdown
+                      </p>
+                      {scoreBreakdown.categories.map((category) => (
+                        <div key={category.category ?? "uncategorized"} className="flex items-center justify-between text-sm">
+                          <span className="text-foreground">
+                            {QUESTION_CATEGORIES.find((c) => c.value === category.category)?.label ?? "Other"}
+                            <span className="text-muted-foreground">
+                              {" "}· {category.question_count} question{category.question_count === 1 ? "" : "s"}
+                              {category.weight !== 1 && ` · weight ×${category.weight}`}
+                            </span>
+                          </span>
+                          <span className="font-medium text-foreground">{category.score}/10</span>
+                        </div>
+                      ))}
+                      <div className="space-y-1">
+                        {scoreBreakdown.questions.map((question) => (
+                          <div
+                            key={question.question_id}
+                            className="flex items-center justify-between text-xs text-muted-foreground"
+                            title={question.criteria
+                              .map((c) => `${c.aspect} (weight ${c.weight}): ${c.score}/10`)
+                              .join("\n")}
+                          >
+                            <span>
+                              Q{question.question_order}
+                              {question.difficulty && ` · ${question.difficulty}`}
+                              {question.criteria.length > 0 && ` · ${question.criteria.length} criteria`}
+                            </span>
+                            <span>
+                              {question.human_score != null ? (
+                                <>
+                                  {question.human_score}/10 (reviewed · AI {question.score})
+                                </>
+                              ) : (
+                                <>
+                                  {question.score}/10
+                                  {question.score !== question.ai_score && ` (AI overall ${question.ai_score})`}
+                                </>
+                              )}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Cutoffs:{" "}
+                        {(["strong_yes", "yes", "maybe", "no"] as const)
+                          .map((key) => `${RECOMMENDATIONS[key].label} ≥${scoreBreakdown.thresholds[key]}`)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                  )}
                   {/* Interview Summary */}
                   {interview.ai_summary && (
                     <div className="pt-2 border-t border-border/50">
@@ -393,27 +577,67 @@ export function CandidatePanel({
                     </div>
                   )}
                   {/* Strengths from interview */}
-                  {interview.strengths && interview.strengths.length > 0 && (
+                  {interviewStrengths.length > 0 && (
                     <div className="pt-2 space-y-1.5">
-                      {interview.strengths.map((strength, index) => (
+                      {interviewStrengths.map((strength, index) => (
                         <div key={index} className="flex items-start gap-2 text-sm">
                           <CheckCircle className="h-3.5 w-3.5 text-success mt-0.5 shrink-0" />
-                          <span className="text-foreground">{strength}</span>
+                          <span className="text-foreground">
+                            {strength.point}
+                            {strength.question_orders.length > 0 && (
+                              <span className="text-xs text-muted-foreground">
+                                {" "}({strength.question_orders.map((order) => `Q${order}`).join(", ")})
+                              </span>
+                            )}
+                          </span>
                         </div>
                       ))}
                     </div>
                   )}
                   {/* Concerns from interview */}
-                  {interview.concerns && interview.concerns.length > 0 && (
+                  {interviewConcerns.length > 0 && (
                     <div className="space-y-1.5">
-                      {interview.concerns.map((concern, index) => (
+                      {interviewConcerns.map((concern, index) => (
                         <div key={index} className="flex items-start gap-2 text-sm">
                           <AlertCircle className="h-3.5 w-3.5 text-warning mt-0.5 shrink-0" />
-                          <span className="text-foreground">{concern}</span>
+                          <span className="text-foreground">
+                            {concern.point}
+                            {concern.question_orders.length > 0 && (
+                              <span className="text-xs text-muted-foreground">
+                                {" "}({concern.question_orders.map((order) => `Q${order}`).join(", ")})
+                              </span>
+                            )}
+                          </span>
                         </div>
                       ))}
                     </div>
                   )}
+                  {/* AI assessment of the whole interview */}
+                  {report && (
+                    <div className="pt-2 border-t border-border/50 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">AI assessment</span>
+                        <span className="text-sm font-medium text-foreground">
+                          {RECOMMENDATIONS[report.recommendation].label}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground leading-relaxed">
+                        {report.recommendation_rationale}
+                      </p>
+                      {report.focus_areas.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                            Focus areas for next round
+                          </p>
+                          <ul className="list-disc pl-5 space-y-0.5 text-sm text-foreground">
+                            {report.focus_areas.map((area, index) => (
+                              <li key={index}>{area}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               </section>
             )}
@@ -449,6 +673,45 @@ export function CandidatePanel({
               </div>
             </section>
 
+            {/* Screening Answers */}
+            {screening && screening.results.length > 0 && (
+              <section>
+                <h3 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+                  Screening Answers
+                  {screening.flagged_count > 0 && (
+                    <span className="text-xs font-normal px-2 py-0.5 rounded-full bg-warning/10 text-warning">
+                      {screening.flagged_count} flagged
+                    </span>
+                  )}
+                </h3>
+                <div className="space-y-3">
+                  {screening.results.map((result) => (
+                    <div key={result.question_id} className="text-sm space-y-0.5">
+                      <p className="text-muted-foreground">{result.prompt}</p>
+                      <div className="flex items-start gap-2">
+                        {result.flagged ? (
+                          <AlertCircle className="h-4 w-4 text-warning mt-0.5 shrink-0" />
+                        ) : (
+                          <CheckCircle className="h-4 w-4 text-success mt-0.5 shrink-0" />
+                        )}
+                        <span className="text-foreground whitespace-pre-wrap">
+                          {result.answer ?? "No answer"}
+                          {result.flagged && result.flag_reason && (
+                            <span className="text-warning"> → auto-flag ({result.flag_reason})</span>
+                          )}
+                        </span>
+                        {result.ai_score !== undefined && (
+                          <span className="ml-auto shrink-0 text-xs text-muted-foreground" title={result.ai_notes}>
+                            {result.ai_score}/10
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
             {/* Why This Candidate */}
             {displayCandidate.summary && (
               <section>
@@ -521,27 +784,156 @@ export function CandidatePanel({
             </section>
             </TabsContent>
 
-            <TabsContent value="resume" className="m-0 p-6">
-            <div className="flex flex-col items-center justify-center py-8 text-center">
-              <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mb-4">
-                <ExternalLink className="h-8 w-8 text-muted-foreground" />
+            <TabsContent value="resume" className="m-0 p-6 space-y-4">
+            {can("candidate:update") && (
+              <input
+                ref={resumeInputRef}
+                type="file"
+                accept={RESUME_UPLOAD.accept}
+                className="hidden"
+                onChange={(e) => handleResumeSelected(e.target.files?.[0])}
+              />
+            )}
+            {resume?.url ? (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <FileText className="h-4 w-4 text-primary shrink-0" />
+                    <span className="text-sm font-medium text-foreground truncate">
+                      {resume.filename || "Resume"}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {can("candidate:update") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={uploadResume.isPending}
+                        onClick={() => resumeInputRef.current?.click()}
+                      >
+                        {uploadResume.isPending ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Upload className="h-4 w-4 mr-2" />
+                        )}
+                        Replace
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`${resumeEndpoint}?download=1`}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+                {resume.url.endsWith(".pdf") ? (
+                  <iframe
+                    src={resumeEndpoint}
+                    title={`Resume of ${candidate.name}`}
+                    className="w-full h-[60vh] rounded-lg border border-border bg-background"
+                  />
+                ) : resume.text ? (
+                  <pre className="max-h-[60vh] overflow-y-auto whitespace-pre-wrap rounded-lg border border-border bg-muted/30 p-4 font-sans text-sm text-foreground">
+                    {resume.text}
+                  </pre>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    No preview available for this file. Download it to view.
+                  </p>
+                )}
+              </>
+            ) : (
+              <div className="flex flex-col items-center justify-center py-8 text-center">
+                <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mb-4">
+                  <FileText className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <h3 className="font-medium text-foreground mb-1">
+                  No resume uploaded
+                </h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  PDF, DOCX or TXT files up to 5 MB
+                </p>
+                {can("candidate:update") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="hover:bg-primary/5 hover:border-primary/30"
+                    disabled={!resume || uploadResume.isPending}
+                    onClick={() => resumeInputRef.current?.click()}
+                  >
+                    {uploadResume.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Upload className="h-4 w-4 mr-2" />
+                    )}
+                    Upload Resume
+                  </Button>
+                )}
               </div>
-              <h3 className="font-medium text-foreground mb-1">
-                Resume Preview
-              </h3>
-              <p className="text-sm text-muted-foreground mb-4">
-                Full document available for download
-                <span className="block text-xs text-muted-foreground/60 mt-1">
-                  (it&apos;s just Lorem Ipsum, but very professional Lorem Ipsum)
-                </span>
-              </p>
-              <Button variant="outline" size="sm" className="hover:bg-primary/5 hover:border-primary/30">
-                Download Resume
-              </Button>
-            </div>
+            )}
             </TabsContent>
 
-            <TabsContent value="timeline" className="m-0 p-6">
+            <TabsContent value="scorecards" className="m-0 p-6">
+              <CandidateScorecards
+                candidateId={displayCandidate.id}
+                candidateStage={displayCandidate.status as CandidateStage}
+                plan={(candidateDetails as { job?: { interview_plan?: Json | null } } | undefined)?.job?.interview_plan}
+                scorecards={scorecards}
+                interview={interview}
+              />
+            </TabsContent>
+
+            <TabsContent value="timeline" className="m-0 p-6 space-y-6">
+            {/* Team Comments */}
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                <MessageSquare className="h-4 w-4 text-primary" />
+                Comments
+              </h3>
+              {can("candidate:comment") && (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="Share your thoughts with the hiring team..."
+                    value={commentDraft}
+                    onChange={(e) => setCommentDraft(e.target.value)}
+                    rows={2}
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={handleAddComment}
+                      disabled={!commentDraft.trim() || addComment.isPending}
+                    >
+                      {addComment.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Comment
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {comments.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic">No comments yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {comments.map((comment) => (
+                    <div key={comment.id} className="rounded-lg border border-border p-3">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-sm font-medium text-foreground">
+                          {comment.author?.full_name || "Team member"}
+                        </span>
+                        <span className="text-xs text-muted-foreground" title={formatFullDate(comment.created_at)}>
+                          {formatTimeAgo(comment.created_at)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{comment.content}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <CandidateEmails candidateId={candidate.id} emails={emails} />
+
             <div className="space-y-4">
               <div className="flex gap-3">
                 <div className="flex flex-col items-center">
@@ -640,32 +1032,36 @@ export function CandidatePanel({
             </div>
           </div>
         )}
-        <Button 
-          className="w-full"
-          onClick={() => setScheduleDialogOpen(true)}
-          disabled={!jobId}
-        >
-          <Calendar className="mr-2 h-4 w-4" />
-          {hasScheduledInterview ? 'Reschedule Interview' : 'Schedule Interview'}
-        </Button>
+        {can("interview:schedule") && (
+          <Button 
+            className="w-full"
+            onClick={() => setScheduleDialogOpen(true)}
+            disabled={!jobId}
+          >
+            <Calendar className="mr-2 h-4 w-4" />
+            {hasScheduledInterview ? 'Reschedule Interview' : 'Schedule Interview'}
+          </Button>
+        )}
         <div className="flex gap-2">
           <Button variant="outline" className="flex-1 bg-transparent">
             <Mail className="mr-2 h-4 w-4" />
             Message
           </Button>
-          <Button 
-            variant="outline" 
-            className="flex-1 text-destructive hover:text-destructive hover:bg-destructive/10 bg-transparent"
-            onClick={() => setDeleteDialogOpen(true)}
-          >
-            <Trash2 className="mr-2 h-4 w-4" />
-            Delete
-          </Button>
+          {can("candidate:delete") && (
+            <Button 
+              variant="outline" 
+              className="flex-1 text-destructive hover:text-destructive hover:bg-destructive/10 bg-transparent"
+              onClick={() => setDeleteDialogOpen(true)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          )}
         </div>
       </div>
 
       {/* Schedule Interview Dialog */}
-      {jobId && jobTitle && (
+      {jobId && jobTitle && can("interview:schedule") && (
         <ScheduleDialog
           open={scheduleDialogOpen}
           onOpenChange={setScheduleDialogOpen}
@@ -679,6 +1075,15 @@ export function CandidatePanel({
         />
       )}
 
+      {interview && can("interview:override") && (
+        <ReviewInterviewDialog
+          open={reviewDialogOpen}
+          onOpenChange={setReviewDialogOpen}
+          interviewId={interview.id}
+          onSaved={() => toast({ title: "Review saved", description: "The interview score was updated." })}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
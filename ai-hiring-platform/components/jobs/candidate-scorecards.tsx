@@ -0,0 +1,338 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Bot, ClipboardList, Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { PIPELINE_STAGES, RECOMMENDATIONS, SCORECARD_DECISIONS, SCORECARD_RATINGS } from "@/lib/constants"
+import {
+  getStageCompetencies,
+  parseInterviewPlan,
+  parseScorecardRatings,
+  summarizeScorecards,
+} from "@/lib/scorecards"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useSubmitScorecard } from "@/hooks/use-candidates"
+import { useCurrentUser, usePermissions } from "@/hooks/use-organization"
+import { useToast } from "@/hooks/use-toast"
+import type {
+  AIInterview,
+  CandidateScorecard,
+  CandidateStage,
+  HumanInterviewStage,
+  Json,
+  ScorecardDecision,
+} from "@/types"
+
+export type ScorecardWithInterviewer = CandidateScorecard & {
+  interviewer: { id: string; full_name: string | null; avatar_url: string | null } | null
+}
+
+type RatingDraft = { rating: number | null; notes: string }
+
+const stageLabel = (stage: HumanInterviewStage) =>
+  PIPELINE_STAGES.find((s) => s.id === stage)?.label ?? stage
+
+const decisionLabel = (decision: ScorecardDecision) =>
+  SCORECARD_DECISIONS.find((d) => d.value === decision)?.label ?? decision
+
+const decisionColor = (decision: ScorecardDecision) =>
+  decision === "strong_yes" || decision === "yes" ? "text-success" : "text-destructive"
+
+const interviewerName = (scorecard: ScorecardWithInterviewer) =>
+  scorecard.interviewer?.full_name || "Team member"
+
+interface CandidateScorecardsProps {
+  candidateId: string
+  candidateStage: CandidateStage
+  /** The job's `interview_plan` column */
+  plan: Json | null | undefined
+  scorecards: ScorecardWithInterviewer[]
+  /** Latest AI interview, compared with the interviewers' consensus */
+  interview: AIInterview | null
+}
+
+/**
+ * Scorecards from human interview stages: the interviewers' ratings side
+ * by side per stage and competency, their consensus next to the AI
+ * interview result, and a form for the signed-in user's own scorecard.
+ */
+export function CandidateScorecards({
+  candidateId,
+  candidateStage,
+  plan: planValue,
+  scorecards,
+  interview,
+}: CandidateScorecardsProps) {
+  const { can } = usePermissions()
+  const { data: currentUser } = useCurrentUser()
+  const { toast } = useToast()
+  const submitScorecard = useSubmitScorecard()
+
+  const plan = useMemo(() => parseInterviewPlan(planValue), [planValue])
+  const aiRecommendation = interview?.status === "completed" ? interview.recommendation : null
+  const summary = summarizeScorecards(plan, scorecards, aiRecommendation)
+  const plannedStages = plan.stages.map((s) => s.stage)
+
+  const [stage, setStage] = useState<HumanInterviewStage | null>(null)
+  const [ratings, setRatings] = useState<Record<string, RatingDraft>>({})
+  const [notes, setNotes] = useState("")
+  const [decision, setDecision] = useState<ScorecardDecision | "">("")
+
+  // Default to the candidate's current stage when it's planned
+  const activeStage =
+    stage ??
+    (plannedStages.includes(candidateStage as HumanInterviewStage)
+      ? (candidateStage as HumanInterviewStage)
+      : plannedStages[0] ?? null)
+  const competencies = activeStage ? getStageCompetencies(plan, activeStage) : []
+  const ownScorecard = scorecards.find(
+    (s) => s.stage === activeStage && s.interviewer_id === currentUser?.profile.id
+  )
+
+  // Start from your saved scorecard for the stage, if any
+  useEffect(() => {
+    const saved = ownScorecard ? parseScorecardRatings(ownScorecard.ratings) : []
+    setRatings(
+      Object.fromEntries(
+        saved.map((r) => [r.competency_id, { rating: r.rating, notes: r.notes ?? "" }])
+      )
+    )
+    setNotes(ownScorecard?.notes ?? "")
+    setDecision(ownScorecard?.decision ?? "")
+  }, [activeStage, ownScorecard])
+
+  const updateRating = (competencyId: string, patch: Partial<RatingDraft>) =>
+    setRatings((prev) => ({
+      ...prev,
+      [competencyId]: { ...(prev[competencyId] ?? { rating: null, notes: "" }), ...patch },
+    }))
+
+  const handleSubmit = () => {
+    if (!activeStage || !decision) return
+    submitScorecard.mutate(
+      {
+        candidateId,
+        stage: activeStage,
+        ratings: competencies.flatMap((c) => {
+          const draft = ratings[c.id]
+          return draft?.rating ? [{ competency_id: c.id, rating: draft.rating, notes: draft.notes.trim() || null }] : []
+        }),
+        notes: notes.trim() || null,
+        decision,
+      },
+      {
+        onSuccess: () => toast({ title: "Scorecard submitted" }),
+        onError: (error) =>
+          toast({ title: "Failed to submit scorecard", description: error.message, variant: "destructive" }),
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Interviewers vs AI interview */}
+      <section className="bg-primary/5 rounded-lg p-4 border border-primary/20 space-y-3">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <ClipboardList className="h-4 w-4 text-primary" />
+          Interviewer Consensus
+        </h3>
+        {summary.scorecard_count === 0 ? (
+          <p className="text-sm text-muted-foreground">No scorecards submitted yet.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                {summary.scorecard_count} scorecard{summary.scorecard_count === 1 ? "" : "s"}
+              </span>
+              <span className={cn("text-sm font-medium", summary.consensus ? decisionColor(summary.consensus) : "text-warning")}>
+                {summary.consensus ? decisionLabel(summary.consensus) : "Split decision"}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {SCORECARD_DECISIONS.filter((d) => summary.decisions[d.value] > 0)
+                .map((d) => `${summary.decisions[d.value]} ${d.label}`)
+                .join(" · ")}
+            </p>
+          </>
+        )}
+        <div className="pt-2 border-t border-border/50 flex items-center justify-between">
+          <span className="text-sm text-muted-foreground flex items-center gap-1.5">
+            <Bot className="h-3.5 w-3.5" />
+            AI interview
+          </span>
+          <span className="text-sm text-foreground">
+            {interview?.status === "completed" && interview.recommendation
+              ? `${interview.overall_score ?? 0}% · ${RECOMMENDATIONS[interview.recommendation].label}`
+              : "Not completed"}
+          </span>
+        </div>
+        {summary.ai_agreement && (
+          <p className={cn("text-xs", summary.ai_agreement === "agrees" ? "text-success" : "text-warning")}>
+            {summary.ai_agreement === "agrees"
+              ? "Interviewers and the AI interview agree."
+              : "Interviewers and the AI interview disagree - worth a closer look."}
+          </p>
+        )}
+      </section>
+
+      {/* Ratings side by side per stage */}
+      {summary.stages
+        .filter((s) => s.scorecard_count > 0)
+        .map((stageSummary) => {
+          const stageScorecards = scorecards.filter((s) => s.stage === stageSummary.stage)
+          return (
+            <section key={stageSummary.stage} className="space-y-3">
+              <h3 className="text-sm font-semibold text-foreground">
+                {stageLabel(stageSummary.stage)}
+                {stageSummary.average_rating !== null && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    average {stageSummary.average_rating}/4
+                  </span>
+                )}
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground">
+                      <th className="py-1 pr-3 font-medium">Competency</th>
+                      {stageScorecards.map((s) => (
+                        <th key={s.id} className="py-1 px-2 font-medium">{interviewerName(s)}</th>
+                      ))}
+                      <th className="py-1 pl-2 font-medium">Avg</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stageSummary.competencies.map((competency) => (
+                      <tr key={competency.competency_id} className="border-t border-border/50">
+                        <td className="py-1.5 pr-3 text-foreground">{competency.name}</td>
+                        {stageScorecards.map((s) => (
+                          <td key={s.id} className="py-1.5 px-2 text-foreground">
+                            {competency.ratings.find((r) => r.scorecard_id === s.id)?.rating ?? "–"}
+                          </td>
+                        ))}
+                        <td className="py-1.5 pl-2 font-medium text-foreground">{competency.average ?? "–"}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-t border-border/50">
+                      <td className="py-1.5 pr-3 text-muted-foreground">Decision</td>
+                      {stageScorecards.map((s) => (
+                        <td key={s.id} className={cn("py-1.5 px-2 font-medium", decisionColor(s.decision))}>
+                          {decisionLabel(s.decision)}
+                        </td>
+                      ))}
+                      <td />
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              {stageScorecards.filter((s) => s.notes).map((s) => (
+                <div key={s.id} className="text-sm">
+                  <span className="font-medium text-foreground">{interviewerName(s)}:</span>{" "}
+                  <span className="text-muted-foreground whitespace-pre-wrap">{s.notes}</span>
+                </div>
+              ))}
+            </section>
+          )
+        })}
+
+      {/* Your scorecard */}
+      {can("candidate:scorecard") && (
+        <section className="space-y-4 border-t border-border pt-4">
+          <h3 className="text-sm font-semibold text-foreground">Your Scorecard</h3>
+          {plannedStages.length === 0 || !activeStage ? (
+            <p className="text-sm text-muted-foreground">
+              This job has no interview plan yet. Add competencies under Job Details → Interview Plan.
+            </p>
+          ) : (
+            <>
+              <Select value={activeStage} onValueChange={(value) => setStage(value as HumanInterviewStage)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {plannedStages.map((s) => (
+                    <SelectItem key={s} value={s}>{stageLabel(s)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {competencies.map((competency) => (
+                <div key={competency.id} className="space-y-2">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{competency.name}</p>
+                    {competency.description && (
+                      <p className="text-xs text-muted-foreground">{competency.description}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {SCORECARD_RATINGS.map((option) => (
+                      <Button
+                        key={option.value}
+                        type="button"
+                        size="sm"
+                        variant={ratings[competency.id]?.rating === option.value ? "default" : "outline"}
+                        onClick={() =>
+                          updateRating(competency.id, {
+                            rating: ratings[competency.id]?.rating === option.value ? null : option.value,
+                          })
+                        }
+                      >
+                        {option.value} · {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                  <Textarea
+                    rows={1}
+                    placeholder="Evidence (optional)"
+                    value={ratings[competency.id]?.notes ?? ""}
+                    onChange={(e) => updateRating(competency.id, { notes: e.target.value })}
+                  />
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="scorecard-notes">Notes</Label>
+                <Textarea
+                  id="scorecard-notes"
+                  rows={3}
+                  placeholder="Overall impressions for the hiring team"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-end justify-between gap-3">
+                <div className="space-y-2">
+                  <Label>Decision</Label>
+                  <Select value={decision} onValueChange={(value) => setDecision(value as ScorecardDecision)}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue placeholder="Hire or no hire?" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SCORECARD_DECISIONS.map((d) => (
+                        <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleSubmit} disabled={!decision || submitScorecard.isPending}>
+                  {submitScorecard.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {ownScorecard ? "Update scorecard" : "Submit scorecard"}
+                </Button>
+              </div>
+            </>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,388 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { EyeOff, Loader2, Plus, Trash2, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useUpdateJob } from "@/hooks/use-jobs"
+import { useToast } from "@/hooks/use-toast"
+import { CODE_LANGUAGES } from "@/lib/constants"
+import {
+  CodingQuestionsSchema,
+  type CodeLanguage,
+  type CodingQuestion,
+  type Json,
+  type QuestionDifficulty,
+} from "@/types"
+
+type TestCaseDraft = { id: string; name: string; args: string; expected: string; hidden: boolean }
+type QuestionDraft = Omit<CodingQuestion, "estimated_minutes" | "test_cases"> & {
+  estimated_minutes: string
+  test_cases: TestCaseDraft[]
+}
+
+const newTestCase = (): TestCaseDraft => ({
+  id: crypto.randomUUID(),
+  name: "",
+  args: "[]",
+  expected: "null",
+  hidden: false,
+})
+
+const newQuestion = (): QuestionDraft => ({
+  id: crypto.randomUUID(),
+  prompt: "",
+  difficulty: "medium",
+  estimated_minutes: "15",
+  function_name: "solve",
+  languages: ["javascript", "typescript", "python"],
+  starter_code: {
+    javascript: "function solve(input) {\n  \n}\n",
+    typescript: "function solve(input: unknown): unknown {\n  \n}\n",
+    python: "def solve(input):\n    pass\n",
+  },
+  test_cases: [newTestCase()],
+})
+
+const toDrafts = (value: Json | undefined): QuestionDraft[] => {
+  const parsed = CodingQuestionsSchema.safeParse(value ?? [])
+  if (!parsed.success) return []
+  return (parsed.data as CodingQuestion[]).map((q) => ({
+    ...q,
+    estimated_minutes: String(q.estimated_minutes),
+    test_cases: q.test_cases.map((t) => ({
+      ...t,
+      args: JSON.stringify(t.args),
+      expected: JSON.stringify(t.expected),
+    })),
+  }))
+}
+
+/**
+ * Parses the drafts' JSON fields
+ *
+ * @returns The questions, or a message naming the first invalid field
+ */
+const fromDrafts = (drafts: QuestionDraft[]): CodingQuestion[] | string => {
+  const questions: CodingQuestion[] = []
+  for (const [qIndex, q] of drafts.entries()) {
+    const testCases: CodingQuestion["test_cases"] = []
+    for (const [tIndex, t] of q.test_cases.entries()) {
+      const label = `Question ${qIndex + 1}, test ${tIndex + 1}`
+      let args: unknown
+      let expected: unknown
+      try {
+        args = JSON.parse(t.args)
+        expected = JSON.parse(t.expected)
+      } catch {
+        return `${label}: arguments and expected value must be valid JSON`
+      }
+      if (!Array.isArray(args)) return `${label}: arguments must be a JSON array`
+      testCases.push({ id: t.id, name: t.name, args: args as Json[], expected: expected as Json, hidden: t.hidden })
+    }
+    questions.push({
+      ...q,
+      estimated_minutes: Number(q.estimated_minutes),
+      starter_code: Object.fromEntries(
+        q.languages.map((language) => [language, q.starter_code[language] ?? ""])
+      ),
+      test_cases: testCases,
+    })
+  }
+  return questions
+}
+
+interface CodingQuestionsCardProps {
+  jobId: string
+  /** The job's `coding_questions` column */
+  value: Json | undefined
+  canEdit: boolean
+}
+
+/**
+ * Per-job coding questions, added to every AI interview for the job.
+ * Candidates answer them in a code editor; their code runs against the
+ * test cases, and hidden tests only run when the interview is evaluated.
+ */
+export function CodingQuestionsCard({ jobId, value, canEdit }: CodingQuestionsCardProps) {
+  const updateJob = useUpdateJob()
+  const { toast } = useToast()
+  const [drafts, setDrafts] = useState<QuestionDraft[]>(() => toDrafts(value))
+
+  useEffect(() => {
+    setDrafts(toDrafts(value))
+  }, [value])
+
+  const updateQuestion = (index: number, patch: Partial<QuestionDraft>) =>
+    setDrafts((prev) => prev.map((q, i) => (i === index ? { ...q, ...patch } : q)))
+
+  const updateTestCase = (qIndex: number, tIndex: number, patch: Partial<TestCaseDraft>) =>
+    setDrafts((prev) =>
+      prev.map((q, i) =>
+        i === qIndex
+          ? { ...q, test_cases: q.test_cases.map((t, j) => (j === tIndex ? { ...t, ...patch } : t)) }
+          : q
+      )
+    )
+
+  const toggleLanguage = (index: number, language: CodeLanguage, checked: boolean) => {
+    const languages = drafts[index].languages
+    updateQuestion(index, {
+      languages: checked
+        ? CODE_LANGUAGES.map((l) => l.value).filter((l) => l === language || languages.includes(l))
+        : languages.filter((l) => l !== language),
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const parsed = fromDrafts(drafts)
+    const validation = typeof parsed === "string" ? null : CodingQuestionsSchema.safeParse(parsed)
+
+    if (!validation?.success) {
+      toast({
+        title: "Invalid coding questions",
+        description: typeof parsed === "string" ? parsed : validation?.error.errors[0]?.message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      await updateJob.mutateAsync({
+        id: jobId,
+        data: { coding_questions: validation.data as unknown as Json },
+      })
+      toast({ title: "Coding questions saved" })
+    } catch (error) {
+      toast({
+        title: "Failed to save coding questions",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Coding Questions</CardTitle>
+        <CardDescription>
+          Added to every AI interview for this job. Candidates implement a function in the editor and
+          can run it against the visible tests; hidden tests run when the interview is evaluated.
+          Arguments and expected values are JSON.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {drafts.length === 0 && (
+            <p className="text-sm text-muted-foreground">No coding questions for this job.</p>
+          )}
+
+          {drafts.map((question, qIndex) => (
+            <div key={question.id} className="space-y-4 rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-foreground">Question {qIndex + 1}</h4>
+                {canEdit && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove question"
+                    onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== qIndex))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`prompt-${question.id}`}>Problem</Label>
+                <Textarea
+                  id={`prompt-${question.id}`}
+                  rows={4}
+                  placeholder="Describe the problem, the function's input and what it should return"
+                  value={question.prompt}
+                  disabled={!canEdit}
+                  onChange={(e) => updateQuestion(qIndex, { prompt: e.target.value })}
+                />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor={`function-${question.id}`}>Function name</Label>
+                  <Input
+                    id={`function-${question.id}`}
+                    className="font-mono"
+                    value={question.function_name}
+                    disabled={!canEdit}
+                    onChange={(e) => updateQuestion(qIndex, { function_name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Difficulty</Label>
+                  <Select
+                    value={question.difficulty}
+                    disabled={!canEdit}
+                    onValueChange={(difficulty) =>
+                      updateQuestion(qIndex, { difficulty: difficulty as QuestionDifficulty })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="easy">Easy</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="hard">Hard</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`minutes-${question.id}`}>Minutes</Label>
+                  <Input
+                    id={`minutes-${question.id}`}
+                    type="number"
+                    min={5}
+                    max={60}
+                    value={question.estimated_minutes}
+                    disabled={!canEdit}
+                    onChange={(e) => updateQuestion(qIndex, { estimated_minutes: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Languages</Label>
+                <div className="flex gap-4">
+                  {CODE_LANGUAGES.map((language) => (
+                    <label key={language.value} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={question.languages.includes(language.value)}
+                        disabled={!canEdit}
+                        onCheckedChange={(checked) => toggleLanguage(qIndex, language.value, checked === true)}
+                      />
+                      {language.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {question.languages.map((language) => (
+                <div key={language} className="space-y-2">
+                  <Label htmlFor={`starter-${question.id}-${language}`}>
+                    Starter code ({CODE_LANGUAGES.find((l) => l.value === language)?.label})
+                  </Label>
+                  <Textarea
+                    id={`starter-${question.id}-${language}`}
+                    rows={4}
+                    className="font-mono text-xs"
+                    spellCheck={false}
+                    value={question.starter_code[language] ?? ""}
+                    disabled={!canEdit}
+                    onChange={(e) =>
+                      updateQuestion(qIndex, {
+                        starter_code: { ...question.starter_code, [language]: e.target.value },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label>Test cases</Label>
+                {question.test_cases.map((testCase, tIndex) => (
+                  <div key={testCase.id} className="flex items-center gap-2">
+                    <Input
+                      aria-label="Test name"
+                      placeholder="Name"
+                      className="md:w-40"
+                      value={testCase.name}
+                      disabled={!canEdit}
+                      onChange={(e) => updateTestCase(qIndex, tIndex, { name: e.target.value })}
+                    />
+                    <Input
+                      aria-label="Arguments (JSON array)"
+                      placeholder="[1, 2]"
+                      className="font-mono text-xs"
+                      value={testCase.args}
+                      disabled={!canEdit}
+                      onChange={(e) => updateTestCase(qIndex, tIndex, { args: e.target.value })}
+                    />
+                    <Input
+                      aria-label="Expected (JSON)"
+                      placeholder="3"
+                      className="font-mono text-xs"
+                      value={testCase.expected}
+                      disabled={!canEdit}
+                      onChange={(e) => updateTestCase(qIndex, tIndex, { expected: e.target.value })}
+                    />
+                    <label className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+                      <Checkbox
+                        checked={testCase.hidden}
+                        disabled={!canEdit}
+                        onCheckedChange={(checked) => updateTestCase(qIndex, tIndex, { hidden: checked === true })}
+                      />
+                      <EyeOff className="h-3 w-3" />
+                      Hidden
+                    </label>
+                    {canEdit && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Remove test case"
+                        onClick={() =>
+                          updateQuestion(qIndex, {
+                            test_cases: question.test_cases.filter((_, j) => j !== tIndex),
+                          })
+                        }
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {canEdit && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateQuestion(qIndex, { test_cases: [...question.test_cases, newTestCase()] })}
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add test case
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {canEdit && (
+            <div className="flex justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={drafts.length >= 3}
+                onClick={() => setDrafts((prev) => [...prev, newQuestion()])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add coding question
+              </Button>
+              <Button type="submit" disabled={updateJob.isPending}>
+                {updateJob.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save coding questions
+              </Button>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,429 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { AlertCircle, CheckCircle, FileSpreadsheet, Loader2, Sparkles, Upload } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useImportCandidates, useImportStatus } from "@/hooks/use-candidates"
+import {
+  IMPORT_FIELDS,
+  IMPORT_FORMAT_LABELS,
+  detectImportFormat,
+  hasRequiredMapping,
+  mapImportRows,
+  parseCsv,
+  suggestColumnMapping,
+  type ColumnMapping,
+  type ImportField,
+  type ParsedCsv,
+} from "@/lib/candidate-import"
+import { CANDIDATE_IMPORT } from "@/lib/constants"
+import type { ImportCandidatesResponse, ImportSourceFormat } from "@/types"
+
+interface ImportCandidatesDialogProps {
+  jobId: string
+  onSuccess?: () => void
+}
+
+type Step = "upload" | "map" | "preview" | "importing" | "done"
+
+/** Rows shown in the preview table */
+const PREVIEW_LIMIT = 50
+
+/** First data row is line 2 of the file (line 1 is the header) */
+const toLineNumber = (index: number) => index + 2
+
+/**
+ * Wizard for importing candidates from a CSV file or a Greenhouse/Lever export
+ *
+ * Steps: upload → map columns → preview (server dry run) → import in batches
+ * with progress → scoring progress
+ */
+export function ImportCandidatesDialog({ jobId, onSuccess }: ImportCandidatesDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [step, setStep] = useState<Step>("upload")
+  const [fileName, setFileName] = useState("")
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [csv, setCsv] = useState<ParsedCsv | null>(null)
+  const [format, setFormat] = useState<ImportSourceFormat>("csv")
+  const [mapping, setMapping] = useState<ColumnMapping>([])
+  const [preview, setPreview] = useState<ImportCandidatesResponse | null>(null)
+  const [importId, setImportId] = useState("")
+  const [progress, setProgress] = useState({ processed: 0, total: 0, created: 0, skipped: 0 })
+  const { toast } = useToast()
+  const importCandidates = useImportCandidates()
+  const { data: scoringStatus } = useImportStatus(jobId, step === "done" && progress.created > 0 ? importId : null)
+
+  const candidates = useMemo(
+    () => (csv ? mapImportRows(csv.rows, mapping, format) : []),
+    [csv, mapping, format]
+  )
+
+  const reset = () => {
+    setStep("upload")
+    setFileName("")
+    setFileError(null)
+    setCsv(null)
+    setMapping([])
+    setPreview(null)
+    setProgress({ processed: 0, total: 0, created: 0, skipped: 0 })
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    setFileError(null)
+    if (!file) return
+
+    if (file.size > CANDIDATE_IMPORT.maxSize) {
+      setFileError(`File must be smaller than ${CANDIDATE_IMPORT.maxSize / (1024 * 1024)} MB`)
+      return
+    }
+
+    const parsed = parseCsv(await file.text())
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      setFileError("The file has no data rows")
+      return
+    }
+    if (parsed.rows.length > CANDIDATE_IMPORT.maxRows) {
+      setFileError(`Imports are limited to ${CANDIDATE_IMPORT.maxRows} candidates; split the file and try again`)
+      return
+    }
+
+    setFileName(file.name)
+    setCsv(parsed)
+    setFormat(detectImportFormat(parsed.headers))
+    setMapping(suggestColumnMapping(parsed.headers))
+    setImportId(crypto.randomUUID())
+    setStep("map")
+  }
+
+  const updateMapping = (index: number, value: string) => {
+    const field = value === "ignore" ? null : (value as ImportField)
+    // A field can only come from one column
+    setMapping(mapping.map((current, i) => {
+      if (i === index) return field
+      return field && current === field ? null : current
+    }))
+  }
+
+  const runPreview = async () => {
+    try {
+      const result = await importCandidates.mutateAsync({
+        job_id: jobId,
+        import_id: importId,
+        format,
+        candidates,
+        dry_run: true,
+      })
+      setPreview(result)
+      setStep("preview")
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to validate candidates",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const runImport = async () => {
+    if (!preview) return
+
+    const valid = preview.results.filter((r) => r.status === "valid").map((r) => candidates[r.index])
+    let created = 0
+    let skipped = 0
+
+    setStep("importing")
+    setProgress({ processed: 0, total: valid.length, created, skipped })
+
+    try {
+      for (let start = 0; start < valid.length; start += CANDIDATE_IMPORT.batchSize) {
+        const batch = valid.slice(start, start + CANDIDATE_IMPORT.batchSize)
+        const result = await importCandidates.mutateAsync({
+          job_id: jobId,
+          import_id: importId,
+          format,
+          candidates: batch,
+        })
+        created += result.summary.created
+        skipped += batch.length - result.summary.created
+        setProgress({ processed: start + batch.length, total: valid.length, created, skipped })
+      }
+      onSuccess?.()
+    } catch (error) {
+      toast({
+        title: "Import stopped",
+        description: `${created} candidates were imported before an error: ${
+          error instanceof Error ? error.message : "Failed to import candidates"
+        }`,
+        variant: "destructive",
+      })
+      if (created > 0) onSuccess?.()
+    }
+
+    setStep("done")
+  }
+
+  const problemRows = preview?.results.filter((r) => r.status !== "valid") ?? []
+  const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        // Prevent closing mid-import
+        if (step === "importing") return
+        setOpen(isOpen)
+        if (!isOpen) reset()
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="mr-2 h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Candidates</DialogTitle>
+          <DialogDescription>
+            Upload a CSV file or a Greenhouse or Lever candidate export.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file" className="flex items-center gap-2">
+              <FileSpreadsheet className="h-4 w-4" />
+              File
+            </Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {fileError ? (
+              <p className="text-sm font-medium text-destructive">{fileError}</p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                The first row must contain column headers. Up to {CANDIDATE_IMPORT.maxRows} candidates per import.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "map" && csv && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{fileName}</span>
+              <Badge variant="secondary">{IMPORT_FORMAT_LABELS[format]}</Badge>
+              <span className="text-muted-foreground">{csv.rows.length} rows</span>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Example</TableHead>
+                  <TableHead className="w-56">Import as</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {csv.headers.map((header, index) => (
+                  <TableRow key={`${header}-${index}`}>
+                    <TableCell className="font-medium">{header || `Column ${index + 1}`}</TableCell>
+                    <TableCell className="max-w-[220px] truncate text-muted-foreground">
+                      {csv.rows.find((row) => row[index])?.[index] ?? ""}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping[index] ?? "ignore"}
+                        onValueChange={(value) => updateMapping(index, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ignore">Don&apos;t import</SelectItem>
+                          {IMPORT_FIELDS.map((field) => (
+                            <SelectItem key={field.value} value={field.value}>
+                              {field.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {!hasRequiredMapping(mapping) && (
+              <p className="text-sm text-destructive flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                Map an email column and a name column (full name, or first and last name).
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                {preview.summary.valid} ready to import
+              </Badge>
+              <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                {preview.summary.duplicate} duplicates
+              </Badge>
+              <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+                {preview.summary.invalid} with errors
+              </Badge>
+            </div>
+            {problemRows.length > 0 ? (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  These rows will be skipped. Fix them in the file and import it again to include them.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Candidate</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {problemRows.slice(0, PREVIEW_LIMIT).map((result) => (
+                      <TableRow key={result.index}>
+                        <TableCell>{toLineNumber(result.index)}</TableCell>
+                        <TableCell className="max-w-[220px] truncate">
+                          {candidates[result.index]?.full_name || candidates[result.index]?.email || "—"}
+                        </TableCell>
+                        <TableCell className={result.status === "invalid" ? "text-destructive" : "text-warning"}>
+                          {result.errors?.join(", ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {problemRows.length > PREVIEW_LIMIT && (
+                  <p className="text-xs text-muted-foreground">
+                    and {problemRows.length - PREVIEW_LIMIT} more
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">All rows are valid.</p>
+            )}
+          </div>
+        )}
+
+        {step === "importing" && (
+          <div className="space-y-4 py-6 text-center">
+            <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />
+            <p className="text-sm text-muted-foreground">
+              Importing {progress.processed} of {progress.total} candidates...
+            </p>
+            <Progress value={percent} />
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="space-y-4 py-6 text-center">
+            <div className="mx-auto h-12 w-12 rounded-full bg-success/10 flex items-center justify-center">
+              <CheckCircle className="h-6 w-6 text-success" />
+            </div>
+            <div className="space-y-1">
+              <h3 className="font-semibold text-lg">
+                {progress.created} candidate{progress.created === 1 ? "" : "s"} imported
+              </h3>
+              {(progress.skipped > 0 || problemRows.length > 0) && (
+                <p className="text-sm text-muted-foreground">
+                  {progress.skipped + problemRows.length} rows skipped
+                </p>
+              )}
+            </div>
+            {progress.created > 0 && scoringStatus && (
+              <div className="space-y-2 text-left">
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <Sparkles className="h-4 w-4 text-primary" />
+                  AI scoring: {scoringStatus.scored} of {scoringStatus.total} done
+                </p>
+                <Progress
+                  value={scoringStatus.total > 0 ? (scoringStatus.scored / scoringStatus.total) * 100 : 0}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Scoring is queued and continues in the background if you close this dialog.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button
+                onClick={runPreview}
+                disabled={!hasRequiredMapping(mapping) || importCandidates.isPending}
+              >
+                {importCandidates.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && preview && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button onClick={runImport} disabled={preview.summary.valid === 0}>
+                Import {preview.summary.valid} candidate{preview.summary.valid === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button
+              onClick={() => {
+                setOpen(false)
+                reset()
+              }}
+            >
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, Plus, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useUpdateJob } from "@/hooks/use-jobs"
+import { useToast } from "@/hooks/use-toast"
+import { PIPELINE_STAGES } from "@/lib/constants"
+import { HUMAN_INTERVIEW_STAGES, getStageCompetencies, parseInterviewPlan } from "@/lib/scorecards"
+import {
+  InterviewPlanSchema,
+  type HumanInterviewStage,
+  type InterviewPlan,
+  type Json,
+} from "@/types"
+
+type CompetencyDraft = { id: string; name: string; description: string }
+type FormState = Record<HumanInterviewStage, CompetencyDraft[]>
+
+const toFormState = (plan: InterviewPlan): FormState =>
+  Object.fromEntries(
+    HUMAN_INTERVIEW_STAGES.map((stage) => [
+      stage,
+      getStageCompetencies(plan, stage).map((c) => ({ ...c, description: c.description ?? "" })),
+    ])
+  ) as FormState
+
+const stageLabel = (stage: HumanInterviewStage) =>
+  PIPELINE_STAGES.find((s) => s.id === stage)?.label ?? stage
+
+interface InterviewPlanCardProps {
+  jobId: string
+  /** The job's `interview_plan` column; null = no plan */
+  value: Json | null | undefined
+  canEdit: boolean
+}
+
+/**
+ * Per-job interview plan: the competencies each human interview stage
+ * assesses. Interviewers rate these on their scorecards.
+ */
+export function InterviewPlanCard({ jobId, value, canEdit }: InterviewPlanCardProps) {
+  const updateJob = useUpdateJob()
+  const { toast } = useToast()
+  const [form, setForm] = useState<FormState>(() => toFormState(parseInterviewPlan(value)))
+
+  useEffect(() => {
+    setForm(toFormState(parseInterviewPlan(value)))
+  }, [value])
+
+  const updateCompetency = (stage: HumanInterviewStage, index: number, patch: Partial<CompetencyDraft>) =>
+    setForm((prev) => ({
+      ...prev,
+      [stage]: prev[stage].map((c, i) => (i === index ? { ...c, ...patch } : c)),
+    }))
+
+  const addCompetency = (stage: HumanInterviewStage) =>
+    setForm((prev) => ({
+      ...prev,
+      [stage]: [...prev[stage], { id: crypto.randomUUID(), name: "", description: "" }],
+    }))
+
+  const removeCompetency = (stage: HumanInterviewStage, index: number) =>
+    setForm((prev) => ({ ...prev, [stage]: prev[stage].filter((_, i) => i !== index) }))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const validation = InterviewPlanSchema.safeParse({
+      stages: HUMAN_INTERVIEW_STAGES.filter((stage) => form[stage].length > 0).map((stage) => ({
+        stage,
+        competencies: form[stage].map((c) => ({
+          id: c.id,
+          name: c.name,
+          description: c.description.trim() || null,
+        })),
+      })),
+    })
+
+    if (!validation.success) {
+      toast({
+        title: "Invalid interview plan",
+        description: validation.error.errors[0]?.message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      await updateJob.mutateAsync({
+        id: jobId,
+        data: {
+          interview_plan: (validation.data.stages.length > 0 ? validation.data : null) as unknown as Json,
+        },
+      })
+      toast({ title: "Interview plan saved" })
+    } catch (error) {
+      toast({
+        title: "Failed to save interview plan",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Interview Plan</CardTitle>
+        <CardDescription>
+          List the competencies each interview stage assesses. Interviewers rate them from 1 to 4 on
+          their scorecards and make a hire/no-hire call.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {HUMAN_INTERVIEW_STAGES.map((stage) => (
+            <div key={stage} className="space-y-3">
+              <h4 className="text-sm font-medium text-foreground">{stageLabel(stage)}</h4>
+              {form[stage].length === 0 && (
+                <p className="text-sm text-muted-foreground">No competencies planned for this stage.</p>
+              )}
+              {form[stage].map((competency, index) => (
+                <div key={competency.id} className="flex items-start gap-2">
+                  <Input
+                    aria-label="Competency"
+                    placeholder="Competency, e.g. System design"
+                    className="md:w-64"
+                    value={competency.name}
+                    disabled={!canEdit}
+                    onChange={(e) => updateCompetency(stage, index, { name: e.target.value })}
+                  />
+                  <Input
+                    aria-label="What to look for"
+                    placeholder="What to look for (optional)"
+                    value={competency.description}
+                    disabled={!canEdit}
+                    onChange={(e) => updateCompetency(stage, index, { description: e.target.value })}
+                  />
+                  {canEdit && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove competency"
+                      onClick={() => removeCompetency(stage, index)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canEdit && (
+                <Button type="button" variant="outline" size="sm" onClick={() => addCompetency(stage)}>
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add competency
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {canEdit && (
+            <div className="flex justify-end">
+              <Button type="submit" disabled={updateJob.isPending}>
+                {updateJob.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save plan
+              </Button>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useUpdateJob } from "@/hooks/use-jobs"
+import { useToast } from "@/hooks/use-toast"
+import { QUESTION_CATEGORIES, RECOMMENDATIONS } from "@/lib/constants"
+import { parseInterviewScoringConfig } from "@/lib/interview-scoring"
+import {
+  InterviewScoringConfigSchema,
+  type InterviewRecommendationThresholds,
+  type InterviewScoringConfig,
+  type Json,
+  type QuestionCategory,
+} from "@/types"
+
+const THRESHOLD_KEYS: (keyof InterviewRecommendationThresholds)[] = ["strong_yes", "yes", "maybe", "no"]
+
+type FormState = {
+  category_weights: Record<QuestionCategory, string>
+  thresholds: Record<keyof InterviewRecommendationThresholds, string>
+}
+
+const toFormState = (config: InterviewScoringConfig): FormState => ({
+  category_weights: Object.fromEntries(
+    Object.entries(config.category_weights).map(([category, weight]) => [category, String(weight)])
+  ) as FormState["category_weights"],
+  thresholds: Object.fromEntries(
+    Object.entries(config.thresholds).map(([key, value]) => [key, String(value)])
+  ) as FormState["thresholds"],
+})
+
+interface InterviewScoringCardProps {
+  jobId: string
+  /** The job's `interview_scoring` column; null uses the defaults */
+  value: Json | null | undefined
+  canEdit: boolean
+}
+
+/**
+ * Per-job interview scoring settings: how much each question category
+ * counts towards the interview score, and the score needed for each
+ * recommendation. Applies to interviews evaluated after saving.
+ */
+export function InterviewScoringCard({ jobId, value, canEdit }: InterviewScoringCardProps) {
+  const updateJob = useUpdateJob()
+  const { toast } = useToast()
+  const [form, setForm] = useState<FormState>(() => toFormState(parseInterviewScoringConfig(value)))
+
+  useEffect(() => {
+    setForm(toFormState(parseInterviewScoringConfig(value)))
+  }, [value])
+
+  const save = async (config: InterviewScoringConfig | null) => {
+    try {
+      await updateJob.mutateAsync({
+        id: jobId,
+        data: { interview_scoring: config as unknown as Json },
+      })
+      toast({ title: config ? "Interview scoring saved" : "Interview scoring reset to defaults" })
+    } catch (error) {
+      toast({
+        title: "Failed to save interview scoring",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const validation = InterviewScoringConfigSchema.safeParse({
+      category_weights: Object.fromEntries(
+        Object.entries(form.category_weights).map(([category, weight]) => [category, Number(weight)])
+      ),
+      thresholds: Object.fromEntries(
+        Object.entries(form.thresholds).map(([key, threshold]) => [key, Number(threshold)])
+      ),
+    })
+
+    if (!validation.success) {
+      toast({
+        title: "Invalid interview scoring",
+        description: validation.error.errors[0]?.message,
+        variant: "destructive",
+      })
+      return
+    }
+    save(validation.data)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Interview Scoring</CardTitle>
+        <CardDescription>
+          Answers are scored against each question&apos;s rubric, and harder questions count more.
+          Weight categories below (0 leaves a category out) and set the score each recommendation needs.
+          Changes apply to interviews evaluated from now on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-foreground">Category weights</h4>
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+              {QUESTION_CATEGORIES.map((category) => (
+                <div key={category.value} className="space-y-2">
+                  <Label htmlFor={`weight-${category.value}`}>{category.label}</Label>
+                  <Input
+                    id={`weight-${category.value}`}
+                    type="number"
+                    min="0"
+                    max="5"
+                    step="0.25"
+                    value={form.category_weights[category.value]}
+                    disabled={!canEdit}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        category_weights: { ...prev.category_weights, [category.value]: e.target.value },
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-foreground">Minimum score for recommendation</h4>
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+              {THRESHOLD_KEYS.map((key) => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={`threshold-${key}`}>{RECOMMENDATIONS[key].label}</Label>
+                  <Input
+                    id={`threshold-${key}`}
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={form.thresholds[key]}
+                    disabled={!canEdit}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        thresholds: { ...prev.thresholds, [key]: e.target.value },
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Scores below {form.thresholds.no || "the No threshold"} are a {RECOMMENDATIONS.strong_no.label.toLowerCase()}.
+            </p>
+          </div>
+
+          {canEdit && (
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={updateJob.isPending || value == null}
+                onClick={() => save(null)}
+              >
+                Reset to defaults
+              </Button>
+              <Button type="submit" disabled={updateJob.isPending}>
+                {updateJob.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save scoring
+              </Button>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -11,6 +11,8 @@ interface KanbanBoardProps {
   onCandidateSelect: (candidate: Candidate) => void
   onStatusChange: (candidateId: string, status: Candidate["status"]) => void
   selectedCandidateId?: string
+  /** Whether candidates can be dragged between columns (default: true) */
+  canMove?: boolean
   onApprove?: (candidate: Candidate) => void
   onReject?: (candidate: Candidate) => void
   onSchedule?: (candidate: Candidate) => void
@@ -46,6 +48,7 @@ export function KanbanBoard({
   onCandidateSelect,
   onStatusChange,
   selectedCandidateId,
+  canMove = true,
   onApprove,
   onReject,
   onSchedule,
@@ -64,6 +67,7 @@ export function KanbanBoard({
   }
 
   const handleDragOver = (e: React.DragEvent, status: string) => {
+    if (!canMove) return
     e.preventDefault()
     e.dataTransfer.dropEffect = "move"
     setDraggingOver(status)
@@ -74,6 +78,7 @@ export function KanbanBoard({
   }
 
   const handleDrop = (e: React.DragEvent, status: Candidate["status"]) => {
+    if (!canMove) return
     e.preventDefault()
     setDraggingOver(null)
     const candidateId = e.dataTransfer.getData("candidateId")
@@ -152,7 +157,7 @@ export function KanbanBoard({
                       key={candidate.id}
                       candidate={candidate}
                       onClick={() => onCandidateSelect(candidate)}
-                      onDragStart={(e) => handleDragStart(e, candidate)}
+                      onDragStart={canMove ? (e) => handleDragStart(e, candidate) : undefined}
                       isSelected={selectedCandidateId === candidate.id}
                       onApprove={onApprove}
                       onReject={onReject}
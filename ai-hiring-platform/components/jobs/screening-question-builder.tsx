@@ -0,0 +1,247 @@
+"use client"
+
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { SCREENING_QUESTION_TYPES } from "@/lib/screening"
+import type { ScreeningQuestion, ScreeningQuestionType } from "@/types"
+
+interface ScreeningQuestionBuilderProps {
+  questions: ScreeningQuestion[]
+  onChange: (questions: ScreeningQuestion[]) => void
+}
+
+const MAX_QUESTIONS = 20
+
+function createQuestionId() {
+  return `q_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+}
+
+/**
+ * Editor for a job's screening questions and their knockout rules
+ *
+ * Knockout answers only flag a candidate for review; they never reject automatically.
+ */
+export function ScreeningQuestionBuilder({ questions, onChange }: ScreeningQuestionBuilderProps) {
+  const updateQuestion = (index: number, changes: Partial<ScreeningQuestion>) => {
+    onChange(questions.map((q, i) => (i === index ? { ...q, ...changes } : q)))
+  }
+
+  const changeType = (index: number, type: ScreeningQuestionType) => {
+    const { id, prompt, required } = questions[index]
+    // Knockout settings are type-specific, so start fresh
+    const next: ScreeningQuestion = { id, prompt, required, type }
+    if (type === "multiple_choice") next.options = ["", ""]
+    onChange(questions.map((q, i) => (i === index ? next : q)))
+  }
+
+  const addQuestion = () => {
+    onChange([
+      ...questions,
+      { id: createQuestionId(), type: "yes_no", prompt: "", required: true },
+    ])
+  }
+
+  const removeQuestion = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index))
+  }
+
+  const parseNumber = (value: string) => (value === "" ? undefined : Number(value))
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question, index) => (
+        <div key={question.id} className="rounded-lg border border-border p-4 space-y-4">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor={`${question.id}-prompt`}>Question {index + 1}</Label>
+              <Input
+                id={`${question.id}-prompt`}
+                placeholder="e.g., Will you now or in the future require visa sponsorship?"
+                value={question.prompt}
+                onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="mt-7"
+              onClick={() => removeQuestion(index)}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Remove question</span>
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="w-48 space-y-2">
+              <Label htmlFor={`${question.id}-type`}>Answer type</Label>
+              <Select
+                value={question.type}
+                onValueChange={(value) => changeType(index, value as ScreeningQuestionType)}
+              >
+                <SelectTrigger id={`${question.id}-type`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCREENING_QUESTION_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id={`${question.id}-required`}
+                checked={question.required}
+                onCheckedChange={(checked) => updateQuestion(index, { required: checked })}
+              />
+              <Label htmlFor={`${question.id}-required`} className="font-normal">
+                Required
+              </Label>
+            </div>
+          </div>
+
+          {/* Type-specific settings */}
+          {question.type === "text" && (
+            <div className="space-y-2">
+              <Label htmlFor={`${question.id}-ideal`}>Ideal answer (used for AI grading)</Label>
+              <Textarea
+                id={`${question.id}-ideal`}
+                rows={2}
+                placeholder="What a strong answer would mention"
+                value={question.ideal_answer ?? ""}
+                onChange={(e) =>
+                  updateQuestion(index, { ideal_answer: e.target.value || undefined })
+                }
+              />
+            </div>
+          )}
+
+          {question.type === "yes_no" && (
+            <div className="w-48 space-y-2">
+              <Label htmlFor={`${question.id}-knockout`}>Flag candidates who answer</Label>
+              <Select
+                value={question.knockout_answer ?? "none"}
+                onValueChange={(value) =>
+                  updateQuestion(index, {
+                    knockout_answer: value === "none" ? undefined : (value as "yes" | "no"),
+                  })
+                }
+              >
+                <SelectTrigger id={`${question.id}-knockout`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Don&apos;t flag</SelectItem>
+                  <SelectItem value="yes">Yes</SelectItem>
+                  <SelectItem value="no">No</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {question.type === "multiple_choice" && (
+            <div className="space-y-2">
+              <Label>Options (check the ones that should flag a candidate)</Label>
+              {(question.options ?? []).map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={!!option && question.knockout_options?.includes(option)}
+                    disabled={!option}
+                    onCheckedChange={(checked) => {
+                      const current = question.knockout_options ?? []
+                      updateQuestion(index, {
+                        knockout_options: checked
+                          ? [...current, option]
+                          : current.filter((o) => o !== option),
+                      })
+                    }}
+                    aria-label="Flag this option"
+                  />
+                  <Input
+                    placeholder={`Option ${optionIndex + 1}`}
+                    value={option}
+                    onChange={(e) => {
+                      const options = [...(question.options ?? [])]
+                      options[optionIndex] = e.target.value
+                      updateQuestion(index, {
+                        options,
+                        knockout_options: question.knockout_options?.filter((o) => o !== option),
+                      })
+                    }}
+                  />
+                  {(question.options?.length ?? 0) > 2 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        updateQuestion(index, {
+                          options: question.options?.filter((_, i) => i !== optionIndex),
+                          knockout_options: question.knockout_options?.filter((o) => o !== option),
+                        })
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove option</span>
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateQuestion(index, { options: [...(question.options ?? []), ""] })}
+              >
+                + Add Option
+              </Button>
+            </div>
+          )}
+
+          {question.type === "numeric" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`${question.id}-min`}>Flag if below</Label>
+                <Input
+                  id={`${question.id}-min`}
+                  type="number"
+                  placeholder="No minimum"
+                  value={question.min_value ?? ""}
+                  onChange={(e) => updateQuestion(index, { min_value: parseNumber(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`${question.id}-max`}>Flag if above</Label>
+                <Input
+                  id={`${question.id}-max`}
+                  type="number"
+                  placeholder="No maximum"
+                  value={question.max_value ?? ""}
+                  onChange={(e) => updateQuestion(index, { max_value: parseNumber(e.target.value) })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button variant="outline" onClick={addQuestion} disabled={questions.length >= MAX_QUESTIONS}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Screening Question
+      </Button>
+    </div>
+  )
+}
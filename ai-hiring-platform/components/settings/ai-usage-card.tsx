@@ -0,0 +1,183 @@
+"use client"
+
+import { useState } from "react"
+import { format, parse } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useAIUsage } from "@/hooks/use-organization"
+import { AI_FEATURES } from "@/lib/constants"
+import { cn } from "@/lib/utils"
+import type { AIUsageTotals } from "@/types"
+
+const formatCost = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value > 0 && value < 1 ? 4 : 2,
+  }).format(value)
+
+const formatTokens = (totals: AIUsageTotals) =>
+  new Intl.NumberFormat("en-US", { notation: "compact" }).format(
+    totals.prompt_tokens + totals.completion_tokens
+  )
+
+const formatMonth = (month: string) => format(parse(month, "yyyy-MM", new Date()), "MMMM yyyy")
+
+function UsageTable({
+  rows,
+  label,
+}: {
+  rows: (AIUsageTotals & { key: string; name: string })[]
+  label: string
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No AI usage in this period</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Tokens</TableHead>
+          <TableHead className="text-right">Est. cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell className="max-w-[240px] truncate">{row.name}</TableCell>
+            <TableCell className="text-right">
+              {row.calls}
+              {row.failed_calls > 0 && (
+                <span className="text-xs text-destructive"> ({row.failed_calls} failed)</span>
+              )}
+            </TableCell>
+            <TableCell className="text-right">{formatTokens(row)}</TableCell>
+            <TableCell className="text-right">{formatCost(row.cost_usd)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+/**
+ * AI usage dashboard for admins: this month's spend against the budget,
+ * monthly totals, and per-feature and per-job breakdowns
+ */
+export function AIUsageCard() {
+  const [month, setMonth] = useState<string>("all")
+  const { data, isLoading } = useAIUsage(month === "all" ? undefined : month)
+
+  const budget = data?.budget
+  const budgetUsed =
+    budget?.monthly_budget_usd
+      ? Math.min(100, (budget.spent_this_month_usd / budget.monthly_budget_usd) * 100)
+      : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Usage</CardTitle>
+        <CardDescription>
+          Estimated cost of AI features, from token counts and list prices
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !data ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <p className="text-sm font-medium text-foreground">This month</p>
+                <p className="text-sm text-muted-foreground">
+                  {formatCost(data.budget.spent_this_month_usd)}
+                  {data.budget.monthly_budget_usd !== null
+                    ? ` of ${formatCost(data.budget.monthly_budget_usd)} budget`
+                    : " · no budget set"}
+                </p>
+              </div>
+              {data.budget.monthly_budget_usd !== null && (
+                <Progress
+                  value={budgetUsed}
+                  className={cn(budgetUsed >= 100 && "[&>[data-slot=progress-indicator]]:bg-destructive")}
+                />
+              )}
+              {budgetUsed >= 100 && (
+                <p className="text-xs text-destructive">
+                  Budget reached - AI features are paused until next month or until the budget is raised
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">By month</p>
+              <UsageTable
+                label="Month"
+                rows={data.months.map((m) => ({ ...m, key: m.month, name: formatMonth(m.month) }))}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm font-medium text-foreground">Breakdown</p>
+              <Select value={month} onValueChange={setMonth}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All months</SelectItem>
+                  {data.months.map((m) => (
+                    <SelectItem key={m.month} value={m.month}>
+                      {formatMonth(m.month)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <UsageTable
+              label="Feature"
+              rows={data.by_feature.map((f) => ({
+                ...f,
+                key: f.feature,
+                name: AI_FEATURES.find((a) => a.value === f.feature)?.label ?? f.feature,
+              }))}
+            />
+
+            <UsageTable
+              label="Job"
+              rows={data.by_job.map((j) => ({
+                ...j,
+                key: j.job_id ?? "none",
+                name: j.job_id ? j.job_title ?? "Deleted job" : "Not tied to a job",
+              }))}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,8 +1,12 @@
 // Export all hooks
 export * from "./use-jobs";
 export * from "./use-candidates";
+export * from "./use-interviews";
+export * from "./use-integrity-signals";
 export * from "./use-activities";
 export * from "./use-dashboard";
+export * from "./use-organization";
+export * from "./use-dev-mailbox";
 export * from "./use-ai";
 export * from "./use-toast";
 export * from "./use-mobile";
@@ -7,7 +7,11 @@
  * - Create, update, delete candidates
  * - Move candidates between pipeline stages
  * - Star/unstar candidates
+ * - Comment on candidates
+ * - Submit interview scorecards
+ * - Resend failed interview emails
  * - Bulk operations
+ * - Bulk import from CSV/ATS exports
  * - Polling for AI scoring completion
  * 
  * Uses React Query for caching, optimistic updates, and background refetching.
@@ -20,10 +24,17 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import type {
   Candidate,
+  CandidateComment,
+  CandidateScorecard,
   CandidateStage,
+  CreateCommentRequest,
+  ImportCandidatesRequest,
+  ImportCandidatesResponse,
+  ImportStatusResponse,
   ListCandidatesQuery,
   ListCandidatesResponse,
   MoveCandidateRequest,
+  SubmitScorecardRequest,
 } from "@/types";
 
 // ============================================================
@@ -48,6 +59,7 @@ export const candidateKeys = {
     [...candidateKeys.lists(), filters] as const,
   details: () => [...candidateKeys.all, "detail"] as const,
   detail: (id: string) => [...candidateKeys.details(), id] as const,
+  importStatus: (importId: string) => [...candidateKeys.all, "import", importId] as const,
 };
 
 // API functions
@@ -150,6 +162,94 @@ async function createCandidate(data: CreateCandidateData): Promise<Candidate> {
   return response.json();
 }
 
+async function uploadResume(
+  candidateId: string,
+  file: File
+): Promise<{ resume_filename: string; has_text: boolean }> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await fetch(`/api/candidates/${candidateId}/resume`, {
+    method: "POST",
+    body: formData,
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to upload resume");
+  }
+  return response.json();
+}
+
+async function importCandidates(
+  data: ImportCandidatesRequest
+): Promise<ImportCandidatesResponse> {
+  const response = await fetch("/api/candidates/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to import candidates");
+  }
+  return response.json();
+}
+
+async function fetchImportStatus(
+  jobId: string,
+  importId: string
+): Promise<ImportStatusResponse> {
+  const params = new URLSearchParams({ job_id: jobId, import_id: importId });
+  const response = await fetch(`/api/candidates/import?${params}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch import status");
+  }
+  return response.json();
+}
+
+async function addComment(
+  candidateId: string,
+  data: CreateCommentRequest
+): Promise<CandidateComment> {
+  const response = await fetch(`/api/candidates/${candidateId}/comments`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to add comment");
+  }
+  return response.json();
+}
+
+async function submitScorecard(
+  candidateId: string,
+  data: SubmitScorecardRequest
+): Promise<CandidateScorecard> {
+  const response = await fetch(`/api/candidates/${candidateId}/scorecards`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to submit scorecard");
+  }
+  return response.json();
+}
+
+async function resendEmail(candidateId: string, emailId: string): Promise<void> {
+  const response = await fetch(`/api/candidates/${candidateId}/emails/${emailId}/resend`, {
+    method: "POST",
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to resend email");
+  }
+}
+
 // ============================================================
 // REACT QUERY HOOKS
 // ============================================================
@@ -362,6 +462,77 @@ export function useDeleteCandidate() {
   });
 }
 
+/**
+ * Hook for uploading or replacing a candidate's resume
+ * The candidate is re-scored in the background, so the detail and lists are refetched
+ * 
+ * @returns Mutation for resume upload
+ * 
+ * @example
+ * const { mutate, isPending } = useUploadResume();
+ * mutate({ candidateId, file });
+ */
+export function useUploadResume() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ candidateId, file }: { candidateId: string; file: File }) =>
+      uploadResume(candidateId, file),
+    onSuccess: (_, { candidateId }) => {
+      queryClient.invalidateQueries({ queryKey: candidateKeys.detail(candidateId) });
+      queryClient.invalidateQueries({ queryKey: candidateKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook for importing candidates in bulk
+ * Send with `dry_run: true` to preview validation errors and duplicates first;
+ * lists are refreshed after each real batch
+ * 
+ * @returns Mutation with per-row results and a summary
+ * 
+ * @example
+ * const { mutateAsync } = useImportCandidates();
+ * const { summary } = await mutateAsync({ job_id, import_id, format: "csv", candidates, dry_run: true });
+ */
+export function useImportCandidates() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importCandidates,
+    onSuccess: (_, { dry_run }) => {
+      if (!dry_run) {
+        queryClient.invalidateQueries({ queryKey: candidateKeys.lists() });
+      }
+    },
+  });
+}
+
+/**
+ * Hook for tracking AI scoring progress of an import
+ * Polls until every imported candidate has a score
+ * 
+ * @param jobId - Job the candidates were imported into
+ * @param importId - The import's id, or null to disable
+ * @returns Query result with total and scored counts
+ * 
+ * @example
+ * const { data } = useImportStatus(jobId, importId);
+ * // data.scored of data.total
+ */
+export function useImportStatus(jobId: string, importId: string | null) {
+  return useQuery({
+    queryKey: candidateKeys.importStatus(importId ?? ""),
+    queryFn: () => fetchImportStatus(jobId, importId!),
+    enabled: !!importId,
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      return data && data.scored >= data.total ? false : 3000;
+    },
+  });
+}
+
 /**
  * Hook for moving multiple candidates to a stage in bulk
  * Useful for batch rejections or stage transitions
@@ -424,6 +595,72 @@ export function useCreateCandidate() {
   });
 }
 
+/**
+ * Hook for adding a comment to a candidate
+ * Refetches the candidate detail so the comment appears immediately
+ * 
+ * @returns Mutation for comment creation
+ * 
+ * @example
+ * const { mutate } = useAddComment();
+ * mutate({ candidateId, content: "Strong system design answers" });
+ */
+export function useAddComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      candidateId,
+      ...data
+    }: { candidateId: string } & CreateCommentRequest) =>
+      addComment(candidateId, data),
+    onSuccess: (_, { candidateId }) => {
+      queryClient.invalidateQueries({ queryKey: candidateKeys.detail(candidateId) });
+    },
+  });
+}
+
+/**
+ * Hook for submitting (or replacing) your scorecard for an interview stage
+ *
+ * @example
+ * const { mutate } = useSubmitScorecard();
+ * mutate({ candidateId, stage: "technical", ratings: [{ competency_id, rating: 3 }], decision: "yes" });
+ */
+export function useSubmitScorecard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      candidateId,
+      ...data
+    }: { candidateId: string } & SubmitScorecardRequest) =>
+      submitScorecard(candidateId, data),
+    onSuccess: (_, { candidateId }) => {
+      queryClient.invalidateQueries({ queryKey: candidateKeys.detail(candidateId) });
+    },
+  });
+}
+
+/**
+ * Hook for resending a failed or bounced email from the candidate's email log
+ *
+ * @example
+ * const { mutate } = useResendEmail();
+ * mutate({ candidateId, emailId });
+ */
+export function useResendEmail() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ candidateId, emailId }: { candidateId: string; emailId: string }) =>
+      resendEmail(candidateId, emailId),
+    onSuccess: (_, { candidateId }) => {
+      queryClient.invalidateQueries({ queryKey: candidateKeys.detail(candidateId) });
+    },
+  });
+}
+
 /**
  * Poll a candidate until AI scoring is complete
  * Returns when scoring is done or after max attempts
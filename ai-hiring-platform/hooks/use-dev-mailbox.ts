@@ -0,0 +1,77 @@
+/**
+ * @fileoverview React Query hooks for the dev mailbox
+ *
+ * Emails kept by the outbox transport (EMAIL_TRANSPORT=outbox) instead of
+ * being sent. Only available outside production.
+ *
+ * @module hooks/use-dev-mailbox
+ */
+
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ListOutboxEmailsResponse } from "@/types";
+
+// ============================================================
+// QUERY KEYS - For cache management
+// ============================================================
+
+/**
+ * Query key factory for dev mailbox queries
+ */
+export const devMailboxKeys = {
+  all: ["dev-mailbox"] as const,
+};
+
+// API functions
+async function fetchOutboxEmails(): Promise<ListOutboxEmailsResponse> {
+  const response = await fetch("/api/dev/mailbox");
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch the mailbox");
+  }
+  return response.json();
+}
+
+async function clearOutbox(): Promise<void> {
+  const response = await fetch("/api/dev/mailbox", { method: "DELETE" });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to clear the mailbox");
+  }
+}
+
+// ============================================================
+// HOOKS
+// ============================================================
+
+/**
+ * Hook for the emails in the outbox, newest first
+ * Polls so emails sent by background jobs show up on their own
+ *
+ * @returns Query result with the kept emails
+ */
+export function useOutboxEmails() {
+  return useQuery({
+    queryKey: devMailboxKeys.all,
+    queryFn: fetchOutboxEmails,
+    refetchInterval: 5_000,
+    retry: false,
+  });
+}
+
+/**
+ * Hook for emptying the outbox
+ *
+ * @returns Mutation that deletes every kept email
+ */
+export function useClearOutbox() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: clearOutbox,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: devMailboxKeys.all });
+    },
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Integrity signals recorded on the candidate interview page
+ *
+ * Tracks, per question, what the browser can observe while the candidate
+ * answers: pastes (size and timing), the window losing focus, and typing
+ * cadence. Nothing is blocked or shown to the candidate; the signals are
+ * sent with each answer and summarized for recruiters by
+ * lib/interview-integrity.
+ *
+ * @module hooks/use-integrity-signals
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import {
+  emptyIntegritySignals,
+  LONG_PAUSE_MS,
+  MAX_RECORDED_PASTES,
+  TYPING_GAP_MS,
+} from "@/lib/interview-integrity";
+import type { IntegritySignals } from "@/types";
+
+/**
+ * Records integrity signals for the question currently shown
+ *
+ * Spread `handlers` onto the element wrapping the answer inputs; they use
+ * the capture phase so editors handling their own keys are still seen.
+ *
+ * @param questionId - Question on screen, or null when none is
+ * @returns Event handlers for the answer area and a getter for a question's signals
+ */
+export function useIntegritySignals(questionId: string | null) {
+  const signalsRef = useRef<Record<string, IntegritySignals>>({});
+  const openedAtRef = useRef<Record<string, number>>({});
+  const lastKeyAtRef = useRef<number | null>(null);
+  const questionIdRef = useRef(questionId);
+
+  const current = useCallback(() => {
+    const id = questionIdRef.current;
+    if (!id) return null;
+    signalsRef.current[id] ??= emptyIntegritySignals();
+    return signalsRef.current[id];
+  }, []);
+
+  useEffect(() => {
+    questionIdRef.current = questionId;
+    lastKeyAtRef.current = null;
+    if (questionId) openedAtRef.current[questionId] ??= Date.now();
+  }, [questionId]);
+
+  // Time away is charged to the question on screen when the candidate comes back
+  const isActive = questionId !== null;
+  useEffect(() => {
+    if (!isActive) return;
+    let leftAt: number | null = null;
+
+    const onLeave = () => {
+      if (leftAt !== null) return;
+      leftAt = Date.now();
+      const signals = current();
+      if (signals) signals.focus_losses += 1;
+    };
+    const onReturn = () => {
+      if (leftAt === null) return;
+      const signals = current();
+      if (signals) signals.away_ms += Date.now() - leftAt;
+      leftAt = null;
+    };
+    // Blur covers switching apps; visibility covers mobile browsers that don't blur
+    const onVisibilityChange = () => (document.hidden ? onLeave() : onReturn());
+
+    window.addEventListener("blur", onLeave);
+    window.addEventListener("focus", onReturn);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("blur", onLeave);
+      window.removeEventListener("focus", onReturn);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [isActive, current]);
+
+  const onPasteCapture = useCallback((e: React.ClipboardEvent) => {
+    const signals = current();
+    const id = questionIdRef.current;
+    if (!signals || !id) return;
+    const chars = e.clipboardData.getData("text").length;
+    if (chars === 0) return;
+    signals.pasted_chars += chars;
+    if (signals.pastes.length < MAX_RECORDED_PASTES) {
+      signals.pastes.push({ chars, at_ms: Date.now() - (openedAtRef.current[id] ?? Date.now()) });
+    }
+  }, [current]);
+
+  const onKeyDownCapture = useCallback((e: React.KeyboardEvent) => {
+    // Only keys that type something; shortcuts like Ctrl+V are not typing
+    if (e.ctrlKey || e.metaKey || e.altKey || (e.key.length !== 1 && e.key !== "Enter")) return;
+    const signals = current();
+    if (!signals) return;
+    const now = Date.now();
+    const gap = lastKeyAtRef.current === null ? null : now - lastKeyAtRef.current;
+    lastKeyAtRef.current = now;
+    signals.keystrokes += 1;
+    if (gap !== null && gap < TYPING_GAP_MS) signals.typing_ms += gap;
+    if (gap !== null && gap > LONG_PAUSE_MS) signals.long_pauses += 1;
+  }, [current]);
+
+  const signalsFor = useCallback(
+    (id: string): IntegritySignals | undefined => {
+      const signals = signalsRef.current[id];
+      return signals && { ...signals, pastes: [...signals.pastes] };
+    },
+    []
+  );
+
+  return { handlers: { onPasteCapture, onKeyDownCapture }, signalsFor };
+}
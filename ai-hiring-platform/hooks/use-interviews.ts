@@ -0,0 +1,138 @@
+/**
+ * @fileoverview React Query hooks for AI interview details and reviews
+ *
+ * This module provides hooks for:
+ * - Fetching an interview with its questions and answers
+ * - Saving a recruiter's review (score and recommendation overrides)
+ *
+ * @module hooks/use-interviews
+ */
+
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { candidateKeys } from "./use-candidates";
+import type {
+  AIInterview,
+  IntegrityNote,
+  InterviewQuestion,
+  InterviewReviewRequest,
+} from "@/types";
+
+// ============================================================
+// QUERY KEYS - For cache management
+// ============================================================
+
+/**
+ * Query key factory for interview queries
+ */
+export const interviewKeys = {
+  all: ["interviews"] as const,
+  details: () => [...interviewKeys.all, "detail"] as const,
+  detail: (id: string) => [...interviewKeys.details(), id] as const,
+};
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * Interview as returned by GET /api/interviews/:id
+ */
+export type InterviewWithQuestions = AIInterview & {
+  interview_questions: Pick<
+    InterviewQuestion,
+    | "id"
+    | "question_text"
+    | "category"
+    | "difficulty"
+    | "question_order"
+    | "candidate_answer"
+    | "ai_score"
+    | "ai_feedback"
+    | "human_score"
+    | "human_feedback"
+    | "parent_question_id"
+    | "follow_up_rationale"
+    | "question_type"
+    | "code_language"
+    | "code_execution"
+    | "integrity_signals"
+  >[];
+  /** Observations from the candidate's browser, for the recruiter to probe */
+  integrity_notes: IntegrityNote[];
+};
+
+// ============================================================
+// API FUNCTIONS
+// ============================================================
+
+async function fetchInterview(id: string): Promise<InterviewWithQuestions> {
+  const response = await fetch(`/api/interviews/${id}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch interview");
+  }
+  const { interview } = await response.json();
+  return interview;
+}
+
+async function saveInterviewReview({
+  interviewId,
+  review,
+}: {
+  interviewId: string;
+  review: InterviewReviewRequest;
+}): Promise<AIInterview> {
+  const response = await fetch(`/api/interviews/${interviewId}/review`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(review),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to save review");
+  }
+  return response.json();
+}
+
+// ============================================================
+// HOOKS
+// ============================================================
+
+/**
+ * Hook for fetching an interview with its questions
+ *
+ * @param id - Interview ID
+ * @param enabled - Only fetch when true (e.g. while a dialog is open)
+ */
+export function useInterview(id: string, enabled = true) {
+  return useQuery({
+    queryKey: interviewKeys.detail(id),
+    queryFn: () => fetchInterview(id),
+    enabled: !!id && enabled,
+  });
+}
+
+/**
+ * Hook for saving score and recommendation overrides
+ * Refreshes the interview and the candidate it belongs to
+ *
+ * @example
+ * const saveReview = useSaveInterviewReview();
+ * saveReview.mutate({
+ *   interviewId,
+ *   review: { questions: [{ question_id, human_score: 6 }], reason: "Answer missed the key trade-off" },
+ * });
+ */
+export function useSaveInterviewReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveInterviewReview,
+    onSuccess: (interview) => {
+      queryClient.invalidateQueries({ queryKey: interviewKeys.detail(interview.id) });
+      queryClient.invalidateQueries({ queryKey: candidateKeys.detail(interview.candidate_id) });
+    },
+  });
+}
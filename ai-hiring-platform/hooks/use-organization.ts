@@ -0,0 +1,279 @@
+/**
+ * @fileoverview React Query hooks for the signed-in user and their organization
+ * 
+ * This module provides client-side hooks for:
+ * - The current user's profile and role permissions
+ * - Organization settings (admins only)
+ * - Team members and their roles (admins only)
+ * - Failed background jobs and retrying them (admins only)
+ * - AI usage, estimated cost and budget (admins only)
+ * 
+ * @module hooks/use-organization
+ */
+
+"use client";
+
+import { useCallback } from "react";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  AIUsageResponse,
+  BackgroundJob,
+  CurrentUserResponse,
+  ListBackgroundJobsResponse,
+  Organization,
+  Permission,
+  Profile,
+  UpdateOrganizationRequest,
+  UserRole,
+} from "@/types";
+
+// ============================================================
+// QUERY KEYS - For cache management
+// ============================================================
+
+/**
+ * Query key factory for user and organization queries
+ */
+export const organizationKeys = {
+  all: ["organization"] as const,
+  me: () => [...organizationKeys.all, "me"] as const,
+  detail: () => [...organizationKeys.all, "detail"] as const,
+  members: () => [...organizationKeys.all, "members"] as const,
+  failedJobs: () => [...organizationKeys.all, "background-jobs", "failed"] as const,
+  aiUsage: (month?: string) => [...organizationKeys.all, "ai-usage", month ?? "all"] as const,
+};
+
+/** Team member as returned by GET /api/organization/members */
+export type OrganizationMember = Pick<
+  Profile,
+  "id" | "email" | "full_name" | "role" | "avatar_url" | "created_at"
+>;
+
+// API functions
+async function fetchCurrentUser(): Promise<CurrentUserResponse> {
+  const response = await fetch("/api/me");
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch current user");
+  }
+  return response.json();
+}
+
+async function updateOrganization(
+  data: UpdateOrganizationRequest
+): Promise<Organization> {
+  const response = await fetch("/api/organization", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to update organization");
+  }
+  return response.json();
+}
+
+async function fetchMembers(): Promise<{ members: OrganizationMember[] }> {
+  const response = await fetch("/api/organization/members");
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch members");
+  }
+  return response.json();
+}
+
+async function updateMemberRole(
+  id: string,
+  role: UserRole
+): Promise<OrganizationMember> {
+  const response = await fetch(`/api/organization/members/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ role }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to update member role");
+  }
+  return response.json();
+}
+
+async function fetchFailedBackgroundJobs(): Promise<ListBackgroundJobsResponse> {
+  const response = await fetch("/api/organization/background-jobs?status=failed");
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch background jobs");
+  }
+  return response.json();
+}
+
+async function retryBackgroundJob(id: string): Promise<BackgroundJob> {
+  const response = await fetch(`/api/organization/background-jobs/${id}/retry`, {
+    method: "POST",
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to retry job");
+  }
+  return response.json();
+}
+
+async function fetchAIUsage(month?: string): Promise<AIUsageResponse> {
+  const params = new URLSearchParams();
+  if (month) params.set("month", month);
+  const response = await fetch(`/api/organization/ai-usage?${params}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch AI usage");
+  }
+  return response.json();
+}
+
+// ============================================================
+// REACT QUERY HOOKS
+// ============================================================
+
+/**
+ * Hook for fetching the signed-in user's profile, organization and permissions
+ * 
+ * @returns Query result with profile, organization and permissions
+ */
+export function useCurrentUser() {
+  return useQuery({
+    queryKey: organizationKeys.me(),
+    queryFn: fetchCurrentUser,
+    staleTime: 5 * 60_000,
+    retry: false,
+  });
+}
+
+/**
+ * Hook for checking the signed-in user's permissions in UI components
+ * Returns false for every permission until the user has loaded, so
+ * restricted actions stay hidden rather than flashing in.
+ * 
+ * @returns `can(permission)` checker and loading state
+ * 
+ * @example
+ * const { can } = usePermissions();
+ * {can("candidate:delete") && <DeleteButton />}
+ */
+export function usePermissions() {
+  const { data, isLoading } = useCurrentUser();
+  const permissions = data?.permissions;
+
+  const can = useCallback(
+    (permission: Permission) => permissions?.includes(permission) ?? false,
+    [permissions]
+  );
+
+  return { can, role: data?.profile.role, isLoading };
+}
+
+/**
+ * Hook for updating organization settings
+ * 
+ * @returns Mutation for organization updates
+ */
+export function useUpdateOrganization() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateOrganization,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for listing team members in the organization
+ * 
+ * @returns Query result with members
+ */
+export function useOrganizationMembers() {
+  return useQuery({
+    queryKey: organizationKeys.members(),
+    queryFn: fetchMembers,
+    staleTime: 60_000,
+  });
+}
+
+/**
+ * Hook for changing a team member's role
+ * 
+ * @returns Mutation for role changes
+ * 
+ * @example
+ * const { mutate } = useUpdateMemberRole();
+ * mutate({ id: memberId, role: "recruiter" });
+ */
+export function useUpdateMemberRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, role }: { id: string; role: UserRole }) =>
+      updateMemberRole(id, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for listing background jobs that exhausted their retries
+ * 
+ * @param enabled - Only fetch for admins (default: true)
+ * @returns Query result with failed jobs
+ */
+export function useFailedBackgroundJobs(enabled = true) {
+  return useQuery({
+    queryKey: organizationKeys.failedJobs(),
+    queryFn: fetchFailedBackgroundJobs,
+    staleTime: 30_000,
+    enabled,
+  });
+}
+
+/**
+ * Hook for re-queueing a failed background job
+ * 
+ * @returns Mutation for job retries
+ * 
+ * @example
+ * const { mutate } = useRetryBackgroundJob();
+ * mutate(jobId);
+ */
+export function useRetryBackgroundJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: retryBackgroundJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.failedJobs() });
+    },
+  });
+}
+
+/**
+ * Hook for the organization's AI usage, estimated cost and budget
+ * 
+ * @param month - Limit the feature and job breakdowns to one month (YYYY-MM)
+ * @param enabled - Only fetch for admins (default: true)
+ * @returns Query result with monthly totals and breakdowns
+ * 
+ * @example
+ * const { data } = useAIUsage("2026-10");
+ * data?.by_job.map((job) => job.cost_usd)
+ */
+export function useAIUsage(month?: string, enabled = true) {
+  return useQuery({
+    queryKey: organizationKeys.aiUsage(month),
+    queryFn: () => fetchAIUsage(month),
+    staleTime: 60_000,
+    // Keep showing the current breakdown while another month loads
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Offline prompt evaluation
+ *
+ * Replays a labelled fixture set through two versions of a prompt and
+ * reports how far the scores moved (drift) and how well each version
+ * agrees with the human labels. Run it before changing
+ * ACTIVE_PROMPT_VERSIONS:
+ *
+ *   pnpm eval:prompts --prompt score_candidate --baseline 1 --challenger 2
+ *
+ * Calls use the server default provider (AI_PROVIDER) and are not metered
+ * or budgeted. With AI_PROVIDER=fixture the runner works offline, which
+ * checks the harness rather than the prompts.
+ *
+ * @module lib/ai/evals
+ */
+
+import { evaluateAnswer, scoreCandidate } from "../openai";
+import { ACTIVE_PROMPT_VERSIONS, promptVersionLabel, type PromptInputs } from "../prompts";
+import evaluateAnswerCases from "./fixtures/evaluate-answer.json";
+import scoreCandidateCases from "./fixtures/score-candidate.json";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Prompts with a labelled fixture set */
+export type EvalPromptId = "score_candidate" | "evaluate_answer";
+
+/**
+ * One labelled fixture
+ *
+ * @property human_score - Score a reviewer gave, on the prompt's scale
+ */
+interface EvalCase<K extends EvalPromptId> {
+  id: string;
+  human_score: number;
+  input: PromptInputs[K];
+}
+
+/**
+ * How a prompt's fixtures are scored
+ *
+ * @property scale - Maximum score
+ * @property tolerance - Largest difference still counted as agreement
+ */
+interface EvalSuite<K extends EvalPromptId> {
+  cases: EvalCase<K>[];
+  scale: number;
+  tolerance: number;
+  score: (input: PromptInputs[K], promptVersion: number) => Promise<number>;
+}
+
+/** Scores for one fixture; null when the call failed */
+export interface PromptEvalCaseResult {
+  id: string;
+  human_score: number;
+  baseline_score: number | null;
+  challenger_score: number | null;
+  error?: string;
+}
+
+/**
+ * Agreement of one prompt version with the human labels
+ *
+ * @property agreement_rate - Share of scored cases within `tolerance` of the label (0-1)
+ * @property correlation - Pearson correlation with the labels (null if undefined)
+ */
+export interface PromptEvalVersionSummary {
+  label: string;
+  scored: number;
+  failed: number;
+  mean_absolute_error: number | null;
+  agreement_rate: number | null;
+  correlation: number | null;
+}
+
+/**
+ * Result of comparing two prompt versions
+ *
+ * @property drift - Challenger minus baseline, over cases both versions scored;
+ *   `changed` counts cases that moved by more than the tolerance
+ */
+export interface PromptEvalReport {
+  prompt: EvalPromptId;
+  scale: number;
+  tolerance: number;
+  baseline: PromptEvalVersionSummary;
+  challenger: PromptEvalVersionSummary;
+  drift: {
+    compared: number;
+    mean: number | null;
+    mean_absolute: number | null;
+    max_absolute: number | null;
+    changed: number;
+  };
+  cases: PromptEvalCaseResult[];
+}
+
+// ============================================================
+// SUITES
+// ============================================================
+
+const SUITES: { [K in EvalPromptId]: EvalSuite<K> } = {
+  score_candidate: {
+    cases: scoreCandidateCases as EvalCase<"score_candidate">[],
+    scale: 100,
+    tolerance: 10,
+    score: async ({ candidate, job }, promptVersion) =>
+      (await scoreCandidate(candidate, job, { promptVersion })).overall_score,
+  },
+  evaluate_answer: {
+    cases: evaluateAnswerCases as EvalCase<"evaluate_answer">[],
+    scale: 10,
+    tolerance: 1,
+    score: async ({ question, answer, jobContext, candidateBackground }, promptVersion) =>
+      (await evaluateAnswer(question, answer, jobContext, candidateBackground, { promptVersion }))
+        .score,
+  },
+};
+
+/** Prompts the runner can evaluate */
+export const EVAL_PROMPTS = Object.keys(SUITES) as EvalPromptId[];
+
+// ============================================================
+// METRICS
+// ============================================================
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const mx = mean(xs);
+  const my = mean(ys);
+  if (mx === null || my === null || xs.length < 2) return null;
+
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+  return vx === 0 || vy === 0 ? null : cov / Math.sqrt(vx * vy);
+}
+
+function summarize(
+  label: string,
+  pairs: { score: number | null; human: number }[],
+  tolerance: number
+): PromptEvalVersionSummary {
+  const scored = pairs.filter((p): p is { score: number; human: number } => p.score !== null);
+  const errors = scored.map((p) => Math.abs(p.score - p.human));
+
+  return {
+    label,
+    scored: scored.length,
+    failed: pairs.length - scored.length,
+    mean_absolute_error: mean(errors),
+    agreement_rate: scored.length > 0 ? errors.filter((e) => e <= tolerance).length / scored.length : null,
+    correlation: pearson(
+      scored.map((p) => p.score),
+      scored.map((p) => p.human)
+    ),
+  };
+}
+
+// ============================================================
+// RUNNER
+// ============================================================
+
+/**
+ * Replays a prompt's fixtures through two versions
+ *
+ * Cases run one at a time; a failed call is reported on its case and
+ * doesn't stop the run.
+ *
+ * @param options.baseline - Version to compare against (default: the active version)
+ * @param options.limit - Only run the first N cases
+ *
+ * @example
+ * const report = await runPromptEval({ prompt: "evaluate_answer", challenger: 2 });
+ * console.log(formatPromptEvalReport(report));
+ */
+export async function runPromptEval<K extends EvalPromptId>(options: {
+  prompt: K;
+  baseline?: number;
+  challenger: number;
+  limit?: number;
+}): Promise<PromptEvalReport> {
+  const suite = SUITES[options.prompt] as EvalSuite<K>;
+  const baseline = options.baseline ?? ACTIVE_PROMPT_VERSIONS[options.prompt];
+  const cases = suite.cases.slice(0, options.limit ?? suite.cases.length);
+  const results: PromptEvalCaseResult[] = [];
+
+  for (const testCase of cases) {
+    const result: PromptEvalCaseResult = {
+      id: testCase.id,
+      human_score: testCase.human_score,
+      baseline_score: null,
+      challenger_score: null,
+    };
+
+    for (const [key, version] of [
+      ["baseline_score", baseline],
+      ["challenger_score", options.challenger],
+    ] as const) {
+      try {
+        result[key] = await suite.score(testCase.input, version);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.error = result.error ? `${result.error}; ${message}` : message;
+      }
+    }
+
+    results.push(result);
+  }
+
+  const compared = results.filter(
+    (r): r is PromptEvalCaseResult & { baseline_score: number; challenger_score: number } =>
+      r.baseline_score !== null && r.challenger_score !== null
+  );
+  const deltas = compared.map((r) => r.challenger_score - r.baseline_score);
+
+  return {
+    prompt: options.prompt,
+    scale: suite.scale,
+    tolerance: suite.tolerance,
+    baseline: summarize(
+      promptVersionLabel(options.prompt, baseline),
+      results.map((r) => ({ score: r.baseline_score, human: r.human_score })),
+      suite.tolerance
+    ),
+    challenger: summarize(
+      promptVersionLabel(options.prompt, options.challenger),
+      results.map((r) => ({ score: r.challenger_score, human: r.human_score })),
+      suite.tolerance
+    ),
+    drift: {
+      compared: compared.length,
+      mean: mean(deltas),
+      mean_absolute: mean(deltas.map(Math.abs)),
+      max_absolute: deltas.length > 0 ? Math.max(...deltas.map(Math.abs)) : null,
+      changed: deltas.filter((d) => Math.abs(d) > suite.tolerance).length,
+    },
+    cases: results,
+  };
+}
+
+// ============================================================
+// REPORTING
+// ============================================================
+
+const fixed = (value: number | null, digits = 2) => (value === null ? "-" : value.toFixed(digits));
+const percent = (value: number | null) => (value === null ? "-" : `${Math.round(value * 100)}%`);
+
+/**
+ * Formats a report as plain text for the terminal
+ */
+export function formatPromptEvalReport(report: PromptEvalReport): string {
+  const { baseline, challenger, drift } = report;
+  const lines = [
+    `Prompt eval: ${report.prompt} (scale 0-${report.scale}, agreement within ±${report.tolerance})`,
+    "",
+    "Agreement with human labels",
+    `  ${"version".padEnd(28)} ${"scored".padStart(6)} ${"MAE".padStart(7)} ${"agree".padStart(6)} ${"r".padStart(6)}`,
+    ...[baseline, challenger].map(
+      (s) =>
+        `  ${s.label.padEnd(28)} ${`${s.scored}/${s.scored + s.failed}`.padStart(6)} ${fixed(s.mean_absolute_error).padStart(7)} ${percent(s.agreement_rate).padStart(6)} ${fixed(s.correlation).padStart(6)}`
+    ),
+    "",
+    `Drift (${challenger.label} - ${baseline.label}, ${drift.compared} cases)`,
+    `  mean ${fixed(drift.mean)}, mean absolute ${fixed(drift.mean_absolute)}, max absolute ${fixed(drift.max_absolute)}`,
+    `  ${drift.changed} case(s) moved by more than ±${report.tolerance}`,
+    "",
+    "Cases",
+    `  ${"id".padEnd(34)} ${"human".padStart(6)} ${"base".padStart(6)} ${"chall".padStart(6)}`,
+    ...report.cases.map(
+      (c) =>
+        `  ${c.id.padEnd(34)} ${String(c.human_score).padStart(6)} ${String(c.baseline_score ?? "-").padStart(6)} ${String(c.challenger_score ?? "-").padStart(6)}${c.error ? `  error: ${c.error}` : ""}`
+    ),
+  ];
+
+  return lines.join("\n");
+}
@@ -0,0 +1,322 @@
+/**
+ * @fileoverview Adaptive follow-up questions
+ *
+ * In adaptive interviews (`ai_interviews.max_follow_ups` > 0) each answer
+ * the candidate saves is graded right away. A shallow or ambiguous answer
+ * gets a follow-up question inserted directly after it, so the candidate
+ * answers it next. Follow-ups are regular interview questions linked to
+ * their parent through `parent_question_id`, and are graded with the rest
+ * of the interview by lib/ai/interview-evaluation.
+ *
+ * A follow-up is only asked while the interview's time budget still covers
+ * it and every question not yet answered.
+ *
+ * @module lib/ai/follow-ups
+ */
+
+import { evaluateAnswer, generateFollowUpQuestion } from "@/lib/ai/openai";
+import { normalizeTimeMultiplier } from "@/lib/interview-clock";
+import { parseScoringRubric } from "@/lib/interview-scoring";
+import { createAdminClient } from "@/lib/supabase/server";
+import type {
+  AnswerEvaluation,
+  InterviewQuestion,
+  JobLevel,
+  QuestionCategory,
+  QuestionDifficulty,
+} from "@/types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Answers scoring at or below this (0-10) are too shallow to move on from */
+export const FOLLOW_UP_SCORE_THRESHOLD = 5;
+
+/**
+ * Answers scoring below this get a follow-up when the evaluator flagged
+ * something worth clarifying (an ambiguous answer)
+ */
+const AMBIGUOUS_SCORE_CEILING = 7;
+
+// ============================================================
+// DECISIONS
+// ============================================================
+
+/**
+ * Whether an answer is shallow or ambiguous enough to follow up on
+ */
+export function needsFollowUp(evaluation: Pick<AnswerEvaluation, "score" | "follow_up_suggestion">): boolean {
+  if (evaluation.score <= FOLLOW_UP_SCORE_THRESHOLD) return true;
+  return Boolean(evaluation.follow_up_suggestion?.trim()) && evaluation.score < AMBIGUOUS_SCORE_CEILING;
+}
+
+/**
+ * Expected minutes for a follow-up; narrower than the question it follows up on
+ */
+export function estimateFollowUpMinutes(parentMinutes: number | null): number {
+  return Math.max(1, Math.ceil((parentMinutes || 2) / 2));
+}
+
+/**
+ * Whether the interview's time budget covers a follow-up plus every
+ * question the candidate hasn't answered yet
+ *
+ * @param startedAt - When the candidate started; null = not started, full budget left
+ * @param remainingMinutes - Estimated minutes of the unanswered questions
+ *
+ * @example
+ * hasTimeForFollowUp({ startedAt, durationMinutes: 30, followUpMinutes: 2, remainingMinutes: 12 });
+ */
+export function hasTimeForFollowUp(
+  {
+    startedAt,
+    durationMinutes,
+    followUpMinutes,
+    remainingMinutes,
+  }: {
+    startedAt: string | null;
+    durationMinutes: number;
+    followUpMinutes: number;
+    remainingMinutes: number;
+  },
+  now: Date = new Date()
+): boolean {
+  const elapsedMinutes = startedAt ? (now.getTime() - new Date(startedAt).getTime()) / 60000 : 0;
+  return durationMinutes - elapsedMinutes >= followUpMinutes + remainingMinutes;
+}
+
+// ============================================================
+// FOLLOW-UPS
+// ============================================================
+
+type QuestionRow = Pick<
+  InterviewQuestion,
+  | "id"
+  | "question_text"
+  | "question_context"
+  | "category"
+  | "difficulty"
+  | "question_order"
+  | "estimated_time_minutes"
+  | "scoring_rubric"
+  | "candidate_answer"
+  | "parent_question_id"
+  | "question_type"
+>;
+
+/**
+ * Inserts a follow-up after a just-saved answer if the interview is
+ * adaptive and the answer calls for one
+ *
+ * Follow-ups are never asked about follow-ups or coding questions, at
+ * most once per question and at most `max_follow_ups` times per
+ * interview. Later questions move down one place to make room.
+ *
+ * @param interviewId - Interview UUID
+ * @param questionId - The question whose answer was just saved
+ * @returns The inserted follow-up, or null if none was needed or allowed
+ * @throws Error if the AI calls or the insert fail; callers should keep the
+ *   saved answer and carry on without a follow-up
+ *
+ * @example
+ * const followUp = await askFollowUpIfNeeded(interview.id, question_id);
+ */
+export async function askFollowUpIfNeeded(
+  interviewId: string,
+  questionId: string
+): Promise<InterviewQuestion | null> {
+  const supabase = createAdminClient();
+
+  const { data: interview, error: fetchError } = await supabase
+    .from("ai_interviews")
+    .select(`
+      id,
+      organization_id,
+      job_id,
+      max_follow_ups,
+      started_at,
+      interview_duration_minutes,
+      total_questions,
+      candidates:candidate_id (
+        full_name,
+        extracted_skills,
+        interview_time_multiplier
+      ),
+      jobs:job_id (
+        title,
+        level,
+        description,
+        required_skills,
+        nice_to_have_skills
+      )
+    `)
+    .eq("id", interviewId)
+    .single();
+
+  if (fetchError || !interview) {
+    throw new Error("Interview not found");
+  }
+
+  if (!interview.max_follow_ups) return null;
+
+  const { data: questions, error: questionsError } = await supabase
+    .from("interview_questions")
+    .select(
+      "id, question_text, question_context, category, difficulty, question_order, estimated_time_minutes, scoring_rubric, candidate_answer, parent_question_id, question_type"
+    )
+    .eq("interview_id", interviewId)
+    .order("question_order", { ascending: true });
+
+  if (questionsError || !questions) {
+    throw new Error("Failed to fetch interview questions");
+  }
+
+  const rows = questions as QuestionRow[];
+  const question = rows.find((q) => q.id === questionId);
+  if (!question?.candidate_answer || question.parent_question_id) return null;
+  // Coding answers are judged by their test results at evaluation
+  if (question.question_type === "coding") return null;
+  if (rows.some((q) => q.parent_question_id === question.id)) return null;
+  if (rows.filter((q) => q.parent_question_id).length >= interview.max_follow_ups) return null;
+
+  const candidate = interview.candidates as unknown as {
+    full_name: string | null;
+    extracted_skills: string[] | null;
+    interview_time_multiplier: number | string | null;
+  } | null;
+
+  const followUpMinutes = estimateFollowUpMinutes(question.estimated_time_minutes);
+  const remainingMinutes = rows
+    .filter((q) => !q.candidate_answer)
+    .reduce((sum, q) => sum + (q.estimated_time_minutes || 0), 0);
+  if (
+    !hasTimeForFollowUp({
+      startedAt: interview.started_at,
+      // Extra time granted to the candidate leaves room for follow-ups too
+      durationMinutes:
+        (interview.interview_duration_minutes || 30) *
+        normalizeTimeMultiplier(candidate?.interview_time_multiplier),
+      followUpMinutes,
+      remainingMinutes,
+    })
+  ) {
+    return null;
+  }
+
+  const job = interview.jobs as unknown as {
+    title: string | null;
+    level: string | null;
+    description: string | null;
+    required_skills: string[] | null;
+    nice_to_have_skills: string[] | null;
+  } | null;
+
+  const options = { organizationId: interview.organization_id, jobId: interview.job_id };
+  const rubric = parseScoringRubric(question.scoring_rubric);
+  const category = (question.category || "technical") as QuestionCategory;
+  const difficulty = (question.difficulty || "medium") as QuestionDifficulty;
+
+  const evaluation = await evaluateAnswer(
+    { text: question.question_text, category, scoring_rubric: rubric },
+    question.candidate_answer,
+    `${job?.title || "Role"} (${job?.level || ""}): ${job?.description?.slice(0, 500) || ""}`,
+    `${candidate?.full_name || "Candidate"} - Skills: ${(candidate?.extracted_skills || []).join(", ")}`,
+    options
+  );
+
+  if (!needsFollowUp(evaluation)) return null;
+
+  const { followUp, rationale } = await generateFollowUpQuestion(
+    {
+      id: question.id,
+      category,
+      difficulty,
+      question: question.question_text,
+      context: question.question_context || "",
+      scoringRubric: rubric,
+      estimatedTime: question.estimated_time_minutes,
+    },
+    question.candidate_answer,
+    {
+      title: job?.title || "Role",
+      level: (job?.level || "mid") as JobLevel,
+      description: job?.description || "",
+      requiredSkills: job?.required_skills || [],
+      niceToHave: job?.nice_to_have_skills || [],
+    },
+    options
+  );
+
+  // Claim the follow-up first: the unique (interview_id, parent_question_id)
+  // index lets only one of two concurrent submits of this answer insert it.
+  // It is parked past the end until later questions have made room.
+  const parkedOrder = Math.max(...rows.map((q) => q.question_order)) + 2;
+  const { data: claimed, error: insertError } = await supabase
+    .from("interview_questions")
+    .upsert(
+      {
+        interview_id: interviewId,
+        question_text: followUp,
+        question_context: null,
+        category: question.category,
+        difficulty: question.difficulty,
+        question_order: parkedOrder,
+        estimated_time_minutes: followUpMinutes,
+        scoring_rubric: question.scoring_rubric,
+        parent_question_id: question.id,
+        follow_up_rationale: rationale,
+      },
+      { onConflict: "interview_id,parent_question_id", ignoreDuplicates: true }
+    )
+    .select("*");
+
+  if (insertError || !claimed) {
+    console.error("Failed to insert follow-up question:", insertError);
+    throw new Error("Failed to insert follow-up question");
+  }
+
+  // Another submit of the same answer already asked the follow-up
+  if (claimed.length === 0) {
+    const { data: existing } = await supabase
+      .from("interview_questions")
+      .select("*")
+      .eq("interview_id", interviewId)
+      .eq("parent_question_id", question.id)
+      .single();
+    return (existing as InterviewQuestion | null) ?? null;
+  }
+
+  // Make room after the parent, last question first so orders never collide
+  const later = rows
+    .filter((q) => q.question_order > question.question_order)
+    .sort((a, b) => b.question_order - a.question_order);
+  for (const q of later) {
+    await supabase
+      .from("interview_questions")
+      .update({ question_order: q.question_order + 1 })
+      .eq("id", q.id);
+  }
+
+  const { data: inserted, error: moveError } = await supabase
+    .from("interview_questions")
+    .update({ question_order: question.question_order + 1 })
+    .eq("id", claimed[0].id)
+    .select("*")
+    .single();
+
+  if (moveError || !inserted) {
+    console.error("Failed to place follow-up question:", moveError);
+    throw new Error("Failed to place follow-up question");
+  }
+
+  await supabase
+    .from("ai_interviews")
+    .update({
+      total_questions: (interview.total_questions || rows.length) + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", interviewId);
+
+  return inserted as InterviewQuestion;
+}
@@ -5,10 +5,38 @@ export {
   scoreCandidate,
   parseResume,
   evaluateAnswer,
+  gradeScreeningAnswers,
+  summarizeInterview,
   generateJobDescription,
-  AI_CONFIG,
+  type AIRequestOptions,
 } from "./openai";
 
+export {
+  AI_CONFIG,
+  getLLMProvider,
+  createLLMProvider,
+  isAINotConfiguredError,
+  isLLMProviderConfigured,
+  clearOrganizationProviderCache,
+  type LLMProvider,
+  type LLMMessage,
+} from "./providers";
+
+export {
+  ACTIVE_PROMPT_VERSIONS,
+  getPrompt,
+  listPromptVersions,
+  promptVersionLabel,
+  type PromptId,
+} from "./prompts";
+
+export {
+  estimateCostUsd,
+  getAIBudgetStatus,
+  isAIBudgetExceededError,
+  resumeJobsWaitingForAIBudget,
+} from "./usage";
+
 export {
   fetchGitHubProfile,
   extractGitHubUsername,
@@ -25,4 +53,13 @@ export {
   scoreCandidateForJob,
   updateCandidateWithScore,
   processAndScoreCandidate,
+  enrichCandidateFromResume,
 } from "./scoring";
+
+export { pregenerateCandidateQuestions } from "./pregeneration";
+
+export { evaluateScreeningAnswers } from "./screening";
+
+export { evaluateInterview } from "./interview-evaluation";
+
+export { askFollowUpIfNeeded } from "./follow-ups";
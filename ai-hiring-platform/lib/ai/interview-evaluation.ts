@@ -0,0 +1,370 @@
+/**
+ * @fileoverview Interview evaluation
+ *
+ * Grades a completed interview's answers with AI and stores the overall
+ * score, recommendation and score breakdown on the interview. The overall
+ * score is rubric-weighted using the job's scoring settings (see
+ * lib/interview-scoring). A final AI step then reads the whole interview
+ * and writes the report (summary, evidence-backed strengths and concerns,
+ * recommendation rationale, focus areas for the next round). Runs as an
+ * `evaluate_interview` background job after the candidate submits, so the
+ * candidate doesn't wait on AI calls.
+ *
+ * Re-running the evaluation (e.g. a retried job) keeps a human review:
+ * recruiters' per-answer `human_score` and `human_recommendation` still
+ * decide the interview's score and recommendation, while the `ai_*`
+ * columns are refreshed.
+ *
+ * Follow-up questions asked in adaptive interviews (see lib/ai/follow-ups)
+ * are graded like any other question. Coding answers are first run against
+ * all their test cases, hidden ones included (see lib/code-sandbox), and
+ * graded with the results.
+ *
+ * @module lib/ai/interview-evaluation
+ */
+
+import { evaluateAnswer, summarizeInterview } from "@/lib/ai/openai";
+import { promptVersionLabel, type PromptInputs } from "@/lib/ai/prompts";
+import { isAIBudgetExceededError } from "@/lib/ai/usage";
+import {
+  computeInterviewScore,
+  parseInterviewScoringConfig,
+  parseScoringRubric,
+  scoreAnswer,
+} from "@/lib/interview-scoring";
+import { createAdminClient } from "@/lib/supabase/server";
+import { parseCodingSpec, runCode } from "@/lib/code-sandbox";
+import type {
+  CodeExecutionResult,
+  CodeLanguage,
+  InterviewQuestionScore,
+  InterviewRecommendation,
+  InterviewReport,
+  Json,
+  QuestionCategory,
+  QuestionDifficulty,
+} from "@/types";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * Outcome of evaluating an interview
+ */
+export interface InterviewEvaluationResult {
+  overall_score: number;
+  recommendation: InterviewRecommendation;
+  summary: string;
+  questions_evaluated: number;
+  /** Null if the AI report couldn't be written and a score-based summary was saved */
+  report: InterviewReport | null;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Score-based summary used when the AI report can't be written
+ */
+function buildFallbackSummary(
+  overallScore: number,
+  results: { score: number; feedback: string }[]
+): { summary: string; strengths: string[]; concerns: string[] } {
+  const strengths: string[] = [];
+  const concerns: string[] = [];
+
+  for (const result of results) {
+    if (result.score >= 7) {
+      strengths.push(result.feedback.split(".")[0] || "Strong performance");
+    } else if (result.score <= 4) {
+      concerns.push(result.feedback.split(".")[0] || "Needs improvement");
+    }
+  }
+
+  const summary = `Candidate completed the interview with an overall score of ${overallScore}%. ${
+    strengths.length > 0
+      ? `Strengths include: ${strengths.slice(0, 3).join("; ")}.`
+      : ""
+  } ${
+    concerns.length > 0
+      ? `Areas for improvement: ${concerns.slice(0, 3).join("; ")}.`
+      : ""
+  }`;
+
+  return { summary, strengths: strengths.slice(0, 5), concerns: concerns.slice(0, 5) };
+}
+
+/**
+ * Runs a coding answer against all of its question's test cases
+ *
+ * @returns null for text questions; the execution is null if the answer's
+ *   language isn't allowed for the question (so it's graded on the code alone)
+ * @throws Error if the sandbox is busy or can't run code; the evaluation
+ *   fails and its job retries, rather than grading without the hidden tests
+ */
+async function runCodingAnswer(question: {
+  id: string;
+  question_type: string | null;
+  coding_spec: Json | null;
+  code_language: string | null;
+  candidate_answer: string;
+}): Promise<{ language: CodeLanguage; execution: CodeExecutionResult | null } | null> {
+  const spec = question.question_type === "coding" ? parseCodingSpec(question.coding_spec) : null;
+  if (!spec) return null;
+
+  const language = (question.code_language as CodeLanguage | null) ?? spec.languages[0];
+  if (!spec.languages.includes(language)) {
+    console.error(`Can't run code for question ${question.id}: ${language} isn't allowed`);
+    return { language, execution: null };
+  }
+  // Failures of the candidate's code are part of the result, not thrown
+  return { language, execution: await runCode(spec, language, question.candidate_answer, spec.test_cases) };
+}
+
+// ============================================================
+// EVALUATION
+// ============================================================
+
+/**
+ * Evaluates every answered question of an interview and saves the results
+ *
+ * Answers the AI fails to grade get a neutral score of 5 so one bad call
+ * doesn't fail the whole interview. If the report can't be written
+ * (including when the budget runs out after the answers were graded), a
+ * score-based summary is saved instead so the graded answers aren't redone.
+ *
+ * @param interviewId - Interview UUID
+ * @throws Error if the interview can't be loaded or the results can't be saved,
+ *   if coding answers can't be run, or if the organization's monthly AI
+ *   budget is used up
+ *
+ * @example
+ * const { overall_score, recommendation } = await evaluateInterview(interviewId);
+ */
+export async function evaluateInterview(interviewId: string): Promise<InterviewEvaluationResult> {
+  const supabase = createAdminClient();
+
+  const { data: interview, error: fetchError } = await supabase
+    .from("ai_interviews")
+    .select(`
+      id,
+      organization_id,
+      job_id,
+      human_recommendation,
+      candidates:candidate_id (
+        full_name,
+        extracted_skills,
+        ai_score,
+        ai_summary,
+        ai_strengths,
+        ai_concerns
+      ),
+      jobs:job_id (
+        title,
+        level,
+        description,
+        interview_scoring
+      )
+    `)
+    .eq("id", interviewId)
+    .single();
+
+  if (fetchError || !interview) {
+    throw new Error("Interview not found");
+  }
+
+  const { data: questions, error: questionsError } = await supabase
+    .from("interview_questions")
+    .select("id, question_text, category, difficulty, question_order, scoring_rubric, candidate_answer, parent_question_id, question_type, coding_spec, code_language, human_score")
+    .eq("interview_id", interviewId)
+    .not("candidate_answer", "is", null);
+
+  if (questionsError || !questions) {
+    throw new Error("Failed to fetch interview questions");
+  }
+
+  const candidate = interview.candidates as unknown as {
+    full_name: string | null;
+    extracted_skills: string[] | null;
+    ai_score: number | null;
+    ai_summary: string | null;
+    ai_strengths: string[] | null;
+    ai_concerns: string[] | null;
+  } | null;
+  const job = interview.jobs as unknown as {
+    title: string | null;
+    level: string | null;
+    description: string | null;
+    interview_scoring: Json | null;
+  } | null;
+
+  // Build job context for AI evaluation
+  const jobContext = `${job?.title || "Role"} (${job?.level || ""}): ${job?.description?.slice(0, 500) || ""}`;
+  const candidateBackground = `${candidate?.full_name || "Candidate"} - Skills: ${(candidate?.extracted_skills || []).join(", ")}`;
+
+  // Follow-ups are shown to the report prompt with the question they follow up on
+  const orderById = new Map(questions.map((q) => [q.id, q.question_order]));
+
+  const evaluationResults: Array<Omit<InterviewQuestionScore, "weight"> & { feedback: string }> = [];
+  // Graded answers as the report prompt reads them
+  const reportQuestions: PromptInputs["summarize_interview"]["questions"] = [];
+
+  // Run coding answers before any AI call, so a busy sandbox fails the
+  // job before answers are graded
+  const codeById = new Map<string, Awaited<ReturnType<typeof runCodingAnswer>>>();
+  for (const question of questions) {
+    codeById.set(question.id, await runCodingAnswer(question));
+  }
+
+  for (const question of questions) {
+    const rubric = parseScoringRubric(question.scoring_rubric);
+    const code = codeById.get(question.id) ?? null;
+    let evaluation;
+    // Null when the placeholder score is used
+    let promptVersion: string | null = promptVersionLabel("evaluate_answer");
+    try {
+      evaluation = await evaluateAnswer(
+        {
+          text: question.question_text,
+          category: question.category as QuestionCategory,
+          scoring_rubric: rubric,
+          ...(code && { code }),
+        },
+        question.candidate_answer,
+        jobContext,
+        candidateBackground,
+        { organizationId: interview.organization_id, jobId: interview.job_id }
+      );
+    } catch (aiError) {
+      // Out of budget: fail the evaluation rather than saving placeholder
+      // scores; the job waits for the next budget period (see lib/queue/worker)
+      if (isAIBudgetExceededError(aiError)) {
+        throw aiError;
+      }
+      console.error(`Failed to evaluate answer for question ${question.id}:`, aiError);
+      // Provide a default evaluation if AI fails
+      promptVersion = null;
+      evaluation = {
+        score: 5,
+        feedback: "Unable to evaluate - answer recorded",
+        breakdown: [],
+      };
+    }
+
+    evaluationResults.push({
+      question_id: question.id,
+      question_order: question.question_order,
+      category: (question.category as QuestionCategory | null) ?? null,
+      difficulty: (question.difficulty as QuestionDifficulty | null) ?? null,
+      ai_score: evaluation.score,
+      ...scoreAnswer(rubric, evaluation.breakdown, evaluation.score),
+      human_score: question.human_score !== null ? Number(question.human_score) : null,
+      feedback: evaluation.feedback,
+    });
+    reportQuestions.push({
+      order: question.question_order,
+      category: (question.category as QuestionCategory | null) ?? null,
+      difficulty: (question.difficulty as QuestionDifficulty | null) ?? null,
+      text: question.parent_question_id && orderById.has(question.parent_question_id)
+        ? `Follow-up to Q${orderById.get(question.parent_question_id)}: ${question.question_text}`
+        : question.question_text,
+      answer: question.candidate_answer,
+      score: evaluation.score,
+      feedback: evaluation.feedback,
+      breakdown: evaluation.breakdown,
+    });
+
+    await supabase
+      .from("interview_questions")
+      .update({
+        ai_score: evaluation.score,
+        ai_feedback: evaluation.feedback,
+        ai_evaluation_breakdown: evaluation.breakdown,
+        ai_prompt_version: promptVersion,
+        ...(code && { code_execution: code.execution }),
+      })
+      .eq("id", question.id);
+  }
+
+  // Rubric-weighted overall score (0-100) with the job's weights and
+  // thresholds; the AI's own score ignores recruiters' overrides
+  const scoringConfig = parseInterviewScoringConfig(job?.interview_scoring);
+  const breakdown = computeInterviewScore(
+    evaluationResults.map(({ feedback: _feedback, ...result }) => result),
+    scoringConfig
+  );
+  const { overall_score: overallScore, recommendation } = computeInterviewScore(
+    evaluationResults.map(({ feedback: _feedback, human_score: _human, ...result }) => result),
+    scoringConfig
+  );
+  const humanRecommendation = interview.human_recommendation as InterviewRecommendation | null;
+
+  // Holistic report over the whole interview; fall back to a score-based
+  // summary rather than fail (and re-grade every answer on retry)
+  let report: InterviewReport | null = null;
+  try {
+    report = await summarizeInterview(
+      {
+        job: {
+          title: job?.title || "Role",
+          level: job?.level ?? null,
+          description: job?.description || "",
+        },
+        candidateName: candidate?.full_name || "Candidate",
+        matchScore: candidate && candidate.ai_score !== null
+          ? {
+              overall_score: candidate.ai_score,
+              summary: candidate.ai_summary,
+              strengths: candidate.ai_strengths || [],
+              concerns: candidate.ai_concerns || [],
+            }
+          : null,
+        questions: reportQuestions,
+        interviewScore: { overall_score: overallScore, recommendation },
+      },
+      { organizationId: interview.organization_id, jobId: interview.job_id }
+    );
+  } catch (aiError) {
+    console.error(`Failed to write report for interview ${interviewId}:`, aiError);
+  }
+
+  const { summary, strengths, concerns } = report
+    ? {
+        summary: report.summary,
+        strengths: report.strengths.map((s) => s.point),
+        concerns: report.concerns.map((c) => c.point),
+      }
+    : buildFallbackSummary(overallScore, evaluationResults);
+
+  const { error: updateError } = await supabase
+    .from("ai_interviews")
+    .update({
+      overall_score: breakdown.overall_score,
+      ai_overall_score: overallScore,
+      ai_summary: summary,
+      strengths,
+      concerns,
+      recommendation: humanRecommendation ?? breakdown.recommendation,
+      ai_recommendation: recommendation,
+      score_breakdown: breakdown,
+      ai_report: report,
+      ai_report_prompt_version: report ? promptVersionLabel("summarize_interview") : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", interviewId);
+
+  if (updateError) {
+    console.error("Failed to save interview evaluation:", updateError);
+    throw new Error("Failed to save interview evaluation");
+  }
+
+  return {
+    overall_score: breakdown.overall_score,
+    recommendation: humanRecommendation ?? breakdown.recommendation,
+    summary,
+    questions_evaluated: evaluationResults.length,
+    report,
+  };
+}
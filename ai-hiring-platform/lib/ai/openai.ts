@@ -1,5 +1,5 @@
 /**
- * @fileoverview OpenAI integration for AI-powered hiring features
+ * @fileoverview AI functions for hiring features
  * 
  * This module provides functions for all AI operations in the platform:
  * - Interview question generation (personalized to candidate/job)
@@ -7,17 +7,29 @@
  * - Candidate-job matching/scoring
  * - Resume parsing
  * - Answer evaluation
+ * - Screening answer grading
  * - Job description generation
  * 
- * All functions use OpenAI's structured outputs (zodResponseFormat) for
- * type-safe, validated responses.
+ * Requests go through the organization's LLM provider (lib/ai/providers),
+ * and every structured response is validated against its Zod schema.
+ * Prompts are versioned templates (lib/ai/prompts); the active version is
+ * used unless a request asks for another.
+ * Each call is checked against the organization's monthly budget and
+ * recorded in ai_usage (lib/ai/usage).
+ * The module keeps its original name; it is no longer OpenAI-specific.
  * 
  * @module lib/ai/openai
- * @requires OPENAI_API_KEY environment variable
  */
 
-import OpenAI from "openai";
-import { zodResponseFormat } from "openai/helpers/zod";
+import {
+  getLLMProvider,
+  isAINotConfiguredError,
+  type LLMCompletion,
+  type LLMMessage,
+  type LLMProvider,
+} from "./providers";
+import { getPrompt, type PromptId, type PromptInputs, type ResolvedPrompt } from "./prompts";
+import { assertWithinAIBudget, recordAIUsage } from "./usage";
 import {
   JobDescription,
   CandidateProfile,
@@ -32,53 +44,35 @@ import {
   ParsedResume,
   AnswerEvaluationSchema,
   AnswerEvaluation,
+  ScreeningGradesSchema,
+  ScreeningGrades,
+  InterviewReportSchema,
+  InterviewReport,
   QuestionCategory,
   ScoringCriteria,
+  CodeLanguage,
+  CodeExecutionResult,
 } from "@/types";
 
 // ============================================================
-// CLIENT INITIALIZATION
+// CONFIGURATION
 // ============================================================
 
-/** Singleton OpenAI client instance */
-let openaiClient: OpenAI | null = null;
-
 /**
- * Gets or creates the OpenAI client instance
- * Uses lazy initialization to avoid build-time errors when env vars aren't set
+ * Options accepted by every AI function
  * 
- * @returns OpenAI client instance
- * @throws Error if OPENAI_API_KEY is not configured
+ * @property organizationId - Organization the request is for; selects its
+ *   LLM provider and budget. Omit to use the server default (unbudgeted).
+ * @property jobId - Job the request is for, recorded for per-job usage
+ * @property promptVersion - Prompt version to use instead of the active
+ *   one (used by the eval runner to compare versions)
  */
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY environment variable is not set");
-    }
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
+export interface AIRequestOptions {
+  organizationId?: string | null;
+  jobId?: string | null;
+  promptVersion?: number | null;
 }
 
-// ============================================================
-// CONFIGURATION
-// ============================================================
-
-/**
- * Default AI model configuration
- * Uses GPT-4o with structured outputs for reliable JSON responses
- */
-export const AI_CONFIG = {
-  /** Model version with structured output support */
-  model: "gpt-4o-2024-08-06",
-  /** Creativity level (0 = deterministic, 1 = creative) */
-  temperature: 0.7,
-  /** Maximum tokens in response */
-  maxTokens: 4096,
-} as const;
-
 /**
  * Simple rate limiter to prevent API quota exhaustion
  * Ensures minimum interval between API calls
@@ -103,109 +97,70 @@ const rateLimiter = {
   },
 };
 
-// ============================================================
-// INTERVIEW QUESTION GENERATION
-// ============================================================
-
 /**
- * System prompt for question generation
- * Instructs GPT to act as an expert technical recruiter
+ * Builds the system and user messages for a prompt template
  */
-const QUESTION_SYSTEM_PROMPT = `You are an expert technical recruiter and interviewer with 15+ years of experience at FAANG companies.
-
-Your task is to generate highly targeted, personalized interview questions that:
-1. Match the job requirements exactly
-2. Leverage the candidate's specific background (projects, skills, experience)
-3. Test both technical depth and behavioral fit
-4. Progress from warm-up to challenging questions
-5. Include clear, actionable scoring rubrics
-
-CRITICAL RULES:
-- Generate EXACTLY 8-10 questions total
-- Questions must reference specific details from the candidate's profile
-- Each question must have a multi-dimensional scoring rubric
-- Balance technical (60%) and behavioral (40%) questions
-- Difficulty should ladder: 2-3 easy, 4-5 medium, 2-3 hard
-- Every question must have clear "excellent/good/needs work" criteria
-
-QUESTION CATEGORIES:
-- technical: Coding challenges, algorithm design, language-specific questions
-- behavioral: Leadership, teamwork, conflict resolution, past experiences
-- system-design: Architecture decisions, scalability, trade-offs
-- problem-solving: Debugging scenarios, optimization challenges
-- culture-fit: Values alignment, collaboration style
-
-OUTPUT FORMAT:
-- Use structured JSON matching the schema
-- Group questions logically by category
-- Provide context explaining WHY each question matters for THIS candidate`;
+function promptMessages<K extends PromptId>(
+  prompt: ResolvedPrompt<K>,
+  input: PromptInputs[K]
+): LLMMessage[] {
+  return [
+    { role: "system", content: prompt.system },
+    { role: "user", content: prompt.user(input) },
+  ];
+}
 
 /**
- * Builds the user prompt for question generation with job and candidate context
+ * Runs one LLM call with budget enforcement and usage metering
  * 
- * @param job - Job description with requirements
- * @param candidate - Candidate profile with skills and experience
- * @returns Formatted prompt string for GPT
+ * @param prompt - Prompt being sent; its feature and version are recorded with the usage
+ * @param call - Makes the request with the organization's provider
+ * @throws Error if the organization's monthly budget is used up
+ *   (see isAIBudgetExceededError) or the call fails
  */
-function buildQuestionPrompt(
-  job: JobDescription,
-  candidate: CandidateProfile
-): string {
-  // Calculate matching and missing skills
-  const candidateSkillsLower = candidate.skills.map((s) => s.toLowerCase());
-  const matchingSkills = job.requiredSkills.filter((skill) =>
-    candidateSkillsLower.includes(skill.toLowerCase())
-  );
-  const skillGaps = job.requiredSkills.filter(
-    (skill) => !candidateSkillsLower.includes(skill.toLowerCase())
-  );
+async function complete<T>(
+  prompt: Pick<ResolvedPrompt<PromptId>, "id" | "label">,
+  options: AIRequestOptions,
+  call: (provider: LLMProvider) => Promise<LLMCompletion<T>>
+): Promise<T> {
+  if (options.organizationId) {
+    await assertWithinAIBudget(options.organizationId);
+  }
 
-  // Format projects for the prompt
-  const projectsText = candidate.projects
-    ? candidate.projects
-        .slice(0, 5)
-        .map(
-          (p) =>
-            `- ${p.name} (${p.language}, ${p.stars} stars): ${p.description || "No description"}`
-        )
-        .join("\n")
-    : "No public projects available";
-
-  return `JOB DETAILS:
-- Title: ${job.title}
-- Level: ${job.level}
-- Required Skills: ${job.requiredSkills.join(", ")}
-- Nice-to-Have: ${job.niceToHave.join(", ") || "None specified"}
-- Description: ${job.description}
-
-CANDIDATE PROFILE:
-- Name: ${candidate.name}
-- Source: ${candidate.source}
-- Bio: ${candidate.bio || "Not provided"}
-- Skills: ${candidate.skills.join(", ")}
-- Experience: 
-${candidate.experience.map((e) => `  - ${e}`).join("\n")}
-- Notable Projects:
-${projectsText}
-
-ANALYSIS:
-- Matching Skills: ${matchingSkills.length > 0 ? matchingSkills.join(", ") : "None directly matching"}
-- Skill Gaps to Probe: ${skillGaps.length > 0 ? skillGaps.join(", ") : "All required skills present"}
-
-INSTRUCTIONS:
-Generate 8-10 interview questions that:
-1. Start with 2-3 warm-up questions about their specific projects/experience
-2. Include 3-4 deep technical questions on required skills
-3. Add 2-3 behavioral questions relevant to ${job.level} level
-4. End with 1-2 challenging questions testing system thinking
-
-For each question:
-- Reference specific details from their profile
-- Explain why this question matters for the role
-- Provide a 3-tier scoring rubric with concrete examples
-- Assign realistic time estimates (5-15 minutes per question)`;
+  await rateLimiter.wait();
+  const provider = await getLLMProvider(options.organizationId);
+  const usageEntry = {
+    organizationId: options.organizationId,
+    jobId: options.jobId,
+    feature: prompt.id,
+    promptVersion: prompt.label,
+    provider: provider.name,
+    model: provider.model,
+  };
+  const startedAt = Date.now();
+
+  try {
+    const { output, usage } = await call(provider);
+    await recordAIUsage({ ...usageEntry, usage, latencyMs: Date.now() - startedAt, success: true });
+    return output;
+  } catch (error) {
+    // Missing credentials never reach the model - nothing to record
+    if (!isAINotConfiguredError(error)) {
+      await recordAIUsage({
+        ...usageEntry,
+        usage: { promptTokens: 0, completionTokens: 0 },
+        latencyMs: Date.now() - startedAt,
+        success: false,
+      });
+    }
+    throw error;
+  }
 }
 
+// ============================================================
+// INTERVIEW QUESTION GENERATION
+// ============================================================
+
 /**
  * Generates personalized interview questions for a candidate
  * 
@@ -218,7 +173,7 @@ For each question:
  * @param candidate - Candidate profile with skills and background
  * @returns QuestionSet with 6-10 personalized questions grouped by category
  * 
- * @throws Error if OpenAI API fails or returns invalid response
+ * @throws Error if the AI provider fails or returns invalid response
  * 
  * @example
  * const questions = await generateInterviewQuestions(
@@ -228,26 +183,19 @@ For each question:
  */
 export async function generateInterviewQuestions(
   job: JobDescription,
-  candidate: CandidateProfile
+  candidate: CandidateProfile,
+  options: AIRequestOptions = {}
 ): Promise<QuestionSet> {
-  await rateLimiter.wait();
-  const openai = getOpenAIClient();
-
-  const completion = await openai.beta.chat.completions.parse({
-    model: AI_CONFIG.model,
-    messages: [
-      { role: "system", content: QUESTION_SYSTEM_PROMPT },
-      { role: "user", content: buildQuestionPrompt(job, candidate) },
-    ],
-    response_format: zodResponseFormat(QuestionSetSchema, "interview_questions"),
-    temperature: AI_CONFIG.temperature,
-  });
-
-  const questionSet = completion.choices[0].message.parsed;
-
-  if (!questionSet) {
-    throw new Error("Failed to generate questions: No response from OpenAI");
-  }
+  const prompt = getPrompt("generate_questions", options.promptVersion);
+
+  const questionSet = await complete(prompt, options, (provider) =>
+    provider.completeStructured({
+      messages: promptMessages(prompt, { job, candidate }),
+      schema: QuestionSetSchema,
+      schemaName: "interview_questions",
+      temperature: prompt.temperature,
+    })
+  );
 
   // Group questions by category
   const groupedByCategory: Record<QuestionCategory, GeneratedQuestion[]> = {
@@ -274,18 +222,6 @@ export async function generateInterviewQuestions(
 // FOLLOW-UP QUESTION GENERATION
 // ============================================================
 
-/**
- * System prompt for follow-up question generation
- * Creates probing questions based on candidate's answer
- */
-const FOLLOW_UP_SYSTEM_PROMPT = `You are conducting a technical interview. Your role is to generate intelligent follow-up questions that probe deeper into the candidate's understanding.
-
-Generate follow-up questions that:
-1. Probe deeper into a specific aspect they mentioned
-2. Test understanding beyond surface-level knowledge
-3. Reveal how they think through edge cases or trade-offs
-4. Are natural and conversational (not confrontational)`;
-
 /**
  * Generates an intelligent follow-up question based on candidate's answer
  * 
@@ -311,37 +247,19 @@ Generate follow-up questions that:
 export async function generateFollowUpQuestion(
   originalQuestion: GeneratedQuestion,
   candidateAnswer: string,
-  job: JobDescription
+  job: JobDescription,
+  options: AIRequestOptions = {}
 ): Promise<FollowUpResponse> {
-  await rateLimiter.wait();
-  const openai = getOpenAIClient();
-
-  const userPrompt = `ORIGINAL QUESTION: ${originalQuestion.question}
-
-CANDIDATE'S ANSWER: ${candidateAnswer}
-
-JOB CONTEXT: 
-- Title: ${job.title}
-- Level: ${job.level}
-- Key Requirements: ${job.requiredSkills.slice(0, 5).join(", ")}
-
-Based on the candidate's answer, generate ONE intelligent follow-up question that probes deeper into their understanding or reveals how they handle edge cases.`;
-
-  const completion = await openai.beta.chat.completions.parse({
-    model: AI_CONFIG.model,
-    messages: [
-      { role: "system", content: FOLLOW_UP_SYSTEM_PROMPT },
-      { role: "user", content: userPrompt },
-    ],
-    response_format: zodResponseFormat(FollowUpResponseSchema, "follow_up"),
-    temperature: AI_CONFIG.temperature,
-  });
-
-  const followUp = completion.choices[0].message.parsed;
-
-  if (!followUp) {
-    throw new Error("Failed to generate follow-up question");
-  }
+  const prompt = getPrompt("follow_up", options.promptVersion);
+
+  const followUp = await complete(prompt, options, (provider) =>
+    provider.completeStructured({
+      messages: promptMessages(prompt, { question: originalQuestion, answer: candidateAnswer, job }),
+      schema: FollowUpResponseSchema,
+      schemaName: "follow_up",
+      temperature: prompt.temperature,
+    })
+  );
 
   return followUp;
 }
@@ -350,27 +268,6 @@ Based on the candidate's answer, generate ONE intelligent follow-up question tha
 // CANDIDATE SCORING
 // ============================================================
 
-/**
- * System prompt for candidate-job scoring
- * Provides scoring guidelines and weighting factors
- */
-const SCORING_SYSTEM_PROMPT = `You are an expert technical recruiter evaluating candidate-job fit.
-
-SCORING GUIDELINES:
-- 90-100: Exceptional match, exceeds requirements
-- 75-89: Strong match, meets most requirements
-- 60-74: Moderate match, some gaps but trainable
-- 40-59: Weak match, significant gaps
-- 0-39: Poor match, does not meet basic requirements
-
-FACTORS TO CONSIDER:
-1. Skills Match (40% weight): Direct skill overlap with required skills
-2. Experience Match (30% weight): Years and relevance of experience
-3. Education Match (15% weight): Relevant degree/certifications
-4. Keywords Match (15% weight): Industry terminology, specific tools
-
-BE BALANCED: Acknowledge both strengths and concerns. Provide actionable insights.`;
-
 /**
  * Scores a candidate against a job's requirements
  * 
@@ -407,46 +304,19 @@ export async function scoreCandidate(
     required_skills: string[];
     nice_to_have_skills?: string[];
     description: string;
-  }
+  },
+  options: AIRequestOptions = {}
 ): Promise<MatchScore> {
-  await rateLimiter.wait();
-  const openai = getOpenAIClient();
-
-  const userPrompt = `
-JOB REQUIREMENTS:
-- Title: ${job.title}
-- Level: ${job.level}
-- Required Skills: ${job.required_skills.join(", ")}
-- Nice-to-Have: ${job.nice_to_have_skills?.join(", ") || "None specified"}
-- Description: ${job.description}
-
-CANDIDATE PROFILE:
-- Experience: ${candidate.years_of_experience || "Unknown"} years
-- Skills: ${candidate.skills.join(", ")}
-- Education: ${candidate.education_level || "Unknown"}
-- Experience Highlights:
-${candidate.experience.slice(0, 5).map((e) => `  - ${e}`).join("\n")}
-
-RESUME EXCERPT:
-${candidate.resume_text.slice(0, 2000)}
-
-Evaluate this candidate's fit for the role.`;
-
-  const completion = await openai.beta.chat.completions.parse({
-    model: AI_CONFIG.model,
-    messages: [
-      { role: "system", content: SCORING_SYSTEM_PROMPT },
-      { role: "user", content: userPrompt },
-    ],
-    response_format: zodResponseFormat(MatchScoreSchema, "match_score"),
-    temperature: 0.5,
-  });
-
-  const matchScore = completion.choices[0].message.parsed;
-
-  if (!matchScore) {
-    throw new Error("Failed to score candidate");
-  }
+  const prompt = getPrompt("score_candidate", options.promptVersion);
+
+  const matchScore = await complete(prompt, options, (provider) =>
+    provider.completeStructured({
+      messages: promptMessages(prompt, { candidate, job }),
+      schema: MatchScoreSchema,
+      schemaName: "match_score",
+      temperature: prompt.temperature,
+    })
+  );
 
   return matchScore;
 }
@@ -455,22 +325,6 @@ Evaluate this candidate's fit for the role.`;
 // RESUME PARSING
 // ============================================================
 
-/**
- * System prompt for resume parsing
- * Extracts structured data from unstructured resume text
- */
-const RESUME_SYSTEM_PROMPT = `You are an expert resume parser. Extract structured information from resumes with high accuracy.
-
-RULES:
-1. Extract ALL skills mentioned (technical, soft skills, tools, frameworks)
-2. Calculate years of experience from work history
-3. Preserve original wording for job titles and companies
-4. If information is not present, omit the field
-5. For dates, use format "YYYY-MM" or "Present"
-6. Extract achievements and metrics from experience descriptions
-
-Be thorough and precise. Missing information is better than guessed information.`;
-
 /**
  * Parses unstructured resume text into structured data
  * 
@@ -490,25 +344,20 @@ Be thorough and precise. Missing information is better than guessed information.
  * console.log(parsed.skills); // ["React", "TypeScript", "Node.js", ...]
  * console.log(parsed.years_of_experience); // 5
  */
-export async function parseResume(resumeText: string): Promise<ParsedResume> {
-  await rateLimiter.wait();
-  const openai = getOpenAIClient();
-
-  const completion = await openai.beta.chat.completions.parse({
-    model: AI_CONFIG.model,
-    messages: [
-      { role: "system", content: RESUME_SYSTEM_PROMPT },
-      { role: "user", content: `Parse this resume:\n\n${resumeText}` },
-    ],
-    response_format: zodResponseFormat(ParsedResumeSchema, "parsed_resume"),
-    temperature: 0.3, // Lower temperature for more consistent extraction
-  });
-
-  const parsedResume = completion.choices[0].message.parsed;
-
-  if (!parsedResume) {
-    throw new Error("Failed to parse resume");
-  }
+export async function parseResume(
+  resumeText: string,
+  options: AIRequestOptions = {}
+): Promise<ParsedResume> {
+  const prompt = getPrompt("parse_resume", options.promptVersion);
+
+  const parsedResume = await complete(prompt, options, (provider) =>
+    provider.completeStructured({
+      messages: promptMessages(prompt, { resumeText }),
+      schema: ParsedResumeSchema,
+      schemaName: "parsed_resume",
+      temperature: prompt.temperature,
+    })
+  );
 
   return parsedResume;
 }
@@ -517,21 +366,6 @@ export async function parseResume(resumeText: string): Promise<ParsedResume> {
 // ANSWER EVALUATION
 // ============================================================
 
-/**
- * System prompt for answer evaluation
- * Provides scoring guidelines for interview answers
- */
-const EVALUATION_SYSTEM_PROMPT = `You are evaluating a candidate's interview answer. Provide fair, constructive feedback.
-
-SCORING (0-10):
-- 9-10: Exceptional answer, demonstrates deep expertise
-- 7-8: Strong answer, shows good understanding
-- 5-6: Adequate answer, meets basic expectations
-- 3-4: Weak answer, shows gaps in understanding
-- 0-2: Poor answer, does not address the question
-
-Evaluate each aspect of the scoring rubric and provide specific, actionable feedback.`;
-
 /**
  * Evaluates a candidate's interview answer against a scoring rubric
  * 
@@ -541,8 +375,9 @@ Evaluate each aspect of the scoring rubric and provide specific, actionable feed
  * - Per-criterion score breakdown
  * - Optional follow-up question suggestion
  * 
- * @param question - The interview question with category and scoring rubric
- * @param answer - The candidate's text answer
+ * @param question - The interview question with category and scoring rubric;
+ *   coding questions add the answer's language and test results
+ * @param answer - The candidate's text answer (code for coding questions)
  * @param jobContext - Job description for evaluation context
  * @param candidateBackground - Candidate info for personalized evaluation
  * @returns AnswerEvaluation with score, feedback, and breakdown
@@ -562,73 +397,111 @@ export async function evaluateAnswer(
     text: string;
     category: QuestionCategory;
     scoring_rubric: ScoringCriteria[];
+    code?: { language: CodeLanguage; execution: CodeExecutionResult | null };
   },
   answer: string,
   jobContext: string,
-  candidateBackground: string
+  candidateBackground: string,
+  options: AIRequestOptions = {}
 ): Promise<AnswerEvaluation> {
-  await rateLimiter.wait();
-  const openai = getOpenAIClient();
-
-  const rubricText = question.scoring_rubric
-    .map(
-      (r) =>
-        `- ${r.aspect} (weight: ${r.weight}): Excellent: ${r.excellent}, Good: ${r.good}, Needs Work: ${r.needsWork}`
-    )
-    .join("\n");
-
-  const userPrompt = `
-QUESTION: ${question.text}
-CATEGORY: ${question.category}
-
-SCORING RUBRIC:
-${rubricText}
-
-CANDIDATE'S ANSWER:
-${answer}
-
-JOB CONTEXT: ${jobContext}
-
-CANDIDATE BACKGROUND: ${candidateBackground}
-
-Evaluate this answer against each aspect of the scoring rubric.`;
+  const prompt = getPrompt("evaluate_answer", options.promptVersion);
+
+  const evaluation = await complete(prompt, options, (provider) =>
+    provider.completeStructured({
+      messages: promptMessages(prompt, { question, answer, jobContext, candidateBackground }),
+      schema: AnswerEvaluationSchema,
+      schemaName: "evaluation",
+      temperature: prompt.temperature,
+    })
+  );
 
-  const completion = await openai.beta.chat.completions.parse({
-    model: AI_CONFIG.model,
-    messages: [
-      { role: "system", content: EVALUATION_SYSTEM_PROMPT },
-      { role: "user", content: userPrompt },
-    ],
-    response_format: zodResponseFormat(AnswerEvaluationSchema, "evaluation"),
-    temperature: 0.5,
-  });
+  return evaluation;
+}
 
-  const evaluation = completion.choices[0].message.parsed;
+// ============================================================
+// SCREENING ANSWER GRADING
+// ============================================================
 
-  if (!evaluation) {
-    throw new Error("Failed to evaluate answer");
-  }
+/**
+ * Grades a candidate's free-text screening answers
+ * 
+ * @param answers - Questions with the candidate's answer and optional ideal answer
+ * @param jobContext - Job title and summary for grading context
+ * @returns One grade (0-10) per question_id
+ * 
+ * @example
+ * const { grades } = await gradeScreeningAnswers(
+ *   [{ question_id: "q1", prompt: "Why this role?", answer: "I've built..." }],
+ *   "Senior Backend Engineer"
+ * );
+ */
+export async function gradeScreeningAnswers(
+  answers: {
+    question_id: string;
+    prompt: string;
+    answer: string;
+    ideal_answer?: string;
+  }[],
+  jobContext: string,
+  options: AIRequestOptions = {}
+): Promise<ScreeningGrades> {
+  const prompt = getPrompt("grade_screening", options.promptVersion);
+
+  const grades = await complete(prompt, options, (provider) =>
+    provider.completeStructured({
+      messages: promptMessages(prompt, { answers, jobContext }),
+      schema: ScreeningGradesSchema,
+      schemaName: "screening_grades",
+      temperature: prompt.temperature,
+    })
+  );
 
-  return evaluation;
+  return grades;
 }
 
 // ============================================================
-// JOB DESCRIPTION GENERATION
+// INTERVIEW REPORT
 // ============================================================
 
 /**
- * System prompt for job description generation
- * Creates inclusive, compelling job postings
+ * Writes the hiring team's report on a completed interview
+ *
+ * Reads every graded answer together with the candidate's pre-interview
+ * match assessment and returns a summary, strengths and concerns citing
+ * question numbers, a recommendation with rationale and focus areas for
+ * the next interview round.
+ *
+ * @param input - Job, candidate match assessment, graded answers and the score-based result
+ * @returns Structured interview report
+ *
+ * @example
+ * const report = await summarizeInterview({
+ *   job, candidateName: "Jane Doe", matchScore, questions,
+ *   interviewScore: { overall_score: 72, recommendation: "yes" },
+ * });
+ * // report.strengths[0]: { point: "Clear API design reasoning", question_orders: [2, 5] }
  */
-const JOB_DESCRIPTION_SYSTEM_PROMPT = `You are an expert recruiter who writes compelling, inclusive job descriptions.
+export async function summarizeInterview(
+  input: PromptInputs["summarize_interview"],
+  options: AIRequestOptions = {}
+): Promise<InterviewReport> {
+  const prompt = getPrompt("summarize_interview", options.promptVersion);
+
+  const report = await complete(prompt, options, (provider) =>
+    provider.completeStructured({
+      messages: promptMessages(prompt, input),
+      schema: InterviewReportSchema,
+      schemaName: "interview_report",
+      temperature: prompt.temperature,
+    })
+  );
 
-RULES:
-1. Use clear, jargon-free language
-2. Focus on impact and growth opportunities
-3. Be specific about responsibilities and requirements
-4. Avoid gendered language and unnecessary requirements
-5. Include information about team and culture
-6. Keep it concise but comprehensive`;
+  return report;
+}
+
+// ============================================================
+// JOB DESCRIPTION GENERATION
+// ============================================================
 
 /**
  * Generates an enhanced job description using AI
@@ -663,35 +536,16 @@ export async function generateJobDescription(options: {
   base_description?: string;
   department?: string;
   location?: string;
-}): Promise<string> {
-  await rateLimiter.wait();
-  const openai = getOpenAIClient();
-
-  const userPrompt = `Generate a compelling job description for:
-- Title: ${options.title}
-- Level: ${options.level || "Not specified"}
-- Department: ${options.department || "Not specified"}
-- Location: ${options.location || "Not specified"}
-- Required Skills: ${options.required_skills.join(", ")}
-${options.base_description ? `\nBase description to enhance:\n${options.base_description}` : ""}
-
-Create an engaging, inclusive job description that will attract top talent.`;
-
-  const completion = await openai.chat.completions.create({
-    model: AI_CONFIG.model,
-    messages: [
-      { role: "system", content: JOB_DESCRIPTION_SYSTEM_PROMPT },
-      { role: "user", content: userPrompt },
-    ],
-    temperature: 0.7,
-    max_tokens: 1500,
-  });
-
-  const description = completion.choices[0]?.message?.content;
-
-  if (!description) {
-    throw new Error("Failed to generate job description");
-  }
+}, requestOptions: AIRequestOptions = {}): Promise<string> {
+  const prompt = getPrompt("generate_job_description", requestOptions.promptVersion);
+
+  const description = await complete(prompt, requestOptions, (provider) =>
+    provider.completeText({
+      messages: promptMessages(prompt, options),
+      temperature: prompt.temperature,
+      maxTokens: 1500,
+    })
+  );
 
   return description;
 }
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Background interview question pre-generation
+ * 
+ * Generates personalized interview questions for a candidate right after
+ * they are scored, and stores them in `pregenerated_questions` so that
+ * scheduling an interview later is instant.
+ * 
+ * Runs without a user session (e.g. after a public application), so it
+ * uses the admin client. Callers are responsible for verifying that the
+ * candidate belongs to the requesting organization.
+ * 
+ * @module lib/ai/pregeneration
+ */
+
+import { createAdminClient } from "@/lib/supabase/server";
+import { generateInterviewQuestions } from "@/lib/ai/openai";
+import { promptVersionLabel } from "@/lib/ai/prompts";
+import type { CandidateProfile, JobDescription } from "@/types";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * Outcome of a pre-generation run
+ */
+export interface PregenerationResult {
+  /** Final status of the pregenerated_questions record */
+  status: "ready" | "generating" | "failed";
+  /** True if questions already existed or were already being generated */
+  skipped: boolean;
+  pregenerated_questions_id?: string;
+  questions_generated?: number;
+  total_estimated_time?: number;
+  /** Error code if generation failed */
+  code?: "CANDIDATE_NOT_FOUND" | "JOB_NOT_FOUND" | "DATABASE_ERROR" | "AI_GENERATION_ERROR";
+  error?: string;
+}
+
+// ============================================================
+// PRE-GENERATION
+// ============================================================
+
+/**
+ * Generates and stores interview questions for a candidate
+ * Skips work if questions are already ready or being generated
+ * 
+ * @param candidateId - Candidate UUID
+ * @returns Result describing what happened
+ */
+export async function pregenerateCandidateQuestions(
+  candidateId: string
+): Promise<PregenerationResult> {
+  const supabase = createAdminClient();
+
+  // Fetch candidate
+  const { data: candidate, error: candidateError } = await supabase
+    .from("candidates")
+    .select("*")
+    .eq("id", candidateId)
+    .single();
+
+  if (candidateError || !candidate) {
+    return { status: "failed", skipped: false, code: "CANDIDATE_NOT_FOUND", error: "Candidate not found" };
+  }
+
+  // Fetch job details
+  const { data: job, error: jobError } = await supabase
+    .from("jobs")
+    .select("*")
+    .eq("id", candidate.job_id)
+    .single();
+
+  if (jobError || !job) {
+    return { status: "failed", skipped: false, code: "JOB_NOT_FOUND", error: "Job not found" };
+  }
+
+  // Check if questions already exist and are ready
+  const { data: existingQuestions } = await supabase
+    .from("pregenerated_questions")
+    .select("id, status")
+    .eq("candidate_id", candidateId)
+    .eq("job_id", candidate.job_id)
+    .single();
+
+  if (existingQuestions && ["ready", "generating"].includes(existingQuestions.status)) {
+    return {
+      status: existingQuestions.status,
+      skipped: true,
+      pregenerated_questions_id: existingQuestions.id,
+    };
+  }
+
+  // Create or update pregenerated_questions record to 'generating' status
+  const { data: pregeneratedRecord, error: upsertError } = await supabase
+    .from("pregenerated_questions")
+    .upsert(
+      {
+        candidate_id: candidateId,
+        job_id: candidate.job_id,
+        status: "generating",
+        questions: [],
+        total_questions: 0,
+        total_estimated_time: 0,
+      },
+      {
+        onConflict: "candidate_id,job_id",
+      }
+    )
+    .select()
+    .single();
+
+  if (upsertError || !pregeneratedRecord) {
+    console.error("Failed to create pregenerated_questions record:", upsertError);
+    return { status: "failed", skipped: false, code: "DATABASE_ERROR", error: "Failed to start question generation" };
+  }
+
+  // Update candidate status
+  await supabase
+    .from("candidates")
+    .update({ question_generation_status: "generating" })
+    .eq("id", candidateId);
+
+  // Prepare data for question generation
+  const jobDescription: JobDescription = {
+    title: job.title,
+    level: job.level || "mid",
+    description: job.description,
+    requiredSkills: job.required_skills || [],
+    niceToHave: job.nice_to_have_skills || [],
+  };
+
+  // Build candidate profile from available data
+  const candidateProfile: CandidateProfile = {
+    source: candidate.github_url
+      ? "github"
+      : candidate.linkedin_url
+        ? "linkedin"
+        : "resume",
+    name: candidate.full_name,
+    url: candidate.github_url || candidate.linkedin_url || undefined,
+    bio: candidate.ai_summary || undefined,
+    skills: candidate.extracted_skills || [],
+    experience: candidate.resume_text
+      ? [candidate.resume_text.slice(0, 500)]
+      : [],
+  };
+
+  // Generate interview questions
+  try {
+    const questionSet = await generateInterviewQuestions(
+      jobDescription,
+      candidateProfile,
+      { organizationId: candidate.organization_id, jobId: candidate.job_id }
+    );
+
+    // Update the record with generated questions
+    const { error: updateError } = await supabase
+      .from("pregenerated_questions")
+      .update({
+        questions: questionSet.questions,
+        total_questions: questionSet.questions.length,
+        total_estimated_time: questionSet.totalEstimatedTime,
+        status: "ready",
+        prompt_version: promptVersionLabel("generate_questions"),
+        generated_at: new Date().toISOString(),
+        error_message: null,
+      })
+      .eq("id", pregeneratedRecord.id);
+
+    if (updateError) {
+      console.error("Failed to update pregenerated questions:", updateError);
+      throw new Error("Failed to save generated questions");
+    }
+
+    // Update candidate status to ready
+    await supabase
+      .from("candidates")
+      .update({ question_generation_status: "ready" })
+      .eq("id", candidateId);
+
+    return {
+      status: "ready",
+      skipped: false,
+      pregenerated_questions_id: pregeneratedRecord.id,
+      questions_generated: questionSet.questions.length,
+      total_estimated_time: questionSet.totalEstimatedTime,
+    };
+  } catch (aiError) {
+    console.error("Failed to generate questions:", aiError);
+    const message = aiError instanceof Error ? aiError.message : "AI generation failed";
+
+    // Update record with failure status
+    await supabase
+      .from("pregenerated_questions")
+      .update({
+        status: "failed",
+        error_message: message,
+      })
+      .eq("id", pregeneratedRecord.id);
+
+    // Update candidate status
+    await supabase
+      .from("candidates")
+      .update({ question_generation_status: "failed" })
+      .eq("id", candidateId);
+
+    return {
+      status: "failed",
+      skipped: false,
+      pregenerated_questions_id: pregeneratedRecord.id,
+      code: "AI_GENERATION_ERROR",
+      error: message,
+    };
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Interview answer evaluation prompts
+ *
+ * v2 has the model grade each rubric aspect against its
+ * excellent/good/needs-work anchors before giving the overall score.
+ *
+ * Coding answers come with their test results in every version; text
+ * answers get the same prompt as before.
+ *
+ * @module lib/ai/prompts/answer-evaluation
+ */
+
+import type { PromptInputs, PromptTemplate } from "./index";
+
+type EvaluationInput = PromptInputs["evaluate_answer"];
+
+/**
+ * v1 system prompt
+ * Provides scoring guidelines for interview answers
+ */
+const EVALUATION_SYSTEM_PROMPT_V1 = `You are evaluating a candidate's interview answer. Provide fair, constructive feedback.
+
+SCORING (0-10):
+- 9-10: Exceptional answer, demonstrates deep expertise
+- 7-8: Strong answer, shows good understanding
+- 5-6: Adequate answer, meets basic expectations
+- 3-4: Weak answer, shows gaps in understanding
+- 0-2: Poor answer, does not address the question
+
+Evaluate each aspect of the scoring rubric and provide specific, actionable feedback.`;
+
+/**
+ * Test results of a coding answer, as the model reads them
+ */
+function formatCodeExecution(code: NonNullable<EvaluationInput["question"]["code"]>): string {
+  const { language, execution } = code;
+  if (!execution) {
+    return `LANGUAGE: ${language}\nTEST RESULTS: not available (the code could not be run)`;
+  }
+
+  const lines = execution.results.map((r) => {
+    const detail = r.error ? ` - error: ${r.error}` : r.passed ? "" : ` - returned ${JSON.stringify(r.actual)}`;
+    return `- ${r.passed ? "PASS" : "FAIL"} ${r.name}${r.hidden ? " (hidden)" : ""}${detail}`;
+  });
+
+  return `LANGUAGE: ${language}
+TEST RESULTS: ${execution.passed}/${execution.total} passed (${execution.status})${execution.error ? `\nRUN ERROR: ${execution.error}` : ""}
+${lines.join("\n")}
+
+Weigh the test results heavily for correctness; judge code quality and efficiency from the code itself.`;
+}
+
+/**
+ * v1 user prompt with the question, rubric and answer
+ */
+function buildEvaluationPromptV1({
+  question,
+  answer,
+  jobContext,
+  candidateBackground,
+}: EvaluationInput): string {
+  const rubricText = question.scoring_rubric
+    .map(
+      (r) =>
+        `- ${r.aspect} (weight: ${r.weight}): Excellent: ${r.excellent}, Good: ${r.good}, Needs Work: ${r.needsWork}`
+    )
+    .join("\n");
+
+  return `
+QUESTION: ${question.text}
+CATEGORY: ${question.category}
+
+SCORING RUBRIC:
+${rubricText}
+
+CANDIDATE'S ANSWER:
+${answer}
+${question.code ? `\n${formatCodeExecution(question.code)}\n` : ""}
+JOB CONTEXT: ${jobContext}
+
+CANDIDATE BACKGROUND: ${candidateBackground}
+
+Evaluate this answer against each aspect of the scoring rubric.`;
+}
+
+/**
+ * v2 system prompt
+ * Grades rubric aspects against their anchors before the overall score
+ */
+const EVALUATION_SYSTEM_PROMPT_V2 = `${EVALUATION_SYSTEM_PROMPT_V1}
+
+CALIBRATION:
+- Grade every rubric aspect first: "Excellent" anchors map to 9-10, "Good" to 6-8, "Needs Work" to 0-5
+- The overall score is the weight-averaged aspect score, rounded to the nearest whole number
+- Length is not quality: a short answer that fully meets an anchor scores as high as a long one
+- Do not reward confident wording that isn't backed by specifics`;
+
+export const ANSWER_EVALUATION_PROMPTS: PromptTemplate<EvaluationInput>[] = [
+  {
+    version: 1,
+    notes: "Initial prompt",
+    system: EVALUATION_SYSTEM_PROMPT_V1,
+    user: buildEvaluationPromptV1,
+    temperature: 0.5,
+  },
+  {
+    version: 2,
+    notes: "Grades rubric aspects against their anchors first; overall score is their weighted average",
+    system: EVALUATION_SYSTEM_PROMPT_V2,
+    user: buildEvaluationPromptV1,
+    temperature: 0.3,
+  },
+];
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Candidate-job scoring prompts
+ *
+ * v2 asks the model to score each weighted factor before the overall
+ * score and anchors the overall score to their weighted average.
+ *
+ * @module lib/ai/prompts/candidate-scoring
+ */
+
+import type { PromptInputs, PromptTemplate } from "./index";
+
+type ScoringInput = PromptInputs["score_candidate"];
+
+/**
+ * v1 system prompt
+ * Provides scoring guidelines and weighting factors
+ */
+const SCORING_SYSTEM_PROMPT_V1 = `You are an expert technical recruiter evaluating candidate-job fit.
+
+SCORING GUIDELINES:
+- 90-100: Exceptional match, exceeds requirements
+- 75-89: Strong match, meets most requirements
+- 60-74: Moderate match, some gaps but trainable
+- 40-59: Weak match, significant gaps
+- 0-39: Poor match, does not meet basic requirements
+
+FACTORS TO CONSIDER:
+1. Skills Match (40% weight): Direct skill overlap with required skills
+2. Experience Match (30% weight): Years and relevance of experience
+3. Education Match (15% weight): Relevant degree/certifications
+4. Keywords Match (15% weight): Industry terminology, specific tools
+
+BE BALANCED: Acknowledge both strengths and concerns. Provide actionable insights.`;
+
+/**
+ * v1 user prompt with the job requirements and candidate profile
+ */
+function buildScoringPromptV1({ candidate, job }: ScoringInput): string {
+  return `
+JOB REQUIREMENTS:
+- Title: ${job.title}
+- Level: ${job.level}
+- Required Skills: ${job.required_skills.join(", ")}
+- Nice-to-Have: ${job.nice_to_have_skills?.join(", ") || "None specified"}
+- Description: ${job.description}
+
+CANDIDATE PROFILE:
+- Experience: ${candidate.years_of_experience || "Unknown"} years
+- Skills: ${candidate.skills.join(", ")}
+- Education: ${candidate.education_level || "Unknown"}
+- Experience Highlights:
+${candidate.experience.slice(0, 5).map((e) => `  - ${e}`).join("\n")}
+
+RESUME EXCERPT:
+${candidate.resume_text.slice(0, 2000)}
+
+Evaluate this candidate's fit for the role.`;
+}
+
+/**
+ * v2 system prompt
+ * Same guidelines, but the overall score must follow from the breakdown
+ */
+const SCORING_SYSTEM_PROMPT_V2 = `${SCORING_SYSTEM_PROMPT_V1}
+
+CALIBRATION:
+- Score each of the four factors first, using only evidence present in the profile and resume
+- The overall score must be within 5 points of the weighted average of the four factors
+- Missing information is a gap, not a neutral: do not award points for skills the candidate doesn't show
+- Reserve 90+ for candidates who exceed the requirements on every factor`;
+
+export const CANDIDATE_SCORING_PROMPTS: PromptTemplate<ScoringInput>[] = [
+  {
+    version: 1,
+    notes: "Initial prompt",
+    system: SCORING_SYSTEM_PROMPT_V1,
+    user: buildScoringPromptV1,
+    temperature: 0.5,
+  },
+  {
+    version: 2,
+    notes: "Scores the weighted factors first and anchors the overall score to them",
+    system: SCORING_SYSTEM_PROMPT_V2,
+    user: buildScoringPromptV1,
+    temperature: 0.3,
+  },
+];
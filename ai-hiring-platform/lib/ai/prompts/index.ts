@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Versioned prompt templates
+ *
+ * Each AI feature's prompt is a versioned template: a system prompt, a
+ * user prompt builder and a temperature. A template is never edited once
+ * it has produced stored results - changes go in a new version, and the
+ * version label (e.g. "score_candidate@v1") is stored next to the results
+ * it produced (`candidates.ai_prompt_version`,
+ * `pregenerated_questions.prompt_version`,
+ * `interview_questions.ai_prompt_version`,
+ * `ai_interviews.ai_report_prompt_version`, `ai_usage.prompt_version`).
+ *
+ * ACTIVE_PROMPT_VERSIONS selects the version used in production. Other
+ * versions can be compared against it offline with the eval runner
+ * (`pnpm eval:prompts`, see lib/ai/evals).
+ *
+ * @module lib/ai/prompts
+ */
+
+import type {
+  AIFeature,
+  CandidateProfile,
+  AnswerEvaluation,
+  CodeExecutionResult,
+  CodeLanguage,
+  GeneratedQuestion,
+  InterviewRecommendation,
+  JobDescription,
+  QuestionCategory,
+  QuestionDifficulty,
+  ScoringCriteria,
+} from "@/types";
+import { ANSWER_EVALUATION_PROMPTS } from "./answer-evaluation";
+import { CANDIDATE_SCORING_PROMPTS } from "./candidate-scoring";
+import { FOLLOW_UP_PROMPTS, INTERVIEW_QUESTION_PROMPTS } from "./interview-questions";
+import { INTERVIEW_REPORT_PROMPTS } from "./interview-report";
+import { JOB_DESCRIPTION_PROMPTS } from "./job-description";
+import { RESUME_PARSING_PROMPTS } from "./resume-parsing";
+import { SCREENING_GRADING_PROMPTS } from "./screening-grading";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Prompts are identified by the AI feature that uses them */
+export type PromptId = AIFeature;
+
+/**
+ * Input each prompt's user message is built from
+ */
+export interface PromptInputs {
+  generate_questions: { job: JobDescription; candidate: CandidateProfile };
+  follow_up: { question: GeneratedQuestion; answer: string; job: JobDescription };
+  score_candidate: {
+    candidate: {
+      skills: string[];
+      experience: string[];
+      resume_text: string;
+      years_of_experience?: number;
+      education_level?: string;
+    };
+    job: {
+      title: string;
+      level: string;
+      required_skills: string[];
+      nice_to_have_skills?: string[];
+      description: string;
+    };
+  };
+  parse_resume: { resumeText: string };
+  evaluate_answer: {
+    question: {
+      text: string;
+      category: QuestionCategory;
+      scoring_rubric: ScoringCriteria[];
+      /** Coding questions: the answer's language and its test results (null if it couldn't be run) */
+      code?: { language: CodeLanguage; execution: CodeExecutionResult | null };
+    };
+    answer: string;
+    jobContext: string;
+    candidateBackground: string;
+  };
+  grade_screening: {
+    answers: { question_id: string; prompt: string; answer: string; ideal_answer?: string }[];
+    jobContext: string;
+  };
+  generate_job_description: {
+    title: string;
+    level?: string;
+    required_skills: string[];
+    base_description?: string;
+    department?: string;
+    location?: string;
+  };
+  summarize_interview: {
+    job: { title: string; level: string | null; description: string };
+    candidateName: string;
+    /** The candidate's pre-interview match assessment, null if never scored */
+    matchScore: {
+      overall_score: number | null;
+      summary: string | null;
+      strengths: string[];
+      concerns: string[];
+    } | null;
+    questions: {
+      order: number;
+      category: QuestionCategory | null;
+      difficulty: QuestionDifficulty | null;
+      text: string;
+      answer: string;
+      score: number;
+      feedback: string;
+      breakdown: AnswerEvaluation["breakdown"];
+    }[];
+    interviewScore: { overall_score: number; recommendation: InterviewRecommendation };
+  };
+}
+
+/**
+ * One version of a prompt
+ *
+ * @property version - Positive integer, unique per prompt
+ * @property notes - What changed from the previous version
+ * @property user - Builds the user message from the feature's input
+ */
+export interface PromptTemplate<TInput> {
+  version: number;
+  notes: string;
+  system: string;
+  user: (input: TInput) => string;
+  temperature: number;
+}
+
+/**
+ * A template returned by getPrompt()
+ *
+ * @property label - Version label stored alongside results, e.g. "score_candidate@v1"
+ */
+export type ResolvedPrompt<K extends PromptId> = PromptTemplate<PromptInputs[K]> & {
+  id: K;
+  label: string;
+};
+
+/** Every version of every prompt */
+type PromptRegistry = { [K in PromptId]: PromptTemplate<PromptInputs[K]>[] };
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+const PROMPTS: PromptRegistry = {
+  generate_questions: INTERVIEW_QUESTION_PROMPTS,
+  follow_up: FOLLOW_UP_PROMPTS,
+  score_candidate: CANDIDATE_SCORING_PROMPTS,
+  parse_resume: RESUME_PARSING_PROMPTS,
+  evaluate_answer: ANSWER_EVALUATION_PROMPTS,
+  grade_screening: SCREENING_GRADING_PROMPTS,
+  generate_job_description: JOB_DESCRIPTION_PROMPTS,
+  summarize_interview: INTERVIEW_REPORT_PROMPTS,
+};
+
+/**
+ * Prompt versions used in production
+ * Bump a version here only after comparing it with the eval runner.
+ */
+export const ACTIVE_PROMPT_VERSIONS: Record<PromptId, number> = {
+  generate_questions: 1,
+  follow_up: 1,
+  score_candidate: 1,
+  parse_resume: 1,
+  evaluate_answer: 1,
+  grade_screening: 1,
+  generate_job_description: 1,
+  summarize_interview: 1,
+};
+
+// ============================================================
+// LOOKUP
+// ============================================================
+
+/**
+ * Gets a prompt template
+ *
+ * @param id - Prompt (AI feature) to get
+ * @param version - Version to get (default: the active version)
+ * @throws Error if the version doesn't exist
+ *
+ * @example
+ * const prompt = getPrompt("score_candidate");
+ * const messages = [
+ *   { role: "system", content: prompt.system },
+ *   { role: "user", content: prompt.user({ candidate, job }) },
+ * ];
+ */
+export function getPrompt<K extends PromptId>(
+  id: K,
+  version?: number | null
+): ResolvedPrompt<K> {
+  const wanted = version ?? ACTIVE_PROMPT_VERSIONS[id];
+  const templates = PROMPTS[id] as PromptTemplate<PromptInputs[K]>[];
+  const template = templates.find((t) => t.version === wanted);
+
+  if (!template) {
+    throw new Error(`Unknown prompt version: ${promptVersionLabel(id, wanted)}`);
+  }
+  return { ...template, id, label: promptVersionLabel(id, template.version) };
+}
+
+/**
+ * Versions available for a prompt, oldest first
+ */
+export function listPromptVersions(id: PromptId): number[] {
+  return PROMPTS[id].map((t) => t.version).sort((a, b) => a - b);
+}
+
+/**
+ * Label stored alongside results, e.g. "score_candidate@v1"
+ *
+ * @param version - Version used (default: the active version)
+ */
+export function promptVersionLabel(id: PromptId, version?: number | null): string {
+  return `${id}@v${version ?? ACTIVE_PROMPT_VERSIONS[id]}`;
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Interview report prompts
+ *
+ * @module lib/ai/prompts/interview-report
+ */
+
+import { RECOMMENDATIONS } from "@/lib/constants";
+import type { PromptInputs, PromptTemplate } from "./index";
+
+/**
+ * v1 system prompt
+ * Writes the hiring team's report on a completed interview
+ */
+const REPORT_SYSTEM_PROMPT_V1 = `You are writing the hiring team's report on a completed AI interview. The answers have already been graded one by one; your job is to read the whole interview and give an overall assessment.
+
+GUIDELINES:
+- Base every strength and concern on what the candidate actually said, and cite the numbers of the questions it comes from
+- Prefer specific observations ("explained cache invalidation trade-offs with a real incident") over generic praise or criticism
+- Use the pre-interview match assessment as background; where the interview confirms or contradicts it, say so
+- Weigh the whole interview: a pattern across several answers matters more than one strong or weak answer
+- The score-based recommendation comes from the graded answers and the job's thresholds. Give your own recommendation; if it differs, explain why in the rationale
+- Focus areas are concrete topics the next (human) interviewer should probe, such as gaps, unverified claims or vague answers
+- Do not comment on writing style, grammar or anything unrelated to the role`;
+
+/**
+ * v1 user prompt with the match assessment and every graded answer
+ */
+function buildReportPromptV1({
+  job,
+  candidateName,
+  matchScore,
+  questions,
+  interviewScore,
+}: PromptInputs["summarize_interview"]): string {
+  const matchText = matchScore
+    ? `- Match score: ${matchScore.overall_score ?? "Not scored"}/100
+- Summary: ${matchScore.summary || "None"}
+- Strengths: ${matchScore.strengths.join("; ") || "None"}
+- Concerns: ${matchScore.concerns.join("; ") || "None"}`
+    : "Not available";
+
+  const questionsText = questions
+    .map((q) => {
+      const criteria = q.breakdown.map((b) => `  - ${b.aspect}: ${b.score}/10 - ${b.notes}`).join("\n");
+      return `QUESTION ${q.order} (${q.category ?? "general"}, ${q.difficulty ?? "unrated"}): ${q.text}
+ANSWER: ${q.answer}
+GRADE: ${q.score}/10 - ${q.feedback}${criteria ? `\n${criteria}` : ""}`;
+    })
+    .join("\n\n");
+
+  return `
+JOB: ${job.title} (${job.level || "Not specified"})
+${job.description.slice(0, 1500)}
+
+CANDIDATE: ${candidateName}
+
+PRE-INTERVIEW MATCH ASSESSMENT:
+${matchText}
+
+INTERVIEW SCORE: ${interviewScore.overall_score}/100
+SCORE-BASED RECOMMENDATION: ${RECOMMENDATIONS[interviewScore.recommendation].label}
+
+${questionsText}
+
+Write the interview report.`;
+}
+
+export const INTERVIEW_REPORT_PROMPTS: PromptTemplate<PromptInputs["summarize_interview"]>[] = [
+  {
+    version: 1,
+    notes: "Initial prompt",
+    system: REPORT_SYSTEM_PROMPT_V1,
+    user: buildReportPromptV1,
+    temperature: 0.4,
+  },
+];
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Job description generation prompts
+ *
+ * @module lib/ai/prompts/job-description
+ */
+
+import type { PromptInputs, PromptTemplate } from "./index";
+
+/**
+ * v1 system prompt
+ * Creates inclusive, compelling job postings
+ */
+const JOB_DESCRIPTION_SYSTEM_PROMPT_V1 = `You are an expert recruiter who writes compelling, inclusive job descriptions.
+
+RULES:
+1. Use clear, jargon-free language
+2. Focus on impact and growth opportunities
+3. Be specific about responsibilities and requirements
+4. Avoid gendered language and unnecessary requirements
+5. Include information about team and culture
+6. Keep it concise but comprehensive`;
+
+/**
+ * v1 user prompt with the job details
+ */
+function buildJobDescriptionPromptV1(options: PromptInputs["generate_job_description"]): string {
+  return `Generate a compelling job description for:
+- Title: ${options.title}
+- Level: ${options.level || "Not specified"}
+- Department: ${options.department || "Not specified"}
+- Location: ${options.location || "Not specified"}
+- Required Skills: ${options.required_skills.join(", ")}
+${options.base_description ? `\nBase description to enhance:\n${options.base_description}` : ""}
+
+Create an engaging, inclusive job description that will attract top talent.`;
+}
+
+export const JOB_DESCRIPTION_PROMPTS: PromptTemplate<PromptInputs["generate_job_description"]>[] = [
+  {
+    version: 1,
+    notes: "Initial prompt",
+    system: JOB_DESCRIPTION_SYSTEM_PROMPT_V1,
+    user: buildJobDescriptionPromptV1,
+    temperature: 0.7,
+  },
+];
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Resume parsing prompts
+ *
+ * @module lib/ai/prompts/resume-parsing
+ */
+
+import type { PromptInputs, PromptTemplate } from "./index";
+
+/**
+ * v1 system prompt
+ * Extracts structured data from unstructured resume text
+ */
+const RESUME_SYSTEM_PROMPT_V1 = `You are an expert resume parser. Extract structured information from resumes with high accuracy.
+
+RULES:
+1. Extract ALL skills mentioned (technical, soft skills, tools, frameworks)
+2. Calculate years of experience from work history
+3. Preserve original wording for job titles and companies
+4. If information is not present, omit the field
+5. For dates, use format "YYYY-MM" or "Present"
+6. Extract achievements and metrics from experience descriptions
+
+Be thorough and precise. Missing information is better than guessed information.`;
+
+export const RESUME_PARSING_PROMPTS: PromptTemplate<PromptInputs["parse_resume"]>[] = [
+  {
+    version: 1,
+    notes: "Initial prompt",
+    system: RESUME_SYSTEM_PROMPT_V1,
+    user: ({ resumeText }) => `Parse this resume:\n\n${resumeText}`,
+    temperature: 0.3, // Lower temperature for more consistent extraction
+  },
+];
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Screening answer grading prompts
+ *
+ * @module lib/ai/prompts/screening-grading
+ */
+
+import type { PromptInputs, PromptTemplate } from "./index";
+
+/**
+ * v1 system prompt for grading free-text screening answers
+ */
+const SCREENING_SYSTEM_PROMPT_V1 = `You are grading short written answers to job application screening questions.
+
+SCORING (0-10):
+- 9-10: Directly answers the question with specific, relevant detail
+- 6-8: Relevant answer with some supporting detail
+- 3-5: Vague or only partially relevant
+- 0-2: Off-topic, empty, or does not answer the question
+
+When an ideal answer is provided, grade against it. Judge content only - ignore spelling, grammar and writing style.`;
+
+/**
+ * v1 user prompt with every question and answer
+ */
+function buildScreeningPromptV1({ answers, jobContext }: PromptInputs["grade_screening"]): string {
+  const answersText = answers
+    .map(
+      (a) => `QUESTION ${a.question_id}: ${a.prompt}
+${a.ideal_answer ? `IDEAL ANSWER: ${a.ideal_answer}\n` : ""}CANDIDATE'S ANSWER: ${a.answer}`
+    )
+    .join("\n\n");
+
+  return `JOB: ${jobContext}
+
+${answersText}
+
+Grade each answer, using the question ids given above.`;
+}
+
+export const SCREENING_GRADING_PROMPTS: PromptTemplate<PromptInputs["grade_screening"]>[] = [
+  {
+    version: 1,
+    notes: "Initial prompt",
+    system: SCREENING_SYSTEM_PROMPT_V1,
+    user: buildScreeningPromptV1,
+    temperature: 0.3,
+  },
+];
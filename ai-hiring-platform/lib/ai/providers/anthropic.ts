@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Anthropic LLM provider
+ *
+ * Structured output uses a single forced tool call whose input schema is
+ * the caller's Zod schema (converted to JSON Schema); the tool input is
+ * then validated with the same Zod schema.
+ *
+ * @module lib/ai/providers/anthropic
+ * @requires ANTHROPIC_API_KEY environment variable
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { AI_CONFIG, notConfiguredError } from "./config";
+import type {
+  LLMCompletion,
+  LLMMessage,
+  LLMProvider,
+  LLMUsage,
+  StructuredCompletionRequest,
+  TextCompletionRequest,
+} from "./index";
+
+/** Default Anthropic model (override with ANTHROPIC_MODEL) */
+const DEFAULT_MODEL = "claude-sonnet-4-5";
+
+/**
+ * Splits messages into Anthropic's top-level system prompt and turns
+ */
+function toAnthropicMessages(messages: LLMMessage[]) {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+
+  const turns = messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({ role: m.role as "user" | "assistant", content: m.content }));
+
+  return { system: system || undefined, messages: turns };
+}
+
+/** Token usage from a Messages API response */
+function toUsage(usage: Anthropic.Usage): LLMUsage {
+  return { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens };
+}
+
+/**
+ * Anthropic Messages API
+ *
+ * @param model - Defaults to ANTHROPIC_MODEL, then claude-sonnet-4-5
+ */
+export function createAnthropicProvider(model?: string | null): LLMProvider {
+  const resolvedModel = model || process.env.ANTHROPIC_MODEL || DEFAULT_MODEL;
+  let client: Anthropic | null = null;
+
+  const anthropic = () => {
+    if (!client) {
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw notConfiguredError("ANTHROPIC_API_KEY");
+      }
+      client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+    return client;
+  };
+
+  return {
+    name: "anthropic",
+    model: resolvedModel,
+
+    async completeStructured<T>({
+      messages,
+      schema,
+      schemaName,
+      temperature = AI_CONFIG.temperature,
+      maxTokens = AI_CONFIG.maxTokens,
+    }: StructuredCompletionRequest<T>): Promise<LLMCompletion<T>> {
+      // Reuse the OpenAI helper's Zod -> JSON Schema conversion
+      const inputSchema = zodResponseFormat(schema, schemaName).json_schema.schema;
+
+      const response = await anthropic().messages.create({
+        model: resolvedModel,
+        max_tokens: maxTokens,
+        temperature,
+        ...toAnthropicMessages(messages),
+        tools: [
+          {
+            name: schemaName,
+            description: `Record the ${schemaName.replace(/_/g, " ")}`,
+            input_schema: inputSchema as Anthropic.Tool.InputSchema,
+          },
+        ],
+        tool_choice: { type: "tool", name: schemaName },
+      });
+
+      const toolUse = response.content.find((block) => block.type === "tool_use");
+      if (!toolUse || toolUse.type !== "tool_use") {
+        throw new Error(`No ${schemaName} in response from anthropic`);
+      }
+
+      return { output: schema.parse(toolUse.input), usage: toUsage(response.usage) };
+    },
+
+    async completeText({
+      messages,
+      temperature = AI_CONFIG.temperature,
+      maxTokens = AI_CONFIG.maxTokens,
+    }: TextCompletionRequest): Promise<LLMCompletion<string>> {
+      const response = await anthropic().messages.create({
+        model: resolvedModel,
+        max_tokens: maxTokens,
+        temperature,
+        ...toAnthropicMessages(messages),
+      });
+
+      const text = response.content
+        .filter((block) => block.type === "text")
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+
+      if (!text) {
+        throw new Error("Empty response from anthropic");
+      }
+      return { output: text, usage: toUsage(response.usage) };
+    },
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Shared LLM provider configuration
+ *
+ * @module lib/ai/providers/config
+ */
+
+/**
+ * Default AI model configuration
+ * Uses GPT-4o with structured outputs for reliable JSON responses
+ */
+export const AI_CONFIG = {
+  /** Default OpenAI model (override with OPENAI_MODEL) */
+  model: "gpt-4o-2024-08-06",
+  /** Creativity level (0 = deterministic, 1 = creative) */
+  temperature: 0.7,
+  /** Maximum tokens in response */
+  maxTokens: 4096,
+} as const;
+
+/** Marker in errors thrown when a provider's environment variables are missing */
+const NOT_CONFIGURED_MESSAGE = "AI provider is not configured";
+
+/**
+ * Error for a provider whose credentials are missing
+ *
+ * @param variable - The environment variable to set
+ */
+export function notConfiguredError(variable: string): Error {
+  return new Error(`${NOT_CONFIGURED_MESSAGE}: set ${variable}`);
+}
+
+/**
+ * Whether an error means the AI provider isn't configured (API routes map
+ * this to a 503 AI_NOT_CONFIGURED response)
+ */
+export function isAINotConfiguredError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith(NOT_CONFIGURED_MESSAGE);
+}
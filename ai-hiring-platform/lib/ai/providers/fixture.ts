@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Deterministic fixture LLM provider
+ *
+ * Returns canned responses built from the prompt - no network, no API key.
+ * The same prompt always produces the same output, so AI features can be
+ * exercised in tests and demos. Responses are loosely derived from the
+ * prompt (job title, skills, answer length) so results still look
+ * plausible: a longer answer scores higher, matching skills raise the
+ * match score.
+ *
+ * Enable with AI_PROVIDER=fixture.
+ *
+ * @module lib/ai/providers/fixture
+ */
+
+import type {
+  LLMCompletion,
+  LLMMessage,
+  LLMProvider,
+  LLMUsage,
+  StructuredCompletionRequest,
+} from "./index";
+
+/** Builds the fixture for one schema from the user prompt */
+type FixtureBuilder = (prompt: string) => unknown;
+
+// ============================================================
+// PROMPT HELPERS
+// ============================================================
+
+/** Reads a "- Label: value" line from a prompt */
+function readLine(prompt: string, label: string): string | null {
+  const match = prompt.match(new RegExp(`^\\s*- ${label}: (.*)$`, "m"));
+  return match ? match[1].trim() : null;
+}
+
+/** Reads a comma-separated "- Label: a, b" line */
+function readList(prompt: string, label: string): string[] {
+  return (readLine(prompt, label) || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s && s !== "None specified");
+}
+
+/** Score 2-9 that grows with the answer's length */
+function lengthScore(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.min(9, 2 + Math.floor(words / 25));
+}
+
+function recommendationFor(score: number) {
+  if (score >= 85) return "strong_yes" as const;
+  if (score >= 70) return "yes" as const;
+  if (score >= 55) return "maybe" as const;
+  if (score >= 40) return "no" as const;
+  return "strong_no" as const;
+}
+
+const KNOWN_SKILLS = [
+  "JavaScript", "TypeScript", "React", "Next.js", "Node.js", "Python", "Go", "Java",
+  "Ruby", "SQL", "PostgreSQL", "GraphQL", "AWS", "Docker", "Kubernetes", "Terraform",
+];
+
+// ============================================================
+// FIXTURES
+// ============================================================
+
+const FIXTURES: Record<string, FixtureBuilder> = {
+  interview_questions: (prompt) => {
+    const jobTitle = readLine(prompt, "Title") || "Software Engineer";
+    const skills = readList(prompt, "Required Skills");
+    const topics = skills.length > 0 ? skills : ["your main language", "testing", "debugging"];
+    const plan = [
+      ["behavioral", "easy", (t: string) => `Walk me through a recent project where you used ${t}.`],
+      ["technical", "easy", (t: string) => `What do you like and dislike about ${t}?`],
+      ["technical", "medium", (t: string) => `How do you structure a large codebase that uses ${t}?`],
+      ["problem-solving", "medium", (t: string) => `Describe a hard bug you tracked down involving ${t}.`],
+      ["technical", "medium", (t: string) => `How do you test code written with ${t}?`],
+      ["behavioral", "medium", () => "Tell me about a disagreement with a teammate and how it was resolved."],
+      ["culture-fit", "easy", () => "What does a good code review look like to you?"],
+      ["system-design", "hard", (t: string) => `Design a service built on ${t} that handles 10x today's traffic.`],
+    ] as const;
+
+    const questions = plan.map(([category, difficulty, text], i) => ({
+      id: `q${i + 1}`,
+      category,
+      difficulty,
+      question: text(topics[i % topics.length]),
+      context: `Checks hands-on depth for the ${jobTitle} role`,
+      scoringRubric: [
+        {
+          aspect: "Depth",
+          weight: 3,
+          excellent: "Specific, first-hand detail and trade-offs",
+          good: "Correct but general",
+          needsWork: "Vague or inaccurate",
+        },
+        {
+          aspect: "Communication",
+          weight: 2,
+          excellent: "Clear and well structured",
+          good: "Understandable",
+          needsWork: "Hard to follow",
+        },
+      ],
+      estimatedTime: difficulty === "hard" ? 15 : difficulty === "medium" ? 10 : 5,
+    }));
+
+    return {
+      jobTitle,
+      candidateName: readLine(prompt, "Name") || "Candidate",
+      questions,
+      totalEstimatedTime: questions.reduce((sum, q) => sum + q.estimatedTime, 0),
+    };
+  },
+
+  follow_up: () => ({
+    followUp: "Can you walk me through a concrete example, including what you would do differently now?",
+    rationale: "Moves the answer from general knowledge to first-hand experience",
+  }),
+
+  match_score: (prompt) => {
+    const required = readList(prompt, "Required Skills");
+    const niceToHave = readList(prompt, "Nice-to-Have");
+    const candidateSkills = readList(prompt, "Skills").map((s) => s.toLowerCase());
+    const has = (skill: string) => candidateSkills.includes(skill.toLowerCase());
+
+    const matched = required.filter(has);
+    const missing = required.filter((s) => !has(s));
+    const bonus = niceToHave.filter(has);
+    const skillsMatch = required.length > 0 ? Math.round((matched.length / required.length) * 100) : 50;
+    const overall = Math.round(skillsMatch * 0.4 + 70 * 0.3 + 70 * 0.15 + skillsMatch * 0.15);
+
+    return {
+      overall_score: overall,
+      breakdown: {
+        skills_match: skillsMatch,
+        experience_match: 70,
+        education_match: 70,
+        keywords_match: skillsMatch,
+      },
+      skills_analysis: { matched, missing, bonus },
+      summary: `Matches ${matched.length} of ${required.length} required skills.`,
+      strengths: matched.slice(0, 5).map((s) => `Experience with ${s}`),
+      concerns: missing.slice(0, 5).map((s) => `No evidence of ${s}`),
+      recommendation: recommendationFor(overall),
+      reasoning: "Fixture score based on required skill overlap.",
+    };
+  },
+
+  parsed_resume: (prompt) => {
+    const text = prompt.replace(/^Parse this resume:\s*/, "");
+    const firstLine = text.split("\n").map((l) => l.trim()).find(Boolean) || "Candidate";
+    const email = text.match(/[\w.+-]+@[\w-]+\.[\w.-]+/)?.[0];
+    const github = text.match(/https?:\/\/(www\.)?github\.com\/[\w-]+/i)?.[0];
+    const linkedin = text.match(/https?:\/\/(www\.)?linkedin\.com\/in\/[\w-]+/i)?.[0];
+    const years = Number(text.match(/(\d{1,2})\+?\s+years/i)?.[1] ?? 3);
+    const educationLevel = /\bph\.?d\b/i.test(text)
+      ? "phd"
+      : /\bmaster|\bm\.?s\.?c?\b/i.test(text)
+        ? "master"
+        : /\bbachelor|\bb\.?s\.?c?\b|\bb\.?a\.?\b/i.test(text)
+          ? "bachelor"
+          : "other";
+
+    return {
+      name: firstLine.slice(0, 60),
+      ...(email ? { email } : {}),
+      ...(github ? { github_url: github } : {}),
+      ...(linkedin ? { linkedin_url: linkedin } : {}),
+      summary: text.slice(0, 200).replace(/\s+/g, " ").trim(),
+      skills: KNOWN_SKILLS.filter((skill) => text.toLowerCase().includes(skill.toLowerCase())),
+      experience: [],
+      education: [],
+      years_of_experience: years,
+      education_level: educationLevel,
+    };
+  },
+
+  evaluation: (prompt) => {
+    const answer = prompt.match(/CANDIDATE'S ANSWER:\n([\s\S]*?)\n\nJOB CONTEXT:/)?.[1] ?? "";
+    const aspects = [...prompt.matchAll(/^- (.+?) \(weight:/gm)].map((m) => m[1]);
+    const score = lengthScore(answer);
+
+    return {
+      score,
+      feedback:
+        score >= 7
+          ? "Detailed answer with concrete examples."
+          : score >= 5
+            ? "Reasonable answer that could use more specific detail."
+            : "Brief answer that doesn't show much depth.",
+      breakdown: aspects.map((aspect) => ({ aspect, score, notes: "Fixture evaluation" })),
+    };
+  },
+
+  screening_grades: (prompt) => {
+    const blocks = prompt.split(/\n\n(?=QUESTION )/);
+    const grades = blocks.flatMap((block) => {
+      const id = block.match(/^QUESTION ([^:\s]+):/m)?.[1];
+      if (!id) return [];
+      const answer = block.match(/CANDIDATE'S ANSWER: ([\s\S]*)$/)?.[1] ?? "";
+      return [{ question_id: id, score: lengthScore(answer), notes: "Graded on answer length (fixture)" }];
+    });
+    return { grades };
+  },
+
+  interview_report: (prompt) => {
+    const graded = [...prompt.matchAll(/^QUESTION (\d+) [^\n]*\n[\s\S]*?^GRADE: ([\d.]+)\/10/gm)].map((m) => ({
+      order: Number(m[1]),
+      score: Number(m[2]),
+    }));
+    const score = Number(prompt.match(/^INTERVIEW SCORE: (\d+)\/100/m)?.[1] ?? 50);
+    const strong = graded.filter((q) => q.score >= 7).map((q) => q.order);
+    const weak = graded.filter((q) => q.score <= 4).map((q) => q.order);
+
+    return {
+      summary: `Candidate scored ${score}/100 across ${graded.length} answered questions (fixture report).`,
+      strengths: strong.length > 0 ? [{ point: "Detailed answers with concrete examples", question_orders: strong }] : [],
+      concerns: weak.length > 0 ? [{ point: "Brief answers that didn't show much depth", question_orders: weak }] : [],
+      recommendation: recommendationFor(score),
+      recommendation_rationale: "Follows the interview score (fixture report).",
+      focus_areas: weak.length > 0 ? [`Revisit question${weak.length === 1 ? "" : "s"} ${weak.join(", ")}`] : [],
+    };
+  },
+};
+
+// ============================================================
+// PROVIDER
+// ============================================================
+
+/** Concatenated user messages - fixtures are built from these */
+function userPrompt(messages: LLMMessage[]): string {
+  return messages
+    .filter((m) => m.role === "user")
+    .map((m) => m.content)
+    .join("\n\n");
+}
+
+/**
+ * Approximate usage (~4 characters per token) so metering can be
+ * exercised without a real model; the fixture model costs nothing
+ */
+function estimateUsage(messages: LLMMessage[], output: unknown): LLMUsage {
+  const promptChars = messages.reduce((sum, m) => sum + m.content.length, 0);
+  const outputChars = typeof output === "string" ? output.length : JSON.stringify(output).length;
+  return {
+    promptTokens: Math.ceil(promptChars / 4),
+    completionTokens: Math.ceil(outputChars / 4),
+  };
+}
+
+/**
+ * Creates the fixture provider
+ *
+ * @throws Error from completeStructured() if no fixture exists for the schema
+ */
+export function createFixtureProvider(): LLMProvider {
+  return {
+    name: "fixture",
+    model: "fixture",
+
+    async completeStructured<T>({
+      messages,
+      schema,
+      schemaName,
+    }: StructuredCompletionRequest<T>): Promise<LLMCompletion<T>> {
+      const build = FIXTURES[schemaName];
+      if (!build) {
+        throw new Error(`No fixture for "${schemaName}"`);
+      }
+      // Validate so fixtures can't drift from the schemas they stand in for
+      const output = schema.parse(build(userPrompt(messages)));
+      return { output, usage: estimateUsage(messages, output) };
+    },
+
+    async completeText({ messages }) {
+      const title = readLine(userPrompt(messages), "Title") || "this role";
+      const output = `## About the role\n\nWe're hiring for ${title}. You'll work with a small team shipping features end to end.\n\n## What you'll do\n\n- Build and maintain product features\n- Review code and share knowledge\n\n## What we're looking for\n\n- Experience with the skills listed for this role\n- Clear written communication`;
+      return { output, usage: estimateUsage(messages, output) };
+    },
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview LLM provider layer
+ *
+ * AI features call models through a small provider interface so each
+ * organization can choose where its data is sent:
+ * - `openai` - OpenAI API (default)
+ * - `anthropic` - Anthropic Messages API
+ * - `azure_openai` - an Azure OpenAI deployment
+ * - `local` - an OpenAI-compatible endpoint such as Ollama or vLLM
+ * - `fixture` - deterministic canned responses, no network (tests and demos)
+ *
+ * Every provider returns output validated against the caller's Zod schema,
+ * along with the token usage reported by the backend.
+ * Credentials always come from environment variables; organizations only
+ * pick the provider and, optionally, the model.
+ *
+ * @module lib/ai/providers
+ * @requires AI_PROVIDER (optional) - default provider; "fixture" forces it for every organization
+ */
+
+import type { z } from "zod";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { LLMProviderName } from "@/types";
+import { createAnthropicProvider } from "./anthropic";
+import { createFixtureProvider } from "./fixture";
+import {
+  createAzureOpenAIProvider,
+  createLocalProvider,
+  createOpenAIProvider,
+} from "./openai";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** A chat message sent to the model */
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Request for output matching a Zod schema
+ *
+ * @property schemaName - snake_case name of the output (e.g. "match_score");
+ *   also selects the fixture used by the fixture provider
+ */
+export interface StructuredCompletionRequest<T> {
+  messages: LLMMessage[];
+  schema: z.ZodType<T>;
+  schemaName: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/** Request for free-form text output */
+export interface TextCompletionRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/** Token counts reported for one call */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** A model response with its token usage */
+export interface LLMCompletion<T> {
+  output: T;
+  usage: LLMUsage;
+}
+
+/**
+ * A model backend
+ */
+export interface LLMProvider {
+  /** Provider name, for logging and usage records */
+  readonly name: LLMProviderName;
+  /** Model (or Azure deployment) requests are sent to */
+  readonly model: string;
+  /**
+   * Generates output matching `request.schema`
+   * @throws Error if the model fails or returns output that doesn't validate
+   */
+  completeStructured<T>(request: StructuredCompletionRequest<T>): Promise<LLMCompletion<T>>;
+  /** Generates free-form text */
+  completeText(request: TextCompletionRequest): Promise<LLMCompletion<string>>;
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export { AI_CONFIG, isAINotConfiguredError } from "./config";
+
+/**
+ * Whether the server has credentials for a provider
+ * Used to reject organization settings that would fail on every AI call
+ */
+export function isLLMProviderConfigured(name: LLMProviderName): boolean {
+  switch (name) {
+    case "openai":
+      return !!process.env.OPENAI_API_KEY;
+    case "anthropic":
+      return !!process.env.ANTHROPIC_API_KEY;
+    case "azure_openai":
+      return !!(process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY);
+    case "local":
+      return !!process.env.LOCAL_LLM_BASE_URL;
+    case "fixture":
+      return true;
+  }
+}
+
+// ============================================================
+// PROVIDER SELECTION
+// ============================================================
+
+/** Provider instances, keyed by "name:model" */
+const providers = new Map<string, LLMProvider>();
+
+/** How long an organization's provider setting is cached */
+const ORG_SETTINGS_TTL_MS = 60_000;
+
+/** Cached organization provider settings */
+const orgSettings = new Map<
+  string,
+  { provider: LLMProviderName | null; model: string | null; expiresAt: number }
+>();
+
+/**
+ * Creates (or reuses) a provider instance
+ *
+ * @param name - Provider to use
+ * @param model - Model override; each provider has an env-configured default
+ */
+export function createLLMProvider(name: LLMProviderName, model?: string | null): LLMProvider {
+  const key = `${name}:${model ?? ""}`;
+  let provider = providers.get(key);
+
+  if (!provider) {
+    switch (name) {
+      case "openai":
+        provider = createOpenAIProvider(model);
+        break;
+      case "anthropic":
+        provider = createAnthropicProvider(model);
+        break;
+      case "azure_openai":
+        provider = createAzureOpenAIProvider(model);
+        break;
+      case "local":
+        provider = createLocalProvider(model);
+        break;
+      case "fixture":
+        provider = createFixtureProvider();
+        break;
+    }
+    providers.set(key, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Loads an organization's provider setting (cached briefly)
+ * Falls back to the server default if it can't be read
+ */
+async function getOrganizationSettings(organizationId: string) {
+  const cached = orgSettings.get(organizationId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  let settings = { provider: null as LLMProviderName | null, model: null as string | null };
+  try {
+    const supabase = createAdminClient();
+    const { data } = await supabase
+      .from("organizations")
+      .select("ai_provider, ai_model")
+      .eq("id", organizationId)
+      .single();
+
+    if (data) {
+      settings = { provider: data.ai_provider, model: data.ai_model };
+    }
+  } catch (error) {
+    console.error("Failed to load organization AI settings:", error);
+  }
+
+  const entry = { ...settings, expiresAt: Date.now() + ORG_SETTINGS_TTL_MS };
+  orgSettings.set(organizationId, entry);
+  return entry;
+}
+
+/**
+ * Gets the provider to use for an organization's AI requests
+ *
+ * Resolution order:
+ * 1. AI_PROVIDER=fixture - always the fixture provider (no network)
+ * 2. The organization's ai_provider / ai_model settings
+ * 3. AI_PROVIDER, then OpenAI
+ *
+ * @param organizationId - Organization the request is for; omit for the server default
+ *
+ * @example
+ * const provider = await getLLMProvider(organizationId);
+ * const { output } = await provider.completeStructured({ messages, schema: MatchScoreSchema, schemaName: "match_score" });
+ */
+export async function getLLMProvider(organizationId?: string | null): Promise<LLMProvider> {
+  const defaultProvider = (process.env.AI_PROVIDER as LLMProviderName | undefined) || "openai";
+
+  if (defaultProvider === "fixture") {
+    return createLLMProvider("fixture");
+  }
+
+  if (organizationId) {
+    const settings = await getOrganizationSettings(organizationId);
+    if (settings.provider) {
+      return createLLMProvider(settings.provider, settings.model);
+    }
+    return createLLMProvider(defaultProvider, settings.model);
+  }
+
+  return createLLMProvider(defaultProvider);
+}
+
+/**
+ * Drops an organization's cached provider setting (after it is changed)
+ */
+export function clearOrganizationProviderCache(organizationId: string): void {
+  orgSettings.delete(organizationId);
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview OpenAI-compatible LLM providers
+ *
+ * OpenAI, Azure OpenAI and local OpenAI-compatible servers (Ollama, vLLM)
+ * share the OpenAI SDK and its structured outputs (zodResponseFormat).
+ * Clients are created lazily so builds don't need the env vars.
+ *
+ * @module lib/ai/providers/openai
+ * @requires OPENAI_API_KEY - for the `openai` provider
+ * @requires AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY - for the `azure_openai` provider
+ * @requires LOCAL_LLM_BASE_URL - for the `local` provider
+ */
+
+import OpenAI, { AzureOpenAI } from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import type { LLMProviderName } from "@/types";
+import { AI_CONFIG, notConfiguredError } from "./config";
+import type {
+  LLMCompletion,
+  LLMProvider,
+  LLMUsage,
+  StructuredCompletionRequest,
+  TextCompletionRequest,
+} from "./index";
+
+/** Default Azure OpenAI API version */
+const AZURE_API_VERSION = "2024-10-21";
+
+/** Token usage from an OpenAI completion (some local servers omit it) */
+function toUsage(usage: OpenAI.CompletionUsage | undefined): LLMUsage {
+  return {
+    promptTokens: usage?.prompt_tokens ?? 0,
+    completionTokens: usage?.completion_tokens ?? 0,
+  };
+}
+
+/**
+ * Builds a provider on top of an OpenAI SDK client
+ *
+ * @param name - Provider name
+ * @param model - Model (or Azure deployment) name
+ * @param getClient - Returns the client; called on first request
+ */
+function createOpenAICompatibleProvider(
+  name: LLMProviderName,
+  model: string,
+  getClient: () => OpenAI
+): LLMProvider {
+  let client: OpenAI | null = null;
+  const openai = () => (client ??= getClient());
+
+  return {
+    name,
+    model,
+
+    async completeStructured<T>({
+      messages,
+      schema,
+      schemaName,
+      temperature = AI_CONFIG.temperature,
+      maxTokens,
+    }: StructuredCompletionRequest<T>): Promise<LLMCompletion<T>> {
+      const completion = await openai().beta.chat.completions.parse({
+        model,
+        messages,
+        response_format: zodResponseFormat(schema, schemaName),
+        temperature,
+        ...(maxTokens ? { max_tokens: maxTokens } : {}),
+      });
+
+      const parsed = completion.choices[0]?.message.parsed;
+      if (!parsed) {
+        throw new Error(`No ${schemaName} in response from ${name}`);
+      }
+      return { output: parsed as T, usage: toUsage(completion.usage) };
+    },
+
+    async completeText({
+      messages,
+      temperature = AI_CONFIG.temperature,
+      maxTokens,
+    }: TextCompletionRequest): Promise<LLMCompletion<string>> {
+      const completion = await openai().chat.completions.create({
+        model,
+        messages,
+        temperature,
+        ...(maxTokens ? { max_tokens: maxTokens } : {}),
+      });
+
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error(`Empty response from ${name}`);
+      }
+      return { output: content, usage: toUsage(completion.usage) };
+    },
+  };
+}
+
+/**
+ * OpenAI API
+ *
+ * @param model - Defaults to OPENAI_MODEL, then AI_CONFIG.model
+ */
+export function createOpenAIProvider(model?: string | null): LLMProvider {
+  return createOpenAICompatibleProvider(
+    "openai",
+    model || process.env.OPENAI_MODEL || AI_CONFIG.model,
+    () => {
+      if (!process.env.OPENAI_API_KEY) {
+        throw notConfiguredError("OPENAI_API_KEY");
+      }
+      return new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+  );
+}
+
+/**
+ * Azure OpenAI - `model` is the deployment name
+ *
+ * @param model - Defaults to AZURE_OPENAI_DEPLOYMENT, then AI_CONFIG.model
+ */
+export function createAzureOpenAIProvider(model?: string | null): LLMProvider {
+  const deployment = model || process.env.AZURE_OPENAI_DEPLOYMENT || AI_CONFIG.model;
+
+  return createOpenAICompatibleProvider("azure_openai", deployment, () => {
+    if (!process.env.AZURE_OPENAI_ENDPOINT || !process.env.AZURE_OPENAI_API_KEY) {
+      throw notConfiguredError("AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY");
+    }
+    return new AzureOpenAI({
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || AZURE_API_VERSION,
+      deployment,
+    });
+  });
+}
+
+/**
+ * OpenAI-compatible local server (Ollama, vLLM, LM Studio)
+ * The model must support JSON schema constrained output.
+ *
+ * @param model - Defaults to LOCAL_LLM_MODEL, then "llama3.1"
+ */
+export function createLocalProvider(model?: string | null): LLMProvider {
+  return createOpenAICompatibleProvider(
+    "local",
+    model || process.env.LOCAL_LLM_MODEL || "llama3.1",
+    () => {
+      if (!process.env.LOCAL_LLM_BASE_URL) {
+        throw notConfiguredError("LOCAL_LLM_BASE_URL");
+      }
+      return new OpenAI({
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+      });
+    }
+  );
+}
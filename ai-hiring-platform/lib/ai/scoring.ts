@@ -2,27 +2,44 @@
  * @fileoverview Candidate scoring pipeline
  * 
  * This module orchestrates the AI scoring process for candidates:
- * 1. Fetches profile data from GitHub/LinkedIn
- * 2. Combines with resume/cover letter data
- * 3. Calls AI scoring to evaluate job fit
- * 4. Updates candidate record with results
- * 5. Triggers background question pre-generation
+ * 1. Parses the resume (if any) to fill in missing profile fields
+ * 2. Fetches profile data from GitHub/LinkedIn
+ * 3. Combines with resume/cover letter data
+ * 4. Calls AI scoring to evaluate job fit
+ * 5. Updates candidate record with results
+ * 6. Queues question pre-generation as a background job
  * 
  * The main entry point is `processAndScoreCandidate()` which runs
- * the complete pipeline after a new candidate is created.
+ * the complete pipeline. Routes don't call it directly - they queue a
+ * `score_candidate` job (lib/queue) and the worker runs it.
+ * 
+ * Scoring runs in the background with no user session, so it uses the
+ * admin client. Callers must only pass candidates they have already verified.
  * 
  * @module lib/ai/scoring
  */
 
-import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/server";
 import {
   fetchGitHubProfile,
   extractGitHubUsername,
   isGitHubUrl,
+  parseResume,
   scoreCandidate,
+  isAINotConfiguredError,
+  type AIRequestOptions,
 } from "@/lib/ai";
-import { getAppUrl } from "@/lib/utils";
-import type { CandidateProfile, MatchScore, Job } from "@/types";
+import { promptVersionLabel } from "./prompts";
+import { enqueueJob } from "@/lib/queue";
+import { evaluateScreeningAnswers } from "./screening";
+import type {
+  CandidateProfile,
+  CandidateScoreBreakdown,
+  Job,
+  Json,
+  ParsedResume,
+  ScreeningEvaluation,
+} from "@/types";
 
 // ============================================================
 // TYPE DEFINITIONS
@@ -32,8 +49,9 @@ import type { CandidateProfile, MatchScore, Job } from "@/types";
  * Candidate data required for scoring
  * Minimal subset of Candidate entity
  */
-interface CandidateForScoring {
+export interface CandidateForScoring {
   id: string;
+  organization_id: string;
   job_id: string;
   full_name: string;
   email: string;
@@ -41,6 +59,7 @@ interface CandidateForScoring {
   linkedin_url?: string | null;
   cover_letter?: string | null;
   resume_text?: string | null;
+  screening_answers?: Json;
 }
 
 /**
@@ -58,8 +77,10 @@ interface ScoringResult {
   ai_strengths?: string[];
   /** Potential concerns or gaps */
   ai_concerns?: string[];
-  /** Detailed score breakdown by category */
-  ai_score_breakdown?: MatchScore["breakdown"];
+  /** Detailed score breakdown by category, plus screening results */
+  ai_score_breakdown?: CandidateScoreBreakdown;
+  /** Prompt version that produced ai_score; absent when no model was called */
+  ai_prompt_version?: string;
   /** Skills extracted from profile/resume */
   extracted_skills?: string[];
   /** GitHub avatar URL if available */
@@ -136,6 +157,16 @@ async function fetchCandidateProfileData(
   return { profile, resumeText, avatarUrl, yearsOfExperience };
 }
 
+/**
+ * Turns flagged screening answers into concerns shown alongside the AI analysis
+ * e.g. "Screening: Do you require visa sponsorship? → Answered yes"
+ */
+function getScreeningConcerns(screening: ScreeningEvaluation | null): string[] {
+  return (screening?.results ?? [])
+    .filter((result) => result.flagged)
+    .map((result) => `Screening: ${result.prompt} → ${result.flag_reason}`);
+}
+
 /**
  * Scores a candidate against a job using AI
  * Fetches profile data, calls scoring API, and returns results
@@ -144,7 +175,7 @@ export async function scoreCandidateForJob(
   candidate: CandidateForScoring
 ): Promise<ScoringResult> {
   try {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     // Fetch the job details
     const { data: job, error: jobError } = await supabase
@@ -163,6 +194,13 @@ export async function scoreCandidateForJob(
     // Fetch candidate profile data from GitHub/LinkedIn
     const { profile, resumeText, avatarUrl, yearsOfExperience } = await fetchCandidateProfileData(candidate);
 
+    // Apply knockout rules and grade screening answers (null if the job has none)
+    const screening = await evaluateScreeningAnswers(job, candidate.screening_answers, {
+      organizationId: candidate.organization_id,
+      jobId: candidate.job_id,
+    });
+    const screeningConcerns = getScreeningConcerns(screening);
+
     // If we don't have enough data to score, return early
     if (!resumeText || resumeText.length < 50) {
       // Not enough data for AI scoring - set a default score
@@ -172,7 +210,8 @@ export async function scoreCandidateForJob(
         ai_summary:
           "Insufficient profile data for AI scoring. Add a resume, cover letter, or GitHub profile for better matching.",
         ai_strengths: [],
-        ai_concerns: ["No resume or profile data available for analysis"],
+        ai_concerns: [...screeningConcerns, "No resume or profile data available for analysis"],
+        ...(screening ? { ai_score_breakdown: { screening } } : {}),
         extracted_skills: profile?.skills || [],
         avatar_url: avatarUrl,
         years_of_experience: yearsOfExperience,
@@ -197,15 +236,21 @@ export async function scoreCandidateForJob(
     };
 
     // Call the AI scoring function
-    const matchScore = await scoreCandidate(candidateData, jobData);
+    const matchScore = await scoreCandidate(candidateData, jobData, {
+      organizationId: candidate.organization_id,
+      jobId: candidate.job_id,
+    });
 
     return {
       success: true,
       ai_score: matchScore.overall_score,
+      ai_prompt_version: promptVersionLabel("score_candidate"),
       ai_summary: matchScore.summary,
       ai_strengths: matchScore.strengths,
-      ai_concerns: matchScore.concerns,
-      ai_score_breakdown: matchScore.breakdown,
+      ai_concerns: [...screeningConcerns, ...matchScore.concerns],
+      ai_score_breakdown: screening
+        ? { ...matchScore.breakdown, screening }
+        : matchScore.breakdown,
       extracted_skills: [
         ...matchScore.skills_analysis.matched,
         ...matchScore.skills_analysis.bonus,
@@ -218,10 +263,10 @@ export async function scoreCandidateForJob(
 
     // Check for specific errors
     if (error instanceof Error) {
-      if (error.message.includes("OPENAI_API_KEY")) {
+      if (isAINotConfiguredError(error)) {
         return {
           success: false,
-          error: "AI service not configured. Please set OPENAI_API_KEY.",
+          error: `AI service not configured. ${error.message}.`,
         };
       }
       if (error.message.includes("rate limit")) {
@@ -246,7 +291,7 @@ export async function updateCandidateWithScore(
   candidateId: string,
   scoringResult: ScoringResult
 ): Promise<void> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   const updateData: Record<string, unknown> = {
     updated_at: new Date().toISOString(),
@@ -254,6 +299,7 @@ export async function updateCandidateWithScore(
 
   if (scoringResult.success) {
     updateData.ai_score = scoringResult.ai_score;
+    updateData.ai_prompt_version = scoringResult.ai_prompt_version ?? null;
     updateData.ai_summary = scoringResult.ai_summary;
     updateData.ai_strengths = scoringResult.ai_strengths;
     updateData.ai_concerns = scoringResult.ai_concerns;
@@ -280,6 +326,58 @@ export async function updateCandidateWithScore(
   }
 }
 
+/**
+ * Parses a candidate's resume and fills in profile fields that are still empty
+ * (phone, location, education, years of experience, profile links)
+ * 
+ * Values the candidate or a recruiter entered are never overwritten.
+ * 
+ * @returns The parsed resume
+ */
+export async function enrichCandidateFromResume(
+  candidateId: string,
+  resumeText: string,
+  options: AIRequestOptions = {}
+): Promise<ParsedResume> {
+  const supabase = createAdminClient();
+  const parsed = await parseResume(resumeText, options);
+
+  const { data: current, error: fetchError } = await supabase
+    .from("candidates")
+    .select("phone, location, education_level, years_of_experience, linkedin_url, github_url")
+    .eq("id", candidateId)
+    .single();
+
+  if (fetchError || !current) {
+    throw new Error("Candidate not found");
+  }
+
+  const updateData: Record<string, unknown> = {};
+  if (!current.phone && parsed.phone) updateData.phone = parsed.phone;
+  if (!current.location && parsed.location) updateData.location = parsed.location;
+  if (!current.education_level && parsed.education_level) {
+    updateData.education_level = parsed.education_level;
+  }
+  if (current.years_of_experience == null && parsed.years_of_experience !== undefined) {
+    updateData.years_of_experience = parsed.years_of_experience;
+  }
+  if (!current.linkedin_url && parsed.linkedin_url) updateData.linkedin_url = parsed.linkedin_url;
+  if (!current.github_url && parsed.github_url) updateData.github_url = parsed.github_url;
+
+  if (Object.keys(updateData).length > 0) {
+    const { error } = await supabase
+      .from("candidates")
+      .update(updateData)
+      .eq("id", candidateId);
+
+    if (error) {
+      console.error("Failed to update candidate from resume:", error);
+    }
+  }
+
+  return parsed;
+}
+
 /**
  * Full pipeline: score a candidate and update their record
  * This is the main function to call after creating a candidate
@@ -287,43 +385,61 @@ export async function updateCandidateWithScore(
 export async function processAndScoreCandidate(
   candidate: CandidateForScoring
 ): Promise<ScoringResult> {
-  const result = await scoreCandidateForJob(candidate);
+  // Fill in profile fields from the resume first so scoring can use them
+  let parsedResume: ParsedResume | null = null;
+  if (candidate.resume_text) {
+    try {
+      parsedResume = await enrichCandidateFromResume(candidate.id, candidate.resume_text, {
+        organizationId: candidate.organization_id,
+        jobId: candidate.job_id,
+      });
+    } catch (error) {
+      console.error("Resume parsing failed:", error);
+      // Continue scoring with the raw resume text
+    }
+  }
+
+  const result = await scoreCandidateForJob({
+    ...candidate,
+    github_url: candidate.github_url || parsedResume?.github_url,
+    linkedin_url: candidate.linkedin_url || parsedResume?.linkedin_url,
+  });
+
+  // Work history from the resume is more accurate than GitHub account age
+  if (parsedResume?.years_of_experience !== undefined) {
+    result.years_of_experience = parsedResume.years_of_experience;
+  }
 
   // Update the candidate record with the results
   await updateCandidateWithScore(candidate.id, result);
 
-  // Trigger pre-generation of interview questions in the background
+  // Queue pre-generation of interview questions
   // This makes scheduling interviews instant later
-  triggerQuestionPregeneration(candidate.id).catch((error) => {
-    console.error("Background question pre-generation failed:", error);
-  });
+  await queueQuestionPregeneration(candidate.id, candidate.organization_id);
 
   return result;
 }
 
 /**
- * Triggers pre-generation of interview questions for a candidate
- * This runs asynchronously after candidate scoring to prepare for fast interview scheduling
+ * Queues pre-generation of interview questions for a candidate
+ * Marks the candidate "pending" so the UI shows generation is on its way;
+ * the job moves it to "ready" or "failed"
  */
-async function triggerQuestionPregeneration(candidateId: string): Promise<void> {
-  const baseUrl = getAppUrl();
-  
-  try {
-    const response = await fetch(
-      `${baseUrl}/api/candidates/${candidateId}/pregenerate-questions`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      console.error("Question pre-generation API error:", error);
-    }
-  } catch (error) {
-    console.error("Failed to trigger question pre-generation:", error);
+async function queueQuestionPregeneration(
+  candidateId: string,
+  organizationId: string
+): Promise<void> {
+  const queued = await enqueueJob(
+    "pregenerate_questions",
+    { candidate_id: candidateId },
+    { organizationId, dedupeKey: `pregenerate_questions:${candidateId}` }
+  );
+
+  if (queued) {
+    const supabase = createAdminClient();
+    await supabase
+      .from("candidates")
+      .update({ question_generation_status: "pending" })
+      .eq("id", candidateId);
   }
 }
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Screening answer evaluation
+ *
+ * Combines the knockout rules from lib/screening with AI grading of
+ * free-text answers into a ScreeningEvaluation, which scoring stores in
+ * `candidates.ai_score_breakdown.screening`.
+ *
+ * @module lib/ai/screening
+ */
+
+import { gradeScreeningAnswers, type AIRequestOptions } from "@/lib/ai/openai";
+import {
+  applyKnockoutRules,
+  hasKnockoutRule,
+  parseScreeningAnswers,
+  parseScreeningQuestions,
+} from "@/lib/screening";
+import type { Json, ScreeningEvaluation } from "@/types";
+
+/**
+ * Evaluates a candidate's screening answers for a job
+ *
+ * If AI grading fails, knockout results are still returned and text
+ * answers are left ungraded.
+ *
+ * @param job - Job title and its screening_questions column
+ * @param screeningAnswers - The candidate's screening_answers column
+ * @param options - Organization whose AI provider grades text answers
+ * @returns Evaluation, or null if the job has no screening questions
+ *
+ * @example
+ * const screening = await evaluateScreeningAnswers(job, candidate.screening_answers);
+ * screening?.results.filter((r) => r.flagged)
+ */
+export async function evaluateScreeningAnswers(
+  job: { title: string; screening_questions: Json },
+  screeningAnswers: Json | undefined,
+  options: AIRequestOptions = {}
+): Promise<ScreeningEvaluation | null> {
+  const questions = parseScreeningQuestions(job.screening_questions);
+  if (questions.length === 0) {
+    return null;
+  }
+
+  const answers = parseScreeningAnswers(screeningAnswers);
+  const results = applyKnockoutRules(questions, answers);
+
+  // Grade answered free-text questions with AI
+  const textAnswers = questions.flatMap((question) => {
+    const result = results.find((r) => r.question_id === question.id);
+    return question.type === "text" && result?.answer
+      ? [{
+          question_id: question.id,
+          prompt: question.prompt,
+          answer: result.answer,
+          ideal_answer: question.ideal_answer,
+        }]
+      : [];
+  });
+
+  if (textAnswers.length > 0) {
+    try {
+      const { grades } = await gradeScreeningAnswers(textAnswers, job.title, options);
+      for (const grade of grades) {
+        const result = results.find((r) => r.question_id === grade.question_id);
+        if (result) {
+          result.ai_score = grade.score;
+          result.ai_notes = grade.notes;
+        }
+      }
+    } catch (error) {
+      console.error("Failed to grade screening answers:", error);
+      // Continue with knockout results only
+    }
+  }
+
+  // Knockout questions count 100 (pass) or 0 (flagged); text questions their AI grade
+  const scores = questions.flatMap((question, index) => {
+    const result = results[index];
+    if (question.type === "text") {
+      return result.ai_score !== undefined ? [result.ai_score * 10] : [];
+    }
+    return hasKnockoutRule(question) ? [result.flagged ? 0 : 100] : [];
+  });
+
+  return {
+    results,
+    flagged_count: results.filter((r) => r.flagged).length,
+    score: scores.length > 0
+      ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+      : null,
+    evaluated_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * @fileoverview AI usage metering and monthly budgets
+ *
+ * Every LLM call made by lib/ai/openai.ts is recorded in `ai_usage` with
+ * its feature, provider, model, token counts, latency and an estimated
+ * cost. Organizations can set a monthly budget
+ * (`organizations.ai_monthly_budget_usd`); once the current month's
+ * estimated spend reaches it, AI calls throw a budget error that API
+ * routes map to a 402 BUDGET_EXCEEDED response.
+ *
+ * Costs are estimates from list prices, not invoices.
+ *
+ * @module lib/ai/usage
+ */
+
+import { createAdminClient } from "@/lib/supabase/server";
+import type { AIFeature, LLMProviderName } from "@/types";
+import type { LLMUsage } from "./providers";
+
+// ============================================================
+// PRICING
+// ============================================================
+
+/**
+ * List prices in USD per million tokens, matched by model name prefix
+ * (longest prefix wins, so "gpt-4o-mini" is not priced as "gpt-4o").
+ * Azure deployments are matched by deployment name, which usually
+ * starts with the model name.
+ */
+const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { prefix: "gpt-4o", input: 2.5, output: 10 },
+  { prefix: "gpt-4.1-nano", input: 0.1, output: 0.4 },
+  { prefix: "gpt-4.1-mini", input: 0.4, output: 1.6 },
+  { prefix: "gpt-4.1", input: 2, output: 8 },
+  { prefix: "gpt-4-turbo", input: 10, output: 30 },
+  { prefix: "gpt-3.5-turbo", input: 0.5, output: 1.5 },
+  { prefix: "claude-opus-4", input: 15, output: 75 },
+  { prefix: "claude-sonnet-4", input: 3, output: 15 },
+  { prefix: "claude-3-7-sonnet", input: 3, output: 15 },
+  { prefix: "claude-3-5-sonnet", input: 3, output: 15 },
+  { prefix: "claude-haiku-4", input: 1, output: 5 },
+  { prefix: "claude-3-5-haiku", input: 0.8, output: 4 },
+];
+
+/** Price used for unrecognized hosted models, so budgets still apply */
+const FALLBACK_PRICING = { input: 2.5, output: 10 };
+
+/** Providers that run on our own (or no) hardware and are not billed per token */
+const UNMETERED_PROVIDERS: LLMProviderName[] = ["local", "fixture"];
+
+/**
+ * Estimates the cost of one call in USD
+ *
+ * @example
+ * estimateCostUsd("openai", "gpt-4o-2024-08-06", { promptTokens: 1200, completionTokens: 400 });
+ * // 0.007
+ */
+export function estimateCostUsd(
+  provider: LLMProviderName,
+  model: string,
+  usage: LLMUsage
+): number {
+  if (UNMETERED_PROVIDERS.includes(provider)) {
+    return 0;
+  }
+
+  const name = model.toLowerCase();
+  const pricing =
+    MODEL_PRICING.filter((p) => name.startsWith(p.prefix)).sort(
+      (a, b) => b.prefix.length - a.prefix.length
+    )[0] ?? FALLBACK_PRICING;
+
+  const cost =
+    (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+  // ai_usage.cost_usd keeps 6 decimal places
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+// ============================================================
+// RECORDING
+// ============================================================
+
+/**
+ * One LLM call to record
+ *
+ * @property jobId - Job the call was made for, for per-job breakdowns
+ * @property promptVersion - Prompt version label, e.g. "score_candidate@v1"
+ * @property success - False when the call failed (recorded with zero tokens)
+ */
+export interface AIUsageEntry {
+  organizationId?: string | null;
+  jobId?: string | null;
+  feature: AIFeature;
+  promptVersion?: string | null;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+  success: boolean;
+}
+
+/**
+ * Records an LLM call in ai_usage
+ * Calls made without an organization (e.g. offline evals) aren't recorded.
+ * Never throws - a metering failure must not fail the AI feature
+ */
+export async function recordAIUsage(entry: AIUsageEntry): Promise<void> {
+  if (!entry.organizationId) {
+    return;
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { error } = await supabase.from("ai_usage").insert({
+      organization_id: entry.organizationId,
+      job_id: entry.jobId ?? null,
+      feature: entry.feature,
+      prompt_version: entry.promptVersion ?? null,
+      provider: entry.provider,
+      model: entry.model,
+      prompt_tokens: entry.usage.promptTokens,
+      completion_tokens: entry.usage.completionTokens,
+      latency_ms: Math.round(entry.latencyMs),
+      cost_usd: estimateCostUsd(entry.provider, entry.model, entry.usage),
+      success: entry.success,
+    });
+
+    if (error) {
+      console.error("Failed to record AI usage:", error);
+    }
+  } catch (error) {
+    console.error("Failed to record AI usage:", error);
+  }
+}
+
+// ============================================================
+// BUDGETS
+// ============================================================
+
+/** Marker in errors thrown when an organization's monthly budget is used up */
+const BUDGET_EXCEEDED_MESSAGE = "Monthly AI budget exceeded";
+
+/**
+ * Whether an error means the organization's monthly AI budget is used up
+ * (API routes map this to a 402 BUDGET_EXCEEDED response)
+ */
+export function isAIBudgetExceededError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith(BUDGET_EXCEEDED_MESSAGE);
+}
+
+/**
+ * When the next monthly budget period starts (the first of next month, UTC)
+ */
+export function nextAIBudgetPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * An organization's monthly budget and estimated spend so far this month (UTC)
+ *
+ * @returns budgetUsd is null when the organization has no budget
+ */
+export async function getAIBudgetStatus(
+  organizationId: string
+): Promise<{ budgetUsd: number | null; spentUsd: number }> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .rpc("get_ai_budget_status", { p_organization_id: organizationId })
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load AI budget: ${error.message}`);
+  }
+
+  const status = data as { budget_usd: number | string | null; spent_usd: number | string } | null;
+  return {
+    budgetUsd: status?.budget_usd != null ? Number(status.budget_usd) : null,
+    spentUsd: Number(status?.spent_usd ?? 0),
+  };
+}
+
+/**
+ * Throws if the organization has used up its monthly AI budget
+ *
+ * If the budget can't be read the call is allowed - a metering outage
+ * shouldn't take AI features down with it.
+ *
+ * @throws Error matched by isAIBudgetExceededError()
+ */
+export async function assertWithinAIBudget(organizationId: string): Promise<void> {
+  let status;
+  try {
+    status = await getAIBudgetStatus(organizationId);
+  } catch (error) {
+    console.error("Failed to check AI budget:", error);
+    return;
+  }
+
+  if (status.budgetUsd !== null && status.spentUsd >= status.budgetUsd) {
+    throw new Error(
+      `${BUDGET_EXCEEDED_MESSAGE}: $${status.spentUsd.toFixed(2)} of $${status.budgetUsd.toFixed(2)} used this month`
+    );
+  }
+}
+
+/**
+ * Makes background jobs waiting for the budget to reset due now, e.g. after
+ * an admin raises the budget
+ *
+ * Never throws: the jobs still run when the next budget period starts.
+ */
+export async function resumeJobsWaitingForAIBudget(organizationId: string): Promise<void> {
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from("background_jobs")
+    .update({ run_at: new Date().toISOString() })
+    .eq("organization_id", organizationId)
+    .eq("status", "pending")
+    .like("last_error", `${BUDGET_EXCEEDED_MESSAGE}%`);
+
+  if (error) {
+    console.error("Failed to resume jobs waiting for the AI budget:", error);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Session authentication helpers for API routes
+ *
+ * Resolves the signed-in Supabase user and their profile, including the
+ * organization they belong to. Every recruiter-facing API route calls
+ * `requireAuth()` and scopes its queries by `auth.organizationId` so that
+ * teams sharing a deployment never see each other's pipelines.
+ *
+ * Routes that change data use `requirePermission()` instead, which also
+ * checks the user's role against the matrix in lib/auth/permissions.
+ *
+ * Public endpoints (candidate interview links, cron jobs) authenticate
+ * differently and must not use these helpers.
+ *
+ * @module lib/auth
+ */
+
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import type { Permission, Profile } from "@/types";
+import { can } from "./permissions";
+
+export { can, getPermissions, ROLE_PERMISSIONS } from "./permissions";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * Authenticated request context
+ * Returned by requireAuth() for use in API route handlers
+ */
+export interface AuthContext {
+  /** Session-bound Supabase client (respects RLS) */
+  supabase: Awaited<ReturnType<typeof createClient>>;
+  /** Supabase Auth user */
+  user: User;
+  /** Profile row for the user */
+  profile: Profile;
+  /** Organization the user belongs to - use to scope every query */
+  organizationId: string;
+}
+
+/** Result of requireAuth(): either a context or an error response */
+type RequireAuthResult =
+  | { auth: AuthContext; error?: undefined }
+  | { auth?: undefined; error: NextResponse };
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Loads the auth context for the current request
+ *
+ * @returns AuthContext, or null if there is no session or no profile
+ */
+export async function getAuthContext(): Promise<AuthContext | null> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null;
+  }
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("id", user.id)
+    .single();
+
+  if (error || !profile || !profile.organization_id) {
+    if (error) {
+      console.error("Failed to load profile for user:", error);
+    }
+    return null;
+  }
+
+  return {
+    supabase,
+    user,
+    profile: profile as Profile,
+    organizationId: profile.organization_id,
+  };
+}
+
+/**
+ * Requires an authenticated user for an API route
+ *
+ * @returns `{ auth }` on success, or `{ error }` holding a 401 response
+ *
+ * @example
+ * export async function GET() {
+ *   const { auth, error } = await requireAuth();
+ *   if (error) return error;
+ *
+ *   const { data } = await auth.supabase
+ *     .from("jobs")
+ *     .select("*")
+ *     .eq("organization_id", auth.organizationId);
+ * }
+ */
+export async function requireAuth(): Promise<RequireAuthResult> {
+  const auth = await getAuthContext();
+
+  if (!auth) {
+    return {
+      error: NextResponse.json(
+        { error: "Authentication required", code: "UNAUTHORIZED" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  return { auth };
+}
+
+/**
+ * Requires an authenticated user whose role grants a permission
+ *
+ * @param permission - Action the route performs
+ * @returns `{ auth }` on success, or `{ error }` holding a 401 or 403 response
+ *
+ * @example
+ * export async function DELETE() {
+ *   const { auth, error } = await requirePermission("job:delete");
+ *   if (error) return error;
+ * }
+ */
+export async function requirePermission(
+  permission: Permission
+): Promise<RequireAuthResult> {
+  const result = await requireAuth();
+
+  if (result.error) {
+    return result;
+  }
+
+  if (!can(result.auth.profile, permission)) {
+    return {
+      error: NextResponse.json(
+        {
+          error: "You do not have permission to perform this action",
+          code: "FORBIDDEN",
+          required_permission: permission,
+        },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return result;
+}
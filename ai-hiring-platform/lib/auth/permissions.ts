@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Role-based permission matrix
+ *
+ * Single source of truth for what each organization role may do.
+ * API routes enforce these through `requirePermission()` in lib/auth,
+ * and UI components use `can()` to hide actions the user can't perform.
+ *
+ * This module has no server dependencies so it can be imported from
+ * client components.
+ *
+ * @module lib/auth/permissions
+ */
+
+import type { Permission, Profile, UserRole } from "@/types";
+
+// ============================================================
+// PERMISSION MATRIX
+// ============================================================
+
+/** Members can view pipelines, leave comments and submit interview scorecards */
+const MEMBER_PERMISSIONS: Permission[] = [
+  "job:view",
+  "candidate:view",
+  "candidate:comment",
+  "candidate:scorecard",
+  "interview:view",
+  "interview:review",
+  "org:view",
+];
+
+/** Recruiters additionally run the hiring workflow */
+const RECRUITER_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  "job:create",
+  "job:update",
+  "job:delete",
+  "candidate:create",
+  "candidate:update",
+  "candidate:move",
+  "candidate:delete",
+  "interview:schedule",
+  "interview:override",
+  "ai:use",
+];
+
+/** Admins additionally manage organization settings */
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...RECRUITER_PERMISSIONS,
+  "org:manage",
+];
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  member: MEMBER_PERMISSIONS,
+  recruiter: RECRUITER_PERMISSIONS,
+  admin: ADMIN_PERMISSIONS,
+};
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Checks whether a profile is allowed to perform an action
+ *
+ * @param profile - Profile (or anything with a role); null means signed out
+ * @param permission - Action to check
+ * @returns true if the profile's role grants the permission
+ *
+ * @example
+ * if (!can(profile, "candidate:move")) {
+ *   return forbidden();
+ * }
+ */
+export function can(
+  profile: Pick<Profile, "role"> | null | undefined,
+  permission: Permission
+): boolean {
+  if (!profile) {
+    return false;
+  }
+
+  return ROLE_PERMISSIONS[profile.role]?.includes(permission) ?? false;
+}
+
+/**
+ * Lists every permission granted to a profile
+ *
+ * @param profile - Profile (or anything with a role)
+ * @returns Permissions for the profile's role
+ */
+export function getPermissions(
+  profile: Pick<Profile, "role"> | null | undefined
+): Permission[] {
+  if (!profile) {
+    return [];
+  }
+
+  return [...(ROLE_PERMISSIONS[profile.role] ?? [])];
+}
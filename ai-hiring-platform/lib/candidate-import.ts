@@ -0,0 +1,341 @@
+/**
+ * @fileoverview Bulk candidate import helpers
+ *
+ * Pure functions shared by the import wizard and POST /api/candidates/import:
+ * - Parsing CSV files (quoted fields, CRLF, BOM, comma/semicolon/tab delimiters)
+ * - Detecting Greenhouse and Lever exports from their headers
+ * - Suggesting and applying a column → candidate field mapping
+ * - Validating mapped rows and finding duplicate emails
+ *
+ * @module lib/candidate-import
+ */
+
+import {
+  ImportCandidateSchema,
+  type ImportCandidate,
+  type ImportSourceFormat,
+} from "@/types";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * Candidate field a column can be mapped to
+ * first_name/last_name are joined into full_name, and `links` are sorted
+ * into LinkedIn, GitHub and portfolio URLs
+ */
+export type ImportField =
+  | keyof ImportCandidate
+  | "first_name"
+  | "last_name"
+  | "links";
+
+/** Target field per column (same order as the headers); null = ignore */
+export type ColumnMapping = (ImportField | null)[];
+
+/** A parsed file: header row plus data rows */
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Result of validating one mapped row */
+export type ImportRowValidation =
+  | { valid: true; data: ImportCandidate }
+  | { valid: false; errors: string[] };
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/**
+ * Fields for the mapping step's selects
+ */
+export const IMPORT_FIELDS: { value: ImportField; label: string }[] = [
+  { value: "full_name", label: "Full name" },
+  { value: "first_name", label: "First name" },
+  { value: "last_name", label: "Last name" },
+  { value: "email", label: "Email" },
+  { value: "phone", label: "Phone" },
+  { value: "location", label: "Location" },
+  { value: "linkedin_url", label: "LinkedIn URL" },
+  { value: "github_url", label: "GitHub URL" },
+  { value: "portfolio_url", label: "Portfolio URL" },
+  { value: "links", label: "Links (auto-detect)" },
+  { value: "cover_letter", label: "Cover letter" },
+  { value: "source", label: "Source" },
+  { value: "applied_at", label: "Applied date" },
+];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportSourceFormat, string> = {
+  csv: "CSV",
+  greenhouse: "Greenhouse export",
+  lever: "Lever export",
+};
+
+/** Normalized header names recognized for each field */
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  full_name: ["name", "full name", "candidate name", "candidate", "contact name"],
+  first_name: ["first name", "firstname", "given name"],
+  last_name: ["last name", "lastname", "surname", "family name"],
+  email: ["email", "emails", "email address", "email addresses", "e mail", "personal email"],
+  phone: ["phone", "phones", "phone number", "phone numbers", "mobile", "mobile phone"],
+  location: ["location", "city", "address", "current location"],
+  linkedin_url: ["linkedin", "linkedin url", "linkedin profile"],
+  github_url: ["github", "github url", "github profile"],
+  portfolio_url: ["portfolio", "portfolio url", "website", "personal website"],
+  links: ["links", "social media", "websites", "website addresses", "urls"],
+  cover_letter: ["cover letter", "cover letters"],
+  source: ["source", "sources", "origin", "sourced from", "referral source"],
+  applied_at: ["applied at", "applied on", "application date", "date applied", "created at", "created"],
+};
+
+// ============================================================
+// CSV PARSING
+// ============================================================
+
+/**
+ * Picks the delimiter that appears most often in the header line
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parses CSV text into a header row and data rows
+ *
+ * Handles quoted fields with embedded delimiters, newlines and doubled
+ * quotes. Blank lines are skipped and short rows are padded to the header width.
+ *
+ * @example
+ * const { headers, rows } = parseCsv(await file.text());
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input);
+  const records: string[][] = [];
+
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim() !== ""));
+  const [headerRow = [], ...rows] = nonEmpty;
+  const headers = headerRow.map((header) => header.trim());
+
+  return {
+    headers,
+    rows: rows.map((row) => headers.map((_, index) => (row[index] ?? "").trim())),
+  };
+}
+
+// ============================================================
+// COLUMN MAPPING
+// ============================================================
+
+/**
+ * Lowercases a header and strips punctuation and suffixes like "(GMT)"
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/\(.*?\)/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Detects Greenhouse and Lever exports from their identifying columns
+ */
+export function detectImportFormat(headers: string[]): ImportSourceFormat {
+  const normalized = new Set(headers.map(normalizeHeader));
+
+  if (normalized.has("candidate id") && (normalized.has("first name") || normalized.has("applied on"))) {
+    return "greenhouse";
+  }
+  if (normalized.has("opportunity id") || normalized.has("contact id") || (normalized.has("origin") && normalized.has("links"))) {
+    return "lever";
+  }
+  return "csv";
+}
+
+/**
+ * Suggests a target field for each column from its header
+ *
+ * Each field is mapped at most once (the first matching column wins).
+ *
+ * @example
+ * suggestColumnMapping(["First Name", "Last Name", "Email", "Notes"])
+ * // ["first_name", "last_name", "email", null]
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ImportField>();
+
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const match = (Object.entries(FIELD_ALIASES) as [ImportField, string[]][]).find(
+      ([field, aliases]) => !used.has(field) && aliases.includes(normalized)
+    );
+    if (!match) return null;
+    used.add(match[0]);
+    return match[0];
+  });
+}
+
+/**
+ * First entry of a multi-value cell (ATS exports list several emails/phones per cell)
+ */
+function firstValue(value: string): string {
+  return value.split(/[,;\n]/)[0]?.trim() ?? "";
+}
+
+/**
+ * Converts a date cell to ISO 8601; unparseable values are returned as-is
+ * so validation can report them
+ */
+function toIsoDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/**
+ * Sorts a cell of URLs into LinkedIn, GitHub and portfolio links
+ */
+function classifyLinks(value: string): Pick<ImportCandidate, "linkedin_url" | "github_url" | "portfolio_url"> {
+  const links: Pick<ImportCandidate, "linkedin_url" | "github_url" | "portfolio_url"> = {};
+
+  for (const raw of value.split(/[\s,;]+/)) {
+    if (!raw) continue;
+    const url = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+    if (/linkedin\.com\//i.test(url)) links.linkedin_url ??= url;
+    else if (/github\.com\//i.test(url)) links.github_url ??= url;
+    else if (/\.[a-z]{2,}/i.test(url)) links.portfolio_url ??= url;
+  }
+
+  return links;
+}
+
+/**
+ * Applies a column mapping to data rows
+ *
+ * Empty cells are left out, and rows without a mapped source get
+ * `<format>_import` as their source.
+ *
+ * @returns One candidate object per row, not yet validated
+ */
+export function mapImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  format: ImportSourceFormat
+): Partial<ImportCandidate>[] {
+  return rows.map((row) => {
+    const values: Partial<Record<ImportField, string>> = {};
+    mapping.forEach((field, index) => {
+      const value = row[index]?.trim();
+      if (field && value) values[field] = value;
+    });
+
+    const { first_name, last_name, links, email, phone, applied_at, ...rest } = values;
+    const candidate: Partial<ImportCandidate> = {
+      ...(links ? classifyLinks(links) : {}),
+      ...rest,
+    };
+
+    if (!candidate.full_name && (first_name || last_name)) {
+      candidate.full_name = [first_name, last_name].filter(Boolean).join(" ");
+    }
+    if (email) candidate.email = firstValue(email);
+    if (phone) candidate.phone = firstValue(phone);
+    if (applied_at) candidate.applied_at = toIsoDate(applied_at);
+    candidate.source ??= `${format}_import`;
+
+    return candidate;
+  });
+}
+
+/**
+ * True if the mapping has what every candidate needs (a name and an email)
+ */
+export function hasRequiredMapping(mapping: ColumnMapping): boolean {
+  const fields = new Set(mapping);
+  return fields.has("email") && (fields.has("full_name") || fields.has("first_name") || fields.has("last_name"));
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Validates one mapped row
+ *
+ * @example
+ * const result = validateImportRow({ full_name: "Jane Doe", email: "not-an-email" });
+ * // { valid: false, errors: ["Invalid email address"] }
+ */
+export function validateImportRow(candidate: unknown): ImportRowValidation {
+  const parsed = ImportCandidateSchema.safeParse(candidate);
+  if (parsed.success) {
+    return { valid: true, data: parsed.data };
+  }
+  return { valid: false, errors: parsed.error.issues.map((issue) => issue.message) };
+}
+
+/**
+ * Indexes of rows whose email already appeared earlier in the list
+ */
+export function findDuplicateEmails(emails: (string | undefined)[]): Set<number> {
+  const seen = new Set<string>();
+  const duplicates = new Set<number>();
+
+  emails.forEach((email, index) => {
+    if (!email) return;
+    const key = email.trim().toLowerCase();
+    if (seen.has(key)) duplicates.add(index);
+    seen.add(key);
+  });
+
+  return duplicates;
+}
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Public careers page data access
+ *
+ * Loads organizations and their open jobs for the unauthenticated
+ * /careers pages and the public application endpoint. These run without a
+ * user session, so they use the admin client and only ever return the
+ * public subset of a job (see PublicJob).
+ *
+ * @module lib/careers
+ */
+
+import { parseScreeningQuestions } from "@/lib/screening";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { Job, Organization, PublicJob } from "@/types";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Organization fields exposed on the careers page */
+export type PublicOrganization = Pick<Organization, "id" | "name" | "slug">;
+
+/**
+ * Whether a job is accepting applications, and why not if closed
+ */
+export type ApplicationWindow =
+  | { open: true }
+  | { open: false; reason: "not_active" | "deadline_passed"; message: string };
+
+/** Columns selected for public job queries */
+const PUBLIC_JOB_COLUMNS = [
+  "id",
+  "title",
+  "slug",
+  "level",
+  "department",
+  "location",
+  "location_type",
+  "employment_type",
+  "description",
+  "responsibilities",
+  "required_skills",
+  "nice_to_have_skills",
+  "salary_min",
+  "salary_max",
+  "salary_currency",
+  "show_salary",
+  "status",
+  "application_deadline",
+  "require_cover_letter",
+  "require_linkedin",
+  "require_github",
+  "screening_questions",
+  "published_at",
+].join(", ");
+
+/** Raw row selected with PUBLIC_JOB_COLUMNS */
+type PublicJobRow = Omit<PublicJob, "screening_questions"> &
+  Pick<Job, "show_salary" | "screening_questions">;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Strips the salary range unless the job opted in to showing it, and
+ * removes knockout rules and ideal answers from screening questions
+ */
+function toPublicJob(job: PublicJobRow): PublicJob {
+  const { show_salary, screening_questions, ...rest } = job;
+  return {
+    ...rest,
+    salary_min: show_salary ? job.salary_min : null,
+    salary_max: show_salary ? job.salary_max : null,
+    screening_questions: parseScreeningQuestions(screening_questions).map(
+      ({ id, type, prompt, required, options }) => ({ id, type, prompt, required, options })
+    ),
+  };
+}
+
+/**
+ * Checks whether a job can currently receive applications
+ *
+ * A job is closed when it is not active or its application deadline has passed.
+ *
+ * @example
+ * const applicationWindow = getApplicationWindow(job);
+ * if (!applicationWindow.open) return <ClosedNotice message={applicationWindow.message} />;
+ */
+export function getApplicationWindow(
+  job: Pick<Job, "status" | "application_deadline">,
+  now: Date = new Date()
+): ApplicationWindow {
+  if (job.status !== "active") {
+    return {
+      open: false,
+      reason: "not_active",
+      message: "This position is no longer accepting applications.",
+    };
+  }
+
+  if (job.application_deadline && new Date(job.application_deadline) < now) {
+    return {
+      open: false,
+      reason: "deadline_passed",
+      message: "The application deadline for this position has passed.",
+    };
+  }
+
+  return { open: true };
+}
+
+// ============================================================
+// QUERIES
+// ============================================================
+
+/**
+ * Finds an organization by its public slug
+ *
+ * @returns The organization, or null if no organization has this slug
+ */
+export async function getCareersOrganization(
+  orgSlug: string
+): Promise<PublicOrganization | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("id, name, slug")
+    .eq("slug", orgSlug)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load careers organization:", error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Lists the jobs an organization currently advertises
+ *
+ * Only active, non-archived jobs whose deadline has not passed are returned.
+ */
+export async function listCareersJobs(organizationId: string): Promise<PublicJob[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .select(PUBLIC_JOB_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("status", "active")
+    .eq("is_archived", false)
+    .not("slug", "is", null)
+    .or(`application_deadline.is.null,application_deadline.gte.${new Date().toISOString()}`)
+    .order("published_at", { ascending: false, nullsFirst: false });
+
+  if (error) {
+    console.error("Failed to load careers jobs:", error);
+    return [];
+  }
+
+  return ((data ?? []) as unknown as PublicJobRow[]).map(toPublicJob);
+}
+
+/**
+ * Loads a single job by organization and job slug
+ *
+ * Closed jobs are still returned so the page can explain why applications
+ * are closed; archived jobs are treated as not found.
+ *
+ * @returns The organization and job, or null if either does not exist
+ */
+export async function getCareersJob(
+  orgSlug: string,
+  jobSlug: string
+): Promise<{ organization: PublicOrganization; job: PublicJob } | null> {
+  const organization = await getCareersOrganization(orgSlug);
+  if (!organization) {
+    return null;
+  }
+
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .select(PUBLIC_JOB_COLUMNS)
+    .eq("organization_id", organization.id)
+    .eq("slug", jobSlug)
+    .eq("is_archived", false)
+    .neq("status", "draft")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load careers job:", error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    organization,
+    job: toPublicJob(data as unknown as PublicJobRow),
+  };
+}
@@ -0,0 +1,564 @@
+/**
+ * @fileoverview Code sandbox for coding interview questions
+ *
+ * Runs a candidate's code against a coding question's test cases in a
+ * child process:
+ * - JavaScript runs on Node, TypeScript is transpiled to JavaScript first
+ *   (type errors aren't checked), Python runs on `python3`
+ * - Each run gets a fresh temp directory, an empty environment, a wall-clock
+ *   timeout and capped output; Node is started with a small heap and Python
+ *   sets CPU and memory rlimits before loading the code
+ * - The process runs in its own user, PID, mount and network namespaces
+ *   (`unshare`), so it has no network and can't see the server's processes;
+ *   SANDBOX_UID / SANDBOX_GID also run it as a separate user
+ * - Node runs under the permission model with reads limited to the run
+ *   directory and no child processes; Python installs an audit hook that
+ *   blocks file access outside the run directory and the standard library,
+ *   sockets, ctypes and new processes
+ * - Only a few runs happen at once; further runs are refused
+ *
+ * The child only gets each test's `args`. It reports return values on a
+ * separate pipe (fd 3), and the server compares them with `expected` as
+ * JSON (object key order doesn't matter), so code can't mark its own tests
+ * as passed or read hidden expected values.
+ *
+ * @module lib/code-sandbox
+ */
+
+import { spawn } from "child_process";
+import { chmod, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { Readable } from "stream";
+import {
+  CodingQuestionSpecSchema,
+  type CodeExecutionResult,
+  type CodeLanguage,
+  type CodeTestResult,
+  type CodingQuestionSpec,
+  type CodingTestCase,
+  type Json,
+} from "@/types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Wall-clock limit for one run (all test cases) */
+const RUN_TIMEOUT_MS = 10_000;
+
+/** Node heap limit for JavaScript/TypeScript runs */
+const NODE_MAX_OLD_SPACE_MB = 128;
+
+/** Address space limit for Python runs */
+const PYTHON_MAX_MEMORY_BYTES = 512 * 1024 * 1024;
+
+/** Output beyond this stops the run */
+const MAX_OUTPUT_BYTES = 256 * 1024;
+
+/** Output kept with the result */
+const MAX_STORED_OUTPUT_CHARS = 4000;
+
+/** Runs allowed at the same time in this server process */
+const MAX_CONCURRENT_RUNS = 2;
+
+/** New user, PID, mount and network namespaces; killed with the run */
+const UNSHARE_ARGS = [
+  "--user",
+  "--map-root-user",
+  "--net",
+  "--pid",
+  "--fork",
+  "--kill-child",
+  "--mount",
+  "--mount-proc",
+];
+
+const SANDBOX_BUSY_MESSAGE = "Code sandbox is busy";
+
+let activeRuns = 0;
+
+/** Whether namespaces can be created on this host, checked on first run */
+let namespacesAvailable: Promise<boolean> | null = null;
+
+// ============================================================
+// RUNNERS
+// ============================================================
+
+/**
+ * JavaScript runner: reads the test arguments from stdin and keeps its own
+ * reference to the result pipe before loading the candidate's code
+ */
+const NODE_RUNNER = `
+const fs = require("fs");
+const writeSync = fs.writeSync;
+const stringify = JSON.stringify;
+const { tests } = JSON.parse(fs.readFileSync(0, "utf8"));
+const report = (data) => writeSync(3, "\\n" + stringify(data) + "\\n");
+
+const toJson = (value) => {
+  const json = JSON.stringify(value);
+  return json === undefined ? null : JSON.parse(json);
+};
+
+(async () => {
+  let fn;
+  try {
+    fn = require("./solution.js").__sandbox_fn;
+  } catch (error) {
+    report({ error: String(error && error.stack || error) });
+    return;
+  }
+  if (typeof fn !== "function") {
+    report({ error: "Function not found: " + process.argv[2] });
+    return;
+  }
+  const results = [];
+  for (const test of tests) {
+    const started = Date.now();
+    try {
+      const actual = toJson(await fn(...test.args));
+      results.push({ test_id: test.id, actual, duration_ms: Date.now() - started });
+    } catch (error) {
+      results.push({ test_id: test.id, error: String(error && error.message || error), duration_ms: Date.now() - started });
+    }
+  }
+  report({ results });
+})();
+`;
+
+/**
+ * Python runner: reads the test arguments from stdin, sets rlimits and
+ * installs the audit hook before loading the candidate's code
+ */
+const PYTHON_RUNNER = `
+import json, os, resource, sys, time, traceback
+
+report = os.fdopen(3, "w")
+payload = json.loads(sys.stdin.read())
+tests, limits = payload["tests"], payload["limits"]
+resource.setrlimit(resource.RLIMIT_CPU, (limits["cpu_seconds"], limits["cpu_seconds"]))
+resource.setrlimit(resource.RLIMIT_AS, (limits["memory_bytes"], limits["memory_bytes"]))
+resource.setrlimit(resource.RLIMIT_FSIZE, (0, 0))
+resource.setrlimit(resource.RLIMIT_NPROC, (0, 0))
+
+run_dir = os.getcwd() + os.sep
+readable = tuple({os.path.realpath(p) + os.sep for p in (sys.prefix, sys.base_prefix, sys.exec_prefix)}) + (run_dir,)
+blocked_modules = {"ctypes", "_ctypes", "socket", "_socket", "subprocess", "_posixsubprocess", "multiprocessing", "mmap"}
+blocked_events = ("os.system", "os.exec", "os.posix_spawn", "os.spawn", "os.fork", "os.forkpty", "os.kill", "os.killpg",
+                  "signal.pthread_kill", "socket.", "ctypes.", "subprocess.", "os.remove", "os.rename", "os.rmdir",
+                  "os.mkdir", "os.chmod", "os.chown", "os.link", "os.symlink", "os.truncate", "os.listdir", "os.scandir",
+                  "os.chdir", "os.putenv", "os.unsetenv", "sys.addaudithook", "sys.setprofile", "sys.settrace")
+
+def audit(event, args):
+    if event == "open":
+        path, mode = args[0], args[1]
+        if isinstance(path, int):
+            return
+        if mode and any(c in mode for c in "wax+"):
+            raise PermissionError("Writing files isn't allowed")
+        if not os.path.realpath(path).startswith(readable):
+            raise PermissionError("Reading " + str(path) + " isn't allowed")
+    elif event == "import" and args[0].split(".")[0] in blocked_modules:
+        raise PermissionError("Importing " + args[0] + " isn't allowed")
+    elif event.startswith(blocked_events):
+        raise PermissionError(event + " isn't allowed")
+
+sys.addaudithook(audit)
+
+def emit(data):
+    report.write("\\n" + json.dumps(data) + "\\n")
+    report.flush()
+
+namespace = {"__name__": "solution"}
+try:
+    with open("solution.py") as f:
+        exec(compile(f.read(), "solution.py", "exec"), namespace)
+except BaseException:
+    emit({"error": traceback.format_exc(limit=3)})
+    sys.exit(0)
+
+fn = namespace.get(sys.argv[1])
+if not callable(fn):
+    emit({"error": "Function not found: " + sys.argv[1]})
+    sys.exit(0)
+
+results = []
+for test in tests:
+    started = time.monotonic()
+    try:
+        actual = json.loads(json.dumps(fn(*test["args"]), default=str))
+        results.append({"test_id": test["id"], "actual": actual,
+                        "duration_ms": int((time.monotonic() - started) * 1000)})
+    except Exception as error:
+        results.append({"test_id": test["id"], "error": repr(error),
+                        "duration_ms": int((time.monotonic() - started) * 1000)})
+emit({"results": results})
+`;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/** What the runner reports on fd 3; `actual` is never trusted as a verdict */
+interface RunnerReport {
+  results?: { test_id: string; actual?: Json; error?: string; duration_ms: number }[];
+  error?: string;
+}
+
+/**
+ * Whether an error means the sandbox refused a run because too many are running
+ */
+export function isSandboxBusyError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith(SANDBOX_BUSY_MESSAGE);
+}
+
+/**
+ * Transpiles TypeScript to CommonJS JavaScript
+ *
+ * @returns The JavaScript, or the syntax errors
+ */
+async function transpileTypeScript(code: string): Promise<{ js: string } | { error: string }> {
+  let ts: typeof import("typescript");
+  try {
+    ts = await import("typescript");
+  } catch {
+    return { error: "TypeScript isn't available on this server" };
+  }
+
+  const output = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    reportDiagnostics: true,
+  });
+  const diagnostics = output.diagnostics ?? [];
+  if (diagnostics.length > 0) {
+    return {
+      error: diagnostics
+        .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"))
+        .join("\n"),
+    };
+  }
+  return { js: output.outputText };
+}
+
+/**
+ * Optional uid/gid to run candidate code as, from SANDBOX_UID / SANDBOX_GID
+ */
+function sandboxUser(): { uid?: number; gid?: number } {
+  const parse = (value: string | undefined) =>
+    value && /^\d+$/.test(value) ? Number(value) : undefined;
+  return { uid: parse(process.env.SANDBOX_UID), gid: parse(process.env.SANDBOX_GID) };
+}
+
+/**
+ * Prefixes a command with `unshare`, unless SANDBOX_ISOLATION=none
+ *
+ * @throws Error if namespaces can't be created on this host
+ */
+async function isolate(command: string, args: string[]): Promise<{ command: string; args: string[] }> {
+  if (process.env.SANDBOX_ISOLATION === "none") return { command, args };
+
+  namespacesAvailable ??= new Promise((resolve) => {
+    const probe = spawn("unshare", [...UNSHARE_ARGS, "true"], { stdio: "ignore", ...sandboxUser() });
+    probe.on("error", () => resolve(false));
+    probe.on("close", (code) => resolve(code === 0));
+  });
+  if (!(await namespacesAvailable)) {
+    throw new Error(
+      "Code sandbox can't create namespaces on this host; allow unprivileged user namespaces or set SANDBOX_ISOLATION=none"
+    );
+  }
+  return { command: "unshare", args: [...UNSHARE_ARGS, command, ...args] };
+}
+
+/**
+ * Runs a command with stdin, a timeout and an output cap, collecting the
+ * runner's report from fd 3
+ *
+ * The process gets its own process group, which is killed when the run
+ * ends so nothing it started outlives it.
+ */
+function runProcess(
+  command: string,
+  args: string[],
+  cwd: string,
+  stdin: string
+): Promise<{ stdout: string; stderr: string; report: string; timedOut: boolean }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      env: { PATH: process.env.PATH ?? "", NODE_ENV: "production", PYTHONDONTWRITEBYTECODE: "1" },
+      stdio: ["pipe", "pipe", "pipe", "pipe"],
+      detached: true,
+      ...sandboxUser(),
+    });
+
+    let stdout = "";
+    let stderr = "";
+    let report = "";
+    let outputBytes = 0;
+    let timedOut = false;
+
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL");
+      } catch {
+        // Already gone
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, RUN_TIMEOUT_MS);
+
+    const collect = (stream: "stdout" | "stderr" | "report") => (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_OUTPUT_BYTES) {
+        killGroup();
+        return;
+      }
+      if (stream === "stdout") stdout += chunk.toString();
+      else if (stream === "stderr") stderr += chunk.toString();
+      else report += chunk.toString();
+    };
+    child.stdout!.on("data", collect("stdout"));
+    child.stderr!.on("data", collect("stderr"));
+    (child.stdio[3] as Readable).on("data", collect("report"));
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", () => {
+      clearTimeout(timer);
+      killGroup();
+      resolve({ stdout, stderr, report, timedOut });
+    });
+
+    // The process may exit before reading stdin (e.g. startup failure)
+    child.stdin!.on("error", () => {});
+    child.stdin!.end(stdin);
+  });
+}
+
+/**
+ * Reads the last report line the runner wrote to fd 3
+ */
+function parseRunnerReport(report: string): RunnerReport | null {
+  const line = report.trim().split("\n").pop();
+  if (!line) return null;
+  try {
+    return JSON.parse(line) as RunnerReport;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compares two JSON values, ignoring object key order
+ */
+function sameJson(a: unknown, b: unknown): boolean {
+  const canonical = (value: unknown): unknown =>
+    Array.isArray(value)
+      ? value.map(canonical)
+      : value && typeof value === "object"
+        ? Object.fromEntries(
+            Object.keys(value)
+              .sort()
+              .map((key) => [key, canonical((value as Record<string, unknown>)[key])])
+          )
+        : value;
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+const truncate = (text: string) =>
+  text.length > MAX_STORED_OUTPUT_CHARS ? `${text.slice(0, MAX_STORED_OUTPUT_CHARS)}\n…(truncated)` : text;
+
+// ============================================================
+// EXECUTION
+// ============================================================
+
+/**
+ * Runs code against test cases
+ *
+ * Runtime failures are reported in the result (status "error" or
+ * "timeout"), not thrown.
+ *
+ * @param spec - The coding question (function name and languages)
+ * @param tests - Test cases to run; pass only the visible ones for candidate runs
+ * @throws Error if the language isn't allowed for the question, the runtime
+ *   or its isolation can't be started, or the sandbox is busy (see
+ *   isSandboxBusyError)
+ *
+ * @example
+ * const result = await runCode(spec, "python", code, spec.test_cases);
+ * // result.status: "failed", result.passed: 3, result.total: 4
+ */
+export async function runCode(
+  spec: Pick<CodingQuestionSpec, "function_name" | "languages">,
+  language: CodeLanguage,
+  code: string,
+  tests: CodingTestCase[]
+): Promise<CodeExecutionResult> {
+  if (!spec.languages.includes(language)) {
+    throw new Error(`Language not allowed for this question: ${language}`);
+  }
+  // The name is spliced into the JavaScript wrapper
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(spec.function_name)) {
+    throw new Error(`Invalid function name: ${spec.function_name}`);
+  }
+  if (activeRuns >= MAX_CONCURRENT_RUNS) {
+    throw new Error(`${SANDBOX_BUSY_MESSAGE}, try again in a moment`);
+  }
+
+  const started = Date.now();
+  let dir: string | null = null;
+  let claimed = false;
+
+  const finish = (
+    fields: Pick<CodeExecutionResult, "status" | "results" | "output" | "error">
+  ): CodeExecutionResult => ({
+    language,
+    ...fields,
+    passed: fields.results.filter((r) => r.passed).length,
+    total: tests.length,
+    output: truncate(fields.output),
+    duration_ms: Date.now() - started,
+    ran_at: new Date().toISOString(),
+  });
+
+  try {
+    dir = await mkdtemp(path.join(tmpdir(), "code-sandbox-"));
+    activeRuns += 1;
+    claimed = true;
+
+    // A separate sandbox user needs to read the run directory
+    if (sandboxUser().uid !== undefined) {
+      await chmod(dir, 0o755);
+    }
+
+    let command: string;
+    let args: string[];
+
+    if (language === "python") {
+      await writeFile(path.join(dir, "solution.py"), code);
+      await writeFile(path.join(dir, "runner.py"), PYTHON_RUNNER);
+      command = process.env.SANDBOX_PYTHON_BIN || "python3";
+      args = ["-I", "runner.py", spec.function_name];
+    } else {
+      let js = code;
+      if (language === "typescript") {
+        const transpiled = await transpileTypeScript(code);
+        if ("error" in transpiled) {
+          return finish({ status: "error", results: [], output: "", error: transpiled.error });
+        }
+        js = transpiled.js;
+      }
+      const name = spec.function_name;
+      await writeFile(
+        path.join(dir, "solution.js"),
+        `${js}\n;module.exports.__sandbox_fn = typeof ${name} === "function" ? ${name} : module.exports.${name};\n`
+      );
+      await writeFile(path.join(dir, "runner.js"), NODE_RUNNER);
+      // Node 20 only has the experimental flag
+      const permission = process.allowedNodeEnvironmentFlags.has("--permission")
+        ? "--permission"
+        : "--experimental-permission";
+      command = process.execPath;
+      args = [
+        "--no-warnings",
+        permission,
+        `--allow-fs-read=${dir}`,
+        `--max-old-space-size=${NODE_MAX_OLD_SPACE_MB}`,
+        "runner.js",
+        name,
+      ];
+    }
+
+    const isolated = await isolate(command, args);
+    const { stdout, stderr, report: reportText, timedOut } = await runProcess(
+      isolated.command,
+      isolated.args,
+      dir,
+      JSON.stringify({
+        // Expected values stay on the server
+        tests: tests.map(({ id, args }) => ({ id, args })),
+        limits: {
+          cpu_seconds: Math.ceil(RUN_TIMEOUT_MS / 1000),
+          memory_bytes: PYTHON_MAX_MEMORY_BYTES,
+        },
+      })
+    );
+    const report = parseRunnerReport(reportText);
+    const printed = [stdout.trim(), stderr.trim()].filter(Boolean).join("\n");
+
+    if (timedOut) {
+      return finish({
+        status: "timeout",
+        results: [],
+        output: printed,
+        error: `Stopped after ${RUN_TIMEOUT_MS / 1000} seconds`,
+      });
+    }
+    if (!Array.isArray(report?.results)) {
+      return finish({
+        status: "error",
+        results: [],
+        output: printed,
+        error: typeof report?.error === "string" ? report.error : "The code stopped before the tests finished",
+      });
+    }
+
+    const reported = new Map(report.results.map((r) => [r?.test_id, r]));
+    const results = tests.flatMap((test): CodeTestResult[] => {
+      const r = reported.get(test.id);
+      if (!r) return [];
+      const error = typeof r.error === "string" ? r.error : undefined;
+      return [{
+        test_id: test.id,
+        name: test.name,
+        hidden: test.hidden,
+        passed: !error && "actual" in r && sameJson(r.actual, test.expected),
+        actual: r.actual,
+        error,
+        duration_ms: typeof r.duration_ms === "number" ? r.duration_ms : 0,
+      }];
+    });
+
+    return finish({
+      status: results.length === tests.length && results.every((r) => r.passed) ? "passed" : "failed",
+      results,
+      output: printed,
+      error: null,
+    });
+  } finally {
+    if (claimed) activeRuns -= 1;
+    if (dir) await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Strips hidden test cases from a coding question before it's sent to the candidate
+ *
+ * @returns The spec with only visible tests, and how many are hidden
+ */
+export function candidateCodingSpec(
+  spec: CodingQuestionSpec
+): Omit<CodingQuestionSpec, "test_cases"> & { test_cases: CodingTestCase[]; hidden_test_count: number } {
+  return {
+    ...spec,
+    test_cases: spec.test_cases.filter((t) => !t.hidden),
+    hidden_test_count: spec.test_cases.filter((t) => t.hidden).length,
+  };
+}
+
+/**
+ * Reads a coding question from `interview_questions.coding_spec`
+ *
+ * @returns null when unset or malformed
+ */
+export function parseCodingSpec(value: Json | null | undefined): CodingQuestionSpec | null {
+  const parsed = CodingQuestionSpecSchema.safeParse(value);
+  return parsed.success ? (parsed.data as CodingQuestionSpec) : null;
+}
@@ -93,10 +93,70 @@ export const LOCATION_TYPES = [
   { value: "hybrid", label: "Hybrid" },
 ] as const;
 
+// ============================================================
+// FILE UPLOADS
+// ============================================================
+
+/**
+ * Accepted resume formats and size limit
+ * Text is extracted server-side from each of these formats
+ */
+export const RESUME_UPLOAD = {
+  /** Maximum file size in bytes (5 MB) */
+  maxSize: 5 * 1024 * 1024,
+  /** MIME type → file extension */
+  types: {
+    "application/pdf": "pdf",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+    "text/plain": "txt",
+  },
+  /** Value for <input type="file" accept> */
+  accept: ".pdf,.docx,.txt",
+} as const;
+
+/**
+ * Limits for bulk candidate import
+ */
+export const CANDIDATE_IMPORT = {
+  /** Maximum CSV file size in bytes (5 MB) */
+  maxSize: 5 * 1024 * 1024,
+  /** Maximum candidates per import */
+  maxRows: 1000,
+  /** Candidates created per request, so the wizard can report progress */
+  batchSize: 50,
+  /** Emails per duplicate lookup, keeping the query URL short */
+  duplicateCheckChunkSize: 100,
+} as const;
+
 // ============================================================
 // AI CONFIGURATION - Scoring and evaluation
 // ============================================================
 
+/**
+ * LLM providers an organization can choose in settings
+ * The fixture provider is only enabled server-wide (AI_PROVIDER=fixture)
+ */
+export const LLM_PROVIDERS = [
+  { value: "openai", label: "OpenAI" },
+  { value: "anthropic", label: "Anthropic" },
+  { value: "azure_openai", label: "Azure OpenAI" },
+  { value: "local", label: "Local (OpenAI-compatible)" },
+] as const;
+
+/**
+ * Display labels for the AI features recorded in usage metering
+ */
+export const AI_FEATURES = [
+  { value: "generate_questions", label: "Interview questions" },
+  { value: "follow_up", label: "Follow-up questions" },
+  { value: "score_candidate", label: "Candidate scoring" },
+  { value: "parse_resume", label: "Resume parsing" },
+  { value: "evaluate_answer", label: "Answer evaluation" },
+  { value: "grade_screening", label: "Screening grading" },
+  { value: "generate_job_description", label: "Job descriptions" },
+  { value: "summarize_interview", label: "Interview reports" },
+] as const;
+
 /**
  * AI score threshold values for categorizing candidates
  * Used to color-code and filter candidates by match quality
@@ -139,6 +199,100 @@ export const RECOMMENDATIONS = {
   strong_no: { label: "Strong No", color: "bg-red-100 text-red-800", icon: "👎👎" },
 } as const;
 
+/**
+ * Scorecard competency rating scale (1-4)
+ * Even number of steps so interviewers can't sit on the fence
+ */
+export const SCORECARD_RATINGS = [
+  { value: 1, label: "Poor" },
+  { value: 2, label: "Mixed" },
+  { value: 3, label: "Good" },
+  { value: 4, label: "Excellent" },
+] as const;
+
+/**
+ * Scorecard hire/no-hire decisions, strongest hire first
+ */
+export const SCORECARD_DECISIONS = [
+  { value: "strong_yes", label: "Strong Hire" },
+  { value: "yes", label: "Hire" },
+  { value: "no", label: "No Hire" },
+  { value: "strong_no", label: "Strong No Hire" },
+] as const;
+
+/**
+ * Generic sample questions for the candidate's practice run before an AI
+ * interview; answers are neither scored nor saved
+ */
+export const PRACTICE_QUESTIONS = [
+  {
+    id: "practice-1",
+    category: "behavioral",
+    question_text: "Tell us about a project you're proud of. What was your part in it?",
+    question_context: "A good answer names the problem, what you did yourself and how it turned out.",
+    estimated_time_minutes: 3,
+  },
+  {
+    id: "practice-2",
+    category: "problem-solving",
+    question_text: "How would you explain what an API is to someone who isn't technical?",
+    question_context: "There's no right answer here; this is just to get used to the format.",
+    estimated_time_minutes: 3,
+  },
+] as const;
+
+/**
+ * Extended-time accommodations for interview time limits
+ */
+export const TIME_ACCOMMODATIONS = [
+  { value: 1, label: "None" },
+  { value: 1.25, label: "+25% time" },
+  { value: 1.5, label: "+50% time" },
+  { value: 2, label: "Double time" },
+] as const;
+
+/**
+ * Languages coding questions can be answered in
+ */
+export const CODE_LANGUAGES = [
+  { value: "javascript", label: "JavaScript" },
+  { value: "typescript", label: "TypeScript" },
+  { value: "python", label: "Python" },
+] as const;
+
+/**
+ * Scoring rubric for coding questions; the test results are part of
+ * what the AI grades correctness on
+ */
+export const CODING_QUESTION_RUBRIC = [
+  {
+    aspect: "Correctness",
+    weight: 5,
+    excellent: "Passes all test cases, including edge cases",
+    good: "Passes most test cases; failures are minor edge cases",
+    needsWork: "Fails core test cases or doesn't run",
+  },
+  {
+    aspect: "Code quality",
+    weight: 3,
+    excellent: "Clear names and structure, idiomatic for the language",
+    good: "Readable with minor style issues",
+    needsWork: "Hard to follow, duplicated or unidiomatic",
+  },
+  {
+    aspect: "Efficiency",
+    weight: 2,
+    excellent: "Optimal time and space complexity for the problem",
+    good: "Reasonable complexity with room for improvement",
+    needsWork: "Needlessly slow or memory-hungry",
+  },
+];
+
+/**
+ * Email log statuses a recruiter can resend from
+ */
+export const RESENDABLE_EMAIL_STATUSES = ["failed", "bounced"] as const;
+
 // ============================================================
 // API CONFIGURATION - Endpoint paths
 // ============================================================
@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Calendar invites (.ics) for interview emails
+ *
+ * Builds RFC 5545 iCalendar files attached to the scheduled, rescheduled
+ * and cancelled emails. Every email about an interview uses the same UID,
+ * so calendar apps update the event on a reschedule (METHOD:REQUEST with a
+ * higher SEQUENCE) and remove it on a cancellation (METHOD:CANCEL).
+ *
+ * Times are written in the candidate's timezone when it's known, with a
+ * VTIMEZONE holding that timezone's offset at the interview time, and in
+ * UTC otherwise.
+ *
+ * @module lib/email/calendar
+ */
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** iTIP method: create/update the event, or remove it */
+export type CalendarMethod = "REQUEST" | "CANCEL";
+
+/**
+ * An interview as a calendar event
+ */
+export interface InterviewCalendarEvent {
+  /** Interview ID, the base of the event UID */
+  interviewId: string;
+  /** Higher on every change; see calendarSequence() */
+  sequence: number;
+  /** ISO 8601 start */
+  startsAt: string;
+  durationMinutes: number;
+  /** IANA timezone for the event times; UTC when unset or unknown */
+  timezone?: string | null;
+  summary: string;
+  description: string;
+  /** Interview link */
+  url: string;
+  organizer: { name?: string; email: string };
+  attendee: { name?: string; email: string };
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Stable event UID for an interview
+ */
+export function interviewEventUid(interviewId: string): string {
+  return `ai-interview-${interviewId}@ai-hiring-platform`;
+}
+
+/**
+ * SEQUENCE for an event changed at `date`: seconds since the epoch, so
+ * each later change of the same interview supersedes the earlier ones
+ */
+export function calendarSequence(date: Date = new Date()): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/** Escapes a TEXT value (RFC 5545 section 3.3.11) */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Quotes a parameter value such as CN, which can't contain DQUOTE */
+function quoteParam(value: string): string {
+  return `"${value.replace(/"/g, "'").replace(/[\r\n]/g, " ")}"`;
+}
+
+/** Folds a content line to 75 octets (RFC 5545 section 3.1) */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+/** "20261101T090000" from date parts */
+function formatLocal(parts: { year: number; month: number; day: number; hour: number; minute: number; second: number }) {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${parts.year}${pad(parts.month)}${pad(parts.day)}T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`;
+}
+
+/** UTC date-time, e.g. "20261101T140000Z" */
+function formatUtc(date: Date): string {
+  return `${formatLocal({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  })}Z`;
+}
+
+/**
+ * Wall-clock time of an instant in a timezone, and the timezone's UTC
+ * offset in minutes then; null for an unknown timezone
+ */
+function zonedTime(date: Date, timezone: string) {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+  } catch {
+    return null;
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const local = {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return { local, offsetMinutes: Math.round((asUtc - date.getTime()) / 60_000) };
+}
+
+/** "+0530" / "-0400" */
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const absolute = Math.abs(offsetMinutes);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+// ============================================================
+// ICS
+// ============================================================
+
+/**
+ * Builds the .ics file for an interview email
+ *
+ * @example
+ * const ics = buildInterviewCalendar("REQUEST", {
+ *   interviewId: interview.id,
+ *   sequence: calendarSequence(),
+ *   startsAt: interview.scheduled_at,
+ *   durationMinutes: 30,
+ *   timezone: "America/New_York",
+ *   ...
+ * });
+ */
+export function buildInterviewCalendar(
+  method: CalendarMethod,
+  event: InterviewCalendarEvent,
+  now: Date = new Date()
+): string {
+  const start = new Date(event.startsAt);
+  const end = new Date(start.getTime() + event.durationMinutes * 60_000);
+
+  // UTC if the timezone is unknown, or its offset changes during the interview
+  let zonedStart = event.timezone ? zonedTime(start, event.timezone) : null;
+  let zonedEnd = event.timezone ? zonedTime(end, event.timezone) : null;
+  if (!zonedStart || !zonedEnd || zonedStart.offsetMinutes !== zonedEnd.offsetMinutes) {
+    zonedStart = null;
+    zonedEnd = null;
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AI Hiring Platform//Interviews//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+  ];
+
+  if (zonedStart && zonedEnd) {
+    // Offset at the interview time; enough for this one event
+    lines.push(
+      "BEGIN:VTIMEZONE",
+      `TZID:${event.timezone}`,
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${formatOffset(zonedStart.offsetMinutes)}`,
+      `TZOFFSETTO:${formatOffset(zonedStart.offsetMinutes)}`,
+      "END:STANDARD",
+      "END:VTIMEZONE"
+    );
+  }
+
+  const organizerName = event.organizer.name ? `;CN=${quoteParam(event.organizer.name)}` : "";
+  const attendeeName = event.attendee.name ? `;CN=${quoteParam(event.attendee.name)}` : "";
+
+  lines.push(
+    "BEGIN:VEVENT",
+    `UID:${interviewEventUid(event.interviewId)}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    zonedStart
+      ? `DTSTART;TZID=${event.timezone}:${formatLocal(zonedStart.local)}`
+      : `DTSTART:${formatUtc(start)}`,
+    zonedEnd
+      ? `DTEND;TZID=${event.timezone}:${formatLocal(zonedEnd.local)}`
+      : `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `LOCATION:${escapeText(event.url)}`,
+    `URL:${event.url}`,
+    `ORGANIZER${organizerName}:mailto:${event.organizer.email}`,
+    `ATTENDEE${attendeeName};ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${event.attendee.email}`,
+    `STATUS:${method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+    "END:VCALENDAR"
+  );
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,55 +1,43 @@
 /**
- * @fileoverview Email service using Resend
+ * @fileoverview Email service
  * 
  * This module handles all transactional email sending for the platform:
  * - Interview scheduled notifications
+ * - Booking links (the candidate picks their own time)
  * - Interview reminders (24h and 1h before)
  * - Interview completed confirmations
  * - Reschedule and cancellation notifications
+ * - Candidate declines (to the recruiter)
  * 
- * Uses Resend API for reliable email delivery.
+ * Scheduled, rescheduled and cancelled emails to the candidate carry a
+ * calendar invite (see lib/email/calendar).
+ * 
+ * Rendered emails are delivered by the configured transport: Resend, SMTP
+ * or the local outbox (see lib/email/transports).
  * 
  * @module lib/email
- * @requires RESEND_API_KEY environment variable
- * @see https://resend.com/docs
+ * @requires EMAIL_FROM (optional) - sender address
  */
 
-import { Resend } from "resend";
+import { buildInterviewCalendar, type CalendarMethod } from "./calendar";
+import { parseAddress } from "./mime";
+import { getEmailTransport } from "./transports";
 import {
   getInterviewScheduledTemplate,
+  getInterviewBookingTemplate,
   getInterviewReminderTemplate,
   getInterviewCompletedTemplate,
   getInterviewRescheduledTemplate,
   getInterviewCancelledTemplate,
+  getInterviewDeclinedTemplate,
   type EmailTemplateData,
 } from "./templates";
 
 // ============================================================
-// CLIENT INITIALIZATION
+// CONFIGURATION
 // ============================================================
 
-/** Singleton Resend client instance */
-let resendClient: Resend | null = null;
-
-/**
- * Gets or creates the Resend client instance
- * Uses lazy initialization to avoid build-time errors
- * 
- * @returns Resend client instance
- * @throws Error if RESEND_API_KEY is not configured
- */
-function getResendClient(): Resend {
-  if (!resendClient) {
-    const apiKey = process.env.RESEND_API_KEY;
-    if (!apiKey) {
-      throw new Error("RESEND_API_KEY environment variable is not set");
-    }
-    resendClient = new Resend(apiKey);
-  }
-  return resendClient;
-}
-
-/** Default sender address - should be verified domain in Resend dashboard */
+/** Default sender address - should be a domain verified with the email provider */
 const DEFAULT_FROM = process.env.EMAIL_FROM || "AI Hiring Platform <noreply@example.com>";
 
 // ============================================================
@@ -62,11 +50,13 @@ const DEFAULT_FROM = process.env.EMAIL_FROM || "AI Hiring Platform <noreply@exam
  */
 export type EmailType =
   | "interview_scheduled"
+  | "interview_booking"
   | "interview_reminder_24h"
   | "interview_reminder_1h"
   | "interview_completed"
   | "interview_rescheduled"
-  | "interview_cancelled";
+  | "interview_cancelled"
+  | "interview_declined";
 
 /** Options for sending an email */
 interface SendEmailOptions {
@@ -82,14 +72,14 @@ interface SendEmailOptions {
 interface SendEmailResult {
   /** Whether the email was sent successfully */
   success: boolean;
-  /** Resend message ID if successful */
+  /** Transport message ID if successful */
   messageId?: string;
   /** Error message if failed */
   error?: string;
 }
 
 /**
- * Send an email using Resend
+ * Send an email through the configured transport
  */
 export async function sendEmail({
   to,
@@ -97,29 +87,29 @@ export async function sendEmail({
   data,
 }: SendEmailOptions): Promise<SendEmailResult> {
   try {
-    const resend = getResendClient();
-
     const { subject, html, text } = getEmailContent(type, data);
+    const invite = getCalendarInvite(type, data, to);
 
-    const result = await resend.emails.send({
+    const { messageId } = await getEmailTransport().send({
       from: DEFAULT_FROM,
       to,
       subject,
       html,
       text,
+      ...(invite && {
+        attachments: [
+          {
+            filename: "invite.ics",
+            content: invite.ics,
+            contentType: `text/calendar; charset=utf-8; method=${invite.method}`,
+          },
+        ],
+      }),
     });
 
-    if (result.error) {
-      console.error("Resend error:", result.error);
-      return {
-        success: false,
-        error: result.error.message,
-      };
-    }
-
     return {
       success: true,
-      messageId: result.data?.id,
+      messageId,
     };
   } catch (error) {
     console.error("Failed to send email:", error);
@@ -192,6 +182,8 @@ function getEmailContent(
   switch (type) {
     case "interview_scheduled":
       return getInterviewScheduledTemplate(data);
+    case "interview_booking":
+      return getInterviewBookingTemplate(data);
     case "interview_reminder_24h":
       return getInterviewReminderTemplate(data, 24);
     case "interview_reminder_1h":
@@ -202,11 +194,52 @@ function getEmailContent(
       return getInterviewRescheduledTemplate(data);
     case "interview_cancelled":
       return getInterviewCancelledTemplate(data);
+    case "interview_declined":
+      return getInterviewDeclinedTemplate(data);
     default:
       throw new Error(`Unknown email type: ${type}`);
   }
 }
 
+/** Calendar method for each email type that carries an invite */
+const CALENDAR_METHODS: Partial<Record<EmailType, CalendarMethod>> = {
+  interview_scheduled: "REQUEST",
+  interview_rescheduled: "REQUEST",
+  interview_cancelled: "CANCEL",
+};
+
+/**
+ * Get the calendar invite for an email, if it carries one
+ *
+ * Only emails to the candidate do: copies to the recruiter (which set
+ * recipientName) don't add the interview to the recruiter's calendar.
+ */
+function getCalendarInvite(
+  type: EmailType,
+  data: EmailTemplateData,
+  to: string
+): { ics: string; method: CalendarMethod } | null {
+  const method = CALENDAR_METHODS[type];
+  if (!method || !data.interviewId || data.recipientName !== undefined) return null;
+
+  const company = data.companyName || "Lontario";
+
+  const ics = buildInterviewCalendar(method, {
+    interviewId: data.interviewId,
+    sequence: data.calendarSequence ?? 0,
+    startsAt: data.scheduledAt,
+    durationMinutes: data.durationMinutes,
+    timezone: data.timezone,
+    summary: `AI Interview: ${data.jobTitle} (${company})`,
+    description: `Your AI interview for ${data.jobTitle}. Open this link to start: ${data.interviewLink}`,
+    url: data.interviewLink,
+    organizer: parseAddress(DEFAULT_FROM),
+    attendee: { name: data.candidateName, email: to },
+  });
+
+  return { ics, method };
+}
+
 /**
  * Batch send emails (for reminders cron)
  */
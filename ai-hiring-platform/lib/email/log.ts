@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Outbound email log
+ *
+ * Every email delivered by the send_email background job is recorded in the
+ * `email_log` table, one row per job:
+ * - Each attempt updates the row: "sent" with the transport message ID, or
+ *   "retrying" / "failed" with the error
+ * - Delivery webhooks (see app/api/webhooks/resend) then move it on to
+ *   delivered, opened, bounced or complained
+ *
+ * Template data is stored as a hash only; the data itself stays in the
+ * job payload, which is what a resend reuses.
+ *
+ * Server-only. Uses the admin client.
+ *
+ * @module lib/email/log
+ */
+
+import { createHash } from "crypto";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { BackgroundJobPayloads } from "@/lib/queue";
+import type { BackgroundJob, EmailStatus } from "@/types";
+import { getEmailTransportName } from "./transports";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Outcome of one send attempt */
+interface SendAttempt {
+  messageId?: string;
+  error?: string;
+}
+
+/** A delivery event reported by the email provider */
+export interface DeliveryEvent {
+  /** Provider message ID, as returned by the transport */
+  messageId: string;
+  status: Extract<EmailStatus, "delivery_delayed" | "delivered" | "opened" | "bounced" | "complained">;
+  /** When the provider saw the event */
+  occurredAt: string;
+  /** Bounce or complaint detail */
+  detail?: string;
+}
+
+/**
+ * How far along each status is; webhooks can arrive out of order, so a
+ * status never replaces a later one (an "opened" email stays opened when
+ * its "delivered" event comes in afterwards)
+ */
+const STATUS_RANK: Record<EmailStatus, number> = {
+  retrying: 0,
+  failed: 0,
+  sent: 1,
+  delivery_delayed: 2,
+  delivered: 3,
+  opened: 4,
+  bounced: 5,
+  complained: 5,
+};
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * SHA-256 of template data, independent of key order
+ */
+export function hashTemplateData(data: object): string {
+  const stable = (value: unknown): unknown =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.keys(value)
+            .sort()
+            .map((key) => [key, stable((value as Record<string, unknown>)[key])])
+        )
+      : value;
+
+  return createHash("sha256").update(JSON.stringify(stable(data))).digest("hex");
+}
+
+// ============================================================
+// RECORDING
+// ============================================================
+
+/**
+ * Records a send attempt of a send_email job
+ *
+ * Never throws: the email may already have gone out, and failing the job
+ * here would send it again on retry.
+ */
+export async function recordEmailAttempt(
+  job: BackgroundJob,
+  payload: BackgroundJobPayloads["send_email"],
+  attempt: SendAttempt
+): Promise<void> {
+  try {
+    const supabase = createAdminClient();
+    const now = new Date().toISOString();
+
+    const { data: interview } = payload.interview_id
+      ? await supabase
+          .from("ai_interviews")
+          .select("candidate_id")
+          .eq("id", payload.interview_id)
+          .single()
+      : { data: null };
+
+    const status: EmailStatus = attempt.messageId
+      ? "sent"
+      : job.attempts >= job.max_attempts
+        ? "failed"
+        : "retrying";
+
+    const { error } = await supabase.from("email_log").upsert(
+      {
+        organization_id: job.organization_id,
+        candidate_id: interview?.candidate_id ?? null,
+        interview_id: payload.interview_id ?? null,
+        background_job_id: job.id,
+        resent_from_id: payload.resent_from ?? null,
+        to_address: payload.to,
+        type: payload.type,
+        data_hash: hashTemplateData(payload.data),
+        transport: getEmailTransportName(),
+        message_id: attempt.messageId ?? null,
+        status,
+        error: attempt.error ?? null,
+        attempts: job.attempts,
+        sent_at: attempt.messageId ? now : null,
+      },
+      { onConflict: "background_job_id" }
+    );
+
+    if (error) {
+      console.error("Failed to record email:", error);
+    }
+  } catch (error) {
+    console.error("Failed to record email:", error);
+  }
+}
+
+/**
+ * Applies a delivery event to the logged email with its message ID
+ *
+ * @returns false if no logged email has the message ID (e.g. it was sent
+ *   before the log existed, or by another environment sharing the provider)
+ * @throws Error if the log could not be read or updated
+ */
+export async function applyDeliveryEvent(event: DeliveryEvent): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data: email, error: fetchError } = await supabase
+    .from("email_log")
+    .select("id, status, delivered_at, opened_at, bounced_at")
+    .eq("message_id", event.messageId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to look up email: ${fetchError.message}`);
+  }
+  if (!email) return false;
+
+  const update: Record<string, string> = {};
+  if (STATUS_RANK[event.status] > STATUS_RANK[email.status as EmailStatus]) {
+    update.status = event.status;
+  }
+  if (event.status === "delivered" && !email.delivered_at) {
+    update.delivered_at = event.occurredAt;
+  }
+  if (event.status === "opened" && !email.opened_at) {
+    update.opened_at = event.occurredAt;
+  }
+  if (event.status === "bounced" && !email.bounced_at) {
+    update.bounced_at = event.occurredAt;
+  }
+  if ((event.status === "bounced" || event.status === "complained") && event.detail) {
+    update.error = event.detail;
+  }
+
+  if (Object.keys(update).length === 0) return true;
+
+  const { error: updateError } = await supabase.from("email_log").update(update).eq("id", email.id);
+  if (updateError) {
+    throw new Error(`Failed to update email: ${updateError.message}`);
+  }
+  return true;
+}
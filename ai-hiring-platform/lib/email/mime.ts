@@ -0,0 +1,135 @@
+/**
+ * @fileoverview MIME messages (RFC 5322 / RFC 2045)
+ *
+ * Builds the raw message for transports that don't take structured emails:
+ * SMTP sends it as is and the outbox keeps it as an .eml file. Text, HTML
+ * and attachments are base64 encoded, so any content is safe on the wire.
+ *
+ * @module lib/email/mime
+ */
+
+import { randomUUID } from "crypto";
+import type { OutgoingEmail } from "./transports";
+
+// ============================================================
+// ADDRESSES
+// ============================================================
+
+/**
+ * Splits "Name <address>" into its parts; a bare address has no name
+ */
+export function parseAddress(value: string): { name?: string; email: string } {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  if (!match) return { email: value.trim() };
+  const name = match[1].replace(/^"(.*)"$/, "$1");
+  return { name: name || undefined, email: match[2].trim() };
+}
+
+/**
+ * A new Message-ID, in the sender's domain
+ */
+export function createMessageId(from: string): string {
+  const domain = parseAddress(from).email.split("@")[1] || "localhost";
+  return `<${randomUUID()}@${domain}>`;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/** RFC 2047 encoded-word for header values that aren't plain ASCII */
+function encodeHeader(raw: string): string {
+  // Line breaks would start a new header
+  const value = raw.replace(/[\r\n]+/g, " ");
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/** An address header, with the display name encoded if needed */
+function formatAddress(value: string): string {
+  const { name, email } = parseAddress(value);
+  if (!name) return email;
+  const encoded = encodeHeader(name);
+  // Names with specials have to be quoted; encoded words must not be
+  const display = encoded === name && /[()<>@,;:\\".[\]]/.test(name)
+    ? `"${name.replace(/["\\]/g, "\\$&")}"`
+    : encoded;
+  return `${display} <${email}>`;
+}
+
+/** Base64 wrapped to 76 characters per line */
+function base64Lines(content: string | Buffer): string {
+  const encoded = Buffer.from(content).toString("base64");
+  return encoded.match(/.{1,76}/g)?.join("\r\n") ?? "";
+}
+
+// ============================================================
+// MESSAGE
+// ============================================================
+
+/**
+ * Builds the raw message for an email
+ *
+ * @param messageId - Message-ID header, from createMessageId()
+ * @returns The message with CRLF line endings
+ */
+export function buildMimeMessage(
+  email: OutgoingEmail,
+  messageId: string,
+  date: Date = new Date()
+): string {
+  const boundary = () => `----=_Part_${randomUUID()}`;
+  const alternative = boundary();
+
+  const headers = [
+    `From: ${formatAddress(email.from)}`,
+    `To: ${formatAddress(email.to)}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+  ];
+
+  const body = [
+    `--${alternative}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(email.text),
+    `--${alternative}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(email.html),
+    `--${alternative}--`,
+  ];
+
+  const attachments = email.attachments ?? [];
+  if (attachments.length === 0) {
+    headers.push(`Content-Type: multipart/alternative; boundary="${alternative}"`);
+    return [...headers, "", ...body, ""].join("\r\n");
+  }
+
+  const mixed = boundary();
+  headers.push(`Content-Type: multipart/mixed; boundary="${mixed}"`);
+  const parts = [
+    `--${mixed}`,
+    `Content-Type: multipart/alternative; boundary="${alternative}"`,
+    "",
+    ...body,
+  ];
+  for (const attachment of attachments) {
+    const filename = attachment.filename.replace(/["\r\n]/g, "");
+    parts.push(
+      `--${mixed}`,
+      `Content-Type: ${attachment.contentType}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(attachment.content)
+    );
+  }
+  parts.push(`--${mixed}--`);
+
+  return [...headers, "", ...parts, ""].join("\r\n");
+}
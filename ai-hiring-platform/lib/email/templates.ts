@@ -7,6 +7,7 @@
  * - Interview completed
  * - Interview rescheduled
  * - Interview cancelled
+ * - Interview declined by the candidate (sent to the recruiter)
  * 
  * Each template returns HTML and plain text versions for email clients.
  * 
@@ -42,6 +43,20 @@ export interface EmailTemplateData {
   oldScheduledAt?: string;
   /** Reason for cancellation (for cancellation emails) */
   cancellationReason?: string;
+  /** Greeting name when the email goes to the recruiter (defaults to candidateName) */
+  recipientName?: string;
+  /** The candidate rescheduled from their interview link (for reschedule emails) */
+  rescheduledByCandidate?: boolean;
+  /** Reason the candidate gave (for reschedule and decline emails) */
+  candidateReason?: string;
+  /** Interview ID; scheduled, rescheduled and cancelled emails to the candidate then get a calendar invite */
+  interviewId?: string;
+  /** Candidate's IANA timezone for the calendar invite */
+  timezone?: string | null;
+  /** Calendar invite SEQUENCE, from calendarSequence() when the change was made */
+  calendarSequence?: number;
+  /** Last time the candidate can book a slot (for booking emails; scheduledAt is the earliest) */
+  bookingDeadline?: string;
 }
 
 /**
@@ -184,6 +199,99 @@ Good luck!
   return { subject, html, text };
 }
 
+/**
+ * Interview Booking Template (the candidate picks their own time)
+ */
+export function getInterviewBookingTemplate(data: EmailTemplateData): EmailTemplate {
+  const earliest = formatScheduledTime(data.scheduledAt);
+  const deadline = data.bookingDeadline ? formatScheduledTime(data.bookingDeadline) : null;
+
+  const subject = `Choose a Time for Your AI Interview for ${data.jobTitle}`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="logo">${data.companyName || "Lontario"}</div>
+    </div>
+    
+    <h2 style="text-align: center; color: #111827;">Book Your Interview</h2>
+    
+    <p>Hi ${data.candidateName},</p>
+    
+    <p>You're invited to an AI interview for the <strong>${data.jobTitle}</strong> position. Pick whichever time suits you best.</p>
+    
+    ${data.customMessage ? `<div class="content"><p style="margin: 0;">${data.customMessage}</p></div>` : ""}
+    
+    <div class="content">
+      <div class="details">
+        <div class="details-row">
+          <span class="details-label">Position</span>
+          <span class="details-value">${data.jobTitle}</span>
+        </div>
+        <div class="details-row">
+          <span class="details-label">Available from</span>
+          <span class="details-value">${earliest}</span>
+        </div>
+        ${
+          deadline
+            ? `<div class="details-row">
+          <span class="details-label">Book by</span>
+          <span class="details-value">${deadline}</span>
+        </div>`
+            : ""
+        }
+        <div class="details-row">
+          <span class="details-label">Duration</span>
+          <span class="details-value">~${data.durationMinutes} minutes</span>
+        </div>
+      </div>
+      
+      <div style="text-align: center; margin-top: 24px;">
+        <a href="${data.interviewLink}" class="button">Choose a Time</a>
+      </div>
+      <p style="text-align: center; font-size: 12px; color: #6b7280; margin-top: 12px;">
+        Use the same link to start the interview at the time you choose.
+      </p>
+    </div>
+    
+    <p>If you have any questions, please reply to this email.</p>
+    
+    <div class="footer">
+      <p>This email was sent by ${data.companyName || "Lontario"}</p>
+      <p>If you didn't apply for this position, please ignore this email.</p>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const text = `
+Book Your Interview
+
+Hi ${data.candidateName},
+
+You're invited to an AI interview for the ${data.jobTitle} position. Pick whichever time suits you best.
+
+${data.customMessage ? `Message from the recruiter:\n${data.customMessage}\n` : ""}
+Details:
+- Position: ${data.jobTitle}
+- Available from: ${earliest}
+${deadline ? `- Book by: ${deadline}\n` : ""}- Duration: ~${data.durationMinutes} minutes
+
+Choose a time here: ${data.interviewLink}
+
+Use the same link to start the interview at the time you choose.
+`;
+
+  return { subject, html, text };
+}
+
 /**
  * Interview Reminder Template
  */
@@ -353,7 +461,20 @@ export function getInterviewRescheduledTemplate(data: EmailTemplateData): EmailT
   const newTime = formatScheduledTime(data.scheduledAt);
   const oldTime = data.oldScheduledAt ? formatScheduledTime(data.oldScheduledAt) : null;
 
-  const subject = `Your Interview for ${data.jobTitle} Has Been Rescheduled`;
+  const byCandidate = data.rescheduledByCandidate ?? false;
+  const forRecruiter = byCandidate && data.recipientName !== undefined;
+
+  const subject = forRecruiter
+    ? `${data.candidateName} Rescheduled Their Interview for ${data.jobTitle}`
+    : `Your Interview for ${data.jobTitle} Has Been Rescheduled`;
+  const summary = forRecruiter
+    ? `${data.candidateName} rescheduled their AI interview for ${data.jobTitle}.`
+    : byCandidate
+      ? `Your AI interview for ${data.jobTitle} has been moved to the time you picked.`
+      : `Your AI interview for ${data.jobTitle} has been rescheduled.`;
+  const closing = byCandidate
+    ? ""
+    : "We apologize for any inconvenience this may cause.";
 
   const html = `
 <!DOCTYPE html>
@@ -370,12 +491,13 @@ export function getInterviewRescheduledTemplate(data: EmailTemplateData): EmailT
     
     <h2 style="text-align: center; color: #111827;">Interview Rescheduled</h2>
     
-    <p>Hi ${data.candidateName},</p>
+    <p>Hi ${data.recipientName ?? data.candidateName},</p>
     
-    <p>Your AI interview for <strong>${data.jobTitle}</strong> has been rescheduled.</p>
+    <p>${summary}</p>
     
     <div class="content">
       ${oldTime ? `<p style="color: #6b7280; text-decoration: line-through;">Previously: ${oldTime}</p>` : ""}
+      ${data.candidateReason ? `<p style="margin: 0;"><strong>Reason:</strong> ${data.candidateReason}</p>` : ""}
       
       <div class="details">
         <div class="details-row">
@@ -393,7 +515,7 @@ export function getInterviewRescheduledTemplate(data: EmailTemplateData): EmailT
       </div>
     </div>
     
-    <p>We apologize for any inconvenience this may cause.</p>
+    ${closing ? `<p>${closing}</p>` : ""}
     
     <div class="footer">
       <p>This email was sent by ${data.companyName || "Lontario"}</p>
@@ -405,17 +527,17 @@ export function getInterviewRescheduledTemplate(data: EmailTemplateData): EmailT
   const text = `
 Interview Rescheduled
 
-Hi ${data.candidateName},
+Hi ${data.recipientName ?? data.candidateName},
 
-Your AI interview for ${data.jobTitle} has been rescheduled.
+${summary}
 
-${oldTime ? `Previously: ${oldTime}\n` : ""}
+${oldTime ? `Previously: ${oldTime}\n` : ""}${data.candidateReason ? `Reason: ${data.candidateReason}\n` : ""}
 New Date & Time: ${newTime}
 Duration: ~${data.durationMinutes} minutes
 
-View your interview: ${data.interviewLink}
+View interview: ${data.interviewLink}
 
-We apologize for any inconvenience.
+${closing}
 `;
 
   return { subject, html, text };
@@ -483,3 +605,65 @@ We appreciate your interest and wish you the best.
 
   return { subject, html, text };
 }
+
+/**
+ * Interview Declined Template (to the recruiter)
+ */
+export function getInterviewDeclinedTemplate(data: EmailTemplateData): EmailTemplate {
+  const scheduledTime = formatScheduledTime(data.scheduledAt);
+
+  const subject = `${data.candidateName} Declined Their Interview for ${data.jobTitle}`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>${baseStyles}</style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="logo">${data.companyName || "Lontario"}</div>
+    </div>
+    
+    <h2 style="text-align: center; color: #111827;">Interview Declined</h2>
+    
+    <p>Hi ${data.recipientName ?? "there"},</p>
+    
+    <p>${data.candidateName} declined their AI interview for <strong>${data.jobTitle}</strong>, which was scheduled for ${scheduledTime}. The interview has been cancelled.</p>
+    
+    ${
+      data.candidateReason
+        ? `
+    <div class="content">
+      <p style="margin: 0;"><strong>Reason:</strong> ${data.candidateReason}</p>
+    </div>
+    `
+        : ""
+    }
+    
+    <div style="text-align: center; margin-top: 24px;">
+      <a href="${data.interviewLink}" class="button">View Candidate</a>
+    </div>
+    
+    <div class="footer">
+      <p>This email was sent by ${data.companyName || "Lontario"}</p>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const text = `
+Interview Declined
+
+Hi ${data.recipientName ?? "there"},
+
+${data.candidateName} declined their AI interview for ${data.jobTitle}, which was scheduled for ${scheduledTime}. The interview has been cancelled.
+
+${data.candidateReason ? `Reason: ${data.candidateReason}\n` : ""}
+View candidate: ${data.interviewLink}
+`;
+
+  return { subject, html, text };
+}
@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Email transports
+ *
+ * Rendered emails are handed to a small transport interface so deployments
+ * can choose how they leave the server:
+ * - `resend` - Resend API (default when RESEND_API_KEY is set)
+ * - `smtp` - any SMTP server (default when SMTP_HOST is set)
+ * - `outbox` - nothing is sent; messages are kept on disk or in the
+ *   `email_outbox` table and shown at /dev/mailbox (default otherwise,
+ *   outside production)
+ *
+ * In production the outbox is only used when EMAIL_TRANSPORT=outbox asks
+ * for it; otherwise sends fail until Resend or SMTP is configured, so a
+ * missing key can't silently swallow candidate emails.
+ *
+ * @module lib/email/transports
+ * @requires EMAIL_TRANSPORT (optional) - "resend", "smtp" or "outbox"
+ */
+
+import { createOutboxTransport } from "./outbox";
+import { createResendTransport } from "./resend";
+import { createSmtpTransport } from "./smtp";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Available transports */
+export type EmailTransportName = "resend" | "smtp" | "outbox";
+
+/** A file attached to an email */
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  /** Full Content-Type, e.g. "text/calendar; charset=utf-8; method=REQUEST" */
+  contentType: string;
+}
+
+/**
+ * A rendered email, ready to send
+ */
+export interface OutgoingEmail {
+  /** "Name <address>" or a bare address */
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Delivery backend for rendered emails
+ */
+export interface EmailTransport {
+  /** Transport name, for logging */
+  readonly name: EmailTransportName;
+  /**
+   * Sends an email
+   * @returns The message ID assigned by the transport
+   * @throws Error if the email can't be sent
+   */
+  send(email: OutgoingEmail): Promise<{ messageId: string }>;
+}
+
+// ============================================================
+// TRANSPORT SELECTION
+// ============================================================
+
+/** Singleton transport instance */
+let transport: EmailTransport | null = null;
+
+/**
+ * The configured transport name
+ *
+ * Uses EMAIL_TRANSPORT if set, otherwise Resend when RESEND_API_KEY is
+ * available, SMTP when SMTP_HOST is, and the outbox when neither is.
+ */
+export function getEmailTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT;
+  if (configured === "resend" || configured === "smtp" || configured === "outbox") {
+    return configured;
+  }
+  if (process.env.RESEND_API_KEY) return "resend";
+  if (process.env.SMTP_HOST) return "smtp";
+  return "outbox";
+}
+
+/**
+ * Gets the configured email transport
+ *
+ * @throws Error in production if no transport is configured (neither
+ *   Resend nor SMTP, and EMAIL_TRANSPORT isn't set)
+ *
+ * @example
+ * const { messageId } = await getEmailTransport().send({ from, to, subject, html, text });
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    const name = getEmailTransportName();
+    if (name === "outbox" && !process.env.EMAIL_TRANSPORT && process.env.NODE_ENV === "production") {
+      throw new Error(
+        "No email transport is configured: set RESEND_API_KEY or SMTP_HOST, or EMAIL_TRANSPORT=outbox to keep emails in the outbox"
+      );
+    }
+    switch (name) {
+      case "resend":
+        transport = createResendTransport();
+        break;
+      case "smtp":
+        transport = createSmtpTransport();
+        break;
+      case "outbox":
+        transport = createOutboxTransport();
+        break;
+    }
+  }
+  return transport;
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Outbox email transport
+ *
+ * Keeps emails instead of sending them, so scheduling, booking and reminder
+ * flows can be tried end to end without an email provider. Messages are
+ * stored with their rendered HTML, text, attachments and raw MIME:
+ * - `file` - a .json and an .eml file per message under EMAIL_OUTBOX_DIR
+ * - `database` - rows in the `email_outbox` table (default when the
+ *   service role key is set, so every server instance shares one outbox)
+ *
+ * The dev mailbox (/dev/mailbox) lists them.
+ *
+ * @module lib/email/transports/outbox
+ * @requires EMAIL_OUTBOX (optional) - "file" or "database"
+ * @requires EMAIL_OUTBOX_DIR (optional) - defaults to ".outbox" in the project root
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { OutboxEmail } from "@/types";
+import { buildMimeMessage, createMessageId } from "../mime";
+import type { EmailTransport } from "./index";
+
+// ============================================================
+// STORAGE
+// ============================================================
+
+/** Where outbox messages are kept */
+function outboxDriver(): "file" | "database" {
+  const configured = process.env.EMAIL_OUTBOX;
+  if (configured === "file" || configured === "database") return configured;
+  return process.env.SUPABASE_SERVICE_ROLE_KEY ? "database" : "file";
+}
+
+/** Directory of the file outbox */
+function outboxDir(): string {
+  return path.resolve(process.env.EMAIL_OUTBOX_DIR || ".outbox");
+}
+
+/**
+ * Lists kept emails, newest first
+ */
+export async function listOutboxEmails(limit = 50): Promise<OutboxEmail[]> {
+  if (outboxDriver() === "database") {
+    const { data, error } = await createAdminClient()
+      .from("email_outbox")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list outbox: ${error.message}`);
+    }
+    return (data ?? []) as OutboxEmail[];
+  }
+
+  let files: string[];
+  try {
+    files = await readdir(outboxDir());
+  } catch {
+    // Nothing has been sent yet
+    return [];
+  }
+
+  // File names start with the time, so they sort newest last
+  const newest = files
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .reverse()
+    .slice(0, limit);
+
+  return Promise.all(
+    newest.map(async (file) =>
+      JSON.parse(await readFile(path.join(outboxDir(), file), "utf8")) as OutboxEmail
+    )
+  );
+}
+
+/**
+ * Deletes every kept email
+ */
+export async function clearOutbox(): Promise<void> {
+  if (outboxDriver() === "database") {
+    const { error } = await createAdminClient()
+      .from("email_outbox")
+      .delete()
+      .not("id", "is", null);
+
+    if (error) {
+      throw new Error(`Failed to clear outbox: ${error.message}`);
+    }
+    return;
+  }
+
+  await rm(outboxDir(), { recursive: true, force: true });
+}
+
+// ============================================================
+// TRANSPORT
+// ============================================================
+
+/**
+ * Creates a transport that keeps emails in the outbox
+ */
+export function createOutboxTransport(): EmailTransport {
+  return {
+    name: "outbox",
+
+    async send(email) {
+      const now = new Date();
+      const messageId = createMessageId(email.from);
+      const record: Omit<OutboxEmail, "id"> = {
+        message_id: messageId,
+        from_address: email.from,
+        to_address: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        attachments: (email.attachments ?? []).map((attachment) => ({
+          filename: attachment.filename,
+          content_type: attachment.contentType,
+          content: Buffer.from(attachment.content).toString("base64"),
+        })),
+        raw: buildMimeMessage(email, messageId, now),
+        created_at: now.toISOString(),
+      };
+
+      if (outboxDriver() === "database") {
+        const { error } = await createAdminClient().from("email_outbox").insert(record);
+        if (error) {
+          throw new Error(`Failed to write to outbox: ${error.message}`);
+        }
+      } else {
+        const id = `${now.getTime()}-${randomUUID().slice(0, 8)}`;
+        await mkdir(outboxDir(), { recursive: true });
+        await writeFile(path.join(outboxDir(), `${id}.eml`), record.raw);
+        await writeFile(path.join(outboxDir(), `${id}.json`), JSON.stringify({ id, ...record }, null, 2));
+      }
+
+      return { messageId };
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Resend email transport
+ *
+ * @module lib/email/transports/resend
+ * @requires RESEND_API_KEY
+ * @requires RESEND_WEBHOOK_SECRET (optional) - signing secret of the delivery webhook
+ * @see https://resend.com/docs
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { Resend } from "resend";
+import type { EmailTransport } from "./index";
+
+/** Webhooks signed longer ago than this are rejected as replays */
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Creates a transport that sends through the Resend API
+ * @throws Error if RESEND_API_KEY is not configured
+ */
+export function createResendTransport(): EmailTransport {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    throw new Error("RESEND_API_KEY environment variable is not set");
+  }
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+
+    async send({ from, to, subject, html, text, attachments }) {
+      const result = await resend.emails.send({
+        from,
+        to,
+        subject,
+        html,
+        text,
+        ...(attachments?.length && { attachments }),
+      });
+
+      if (result.error || !result.data) {
+        throw new Error(result.error?.message || "Resend returned no message ID");
+      }
+      return { messageId: result.data.id };
+    },
+  };
+}
+
+/**
+ * Verifies a Resend webhook's signature (Resend signs webhooks with Svix)
+ *
+ * @param body - The raw request body, exactly as received
+ * @returns false if the signature is missing, wrong or too old, or if
+ *   RESEND_WEBHOOK_SECRET is not configured
+ */
+export function verifyResendWebhook(body: string, headers: Headers): boolean {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  const id = headers.get("svix-id");
+  const timestamp = headers.get("svix-timestamp");
+  const signatures = headers.get("svix-signature");
+  if (!secret || !id || !timestamp || !signatures) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+  const expected = createHmac("sha256", Buffer.from(secret.replace(/^whsec_/, ""), "base64"))
+    .update(`${id}.${timestamp}.${body}`)
+    .digest();
+
+  // Space-separated "v1,<base64>" entries; any one matching is enough
+  return signatures.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    if (version !== "v1" || !signature) return false;
+    const actual = Buffer.from(signature, "base64");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+}
@@ -0,0 +1,270 @@
+/**
+ * @fileoverview SMTP email transport
+ *
+ * Sends through any SMTP server (a mail relay, a provider's SMTP endpoint or
+ * a local catcher such as Mailpit). Uses implicit TLS when SMTP_SECURE is
+ * "true" (usually port 465), otherwise upgrades with STARTTLS whenever the
+ * server offers it. Authenticates with AUTH PLAIN or LOGIN when SMTP_USER
+ * is set, and only over TLS unless SMTP_ALLOW_INSECURE is "true" (e.g. a
+ * local catcher without TLS). One connection per message.
+ *
+ * @module lib/email/transports/smtp
+ * @requires SMTP_HOST
+ * @requires SMTP_PORT (optional) - defaults to 465 with SMTP_SECURE, else 587
+ * @requires SMTP_SECURE (optional) - "true" for implicit TLS
+ * @requires SMTP_USER, SMTP_PASSWORD (optional) - credentials
+ * @requires SMTP_ALLOW_INSECURE (optional) - "true" to send credentials without TLS
+ */
+
+import net from "net";
+import os from "os";
+import tls from "tls";
+import { buildMimeMessage, createMessageId, parseAddress } from "../mime";
+import type { EmailTransport } from "./index";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** A connection with no traffic for this long is dropped */
+const SOCKET_TIMEOUT_MS = 30_000;
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Authenticate even when the connection isn't encrypted */
+  allowInsecure: boolean;
+}
+
+/** A server reply: status code and text lines */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Command/reply exchange over one socket
+ */
+interface SmtpSession {
+  /** Reads the next (possibly multi-line) reply */
+  read(): Promise<SmtpReply>;
+  /**
+   * Sends a command and checks the reply code
+   * @param label - Used in errors instead of the command, which may hold credentials
+   */
+  command(line: string, expected: number[], label?: string): Promise<SmtpReply>;
+  /** Stops reading from the socket, e.g. before a TLS upgrade */
+  detach(): void;
+}
+
+// ============================================================
+// SESSION
+// ============================================================
+
+/**
+ * Wraps a connected socket in a line-based SMTP session
+ */
+function openSession(socket: net.Socket): SmtpSession {
+  let buffer = "";
+  const lines: string[] = [];
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index: number;
+    while ((index = buffer.indexOf("\r\n")) >= 0) {
+      lines.push(buffer.slice(0, index));
+      buffer = buffer.slice(index + 2);
+    }
+    wake?.();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    wake?.();
+  };
+  const onClose = () => {
+    failure ??= new Error("SMTP connection closed");
+    wake?.();
+  };
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  const nextLine = async (): Promise<string> => {
+    while (lines.length === 0) {
+      if (failure) throw failure;
+      await new Promise<void>((resolve) => (wake = resolve));
+      wake = null;
+    }
+    return lines.shift()!;
+  };
+
+  const read = async (): Promise<SmtpReply> => {
+    const replyLines: string[] = [];
+    for (;;) {
+      const line = await nextLine();
+      replyLines.push(line.slice(4));
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line.charAt(3) !== "-") {
+        return { code: Number(line.slice(0, 3)), lines: replyLines };
+      }
+    }
+  };
+
+  return {
+    read,
+
+    async command(line, expected, label = line.split(" ")[0]) {
+      socket.write(`${line}\r\n`);
+      const reply = await read();
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(" ")}`);
+      }
+      return reply;
+    },
+
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+/** Opens a plain or TLS connection */
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+    socket.once("error", reject);
+    socket.once(config.secure ? "secureConnect" : "connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+  });
+}
+
+/** Upgrades a plain connection after STARTTLS */
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host });
+    secure.setTimeout(SOCKET_TIMEOUT_MS, () => secure.destroy(new Error("SMTP connection timed out")));
+    secure.once("error", reject);
+    secure.once("secureConnect", () => {
+      secure.off("error", reject);
+      resolve(secure);
+    });
+  });
+}
+
+/** Escapes lines starting with "." and terminates the DATA section */
+function dotStuff(message: string): string {
+  const body = message.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  return `${body.endsWith("\r\n") ? body : `${body}\r\n`}.`;
+}
+
+// ============================================================
+// DELIVERY
+// ============================================================
+
+/**
+ * Delivers one message over a new connection
+ */
+async function deliver(config: SmtpConfig, from: string, to: string, message: string) {
+  let socket = await connect(config);
+  let session = openSession(socket);
+
+  try {
+    const greeting = await session.read();
+    if (greeting.code !== 220) {
+      throw new Error(`SMTP server refused the connection: ${greeting.code} ${greeting.lines.join(" ")}`);
+    }
+
+    const hostname = os.hostname() || "localhost";
+    let ehlo = await session.command(`EHLO ${hostname}`, [250]);
+
+    const offers = (extension: string) =>
+      ehlo.lines.some((line) => line.toUpperCase().startsWith(extension));
+
+    let encrypted = config.secure;
+    if (!encrypted && offers("STARTTLS")) {
+      await session.command("STARTTLS", [220]);
+      session.detach();
+      socket = await upgrade(socket, config.host);
+      session = openSession(socket);
+      ehlo = await session.command(`EHLO ${hostname}`, [250]);
+      encrypted = true;
+    }
+
+    if (config.user) {
+      if (!encrypted && !config.allowInsecure) {
+        throw new Error(
+          "SMTP server doesn't offer STARTTLS; refusing to send credentials unencrypted (set SMTP_ALLOW_INSECURE=true to allow it)"
+        );
+      }
+      const password = config.password ?? "";
+      const authLine = ehlo.lines.find((line) => line.toUpperCase().startsWith("AUTH")) ?? "";
+      if (/\bPLAIN\b/i.test(authLine)) {
+        const credentials = Buffer.from(`\0${config.user}\0${password}`).toString("base64");
+        await session.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+      } else {
+        await session.command("AUTH LOGIN", [334]);
+        await session.command(Buffer.from(config.user).toString("base64"), [334], "AUTH");
+        await session.command(Buffer.from(password).toString("base64"), [235], "AUTH");
+      }
+    }
+
+    await session.command(`MAIL FROM:<${from}>`, [250], "MAIL FROM");
+    await session.command(`RCPT TO:<${to}>`, [250, 251], "RCPT TO");
+    await session.command("DATA", [354]);
+    await session.command(dotStuff(message), [250], "DATA");
+
+    // The message is accepted; a failed QUIT doesn't matter
+    await session.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    session.detach();
+    socket.destroy();
+  }
+}
+
+/**
+ * Creates a transport that sends through an SMTP server
+ * @throws Error if SMTP_HOST is not configured
+ */
+export function createSmtpTransport(): EmailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST environment variable is not set");
+  }
+  const secure = process.env.SMTP_SECURE === "true";
+  const config: SmtpConfig = {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD,
+    allowInsecure: process.env.SMTP_ALLOW_INSECURE === "true",
+  };
+
+  return {
+    name: "smtp",
+
+    async send(email) {
+      const messageId = createMessageId(email.from);
+      const message = buildMimeMessage(email, messageId);
+      await deliver(config, parseAddress(email.from).email, parseAddress(email.to).email, message);
+      return { messageId };
+    },
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Interview availability and candidate rescheduling
+ *
+ * When scheduling, a recruiter can set an availability (InterviewAvailability):
+ * a date range plus daily hours in a fixed timezone or the candidate's own.
+ * Candidates can then book a start time inside it from a booking link, or
+ * move their scheduled interview to another slot, up to
+ * `max_candidate_reschedules` times.
+ *
+ * Pure helpers, safe to use from the candidate page.
+ *
+ * @module lib/interview-availability
+ */
+
+import {
+  InterviewAvailabilitySchema,
+  type AIInterview,
+  type InterviewAvailability,
+} from "@/types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Slots offered to the candidate start on these boundaries */
+export const SLOT_STEP_MINUTES = 30;
+
+/** A new slot must start at least this far ahead */
+export const MIN_RESCHEDULE_NOTICE_MINUTES = 30;
+
+/** Most slots listed, so a long availability doesn't build a huge list */
+const MAX_SLOTS = 1000;
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * The interview fields that decide whether the candidate can reschedule
+ */
+export type ReschedulableInterview = Pick<
+  AIInterview,
+  | "status"
+  | "started_at"
+  | "availability"
+  | "max_candidate_reschedules"
+  | "candidate_reschedule_count"
+>;
+
+/** Options for isSlotAvailable() and listAvailableSlots() */
+export interface SlotOptions {
+  /** The candidate's IANA timezone, for availabilities in their local time */
+  candidateTimezone?: string | null;
+  now?: Date;
+}
+
+/**
+ * Whether the candidate can reschedule, and why not
+ */
+export type CandidateRescheduleStatus =
+  | { allowed: true; remaining: number }
+  | { allowed: false; reason: string };
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Reads a stored availability; null if unset or malformed
+ */
+export function parseAvailability(value: unknown): InterviewAvailability | null {
+  const parsed = InterviewAvailabilitySchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/** "HH:mm" to minutes after midnight */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes after local midnight of an instant in a timezone
+ */
+function localMinutes(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+// ============================================================
+// SLOTS
+// ============================================================
+
+/**
+ * Whether an interview starting at `start` fits the availability
+ *
+ * The whole interview must fall inside the date range and the day's hours.
+ */
+export function isSlotAvailable(
+  availability: InterviewAvailability,
+  start: Date,
+  durationMinutes: number,
+  { candidateTimezone, now = new Date() }: SlotOptions = {}
+): boolean {
+  const end = new Date(start.getTime() + durationMinutes * 60_000);
+  if (start.getTime() < now.getTime() + MIN_RESCHEDULE_NOTICE_MINUTES * 60_000) return false;
+  if (start < new Date(availability.starts_at) || end > new Date(availability.ends_at)) return false;
+
+  let startMinutes: number;
+  try {
+    startMinutes = localMinutes(start, availability.timezone ?? candidateTimezone ?? "UTC");
+  } catch {
+    // Unknown timezone
+    return false;
+  }
+  return (
+    startMinutes >= toMinutes(availability.day_start) &&
+    startMinutes + durationMinutes <= toMinutes(availability.day_end)
+  );
+}
+
+/**
+ * Start times the candidate can pick, every SLOT_STEP_MINUTES
+ *
+ * @returns ISO 8601 start times, earliest first
+ */
+export function listAvailableSlots(
+  availability: InterviewAvailability,
+  durationMinutes: number,
+  { candidateTimezone, now = new Date() }: SlotOptions = {}
+): string[] {
+  const step = SLOT_STEP_MINUTES * 60_000;
+  const earliest = Math.max(
+    new Date(availability.starts_at).getTime(),
+    now.getTime() + MIN_RESCHEDULE_NOTICE_MINUTES * 60_000
+  );
+  const lastStart = new Date(availability.ends_at).getTime() - durationMinutes * 60_000;
+
+  const slots: string[] = [];
+  for (let time = Math.ceil(earliest / step) * step; time <= lastStart; time += step) {
+    const start = new Date(time);
+    if (isSlotAvailable(availability, start, durationMinutes, { candidateTimezone, now })) {
+      slots.push(start.toISOString());
+      if (slots.length >= MAX_SLOTS) break;
+    }
+  }
+  return slots;
+}
+
+// ============================================================
+// RESCHEDULING
+// ============================================================
+
+/**
+ * Whether the candidate can still reschedule their interview
+ */
+export function candidateRescheduleStatus(interview: ReschedulableInterview): CandidateRescheduleStatus {
+  if (interview.status !== "scheduled" || interview.started_at) {
+    return { allowed: false, reason: "Only interviews that haven't started can be rescheduled" };
+  }
+  if (!parseAvailability(interview.availability)) {
+    return { allowed: false, reason: "This interview can't be rescheduled online" };
+  }
+  const remaining = interview.max_candidate_reschedules - interview.candidate_reschedule_count;
+  if (remaining <= 0) {
+    return { allowed: false, reason: "You've already rescheduled this interview as many times as allowed" };
+  }
+  return { allowed: true, remaining };
+}
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Interview clock and time limits
+ *
+ * The interview clock runs on the server from `ai_interviews.started_at`.
+ * An interview can enforce two hard limits, both stretched by the
+ * candidate's extended-time accommodation (`interview_time_multiplier`):
+ * - Overall: `interview_duration_minutes` when `enforce_time_limit` is set;
+ *   the interview is then auto-submitted with the answers saved so far
+ * - Per question: `question_time_limit_minutes` from when the question was
+ *   first opened (`interview_questions.started_at`, set on the server; see
+ *   startQuestionClock in lib/interview-completion); it then locks
+ *
+ * Answers arriving within a short grace period after a deadline are still
+ * accepted, so the candidate's own auto-save isn't lost to network latency.
+ *
+ * Pure helpers, safe to use from the candidate page.
+ *
+ * @module lib/interview-clock
+ */
+
+import type { AIInterview, InterviewClock, InterviewQuestion } from "@/types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Answers saved this long after a deadline are still accepted */
+export const TIME_LIMIT_GRACE_SECONDS = 15;
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * The interview fields the clock is computed from
+ */
+export type ClockInterview = Pick<
+  AIInterview,
+  "started_at" | "interview_duration_minutes" | "enforce_time_limit" | "question_time_limit_minutes"
+>;
+
+/**
+ * The question fields the clock is computed from
+ */
+export type ClockQuestion = Pick<InterviewQuestion, "id" | "started_at">;
+
+// ============================================================
+// DEADLINES
+// ============================================================
+
+/**
+ * Reads a stored multiplier (NUMERIC comes back as a string); 1 when unset
+ */
+export function normalizeTimeMultiplier(value: number | string | null | undefined): number {
+  const multiplier = Number(value);
+  return Number.isFinite(multiplier) && multiplier >= 1 ? multiplier : 1;
+}
+
+/**
+ * When the interview is auto-submitted, or null if it's untimed or not started
+ */
+export function interviewDeadline(interview: ClockInterview, multiplier: number): Date | null {
+  if (!interview.enforce_time_limit || !interview.started_at) return null;
+  const minutes = (interview.interview_duration_minutes || 30) * multiplier;
+  return new Date(new Date(interview.started_at).getTime() + minutes * 60_000);
+}
+
+/**
+ * When a question locks, or null if questions are uncapped or it wasn't opened
+ */
+export function questionDeadline(
+  interview: ClockInterview,
+  question: ClockQuestion,
+  multiplier: number
+): Date | null {
+  if (!interview.question_time_limit_minutes || !question.started_at) return null;
+  const minutes = interview.question_time_limit_minutes * multiplier;
+  return new Date(new Date(question.started_at).getTime() + minutes * 60_000);
+}
+
+/**
+ * Whether a deadline (plus the grace period) has passed
+ */
+export function isPastDeadline(deadline: Date | null, now: Date = new Date()): boolean {
+  return deadline !== null && now.getTime() > deadline.getTime() + TIME_LIMIT_GRACE_SECONDS * 1000;
+}
+
+/**
+ * The clock sent to the candidate
+ *
+ * @param question - Question the candidate is on, if any
+ * @param timeUp - The interview was auto-submitted
+ */
+export function buildInterviewClock(
+  interview: ClockInterview,
+  multiplier: number,
+  question: ClockQuestion | null,
+  timeUp: boolean,
+  now: Date = new Date()
+): InterviewClock {
+  const deadline = interviewDeadline(interview, multiplier);
+  const currentQuestionDeadline = question ? questionDeadline(interview, question, multiplier) : null;
+
+  return {
+    server_time: now.toISOString(),
+    started_at: interview.started_at,
+    deadline: deadline?.toISOString() ?? null,
+    question_id: question?.id ?? null,
+    question_deadline: currentQuestionDeadline?.toISOString() ?? null,
+    time_multiplier: multiplier,
+    time_up: timeUp,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Completing AI interviews
+ *
+ * An interview is completed when the candidate submits it, or
+ * automatically when its enforced time limit runs out (see
+ * lib/interview-clock): on the next request from the candidate's page, or
+ * by the /api/cron/interview-status sweep if the page was closed. Either
+ * way the answers saved so far are evaluated in the background; when time
+ * ran out, autosaved drafts of unanswered questions count as answers.
+ *
+ * Also starts per-question time limits, which saving a draft or answer
+ * does if the candidate's page didn't.
+ *
+ * Server-only. Uses the admin client, as candidates have no session.
+ *
+ * @module lib/interview-completion
+ */
+
+import { enqueueJob } from "@/lib/queue";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { AIInterview } from "@/types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Statuses an interview can be completed from */
+const COMPLETABLE_STATUSES = ["in_progress", "scheduled", "ready"];
+
+/**
+ * Interview columns and candidate join the clock needs, for
+ * `.select()` on ai_interviews
+ */
+export const INTERVIEW_CLOCK_COLUMNS =
+  "started_at, interview_duration_minutes, enforce_time_limit, question_time_limit_minutes, candidates:candidate_id (interview_time_multiplier)";
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Reads the candidate's time multiplier from a row selected with
+ * INTERVIEW_CLOCK_COLUMNS
+ */
+export function joinedTimeMultiplier(interview: { candidates?: unknown }): number | string | null {
+  const candidate = interview.candidates as { interview_time_multiplier: number | string | null } | null;
+  return candidate?.interview_time_multiplier ?? null;
+}
+
+// ============================================================
+// COMPLETION
+// ============================================================
+
+/**
+ * Completes an interview and queues its evaluation
+ *
+ * Safe to call more than once: only the call that moves the interview to
+ * "completed" logs the activity.
+ *
+ * @param options.timeUp - Completed because the time limit ran out
+ * @returns false if the interview was already completed (or cancelled)
+ * @throws Error if the evaluation can't be queued or the interview updated
+ *
+ * @example
+ * if (isPastDeadline(interviewDeadline(interview, multiplier))) {
+ *   await completeInterview(interview, { timeUp: true });
+ * }
+ */
+export async function completeInterview(
+  interview: Pick<AIInterview, "id" | "candidate_id" | "organization_id">,
+  options: { timeUp?: boolean; now?: Date } = {}
+): Promise<boolean> {
+  const supabase = createAdminClient();
+  const now = options.now ?? new Date();
+
+  // What the candidate was writing when time ran out is their answer
+  if (options.timeUp) {
+    const { data: drafts } = await supabase
+      .from("interview_questions")
+      .select("id, draft_answer, draft_saved_at")
+      .eq("interview_id", interview.id)
+      .is("candidate_answer", null)
+      .not("draft_answer", "is", null);
+
+    for (const draft of drafts ?? []) {
+      if (!draft.draft_answer.trim()) continue;
+      await supabase
+        .from("interview_questions")
+        .update({ candidate_answer: draft.draft_answer, answered_at: draft.draft_saved_at })
+        .eq("id", draft.id)
+        .is("candidate_answer", null);
+    }
+  }
+
+  // Queue AI evaluation before completing, so a completed interview is never left unevaluated
+  await enqueueJob(
+    "evaluate_interview",
+    { interview_id: interview.id },
+    { organizationId: interview.organization_id, dedupeKey: `evaluate_interview:${interview.id}` }
+  );
+
+  const { count } = await supabase
+    .from("interview_questions")
+    .select("id", { count: "exact" })
+    .eq("interview_id", interview.id)
+    .not("candidate_answer", "is", null);
+
+  // Mark the interview completed; the score is filled in by the evaluation job
+  const { data: completed, error: updateError } = await supabase
+    .from("ai_interviews")
+    .update({
+      status: "completed",
+      completed_at: now.toISOString(),
+      questions_answered: count || 0,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", interview.id)
+    .in("status", COMPLETABLE_STATUSES)
+    .select("id");
+
+  if (updateError) {
+    throw new Error(`Failed to complete interview: ${updateError.message}`);
+  }
+  if (!completed || completed.length === 0) return false;
+
+  // Update candidate's last activity (preserve original AI match analysis)
+  // Interview results are stored on ai_interviews table, not overwritten on candidate
+  await supabase
+    .from("candidates")
+    .update({ last_activity_at: now.toISOString() })
+    .eq("id", interview.candidate_id);
+
+  await supabase.from("candidate_activities").insert({
+    candidate_id: interview.candidate_id,
+    activity_type: "interview_completed",
+    metadata: {
+      interview_id: interview.id,
+      questions_answered: count || 0,
+      ...(options.timeUp && { time_up: true }),
+    },
+    notes: options.timeUp
+      ? "AI interview submitted automatically when time ran out"
+      : "Completed AI interview",
+    is_internal: false,
+  });
+
+  return true;
+}
+
+// ============================================================
+// QUESTION CLOCK
+// ============================================================
+
+/**
+ * Starts a question's time limit if it hasn't started yet
+ *
+ * The candidate's page starts it when the question is opened (`opened`,
+ * from the clock route). A draft or answer saved for a question that was
+ * never opened starts it from when the candidate could first have seen
+ * it: the latest answer to an earlier question, or the interview's start.
+ * Skipping the clock call therefore never skips the limit.
+ *
+ * Only the first start counts, even with concurrent requests.
+ *
+ * @returns The question with its `started_at`
+ *
+ * @example
+ * const started = await startQuestionClock(interview, question, now);
+ * if (isPastDeadline(questionDeadline(interview, started, multiplier), now)) { ... }
+ */
+export async function startQuestionClock<T extends { id: string; started_at: string | null }>(
+  interview: Pick<AIInterview, "id" | "started_at">,
+  question: T,
+  now: Date,
+  { opened = false }: { opened?: boolean } = {}
+): Promise<T> {
+  if (question.started_at) return question;
+
+  const supabase = createAdminClient();
+  let startedAt = now;
+
+  if (!opened) {
+    const { data: questions } = await supabase
+      .from("interview_questions")
+      .select("id, question_order, answered_at")
+      .eq("interview_id", interview.id);
+
+    const rows = questions ?? [];
+    const order = rows.find((q) => q.id === question.id)?.question_order ?? 0;
+    const previousAnswers = rows
+      .filter((q) => q.question_order < order && q.answered_at)
+      .map((q) => new Date(q.answered_at).getTime());
+    const shown = previousAnswers.length > 0
+      ? Math.max(...previousAnswers)
+      : interview.started_at
+        ? new Date(interview.started_at).getTime()
+        : now.getTime();
+    startedAt = new Date(Math.min(shown, now.getTime()));
+  }
+
+  await supabase
+    .from("interview_questions")
+    .update({ started_at: startedAt.toISOString() })
+    .eq("id", question.id)
+    .is("started_at", null);
+
+  const { data: started } = await supabase
+    .from("interview_questions")
+    .select("started_at")
+    .eq("id", question.id)
+    .single();
+
+  return { ...question, started_at: started?.started_at ?? startedAt.toISOString() };
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Integrity notes for unproctored AI interviews
+ *
+ * While a question is open the candidate's browser records pastes, the
+ * window losing focus and typing cadence (hooks/use-integrity-signals),
+ * saved per question in `interview_questions.integrity_signals`. These
+ * pure helpers turn the signals, and the time spent against
+ * `estimated_time_minutes`, into short notes for the recruiter's review.
+ *
+ * Notes describe what happened, never what it means: pasting from a
+ * draft, looking something up or a slow connection all look the same.
+ * They are prompts for what to probe in a human round, not findings.
+ *
+ * @module lib/interview-integrity
+ */
+
+import {
+  IntegritySignalsSchema,
+  type IntegrityNote,
+  type IntegritySignals,
+  type InterviewQuestion,
+  type Json,
+} from "@/types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Gaps between keystrokes shorter than this count as typing time */
+export const TYPING_GAP_MS = 2_000;
+
+/** Gaps between keystrokes longer than this count as long pauses */
+export const LONG_PAUSE_MS = 30_000;
+
+/** Pastes kept per question; the totals still count every paste */
+export const MAX_RECORDED_PASTES = 50;
+
+/** Pasted text is noted from this many characters and share of the answer */
+const PASTE_NOTE_MIN_CHARS = 100;
+const PASTE_NOTE_MIN_SHARE = 0.3;
+
+/** Focus loss is noted from this many times or this long away */
+const FOCUS_NOTE_MIN_LOSSES = 3;
+const FOCUS_NOTE_MIN_AWAY_MS = 30_000;
+
+/** Answers are noted when much faster or slower than the estimate */
+const FAST_ANSWER_SHARE = 0.25;
+const SLOW_ANSWER_SHARE = 2;
+const FAST_ANSWER_MIN_CHARS = 200;
+
+/** Sustained typing above this rate (characters a minute) is noted */
+const FAST_TYPING_CPM = 500;
+const TYPING_NOTE_MIN_KEYSTROKES = 200;
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * The question fields integrity notes are built from
+ */
+export type IntegrityQuestion = Pick<
+  InterviewQuestion,
+  | "question_order"
+  | "question_type"
+  | "candidate_answer"
+  | "time_spent_seconds"
+  | "estimated_time_minutes"
+  | "integrity_signals"
+>;
+
+// ============================================================
+// SIGNALS
+// ============================================================
+
+/**
+ * Signals for a question nothing has happened on yet
+ */
+export function emptyIntegritySignals(): IntegritySignals {
+  return {
+    pastes: [],
+    pasted_chars: 0,
+    focus_losses: 0,
+    away_ms: 0,
+    keystrokes: 0,
+    typing_ms: 0,
+    long_pauses: 0,
+  };
+}
+
+/**
+ * Reads stored signals, or null when missing or malformed
+ */
+export function parseIntegritySignals(json: Json | null | undefined): IntegritySignals | null {
+  const result = IntegritySignalsSchema.safeParse(json);
+  return result.success ? result.data : null;
+}
+
+// ============================================================
+// NOTES
+// ============================================================
+
+// e.g. "45s", "3m 20s"
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * Notes for one answered question, in display order
+ */
+function notesForQuestion(question: IntegrityQuestion): IntegrityNote[] {
+  const answer = question.candidate_answer ?? "";
+  if (!answer.trim()) return [];
+
+  const notes: IntegrityNote[] = [];
+  const note = (kind: IntegrityNote["kind"], message: string) =>
+    notes.push({ question_order: question.question_order, kind, message });
+  const signals = parseIntegritySignals(question.integrity_signals);
+
+  if (signals) {
+    const pastedShare = signals.pasted_chars / answer.length;
+    if (signals.pasted_chars >= PASTE_NOTE_MIN_CHARS && pastedShare >= PASTE_NOTE_MIN_SHARE) {
+      const first = signals.pastes[0];
+      note(
+        "paste",
+        `About ${Math.min(100, Math.round(pastedShare * 100))}% of the answer was pasted ` +
+          `(${plural(signals.pastes.length, "paste")}, ${signals.pasted_chars.toLocaleString()} characters` +
+          (first ? `, the first ${formatDuration(first.at_ms)} after the question opened)` : ")")
+      );
+    }
+
+    if (signals.focus_losses >= FOCUS_NOTE_MIN_LOSSES || signals.away_ms >= FOCUS_NOTE_MIN_AWAY_MS) {
+      note(
+        "focus",
+        `The interview window lost focus ${plural(signals.focus_losses, "time")}, ` +
+          `for ${formatDuration(signals.away_ms)} in total`
+      );
+    }
+
+    const typingMinutes = signals.typing_ms / 60_000;
+    if (signals.keystrokes >= TYPING_NOTE_MIN_KEYSTROKES && typingMinutes > 0) {
+      const cpm = Math.round(signals.keystrokes / typingMinutes);
+      if (cpm >= FAST_TYPING_CPM) {
+        note("typing", `Typed at about ${cpm} characters a minute, well above a typical pace`);
+      }
+    }
+
+    // Starter code makes keystroke counts meaningless for coding answers
+    const untypedChars = answer.length - signals.keystrokes - signals.pasted_chars;
+    if (question.question_type !== "coding" && answer.length >= FAST_ANSWER_MIN_CHARS && untypedChars > answer.length / 2) {
+      note(
+        "typing",
+        `Most of the answer wasn't typed or pasted in the interview ` +
+          `(${signals.keystrokes.toLocaleString()} keystrokes for ${answer.length.toLocaleString()} characters)`
+      );
+    }
+  }
+
+  const spentMs = (question.time_spent_seconds ?? 0) * 1000;
+  const estimatedMs = question.estimated_time_minutes * 60_000;
+  if (spentMs > 0 && estimatedMs > 0) {
+    if (spentMs < estimatedMs * FAST_ANSWER_SHARE && answer.length >= FAST_ANSWER_MIN_CHARS) {
+      note(
+        "timing",
+        `Answered in ${formatDuration(spentMs)}, against about ${question.estimated_time_minutes} min expected`
+      );
+    } else if (spentMs > estimatedMs * SLOW_ANSWER_SHARE) {
+      note(
+        "timing",
+        `Took ${formatDuration(spentMs)}, against about ${question.estimated_time_minutes} min expected`
+      );
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Builds integrity notes for an interview's answered questions, ordered
+ * by question
+ */
+export function buildIntegrityNotes(questions: IntegrityQuestion[]): IntegrityNote[] {
+  return [...questions]
+    .sort((a, b) => a.question_order - b.question_order)
+    .flatMap(notesForQuestion);
+}
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Labelled data from human interview reviews
+ *
+ * Recruiters can override per-question AI scores and the recommendation
+ * (PUT /api/interviews/:id/review). These pure helpers turn reviewed
+ * interviews into labelled data (GET /api/interviews/reviews/export):
+ * - One row per reviewed answer, with the AI and human values side by side
+ * - AI-vs-human agreement per month
+ * - CSV output
+ *
+ * @module lib/interview-review
+ */
+
+import type {
+  AIInterview,
+  InterviewQuestion,
+  InterviewReviewAgreement,
+  InterviewReviewExportRow,
+} from "@/types";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * A human-reviewed interview with its job title and answered questions
+ */
+export type ReviewedInterview = Pick<
+  AIInterview,
+  | "id"
+  | "job_id"
+  | "overall_score"
+  | "ai_overall_score"
+  | "ai_recommendation"
+  | "human_recommendation"
+  | "review_reason"
+> & {
+  human_reviewed_at: string;
+  jobs: { title: string | null } | null;
+  interview_questions: Pick<
+    InterviewQuestion,
+    | "id"
+    | "question_order"
+    | "category"
+    | "difficulty"
+    | "question_text"
+    | "candidate_answer"
+    | "ai_score"
+    | "ai_prompt_version"
+    | "human_score"
+    | "human_feedback"
+  >[];
+};
+
+// ============================================================
+// ROWS
+// ============================================================
+
+/** Column order of the CSV export */
+export const REVIEW_EXPORT_COLUMNS: (keyof InterviewReviewExportRow)[] = [
+  "interview_id",
+  "job_id",
+  "job_title",
+  "question_id",
+  "question_order",
+  "category",
+  "difficulty",
+  "question_text",
+  "candidate_answer",
+  "ai_score",
+  "ai_prompt_version",
+  "human_score",
+  "label_score",
+  "human_feedback",
+  "ai_overall_score",
+  "overall_score",
+  "ai_recommendation",
+  "human_recommendation",
+  "review_reason",
+  "reviewed_at",
+];
+
+const toNumber = (value: number | string | null) => (value === null ? null : Number(value));
+
+/**
+ * Flattens reviewed interviews into one row per graded answer
+ *
+ * Every graded answer of a reviewed interview is a label: an answer the
+ * reviewer didn't override has label_score = ai_score.
+ */
+export function buildReviewExportRows(interviews: ReviewedInterview[]): InterviewReviewExportRow[] {
+  return interviews.flatMap((interview) =>
+    interview.interview_questions
+      .filter((q) => q.ai_score !== null)
+      .sort((a, b) => a.question_order - b.question_order)
+      .map((q) => {
+        const aiScore = toNumber(q.ai_score);
+        const humanScore = toNumber(q.human_score);
+
+        return {
+          interview_id: interview.id,
+          job_id: interview.job_id,
+          job_title: interview.jobs?.title ?? null,
+          question_id: q.id,
+          question_order: q.question_order,
+          category: q.category,
+          difficulty: q.difficulty,
+          question_text: q.question_text,
+          candidate_answer: q.candidate_answer,
+          ai_score: aiScore,
+          ai_prompt_version: q.ai_prompt_version,
+          human_score: humanScore,
+          label_score: humanScore ?? aiScore,
+          human_feedback: q.human_feedback,
+          ai_overall_score: interview.ai_overall_score,
+          overall_score: interview.overall_score,
+          ai_recommendation: interview.ai_recommendation,
+          human_recommendation: interview.human_recommendation,
+          review_reason: interview.review_reason,
+          reviewed_at: interview.human_reviewed_at,
+        };
+      })
+  );
+}
+
+// ============================================================
+// AGREEMENT
+// ============================================================
+
+const rate = (count: number, total: number) => (total > 0 ? count / total : null);
+
+/**
+ * AI-vs-human agreement per calendar month (UTC) of review, newest first
+ */
+export function summarizeReviewAgreement(rows: InterviewReviewExportRow[]): InterviewReviewAgreement[] {
+  const byMonth = new Map<string, InterviewReviewExportRow[]>();
+  for (const row of rows) {
+    const month = row.reviewed_at.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), row]);
+  }
+
+  return Array.from(byMonth, ([month, monthRows]) => {
+    const scored = monthRows.filter(
+      (r): r is InterviewReviewExportRow & { ai_score: number; label_score: number } =>
+        r.ai_score !== null && r.label_score !== null
+    );
+    const errors = scored.map((r) => Math.abs(r.ai_score - r.label_score));
+    const interviews = new Map(monthRows.map((r) => [r.interview_id, r]));
+    const recommendationKept = Array.from(interviews.values()).filter(
+      (r) => r.human_recommendation === null || r.human_recommendation === r.ai_recommendation
+    ).length;
+
+    return {
+      month,
+      interviews_reviewed: interviews.size,
+      answers_reviewed: scored.length,
+      answers_overridden: monthRows.filter((r) => r.human_score !== null).length,
+      score_mean_absolute_error:
+        errors.length > 0
+          ? Math.round((errors.reduce((sum, e) => sum + e, 0) / errors.length) * 100) / 100
+          : null,
+      score_agreement_rate: rate(errors.filter((e) => e <= 1).length, errors.length),
+      recommendation_agreement_rate: rate(recommendationKept, interviews.size),
+    };
+  }).sort((a, b) => b.month.localeCompare(a.month));
+}
+
+// ============================================================
+// CSV
+// ============================================================
+
+/**
+ * Escapes one CSV field. Text starting with a formula character is
+ * prefixed with ' so spreadsheets don't evaluate candidate input.
+ */
+function csvField(value: string | number | null): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats export rows as CSV with a header row
+ */
+export function formatReviewExportCsv(rows: InterviewReviewExportRow[]): string {
+  const lines = [
+    REVIEW_EXPORT_COLUMNS.join(","),
+    ...rows.map((row) => REVIEW_EXPORT_COLUMNS.map((column) => csvField(row[column])).join(",")),
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,281 @@
+/**
+ * @fileoverview Rubric-weighted interview scoring
+ *
+ * Pure functions shared by interview evaluation, human review and the job
+ * settings UI:
+ * - Parsing a job's scoring settings out of the `jobs.interview_scoring` JSON column
+ * - Scoring an answer from its per-criterion AI scores, weighted by the
+ *   question's rubric
+ * - Combining answers into an overall 0-100 score, weighted by question
+ *   difficulty and category, and mapping it to a recommendation; a
+ *   recruiter's score override replaces the AI's
+ *
+ * AI grading of individual answers lives in lib/ai/interview-evaluation.
+ *
+ * @module lib/interview-scoring
+ */
+
+import {
+  AnswerEvaluationSchema,
+  InterviewScoringConfigSchema,
+  ScoringCriteriaSchema,
+  type AnswerEvaluation,
+  type InterviewQuestion,
+  type InterviewQuestionScore,
+  type InterviewRecommendation,
+  type InterviewRecommendationThresholds,
+  type InterviewScoreBreakdown,
+  type InterviewScoringConfig,
+  type Json,
+  type QuestionCategory,
+  type QuestionDifficulty,
+  type ScoringCriteria,
+} from "@/types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/**
+ * How much a question counts towards the overall score by difficulty
+ * A hard question answered well says more than an easy one.
+ */
+export const DIFFICULTY_WEIGHTS: Record<QuestionDifficulty, number> = {
+  easy: 1,
+  medium: 1.25,
+  hard: 1.5,
+};
+
+/**
+ * Scoring used when a job has no settings of its own
+ * Thresholds match the cutoffs used before scoring was configurable.
+ */
+export const DEFAULT_INTERVIEW_SCORING: InterviewScoringConfig = {
+  category_weights: {
+    technical: 1,
+    behavioral: 1,
+    "system-design": 1,
+    "problem-solving": 1,
+    "culture-fit": 1,
+  },
+  thresholds: {
+    strong_yes: 85,
+    yes: 70,
+    maybe: 55,
+    no: 40,
+  },
+};
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Reads a job's scoring settings, falling back to the defaults when unset or malformed
+ *
+ * @example
+ * const config = parseInterviewScoringConfig(job.interview_scoring);
+ */
+export function parseInterviewScoringConfig(value: Json | null | undefined): InterviewScoringConfig {
+  const parsed = InterviewScoringConfigSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_INTERVIEW_SCORING;
+}
+
+/**
+ * Reads an interview's stored score breakdown; null for interviews scored
+ * before breakdowns were stored
+ */
+export function parseInterviewScoreBreakdown(value: Json | null | undefined): InterviewScoreBreakdown | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const breakdown = value as unknown as InterviewScoreBreakdown;
+  return Array.isArray(breakdown.questions) && Array.isArray(breakdown.categories) ? breakdown : null;
+}
+
+/**
+ * Reads a question's rubric from its JSON column, dropping malformed criteria
+ */
+export function parseScoringRubric(value: Json | undefined): ScoringCriteria[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    const parsed = ScoringCriteriaSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/**
+ * Reads per-criterion AI scores from an answer's JSON column, dropping malformed entries
+ */
+export function parseEvaluationBreakdown(value: Json | undefined): AnswerEvaluation["breakdown"] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    const parsed = AnswerEvaluationSchema.shape.breakdown.element.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// ============================================================
+// SCORING
+// ============================================================
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const normalizeAspect = (aspect: string) => aspect.trim().toLowerCase();
+
+// Unknown or missing difficulties and categories count as 1
+const difficultyWeight = (difficulty: QuestionDifficulty | null) =>
+  (difficulty && DIFFICULTY_WEIGHTS[difficulty]) ?? 1;
+
+const categoryWeight = (config: InterviewScoringConfig, category: QuestionCategory | null) =>
+  (category && config.category_weights[category]) ?? 1;
+
+const effectiveScore = (question: Pick<InterviewQuestionScore, "score" | "human_score">) =>
+  question.human_score ?? question.score;
+
+/**
+ * Maps an overall score (0-100) to a hiring recommendation
+ */
+export function getRecommendation(
+  overallScore: number,
+  thresholds: InterviewRecommendationThresholds = DEFAULT_INTERVIEW_SCORING.thresholds
+): InterviewRecommendation {
+  if (overallScore >= thresholds.strong_yes) return "strong_yes";
+  if (overallScore >= thresholds.yes) return "yes";
+  if (overallScore >= thresholds.maybe) return "maybe";
+  if (overallScore >= thresholds.no) return "no";
+  return "strong_no";
+}
+
+/**
+ * Scores one answer from its per-criterion AI scores
+ *
+ * Each graded criterion is weighted by the matching rubric criterion's
+ * weight (matched by aspect, ignoring case); criteria the rubric doesn't
+ * list count with weight 1. Without graded criteria the AI's overall
+ * answer score is used.
+ *
+ * @param aiScore - The AI's overall answer score (0-10)
+ */
+export function scoreAnswer(
+  rubric: ScoringCriteria[],
+  breakdown: AnswerEvaluation["breakdown"],
+  aiScore: number
+): Pick<InterviewQuestionScore, "score" | "criteria"> {
+  const weights = new Map(rubric.map((c) => [normalizeAspect(c.aspect), c.weight]));
+  const criteria = breakdown.map((b) => ({
+    aspect: b.aspect,
+    weight: weights.get(normalizeAspect(b.aspect)) ?? 1,
+    score: b.score,
+  }));
+
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const score =
+    totalWeight > 0
+      ? criteria.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight
+      : aiScore;
+
+  return { score: round1(score), criteria };
+}
+
+/**
+ * Rebuilds a graded answer's scoring input from its stored interview_questions row,
+ * e.g. to recompute the interview score after a human review
+ *
+ * @param row - A graded question (ai_score set)
+ */
+export function scoredAnswerFromRow(
+  row: Pick<
+    InterviewQuestion,
+    | "id"
+    | "question_order"
+    | "category"
+    | "difficulty"
+    | "scoring_rubric"
+    | "ai_evaluation_breakdown"
+    | "human_score"
+  > & { ai_score: number }
+): Omit<InterviewQuestionScore, "weight"> {
+  const aiScore = Number(row.ai_score);
+
+  return {
+    question_id: row.id,
+    question_order: row.question_order,
+    category: row.category,
+    difficulty: row.difficulty,
+    ai_score: aiScore,
+    ...scoreAnswer(
+      parseScoringRubric(row.scoring_rubric),
+      parseEvaluationBreakdown(row.ai_evaluation_breakdown),
+      aiScore
+    ),
+    human_score: row.human_score !== null ? Number(row.human_score) : null,
+  };
+}
+
+/**
+ * Combines scored answers into an overall score and recommendation
+ *
+ * A recruiter's human_score replaces an answer's score. Each answer counts
+ * with its difficulty weight times its category weight
+ * (a missing difficulty or category counts as 1). If every answer has weight 0
+ * (e.g. all their categories are weighted 0) answers count equally instead.
+ *
+ * @example
+ * const breakdown = computeInterviewScore(
+ *   [{ question_id, question_order: 1, category: "technical", difficulty: "hard",
+ *      ai_score: 8, ...scoreAnswer(rubric, evaluation.breakdown, 8) }],
+ *   parseInterviewScoringConfig(job.interview_scoring)
+ * );
+ * // breakdown.overall_score: 80, breakdown.recommendation: "yes"
+ */
+export function computeInterviewScore(
+  answers: Omit<InterviewQuestionScore, "weight">[],
+  config: InterviewScoringConfig = DEFAULT_INTERVIEW_SCORING
+): InterviewScoreBreakdown {
+  let questions: InterviewQuestionScore[] = answers.map((answer) => ({
+    ...answer,
+    weight: difficultyWeight(answer.difficulty) * categoryWeight(config, answer.category),
+  }));
+
+  if (questions.every((q) => q.weight === 0)) {
+    questions = questions.map((q) => ({ ...q, weight: 1 }));
+  }
+
+  const totalWeight = questions.reduce((sum, q) => sum + q.weight, 0);
+  const weightedScore =
+    totalWeight > 0
+      ? questions.reduce((sum, q) => sum + effectiveScore(q) * q.weight, 0) / totalWeight
+      : 0;
+  // Scale 0-10 to 0-100
+  const overallScore = Math.round(weightedScore * 10);
+
+  // Per-category summary, averaged by difficulty so it reads independently
+  // of the category weight
+  const byCategory = new Map<QuestionCategory | null, InterviewQuestionScore[]>();
+  for (const question of questions) {
+    byCategory.set(question.category, [...(byCategory.get(question.category) ?? []), question]);
+  }
+
+  const categories = Array.from(byCategory, ([category, members]) => {
+    const memberWeight = members.reduce((sum, q) => sum + difficultyWeight(q.difficulty), 0);
+
+    return {
+      category,
+      weight: categoryWeight(config, category),
+      score: round1(
+        members.reduce((sum, q) => sum + effectiveScore(q) * difficultyWeight(q.difficulty), 0) /
+          memberWeight
+      ),
+      question_count: members.length,
+    };
+  });
+
+  return {
+    overall_score: overallScore,
+    recommendation: getRecommendation(overallScore, config.thresholds),
+    thresholds: config.thresholds,
+    categories,
+    questions,
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Background job handlers
+ *
+ * One handler per BackgroundJobType. A handler throws to signal a failed
+ * attempt; the worker then retries the job with backoff. Handlers must be
+ * safe to run more than once for the same payload.
+ *
+ * @module lib/queue/handlers
+ */
+
+import { evaluateInterview, pregenerateCandidateQuestions, processAndScoreCandidate } from "@/lib/ai";
+import { sendEmail } from "@/lib/email";
+import { recordEmailAttempt } from "@/lib/email/log";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { BackgroundJob, BackgroundJobType } from "@/types";
+import type { BackgroundJobPayloads } from "./index";
+
+/** Handler for a job type; gets the job itself for its attempt count */
+type JobHandler<T extends BackgroundJobType> = (
+  payload: BackgroundJobPayloads[T],
+  job: BackgroundJob
+) => Promise<void>;
+
+// ============================================================
+// HANDLERS
+// ============================================================
+
+/**
+ * Scores a candidate against their job (and queues question pre-generation)
+ */
+async function scoreCandidate({ candidate_id }: BackgroundJobPayloads["score_candidate"]) {
+  const supabase = createAdminClient();
+
+  const { data: candidate, error } = await supabase
+    .from("candidates")
+    .select("id, organization_id, job_id, full_name, email, github_url, linkedin_url, cover_letter, resume_text, screening_answers")
+    .eq("id", candidate_id)
+    .single();
+
+  if (error || !candidate) {
+    throw new Error("Candidate not found");
+  }
+
+  const result = await processAndScoreCandidate(candidate);
+  if (!result.success) {
+    throw new Error(result.error || "Failed to score candidate");
+  }
+}
+
+/**
+ * Generates interview questions for a candidate
+ */
+async function pregenerateQuestions({ candidate_id }: BackgroundJobPayloads["pregenerate_questions"]) {
+  const result = await pregenerateCandidateQuestions(candidate_id);
+
+  if (result.status === "failed") {
+    throw new Error(result.error || "Question pre-generation failed");
+  }
+
+  // Questions were already ready - clear the "pending" status set when queueing
+  if (result.skipped && result.status === "ready") {
+    const supabase = createAdminClient();
+    await supabase
+      .from("candidates")
+      .update({ question_generation_status: "ready" })
+      .eq("id", candidate_id);
+  }
+}
+
+/**
+ * Sends a transactional email and records the attempt in the email log
+ */
+async function deliverEmail(payload: BackgroundJobPayloads["send_email"], job: BackgroundJob) {
+  const result = await sendEmail(payload);
+  await recordEmailAttempt(job, payload, result);
+  if (!result.success) {
+    throw new Error(result.error || "Failed to send email");
+  }
+}
+
+/**
+ * Grades a submitted interview's answers
+ */
+async function evaluateSubmittedInterview({ interview_id }: BackgroundJobPayloads["evaluate_interview"]) {
+  await evaluateInterview(interview_id);
+}
+
+/**
+ * Handler for each job type
+ */
+export const JOB_HANDLERS: { [T in BackgroundJobType]: JobHandler<T> } = {
+  score_candidate: scoreCandidate,
+  pregenerate_questions: pregenerateQuestions,
+  send_email: deliverEmail,
+  evaluate_interview: evaluateSubmittedInterview,
+};
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Durable background job queue
+ *
+ * Work that must not be lost when a serverless function ends (scoring,
+ * question pre-generation, emails, interview evaluation) is written to the
+ * `background_jobs` table instead of running fire-and-forget. The worker in
+ * lib/queue/worker runs due jobs from the /api/cron/process-jobs cron.
+ *
+ * Server-only. Uses the admin client so jobs can be queued from public
+ * routes (careers applications, interview submissions).
+ *
+ * @module lib/queue
+ */
+
+import type { EmailType } from "@/lib/email";
+import type { EmailTemplateData } from "@/lib/email/templates";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { BackgroundJobType } from "@/types";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * Payload stored with each job type
+ */
+export interface BackgroundJobPayloads {
+  score_candidate: { candidate_id: string };
+  pregenerate_questions: { candidate_id: string };
+  send_email: {
+    to: string;
+    type: EmailType;
+    data: EmailTemplateData;
+    /** Interview the email concerns, linking it to the candidate's email log */
+    interview_id?: string;
+    /** Email log entry this email resends */
+    resent_from?: string;
+  };
+  evaluate_interview: { interview_id: string };
+}
+
+/** Options for enqueueJob() */
+export interface EnqueueOptions {
+  /** Owning organization, for the admin failed-jobs view */
+  organizationId?: string | null;
+  /** Don't run before this time (default: now) */
+  runAt?: Date;
+  /** Attempts before the job is marked failed (default: 5) */
+  maxAttempts?: number;
+  /** Skip queueing if a pending or running job has the same key */
+  dedupeKey?: string;
+}
+
+/** A job to enqueue with enqueueJobs() */
+export type JobToEnqueue = {
+  [T in BackgroundJobType]: { type: T; payload: BackgroundJobPayloads[T] } & EnqueueOptions;
+}[BackgroundJobType];
+
+/** Postgres unique_violation - raised by the dedupe_key index */
+const UNIQUE_VIOLATION = "23505";
+
+// ============================================================
+// ENQUEUEING
+// ============================================================
+
+/**
+ * Builds the row inserted for a job
+ */
+function toJobRow({ type, payload, organizationId, runAt, maxAttempts, dedupeKey }: JobToEnqueue) {
+  return {
+    type,
+    payload,
+    organization_id: organizationId ?? null,
+    run_at: (runAt ?? new Date()).toISOString(),
+    max_attempts: maxAttempts ?? 5,
+    dedupe_key: dedupeKey ?? null,
+  };
+}
+
+/**
+ * Adds a job to the queue
+ *
+ * @returns false if an identical job (same dedupeKey) was already queued
+ * @throws Error if the job could not be written
+ *
+ * @example
+ * await enqueueJob("score_candidate", { candidate_id: candidate.id }, {
+ *   organizationId: candidate.organization_id,
+ * });
+ */
+export async function enqueueJob<T extends BackgroundJobType>(
+  type: T,
+  payload: BackgroundJobPayloads[T],
+  options: EnqueueOptions = {}
+): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from("background_jobs")
+    .insert(toJobRow({ type, payload, ...options } as JobToEnqueue));
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return false;
+    }
+    console.error(`Failed to enqueue ${type} job:`, error);
+    throw new Error(`Failed to enqueue ${type} job`);
+  }
+
+  return true;
+}
+
+/**
+ * Adds several jobs in one insert (e.g. scoring for a bulk import)
+ *
+ * Jobs with a dedupeKey should be queued with enqueueJob() instead, since
+ * a single duplicate would fail the whole insert.
+ *
+ * @throws Error if the jobs could not be written
+ */
+export async function enqueueJobs(jobs: JobToEnqueue[]): Promise<void> {
+  if (jobs.length === 0) return;
+
+  const supabase = createAdminClient();
+  const { error } = await supabase.from("background_jobs").insert(jobs.map(toJobRow));
+
+  if (error) {
+    console.error("Failed to enqueue jobs:", error);
+    throw new Error("Failed to enqueue jobs");
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Background job worker
+ *
+ * Claims due jobs from `background_jobs` (see claim_background_jobs() in the
+ * migration), runs their handlers and records the outcome:
+ * - Success: status "completed"
+ * - Failure: back to "pending" with exponential backoff, or "failed" once
+ *   max_attempts is reached
+ * - The organization's monthly AI budget is used up: back to "pending" until
+ *   the next budget period, without using up an attempt
+ *
+ * Jobs whose worker died mid-run are reclaimed when their lease
+ * (locked_until) expires.
+ *
+ * @module lib/queue/worker
+ */
+
+import { isAIBudgetExceededError, nextAIBudgetPeriodStart } from "@/lib/ai/usage";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { BackgroundJob } from "@/types";
+import { JOB_HANDLERS } from "./handlers";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Options for processBackgroundJobs() */
+export interface WorkerOptions {
+  /** Maximum jobs to claim in this run (default: 10) */
+  limit?: number;
+  /** How long a claimed job stays leased to this worker, in seconds (default: 300) */
+  lockSeconds?: number;
+}
+
+/** Summary of a worker run */
+export interface WorkerSummary {
+  claimed: number;
+  completed: number;
+  retried: number;
+  /** Waiting for the organization's AI budget to reset */
+  deferred: number;
+  failed: number;
+}
+
+/** Retry delay is capped at one hour */
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m, ... capped at 1h
+ *
+ * @param attempts - Attempts made so far (including the one that just failed)
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(30 * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Runs a job's handler
+ *
+ * @throws Error from the handler, or if the job type is unknown
+ */
+async function runJob(job: BackgroundJob): Promise<void> {
+  const handler = JOB_HANDLERS[job.type] as
+    | ((payload: unknown, job: BackgroundJob) => Promise<void>)
+    | undefined;
+  if (!handler) {
+    throw new Error(`Unknown job type: ${job.type}`);
+  }
+  await handler(job.payload, job);
+}
+
+// ============================================================
+// WORKER
+// ============================================================
+
+/**
+ * Claims and runs due background jobs, one at a time
+ *
+ * @example
+ * // In a cron route
+ * const summary = await processBackgroundJobs({ limit: 20 });
+ */
+export async function processBackgroundJobs(options: WorkerOptions = {}): Promise<WorkerSummary> {
+  const { limit = 10, lockSeconds = 300 } = options;
+  const supabase = createAdminClient();
+  const summary: WorkerSummary = { claimed: 0, completed: 0, retried: 0, deferred: 0, failed: 0 };
+
+  const { data: jobs, error: claimError } = await supabase.rpc("claim_background_jobs", {
+    p_limit: limit,
+    p_lock_seconds: lockSeconds,
+  });
+
+  if (claimError) {
+    console.error("Failed to claim background jobs:", claimError);
+    throw new Error("Failed to claim background jobs");
+  }
+
+  summary.claimed = jobs?.length ?? 0;
+
+  for (const job of (jobs ?? []) as BackgroundJob[]) {
+    // A reclaimed job may already have used up its attempts (its worker kept dying)
+    let error: unknown =
+      job.attempts > job.max_attempts ? new Error("Worker stopped before the job finished") : null;
+
+    if (!error) {
+      try {
+        await runJob(job);
+      } catch (jobError) {
+        error = jobError;
+      }
+    }
+
+    const now = new Date();
+
+    if (!error) {
+      await supabase
+        .from("background_jobs")
+        .update({
+          status: "completed",
+          completed_at: now.toISOString(),
+          locked_until: null,
+          last_error: null,
+        })
+        .eq("id", job.id);
+      summary.completed++;
+      continue;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Background job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+
+    if (isAIBudgetExceededError(error)) {
+      // Retrying before the budget resets would only burn attempts
+      await supabase
+        .from("background_jobs")
+        .update({
+          status: "pending",
+          attempts: job.attempts - 1,
+          run_at: nextAIBudgetPeriodStart(now).toISOString(),
+          locked_until: null,
+          last_error: message,
+        })
+        .eq("id", job.id);
+      summary.deferred++;
+    } else if (job.attempts >= job.max_attempts) {
+      await supabase
+        .from("background_jobs")
+        .update({ status: "failed", locked_until: null, last_error: message })
+        .eq("id", job.id);
+      summary.failed++;
+    } else {
+      const runAt = new Date(now.getTime() + getRetryDelaySeconds(job.attempts) * 1000);
+      await supabase
+        .from("background_jobs")
+        .update({
+          status: "pending",
+          run_at: runAt.toISOString(),
+          locked_until: null,
+          last_error: message,
+        })
+        .eq("id", job.id);
+      summary.retried++;
+    }
+  }
+
+  return summary;
+}
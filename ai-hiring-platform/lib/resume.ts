@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Resume upload handling
+ *
+ * Validates uploaded resume files, stores them through the storage adapter
+ * and extracts their plain text for AI parsing and scoring:
+ * - PDF via unpdf
+ * - DOCX via mammoth
+ * - Plain text as-is
+ *
+ * Server-only. Callers are responsible for checking that the candidate
+ * belongs to the requesting organization.
+ *
+ * @module lib/resume
+ */
+
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy } from "unpdf";
+import { RESUME_UPLOAD } from "@/lib/constants";
+import { getStorage } from "@/lib/storage";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type ResumeFormat = (typeof RESUME_UPLOAD.types)[keyof typeof RESUME_UPLOAD.types];
+
+/** Result of validateResumeFile() */
+export type ResumeValidation =
+  | { valid: true; format: ResumeFormat; contentType: string }
+  | { valid: false; error: string; code: "INVALID_FILE_TYPE" | "FILE_TOO_LARGE" | "EMPTY_FILE" };
+
+/** Resume columns to write to the candidate row */
+export interface StoredResume {
+  resume_url: string;
+  resume_filename: string;
+  resume_text: string | null;
+}
+
+/** Resume text is capped to keep AI prompts within limits */
+const MAX_RESUME_TEXT_LENGTH = 50000;
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Checks an uploaded file's type and size
+ *
+ * Falls back to the file extension because browsers often send an empty
+ * or generic MIME type for DOCX files.
+ */
+export function validateResumeFile(file: File): ResumeValidation {
+  if (file.size === 0) {
+    return { valid: false, error: "The uploaded file is empty", code: "EMPTY_FILE" };
+  }
+
+  if (file.size > RESUME_UPLOAD.maxSize) {
+    return {
+      valid: false,
+      error: `Resume must be smaller than ${RESUME_UPLOAD.maxSize / (1024 * 1024)} MB`,
+      code: "FILE_TOO_LARGE",
+    };
+  }
+
+  const byMime = Object.entries(RESUME_UPLOAD.types).find(([mime]) => mime === file.type);
+  if (byMime) {
+    return { valid: true, format: byMime[1], contentType: byMime[0] };
+  }
+
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  const byExtension = Object.entries(RESUME_UPLOAD.types).find(([, ext]) => ext === extension);
+  if (byExtension) {
+    return { valid: true, format: byExtension[1], contentType: byExtension[0] };
+  }
+
+  return {
+    valid: false,
+    error: "Resume must be a PDF, DOCX or TXT file",
+    code: "INVALID_FILE_TYPE",
+  };
+}
+
+// ============================================================
+// TEXT EXTRACTION
+// ============================================================
+
+/**
+ * Extracts plain text from a resume file
+ *
+ * @returns Normalized text (collapsed blank lines, trimmed), possibly empty
+ * for scanned PDFs with no text layer
+ *
+ * @example
+ * const text = await extractResumeText(buffer, "pdf");
+ */
+export async function extractResumeText(data: Buffer, format: ResumeFormat): Promise<string> {
+  let text: string;
+
+  switch (format) {
+    case "pdf": {
+      const pdf = await getDocumentProxy(new Uint8Array(data));
+      const result = await extractText(pdf, { mergePages: true });
+      text = result.text;
+      break;
+    }
+    case "docx": {
+      const result = await mammoth.extractRawText({ buffer: data });
+      text = result.value;
+      break;
+    }
+    default:
+      text = data.toString("utf-8");
+  }
+
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .slice(0, MAX_RESUME_TEXT_LENGTH);
+}
+
+// ============================================================
+// STORAGE
+// ============================================================
+
+/**
+ * Stores a validated resume and extracts its text
+ *
+ * Text extraction failures are logged and stored as null rather than
+ * failing the upload - the file is still available to recruiters.
+ *
+ * @param organizationId - Owning organization (used as the key prefix)
+ * @param candidateId - Candidate the resume belongs to
+ * @param file - Uploaded file, already checked with validateResumeFile()
+ * @returns Column values to save on the candidate
+ */
+export async function storeResume(
+  organizationId: string,
+  candidateId: string,
+  file: File,
+  validation: Extract<ResumeValidation, { valid: true }>
+): Promise<StoredResume> {
+  const data = Buffer.from(await file.arrayBuffer());
+  const key = `${organizationId}/${candidateId}/${Date.now()}.${validation.format}`;
+
+  await getStorage().upload(key, data, validation.contentType);
+
+  let resumeText: string | null = null;
+  try {
+    resumeText = (await extractResumeText(data, validation.format)) || null;
+  } catch (error) {
+    console.error("Failed to extract resume text:", error);
+  }
+
+  return {
+    resume_url: key,
+    resume_filename: file.name.slice(0, 255),
+    resume_text: resumeText,
+  };
+}
+
+/**
+ * Content type to serve a stored resume with, based on its key's extension
+ */
+export function getResumeContentType(key: string): string {
+  const extension = key.split(".").pop();
+  const entry = Object.entries(RESUME_UPLOAD.types).find(([, ext]) => ext === extension);
+  return entry?.[0] ?? "application/octet-stream";
+}
@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Interview plans and scorecards
+ *
+ * Pure functions shared by the scorecard API and the candidate panel:
+ * - Parsing a job's interview plan out of the `jobs.interview_plan` JSON column
+ * - Checking submitted ratings against the stage's planned competencies
+ * - Aggregating several interviewers' scorecards per stage and competency,
+ *   and comparing the interviewers' consensus with the AI interview
+ *
+ * @module lib/scorecards
+ */
+
+import {
+  InterviewPlanSchema,
+  type CandidateScorecard,
+  type HumanInterviewStage,
+  type InterviewPlan,
+  type InterviewPlanCompetency,
+  type InterviewRecommendation,
+  type Json,
+  type ScorecardDecision,
+  type ScorecardRating,
+  type SubmitScorecardRequest,
+} from "@/types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Human interview stages in pipeline order */
+export const HUMAN_INTERVIEW_STAGES: HumanInterviewStage[] = ["phone_screen", "technical", "onsite"];
+
+/**
+ * Decisions on a -2..2 scale so several interviewers can be averaged
+ */
+const DECISION_VALUES: Record<ScorecardDecision, number> = {
+  strong_yes: 2,
+  yes: 1,
+  no: -1,
+  strong_no: -2,
+};
+
+const EMPTY_PLAN: InterviewPlan = { stages: [] };
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Reads a job's interview plan, falling back to an empty plan when unset or malformed
+ */
+export function parseInterviewPlan(value: Json | null | undefined): InterviewPlan {
+  const parsed = InterviewPlanSchema.safeParse(value);
+  return parsed.success ? parsed.data : EMPTY_PLAN;
+}
+
+/**
+ * Competencies planned for a stage; empty if the stage isn't planned
+ */
+export function getStageCompetencies(plan: InterviewPlan, stage: HumanInterviewStage): InterviewPlanCompetency[] {
+  return plan.stages.find((s) => s.stage === stage)?.competencies ?? [];
+}
+
+/**
+ * Reads a scorecard's ratings from its JSON column, dropping malformed entries
+ */
+export function parseScorecardRatings(value: Json | undefined): ScorecardRating[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) return [];
+    const { competency_id, competency, rating, notes } = item as Record<string, unknown>;
+    if (typeof competency_id !== "string" || typeof rating !== "number") return [];
+    return [{
+      competency_id,
+      competency: typeof competency === "string" ? competency : competency_id,
+      rating,
+      notes: typeof notes === "string" ? notes : null,
+    }];
+  });
+}
+
+/**
+ * Turns submitted ratings into stored ratings, snapshotting each
+ * competency's current name
+ *
+ * @returns The ratings, or the IDs of ratings that aren't planned for the stage
+ */
+export function resolveScorecardRatings(
+  plan: InterviewPlan,
+  stage: HumanInterviewStage,
+  ratings: SubmitScorecardRequest["ratings"]
+): { ratings: ScorecardRating[]; unknown: string[] } {
+  const competencies = new Map(getStageCompetencies(plan, stage).map((c) => [c.id, c]));
+  const unknown = ratings.filter((r) => !competencies.has(r.competency_id)).map((r) => r.competency_id);
+
+  return {
+    ratings: ratings
+      .filter((r) => competencies.has(r.competency_id))
+      .map((r) => ({
+        competency_id: r.competency_id,
+        competency: competencies.get(r.competency_id)!.name,
+        rating: r.rating,
+        notes: r.notes || null,
+      })),
+    unknown,
+  };
+}
+
+// ============================================================
+// AGGREGATION
+// ============================================================
+
+/**
+ * One competency across a stage's scorecards
+ *
+ * @property average - Mean rating (1-4), null if nobody rated it
+ */
+export interface ScorecardCompetencySummary {
+  competency_id: string;
+  name: string;
+  average: number | null;
+  ratings: { scorecard_id: string; interviewer_id: string; rating: number }[];
+}
+
+/**
+ * All scorecards of one stage
+ */
+export interface ScorecardStageSummary {
+  stage: HumanInterviewStage;
+  scorecard_count: number;
+  average_rating: number | null;
+  decisions: Record<ScorecardDecision, number>;
+  competencies: ScorecardCompetencySummary[];
+}
+
+/**
+ * All scorecards of a candidate
+ *
+ * @property consensus - Average decision across interviewers; null when
+ *   there are no scorecards or hire and no-hire votes cancel out
+ * @property ai_agreement - Whether the consensus and the AI interview
+ *   recommendation land on the same side; null when either is missing or
+ *   the AI said "maybe"
+ */
+export interface ScorecardSummary {
+  stages: ScorecardStageSummary[];
+  scorecard_count: number;
+  decisions: Record<ScorecardDecision, number>;
+  consensus: ScorecardDecision | null;
+  ai_agreement: "agrees" | "disagrees" | null;
+}
+
+type ScorecardInput = Pick<CandidateScorecard, "id" | "interviewer_id" | "stage" | "ratings" | "decision">;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const average = (values: number[]) =>
+  values.length > 0 ? round1(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+function countDecisions(scorecards: ScorecardInput[]): Record<ScorecardDecision, number> {
+  const counts: Record<ScorecardDecision, number> = { strong_yes: 0, yes: 0, no: 0, strong_no: 0 };
+  for (const scorecard of scorecards) {
+    counts[scorecard.decision] += 1;
+  }
+  return counts;
+}
+
+/**
+ * Maps an average decision value back to a decision
+ */
+function consensusDecision(scorecards: ScorecardInput[]): ScorecardDecision | null {
+  if (scorecards.length === 0) return null;
+  const mean = scorecards.reduce((sum, s) => sum + DECISION_VALUES[s.decision], 0) / scorecards.length;
+  if (mean >= 1.5) return "strong_yes";
+  if (mean > 0) return "yes";
+  if (mean <= -1.5) return "strong_no";
+  if (mean < 0) return "no";
+  return null;
+}
+
+const isHire = (decision: InterviewRecommendation) => decision === "strong_yes" || decision === "yes";
+
+/**
+ * Aggregates a candidate's scorecards per stage and competency
+ *
+ * Competencies follow the job's plan. Ratings of competencies since removed
+ * from the plan are kept under the name they were rated with.
+ *
+ * @param aiRecommendation - The AI interview's recommendation to compare with
+ *
+ * @example
+ * const summary = summarizeScorecards(parseInterviewPlan(job.interview_plan), scorecards, interview?.recommendation);
+ * // summary.consensus: "yes", summary.ai_agreement: "agrees"
+ */
+export function summarizeScorecards(
+  plan: InterviewPlan,
+  scorecards: ScorecardInput[],
+  aiRecommendation?: InterviewRecommendation | null
+): ScorecardSummary {
+  const stages = HUMAN_INTERVIEW_STAGES.flatMap((stage): ScorecardStageSummary[] => {
+    const stageScorecards = scorecards.filter((s) => s.stage === stage);
+    const planned = getStageCompetencies(plan, stage);
+    if (planned.length === 0 && stageScorecards.length === 0) return [];
+
+    const competencies = new Map<string, ScorecardCompetencySummary>(
+      planned.map((c) => [c.id, { competency_id: c.id, name: c.name, average: null, ratings: [] }])
+    );
+    for (const scorecard of stageScorecards) {
+      for (const rating of parseScorecardRatings(scorecard.ratings)) {
+        const summary = competencies.get(rating.competency_id) ?? {
+          competency_id: rating.competency_id,
+          name: rating.competency,
+          average: null,
+          ratings: [],
+        };
+        summary.ratings.push({
+          scorecard_id: scorecard.id,
+          interviewer_id: scorecard.interviewer_id,
+          rating: rating.rating,
+        });
+        competencies.set(rating.competency_id, summary);
+      }
+    }
+
+    const competencySummaries = Array.from(competencies.values()).map((c) => ({
+      ...c,
+      average: average(c.ratings.map((r) => r.rating)),
+    }));
+
+    return [{
+      stage,
+      scorecard_count: stageScorecards.length,
+      average_rating: average(competencySummaries.flatMap((c) => c.ratings.map((r) => r.rating))),
+      decisions: countDecisions(stageScorecards),
+      competencies: competencySummaries,
+    }];
+  });
+
+  const consensus = consensusDecision(scorecards);
+  const ai_agreement =
+    consensus && aiRecommendation && aiRecommendation !== "maybe"
+      ? isHire(consensus) === isHire(aiRecommendation)
+        ? "agrees"
+        : "disagrees"
+      : null;
+
+  return {
+    stages,
+    scorecard_count: scorecards.length,
+    decisions: countDecisions(scorecards),
+    consensus,
+    ai_agreement,
+  };
+}
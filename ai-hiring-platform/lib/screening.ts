@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Screening question helpers
+ *
+ * Pure functions shared by the job builder, the public application form and
+ * background scoring:
+ * - Parsing questions out of the `jobs.screening_questions` JSON column
+ * - Validating a candidate's answers (required, option, number checks)
+ * - Applying knockout rules to produce flags for the recruiter
+ *
+ * AI grading of free-text answers lives in lib/ai/screening.
+ *
+ * @module lib/screening
+ */
+
+import {
+  ScreeningAnswerSchema,
+  ScreeningQuestionSchema,
+  type Json,
+  type ScreeningAnswer,
+  type ScreeningAnswerResult,
+  type ScreeningQuestion,
+  type ScreeningQuestionType,
+} from "@/types";
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/**
+ * Question types for the builder's type select
+ */
+export const SCREENING_QUESTION_TYPES: { value: ScreeningQuestionType; label: string }[] = [
+  { value: "text", label: "Free text" },
+  { value: "yes_no", label: "Yes / No" },
+  { value: "multiple_choice", label: "Multiple choice" },
+  { value: "numeric", label: "Number" },
+];
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Reads screening questions from a job's JSON column, dropping malformed entries
+ *
+ * @example
+ * const questions = parseScreeningQuestions(job.screening_questions);
+ */
+export function parseScreeningQuestions(value: Json | undefined): ScreeningQuestion[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    const parsed = ScreeningQuestionSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/**
+ * Reads screening answers from a candidate's JSON column, dropping malformed entries
+ */
+export function parseScreeningAnswers(value: Json | undefined): ScreeningAnswer[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    const parsed = ScreeningAnswerSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * True if the answer counts as "not provided"
+ */
+function isBlank(value: string | number | undefined): boolean {
+  return value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Checks answers against the job's questions
+ *
+ * @returns Error message per question id; empty if all answers are valid
+ *
+ * @example
+ * const errors = validateScreeningAnswers(questions, answers);
+ * if (Object.keys(errors).length > 0) return badRequest(errors);
+ */
+export function validateScreeningAnswers(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswer[]
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const byId = new Map(answers.map((answer) => [answer.question_id, answer.value]));
+
+  for (const question of questions) {
+    const value = byId.get(question.id);
+
+    if (isBlank(value)) {
+      if (question.required) {
+        errors[question.id] = "This question is required";
+      }
+      continue;
+    }
+
+    switch (question.type) {
+      case "yes_no":
+        if (value !== "yes" && value !== "no") {
+          errors[question.id] = "Please answer yes or no";
+        }
+        break;
+      case "multiple_choice":
+        if (!question.options?.includes(String(value))) {
+          errors[question.id] = "Please choose one of the options";
+        }
+        break;
+      case "numeric":
+        if (!Number.isFinite(Number(value))) {
+          errors[question.id] = "Please enter a number";
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================
+// KNOCKOUT RULES
+// ============================================================
+
+/**
+ * Formats an answer for display to recruiters
+ */
+export function formatScreeningAnswer(
+  question: ScreeningQuestion,
+  value: string | number | undefined
+): string | null {
+  if (isBlank(value)) return null;
+  if (question.type === "yes_no") return value === "yes" ? "Yes" : "No";
+  return String(value);
+}
+
+/**
+ * Applies a question's knockout rule to an answer
+ *
+ * @returns Reason for the flag, or null if the answer passes
+ */
+function getKnockoutReason(
+  question: ScreeningQuestion,
+  value: string | number | undefined
+): string | null {
+  if (isBlank(value)) {
+    return hasKnockoutRule(question) ? "No answer given" : null;
+  }
+
+  switch (question.type) {
+    case "yes_no":
+      return question.knockout_answer && value === question.knockout_answer
+        ? `Answered ${value}`
+        : null;
+    case "multiple_choice":
+      return question.knockout_options?.includes(String(value))
+        ? `Chose "${value}"`
+        : null;
+    case "numeric": {
+      const number = Number(value);
+      if (question.min_value !== undefined && number < question.min_value) {
+        return `${number} is below the minimum of ${question.min_value}`;
+      }
+      if (question.max_value !== undefined && number > question.max_value) {
+        return `${number} is above the maximum of ${question.max_value}`;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * True if the question has a knockout rule configured
+ */
+export function hasKnockoutRule(question: ScreeningQuestion): boolean {
+  switch (question.type) {
+    case "yes_no":
+      return !!question.knockout_answer;
+    case "multiple_choice":
+      return (question.knockout_options?.length ?? 0) > 0;
+    case "numeric":
+      return question.min_value !== undefined || question.max_value !== undefined;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Applies knockout rules to every question
+ *
+ * Text questions are returned unflagged; their ai_score is filled in by AI grading.
+ *
+ * @example
+ * const results = applyKnockoutRules(questions, answers);
+ * results.filter((r) => r.flagged) // [{ prompt: "Do you require visa sponsorship?", flag_reason: "Answered yes", ... }]
+ */
+export function applyKnockoutRules(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswer[]
+): ScreeningAnswerResult[] {
+  const byId = new Map(answers.map((answer) => [answer.question_id, answer.value]));
+
+  return questions.map((question) => {
+    const value = byId.get(question.id);
+    const reason = question.type === "text" ? null : getKnockoutReason(question, value);
+
+    return {
+      question_id: question.id,
+      prompt: question.prompt,
+      type: question.type,
+      answer: formatScreeningAnswer(question, value),
+      flagged: reason !== null,
+      ...(reason ? { flag_reason: reason } : {}),
+    };
+  });
+}
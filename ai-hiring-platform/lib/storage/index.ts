@@ -0,0 +1,63 @@
+/**
+ * @fileoverview File storage for uploaded documents (resumes)
+ * 
+ * Files are stored through a small adapter interface so deployments can
+ * choose where they live:
+ * - `supabase` - Supabase Storage bucket (default when the service role key is set)
+ * - `local` - the server's disk, for local development without Supabase
+ * 
+ * Files are never exposed by URL directly; API routes read them back
+ * through the adapter after checking permissions.
+ * 
+ * @module lib/storage
+ * @requires STORAGE_DRIVER (optional) - "supabase" or "local"
+ */
+
+import { createLocalStorage } from "./local";
+import { createSupabaseStorage } from "./supabase";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/**
+ * Storage backend for uploaded files
+ * Keys are slash-separated paths, e.g. "{organizationId}/{candidateId}/resume.pdf"
+ */
+export interface StorageAdapter {
+  /** Backend name, for logging */
+  readonly driver: "supabase" | "local";
+  /** Stores a file, replacing any existing file at the key */
+  upload(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Reads a file back */
+  download(key: string): Promise<Buffer>;
+  /** Deletes a file; succeeds if it does not exist */
+  remove(key: string): Promise<void>;
+}
+
+// ============================================================
+// ADAPTER SELECTION
+// ============================================================
+
+/** Singleton adapter instance */
+let storage: StorageAdapter | null = null;
+
+/**
+ * Gets the configured storage adapter
+ * 
+ * Uses STORAGE_DRIVER if set, otherwise Supabase Storage when
+ * SUPABASE_SERVICE_ROLE_KEY is available and local disk when it is not.
+ * 
+ * @example
+ * await getStorage().upload(key, buffer, "application/pdf");
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    const driver =
+      process.env.STORAGE_DRIVER ||
+      (process.env.SUPABASE_SERVICE_ROLE_KEY ? "supabase" : "local");
+
+    storage = driver === "local" ? createLocalStorage() : createSupabaseStorage();
+  }
+  return storage;
+}
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Local disk storage adapter
+ * 
+ * Stores files under a directory on the server. Intended for local
+ * development - serverless deployments do not keep files between requests.
+ * 
+ * @module lib/storage/local
+ * @requires LOCAL_STORAGE_DIR (optional) - defaults to ".uploads" in the project root
+ */
+
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { StorageAdapter } from "./index";
+
+/**
+ * Creates a storage adapter that writes to the local filesystem
+ */
+export function createLocalStorage(): StorageAdapter {
+  const root = path.resolve(process.env.LOCAL_STORAGE_DIR || ".uploads");
+
+  /** Resolves a key inside the root, rejecting path traversal */
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    driver: "local",
+
+    async upload(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async download(key) {
+      return readFile(resolveKey(key));
+    },
+
+    async remove(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Supabase Storage adapter
+ * 
+ * Stores files in a private bucket using the admin client. The bucket is
+ * created by the 20261021_add_resume_storage migration.
+ * 
+ * @module lib/storage/supabase
+ * @requires SUPABASE_SERVICE_ROLE_KEY
+ * @requires STORAGE_BUCKET (optional) - defaults to "resumes"
+ */
+
+import { createAdminClient } from "@/lib/supabase/server";
+import type { StorageAdapter } from "./index";
+
+/**
+ * Creates a storage adapter backed by a Supabase Storage bucket
+ */
+export function createSupabaseStorage(): StorageAdapter {
+  const bucket = process.env.STORAGE_BUCKET || "resumes";
+
+  return {
+    driver: "supabase",
+
+    async upload(key, data, contentType) {
+      const { error } = await createAdminClient()
+        .storage.from(bucket)
+        .upload(key, data, { contentType, upsert: true });
+
+      if (error) {
+        throw new Error(`Failed to upload file: ${error.message}`);
+      }
+    },
+
+    async download(key) {
+      const { data, error } = await createAdminClient()
+        .storage.from(bucket)
+        .download(key);
+
+      if (error || !data) {
+        throw new Error(`Failed to download file: ${error?.message ?? "not found"}`);
+      }
+
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async remove(key) {
+      const { error } = await createAdminClient()
+        .storage.from(bucket)
+        .remove([key]);
+
+      if (error) {
+        throw new Error(`Failed to delete file: ${error.message}`);
+      }
+    },
+  };
+}
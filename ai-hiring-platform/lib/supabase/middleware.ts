@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Middleware Supabase client
+ *
+ * Refreshes the Supabase auth session on every request that passes
+ * through Next.js middleware, so Server Components and API Routes
+ * always see a valid (non-expired) session cookie.
+ *
+ * @module lib/supabase/middleware
+ * @requires NEXT_PUBLIC_SUPABASE_URL
+ * @requires NEXT_PUBLIC_SUPABASE_ANON_KEY
+ */
+
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextResponse, type NextRequest } from "next/server";
+import type { User } from "@supabase/supabase-js";
+
+/**
+ * Refreshes the auth session and returns the signed-in user (if any)
+ *
+ * The returned response carries any refreshed auth cookies and MUST be
+ * returned from middleware (or have its cookies copied onto the response
+ * that is returned instead).
+ *
+ * @param request - The incoming middleware request
+ * @returns The response to continue with and the authenticated user, or null
+ *
+ * @example
+ * const { response, user } = await updateSession(request);
+ * if (!user) return NextResponse.redirect(new URL("/login", request.url));
+ * return response;
+ */
+export async function updateSession(
+  request: NextRequest
+): Promise<{ response: NextResponse; user: User | null }> {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet: { name: string; value: string; options: CookieOptions }[]) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) =>
+            response.cookies.set(name, value, options)
+          );
+        },
+      },
+    }
+  );
+
+  // IMPORTANT: getUser() revalidates the token with Supabase Auth.
+  // Do not replace with getSession(), which trusts the cookie as-is.
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  return { response, user };
+}
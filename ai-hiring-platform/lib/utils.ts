@@ -3,8 +3,9 @@
  * 
  * Contains helper functions for:
  * - CSS class merging (Tailwind CSS)
- * - Duration formatting
+ * - Duration and salary formatting
  * - UI styling helpers (difficulty colors, category icons)
+ * - URL helpers (app URL, slugs)
  * 
  * @module lib/utils
  */
@@ -54,6 +55,27 @@ export function formatDuration(minutes: number): string {
   return `${hours}h ${remainingMinutes}m`
 }
 
+/**
+ * Formats a salary range for display
+ * @param min - Lower bound (optional)
+ * @param max - Upper bound (optional)
+ * @param currency - ISO 4217 currency code
+ * @returns Formatted range (e.g., "$120,000 - $150,000"), or null if neither bound is set
+ */
+export function formatSalaryRange(
+  min: number | null,
+  max: number | null,
+  currency: string = 'USD'
+): string | null {
+  const format = (value: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value)
+
+  if (min && max) return `${format(min)} - ${format(max)}`
+  if (min) return `From ${format(min)}`
+  if (max) return `Up to ${format(max)}`
+  return null
+}
+
 /**
  * Returns Tailwind CSS classes for difficulty badge styling
  * @param difficulty - Question difficulty level
@@ -143,3 +165,22 @@ export function getAppUrl(): string {
   // Fallback for local development
   return 'http://localhost:3000';
 }
+
+/**
+ * Converts text into a URL-safe slug
+ * 
+ * @param text - Text to convert (e.g., a job title)
+ * @returns Lowercase slug with words separated by hyphens
+ * 
+ * @example
+ * slugify('Senior Frontend Engineer (React)') // 'senior-frontend-engineer-react'
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'job'
+}
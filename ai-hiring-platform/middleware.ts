@@ -1,12 +1,68 @@
 import { NextResponse, type NextRequest } from "next/server";
+import { updateSession } from "@/lib/supabase/middleware";
 
 /**
- * Simplified middleware for MVP - no authentication checks
- * All routes are publicly accessible
+ * Paths reachable without a recruiter session
+ * - Marketing and auth pages
+ * - Candidate interview links (/interview/[token]) - authenticated by access token
+ * - Candidate-facing interview APIs (start, submit, drafts, clock, code runs,
+ *   rescheduling, declining and booking) - authenticated by access token
+ * - Public careers pages and the application endpoint
+ * - Cron jobs - authenticated by CRON_SECRET
+ * - Email delivery webhooks - authenticated by their signature
+ */
+const PUBLIC_PATHS: RegExp[] = [
+  /^\/$/,
+  /^\/login$/,
+  /^\/signup$/,
+  /^\/auth\//,
+  /^\/interview\/[^/]+$/,
+  /^\/api\/interviews\/[^/]+\/(start|submit|draft|clock|run-code|reschedule|decline|book)$/,
+  /^\/careers(\/.*)?$/,
+  /^\/api\/careers\//,
+  /^\/api\/cron\//,
+  /^\/api\/webhooks\//,
+];
+
+/** Pages that signed-in users should skip */
+const AUTH_PAGES = ["/login", "/signup"];
+
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some((pattern) => pattern.test(pathname));
+}
+
+/**
+ * Authentication middleware
+ * Refreshes the Supabase session and blocks unauthenticated access to
+ * the recruiter dashboard and API routes.
  */
 export async function middleware(request: NextRequest) {
-  // MVP: Pass through all requests without auth checks
-  return NextResponse.next({ request });
+  // Demo mode: Supabase not configured, nothing to authenticate against
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
+    return NextResponse.next({ request });
+  }
+
+  const { pathname } = request.nextUrl;
+  const { response, user } = await updateSession(request);
+
+  if (user && AUTH_PAGES.includes(pathname)) {
+    return NextResponse.redirect(new URL("/dashboard", request.url));
+  }
+
+  if (user || isPublicPath(pathname)) {
+    return response;
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { error: "Authentication required", code: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", pathname);
+  return NextResponse.redirect(loginUrl);
 }
 
 export const config = {
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview CLI for the offline prompt eval runner (lib/ai/evals)
+ *
+ * Usage:
+ *   pnpm eval:prompts --prompt score_candidate --challenger 2 [--baseline 1] [--limit 3] [--json]
+ *
+ * --baseline defaults to the active version and --challenger to the
+ * newest version. Uses AI_PROVIDER and the provider's credentials from
+ * the environment.
+ */
+
+import { parseArgs } from "node:util";
+import {
+  EVAL_PROMPTS,
+  formatPromptEvalReport,
+  runPromptEval,
+  type EvalPromptId,
+} from "@/lib/ai/evals";
+import { listPromptVersions } from "@/lib/ai/prompts";
+
+function fail(message: string): never {
+  console.error(message);
+  console.error(
+    `\nUsage: pnpm eval:prompts --prompt <${EVAL_PROMPTS.join("|")}> [--baseline N] [--challenger N] [--limit N] [--json]`
+  );
+  process.exit(1);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      prompt: { type: "string" },
+      baseline: { type: "string" },
+      challenger: { type: "string" },
+      limit: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const prompt = values.prompt as EvalPromptId | undefined;
+  if (!prompt || !EVAL_PROMPTS.includes(prompt)) {
+    fail(`--prompt must be one of: ${EVAL_PROMPTS.join(", ")}`);
+  }
+
+  const versions = listPromptVersions(prompt);
+  const toVersion = (value: string | undefined, name: string) => {
+    if (value === undefined) return undefined;
+    const version = Number(value);
+    if (!versions.includes(version)) {
+      fail(`--${name} must be one of the ${prompt} versions: ${versions.join(", ")}`);
+    }
+    return version;
+  };
+
+  const limit = values.limit !== undefined ? Number(values.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    fail("--limit must be a positive integer");
+  }
+
+  const report = await runPromptEval({
+    prompt,
+    baseline: toVersion(values.baseline, "baseline"),
+    challenger: toVersion(values.challenger, "challenger") ?? versions[versions.length - 1],
+    limit,
+  });
+
+  console.log(values.json ? JSON.stringify(report, null, 2) : formatPromptEvalReport(report));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,245 @@
+-- Migration: Add organizations and organization-scoped access
+-- Date: 2026-10-18
+-- Description: Introduces the organizations table that jobs, candidates and interviews
+--              belong to, restores the profiles -> auth.users foreign key that was dropped
+--              for the MVP, and enables Row Level Security so users can only see data
+--              belonging to their own organization.
+
+-- ============================================================
+-- ORGANIZATIONS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION update_organizations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS organizations_updated_at ON organizations;
+CREATE TRIGGER organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_organizations_updated_at();
+
+COMMENT ON TABLE organizations IS 'Tenants - every job, candidate and interview belongs to exactly one organization';
+COMMENT ON COLUMN organizations.slug IS 'URL-safe unique identifier for the organization';
+
+-- ============================================================
+-- ORGANIZATION OWNERSHIP COLUMNS
+-- ============================================================
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE candidates
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+-- Backfill data created during the MVP (no auth) into a default organization
+INSERT INTO organizations (id, name, slug)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Default Organization', 'default')
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE profiles SET organization_id = '00000000-0000-0000-0000-000000000001' WHERE organization_id IS NULL;
+UPDATE jobs SET organization_id = '00000000-0000-0000-0000-000000000001' WHERE organization_id IS NULL;
+UPDATE candidates c SET organization_id = j.organization_id FROM jobs j WHERE c.job_id = j.id AND c.organization_id IS NULL;
+UPDATE ai_interviews i SET organization_id = j.organization_id FROM jobs j WHERE i.job_id = j.id AND i.organization_id IS NULL;
+
+ALTER TABLE profiles ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE jobs ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE candidates ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE ai_interviews ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_organization_id ON profiles(organization_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_organization_id ON jobs(organization_id);
+CREATE INDEX IF NOT EXISTS idx_candidates_organization_id ON candidates(organization_id);
+CREATE INDEX IF NOT EXISTS idx_ai_interviews_organization_id ON ai_interviews(organization_id);
+
+-- ============================================================
+-- RESTORE AUTH FOREIGN KEYS (dropped in 20260130_remove_profile_fk_for_mvp)
+-- ============================================================
+
+-- NOT VALID: enforce for new rows without failing on the MVP placeholder profile
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_id_fkey;
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_created_by_fkey;
+ALTER TABLE jobs
+ADD CONSTRAINT jobs_created_by_fkey FOREIGN KEY (created_by) REFERENCES profiles(id) ON DELETE SET NULL NOT VALID;
+
+COMMENT ON TABLE profiles IS 'User profiles - one per Supabase Auth user, scoped to an organization';
+
+-- ============================================================
+-- SIGN-UP: create an organization and admin profile for new users
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.generate_organization_slug(org_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  base_slug TEXT;
+  candidate_slug TEXT;
+BEGIN
+  base_slug := trim(both '-' from regexp_replace(lower(org_name), '[^a-z0-9]+', '-', 'g'));
+  IF base_slug = '' THEN
+    base_slug := 'org';
+  END IF;
+
+  candidate_slug := base_slug;
+  WHILE EXISTS (SELECT 1 FROM organizations WHERE slug = candidate_slug) LOOP
+    candidate_slug := base_slug || '-' || substr(md5(random()::text), 1, 6);
+  END LOOP;
+
+  RETURN candidate_slug;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org_id UUID;
+  org_name TEXT;
+BEGIN
+  org_name := COALESCE(
+    NULLIF(NEW.raw_user_meta_data->>'company_name', ''),
+    split_part(NEW.email, '@', 1)
+  );
+
+  INSERT INTO organizations (name, slug)
+  VALUES (org_name, public.generate_organization_slug(org_name))
+  RETURNING id INTO org_id;
+
+  INSERT INTO profiles (id, organization_id, email, full_name, company_name, role)
+  VALUES (
+    NEW.id,
+    org_id,
+    NEW.email,
+    NULLIF(NEW.raw_user_meta_data->>'full_name', ''),
+    org_name,
+    'admin'
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+-- Organization of the signed-in user (SECURITY DEFINER avoids recursive RLS on profiles)
+CREATE OR REPLACE FUNCTION public.current_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM profiles WHERE id = auth.uid();
+$$;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_interviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE candidate_activities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE candidate_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pregenerated_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS organizations_member_select ON organizations;
+CREATE POLICY organizations_member_select ON organizations
+  FOR SELECT USING (id = public.current_organization_id());
+
+DROP POLICY IF EXISTS profiles_org_select ON profiles;
+CREATE POLICY profiles_org_select ON profiles
+  FOR SELECT USING (organization_id = public.current_organization_id());
+
+DROP POLICY IF EXISTS profiles_self_update ON profiles;
+CREATE POLICY profiles_self_update ON profiles
+  FOR UPDATE USING (id = auth.uid())
+  WITH CHECK (organization_id = public.current_organization_id());
+
+DROP POLICY IF EXISTS jobs_org_all ON jobs;
+CREATE POLICY jobs_org_all ON jobs
+  FOR ALL USING (organization_id = public.current_organization_id())
+  WITH CHECK (organization_id = public.current_organization_id());
+
+DROP POLICY IF EXISTS candidates_org_all ON candidates;
+CREATE POLICY candidates_org_all ON candidates
+  FOR ALL USING (organization_id = public.current_organization_id())
+  WITH CHECK (organization_id = public.current_organization_id());
+
+DROP POLICY IF EXISTS ai_interviews_org_all ON ai_interviews;
+CREATE POLICY ai_interviews_org_all ON ai_interviews
+  FOR ALL USING (organization_id = public.current_organization_id())
+  WITH CHECK (organization_id = public.current_organization_id());
+
+DROP POLICY IF EXISTS interview_questions_org_all ON interview_questions;
+CREATE POLICY interview_questions_org_all ON interview_questions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM ai_interviews i
+      WHERE i.id = interview_questions.interview_id
+        AND i.organization_id = public.current_organization_id()
+    )
+  );
+
+DROP POLICY IF EXISTS candidate_activities_org_all ON candidate_activities;
+CREATE POLICY candidate_activities_org_all ON candidate_activities
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM candidates c
+      WHERE c.id = candidate_activities.candidate_id
+        AND c.organization_id = public.current_organization_id()
+    )
+  );
+
+DROP POLICY IF EXISTS candidate_comments_org_all ON candidate_comments;
+CREATE POLICY candidate_comments_org_all ON candidate_comments
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM candidates c
+      WHERE c.id = candidate_comments.candidate_id
+        AND c.organization_id = public.current_organization_id()
+    )
+  );
+
+DROP POLICY IF EXISTS pregenerated_questions_org_all ON pregenerated_questions;
+CREATE POLICY pregenerated_questions_org_all ON pregenerated_questions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM candidates c
+      WHERE c.id = pregenerated_questions.candidate_id
+        AND c.organization_id = public.current_organization_id()
+    )
+  );
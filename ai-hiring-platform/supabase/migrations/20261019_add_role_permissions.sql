@@ -0,0 +1,78 @@
+-- Migration: Enforce role permissions in the database
+-- Date: 2026-10-19
+-- Description: API routes check roles via lib/auth/permissions.ts. These policies back
+--              that up for writes that bypass the API: only admins can change
+--              organization settings or member roles, and users can no longer
+--              promote themselves through the self-update policy.
+
+-- Role of the signed-in user (SECURITY DEFINER avoids recursive RLS on profiles)
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$;
+
+-- ============================================================
+-- ORGANIZATION SETTINGS
+-- ============================================================
+
+DROP POLICY IF EXISTS organizations_admin_update ON organizations;
+CREATE POLICY organizations_admin_update ON organizations
+  FOR UPDATE USING (
+    id = public.current_organization_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+-- ============================================================
+-- MEMBER ROLES
+-- ============================================================
+
+DROP POLICY IF EXISTS profiles_admin_update ON profiles;
+CREATE POLICY profiles_admin_update ON profiles
+  FOR UPDATE USING (
+    organization_id = public.current_organization_id()
+    AND public.current_user_role() = 'admin'
+  )
+  WITH CHECK (organization_id = public.current_organization_id());
+
+-- Block role and organization changes by non-admins (service role is exempt)
+CREATE OR REPLACE FUNCTION public.protect_profile_privileges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    RAISE EXCEPTION 'organization_id cannot be changed';
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role AND public.current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_privileges ON profiles;
+CREATE TRIGGER profiles_protect_privileges
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_privileges();
+
+-- ============================================================
+-- COMMENTS
+-- ============================================================
+
+-- Comments must be authored by the signed-in user
+DROP POLICY IF EXISTS candidate_comments_author_insert ON candidate_comments;
+CREATE POLICY candidate_comments_author_insert ON candidate_comments
+  AS RESTRICTIVE
+  FOR INSERT WITH CHECK (author_id = auth.uid());
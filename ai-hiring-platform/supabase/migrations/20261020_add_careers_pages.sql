@@ -0,0 +1,41 @@
+-- Migration: Add public careers page support
+-- Date: 2026-10-20
+-- Description: Gives every job a URL slug that is unique within its organization so
+--              jobs can be served at /careers/[orgSlug]/[jobSlug]. Existing jobs are
+--              backfilled from their title; duplicate titles get a short suffix.
+
+-- ============================================================
+-- BACKFILL JOB SLUGS
+-- ============================================================
+
+WITH base AS (
+  SELECT
+    id,
+    organization_id,
+    COALESCE(
+      NULLIF(left(trim(both '-' from regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g')), 80), ''),
+      'job'
+    ) AS base_slug,
+    ROW_NUMBER() OVER (
+      PARTITION BY organization_id,
+        trim(both '-' from regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g'))
+      ORDER BY created_at, id
+    ) AS position
+  FROM jobs
+  WHERE slug IS NULL OR slug = ''
+)
+UPDATE jobs j
+SET slug = CASE
+  WHEN base.position = 1 THEN base.base_slug
+  ELSE base.base_slug || '-' || substr(md5(j.id::text), 1, 6)
+END
+FROM base
+WHERE j.id = base.id;
+
+-- ============================================================
+-- CONSTRAINTS
+-- ============================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_organization_slug ON jobs(organization_id, slug);
+
+COMMENT ON COLUMN jobs.slug IS 'URL-safe identifier, unique within the organization (used by /careers pages)';
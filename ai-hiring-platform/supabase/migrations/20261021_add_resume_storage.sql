@@ -0,0 +1,26 @@
+-- Migration: Add resume storage
+-- Date: 2026-10-21
+-- Description: Creates the private "resumes" Storage bucket used by the Supabase
+--              storage adapter. Files are written and read by the server with the
+--              service role, so no client-facing storage policies are added.
+
+-- ============================================================
+-- STORAGE BUCKET
+-- ============================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'resumes',
+  'resumes',
+  false,
+  5242880,
+  ARRAY[
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON COLUMN candidates.resume_url IS 'Storage key of the uploaded resume (read via GET /api/candidates/[id]/resume)';
+COMMENT ON COLUMN candidates.resume_text IS 'Plain text extracted from the uploaded resume, used for AI parsing and scoring';
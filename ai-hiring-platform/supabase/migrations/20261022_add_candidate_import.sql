@@ -0,0 +1,27 @@
+-- Migration: Add bulk candidate import
+-- Date: 2026-10-22
+-- Description: Tags candidates created by the import wizard with the import they
+--              came from, so the wizard can report scoring progress for that batch,
+--              and adds a lowercased email for case-insensitive duplicate checks.
+
+-- ============================================================
+-- CANDIDATES
+-- ============================================================
+
+ALTER TABLE candidates
+ADD COLUMN IF NOT EXISTS import_batch_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_candidates_import_batch
+ON candidates(import_batch_id)
+WHERE import_batch_id IS NOT NULL;
+
+COMMENT ON COLUMN candidates.import_batch_id IS 'Client-generated id of the bulk import that created this candidate (null for other sources)';
+
+-- Emails were stored as entered; imports compare on this lowercased copy
+ALTER TABLE candidates
+ADD COLUMN IF NOT EXISTS email_normalized TEXT GENERATED ALWAYS AS (lower(email)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_candidates_job_email_normalized
+ON candidates(job_id, email_normalized);
+
+COMMENT ON COLUMN candidates.email_normalized IS 'Lowercased email, for case-insensitive duplicate checks';
@@ -0,0 +1,105 @@
+-- Migration: Add background job queue
+-- Date: 2026-10-23
+-- Description: Postgres-backed queue for work that used to run fire-and-forget after
+--              a response (candidate scoring, question pre-generation, emails and
+--              interview evaluation). A cron-driven worker claims due jobs, retries
+--              failures with exponential backoff and marks them failed after
+--              max_attempts so admins can inspect and retry them.
+
+-- ============================================================
+-- BACKGROUND JOBS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS background_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  dedupe_key TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Worker lookup: due pending jobs and running jobs whose lock expired
+CREATE INDEX IF NOT EXISTS idx_background_jobs_due
+ON background_jobs(run_at)
+WHERE status IN ('pending', 'running');
+
+-- Admin view of failed jobs
+CREATE INDEX IF NOT EXISTS idx_background_jobs_org_status
+ON background_jobs(organization_id, status, updated_at DESC);
+
+-- At most one queued or running job per dedupe key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_background_jobs_dedupe
+ON background_jobs(dedupe_key)
+WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running');
+
+CREATE OR REPLACE FUNCTION update_background_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS background_jobs_updated_at ON background_jobs;
+CREATE TRIGGER background_jobs_updated_at
+  BEFORE UPDATE ON background_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_background_jobs_updated_at();
+
+COMMENT ON TABLE background_jobs IS 'Durable queue of background work, processed by /api/cron/process-jobs';
+COMMENT ON COLUMN background_jobs.run_at IS 'Earliest time the job may run; pushed back by the retry backoff';
+COMMENT ON COLUMN background_jobs.locked_until IS 'Lease held by the worker running the job; an expired lease means the worker died and the job can be reclaimed';
+COMMENT ON COLUMN background_jobs.dedupe_key IS 'Optional key preventing the same work from being queued twice while pending or running';
+
+-- ============================================================
+-- CLAIMING
+-- ============================================================
+
+-- Atomically leases up to p_limit due jobs to the calling worker.
+-- SKIP LOCKED lets concurrent workers claim disjoint sets of jobs.
+CREATE OR REPLACE FUNCTION public.claim_background_jobs(p_limit INTEGER, p_lock_seconds INTEGER)
+RETURNS SETOF background_jobs
+LANGUAGE sql
+AS $$
+  UPDATE background_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_until = NOW() + make_interval(secs => p_lock_seconds)
+  WHERE id IN (
+    SELECT id FROM background_jobs
+    WHERE (status = 'pending' AND run_at <= NOW())
+       OR (status = 'running' AND locked_until < NOW())
+    ORDER BY run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_background_jobs(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_background_jobs(INTEGER, INTEGER) TO service_role;
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+-- Jobs are written by the server with the service role; members of an
+-- organization can see its jobs. There is no update policy: the worker
+-- acts on job payloads with the service role, so users must not be able to
+-- rewrite them. Admins retry jobs through the API, which resets only the
+-- retry state.
+ALTER TABLE background_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS background_jobs_org_select ON background_jobs;
+CREATE POLICY background_jobs_org_select ON background_jobs
+  FOR SELECT USING (organization_id = public.current_organization_id());
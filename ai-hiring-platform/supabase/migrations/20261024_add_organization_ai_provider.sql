@@ -0,0 +1,17 @@
+-- Migration: Add per-organization AI provider settings
+-- Date: 2026-10-24
+-- Description: Lets each organization choose the LLM provider (and optionally
+--              the model) its AI features use. Null means the server default.
+--              Credentials stay in server environment variables.
+
+-- ============================================================
+-- ORGANIZATIONS
+-- ============================================================
+
+ALTER TABLE organizations
+ADD COLUMN IF NOT EXISTS ai_provider TEXT
+  CHECK (ai_provider IN ('openai', 'anthropic', 'azure_openai', 'local')),
+ADD COLUMN IF NOT EXISTS ai_model TEXT;
+
+COMMENT ON COLUMN organizations.ai_provider IS 'LLM provider for AI features: openai, anthropic, azure_openai or local (null = server default)';
+COMMENT ON COLUMN organizations.ai_model IS 'Model (or Azure deployment) override for the provider (null = provider default)';
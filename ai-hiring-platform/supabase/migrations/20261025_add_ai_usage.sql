@@ -0,0 +1,114 @@
+-- Migration: Add AI usage metering and monthly budgets
+-- Date: 2026-10-25
+-- Description: Records every LLM call (feature, provider, model, tokens, latency
+--              and estimated cost) so organizations can see what AI features
+--              cost per job and per month, and adds an optional monthly budget.
+--              Once the current month's estimated spend reaches the budget, AI
+--              features fail with BUDGET_EXCEEDED instead of calling the model.
+
+-- ============================================================
+-- AI USAGE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Monthly spend and dashboard breakdowns
+CREATE INDEX IF NOT EXISTS idx_ai_usage_org_created
+ON ai_usage(organization_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_job
+ON ai_usage(job_id)
+WHERE job_id IS NOT NULL;
+
+COMMENT ON TABLE ai_usage IS 'One row per LLM call made by AI features';
+COMMENT ON COLUMN ai_usage.feature IS 'AI feature that made the call, e.g. score_candidate or evaluate_answer';
+COMMENT ON COLUMN ai_usage.cost_usd IS 'Estimated cost from the token counts and list prices at the time of the call';
+COMMENT ON COLUMN ai_usage.success IS 'False when the call failed; failed calls are recorded with zero tokens';
+
+-- ============================================================
+-- ORGANIZATIONS
+-- ============================================================
+
+ALTER TABLE organizations
+ADD COLUMN IF NOT EXISTS ai_monthly_budget_usd NUMERIC(10, 2)
+  CHECK (ai_monthly_budget_usd > 0);
+
+COMMENT ON COLUMN organizations.ai_monthly_budget_usd IS 'Estimated AI spend allowed per calendar month (UTC); null = unlimited';
+
+-- ============================================================
+-- AGGREGATES
+-- ============================================================
+
+-- Budget and estimated spend for the current calendar month (UTC)
+CREATE OR REPLACE FUNCTION public.get_ai_budget_status(p_organization_id UUID)
+RETURNS TABLE (budget_usd NUMERIC, spent_usd NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    o.ai_monthly_budget_usd,
+    COALESCE((
+      SELECT SUM(u.cost_usd)
+      FROM ai_usage u
+      WHERE u.organization_id = o.id
+        AND u.created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    ), 0)
+  FROM organizations o
+  WHERE o.id = p_organization_id;
+$$;
+
+-- Usage grouped by month (UTC), feature and job since p_since.
+-- Runs with the caller's rights, so RLS limits members to their organization.
+CREATE OR REPLACE FUNCTION public.get_ai_usage_rollup(p_organization_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  month DATE,
+  feature TEXT,
+  job_id UUID,
+  calls BIGINT,
+  failed_calls BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    date_trunc('month', u.created_at AT TIME ZONE 'UTC')::DATE,
+    u.feature,
+    u.job_id,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE NOT u.success),
+    SUM(u.prompt_tokens),
+    SUM(u.completion_tokens),
+    SUM(u.cost_usd)
+  FROM ai_usage u
+  WHERE u.organization_id = p_organization_id
+    AND u.created_at >= p_since
+  GROUP BY 1, 2, 3;
+$$;
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+-- Usage is written by the server with the service role; members of an
+-- organization can read its usage
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS ai_usage_org_select ON ai_usage;
+CREATE POLICY ai_usage_org_select ON ai_usage
+  FOR SELECT USING (organization_id = public.current_organization_id());
@@ -0,0 +1,27 @@
+-- Migration: Record prompt versions with AI results
+-- Date: 2026-10-26
+-- Description: AI prompts are now versioned templates (lib/ai/prompts). Stores
+--              the version label (e.g. "score_candidate@v1") next to each AI
+--              result so scores produced by different prompts can be told apart.
+--              Null for results produced before versioning or without a model.
+
+-- ============================================================
+-- AI RESULTS
+-- ============================================================
+
+ALTER TABLE candidates
+ADD COLUMN IF NOT EXISTS ai_prompt_version TEXT;
+
+ALTER TABLE pregenerated_questions
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS ai_prompt_version TEXT;
+
+ALTER TABLE ai_usage
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+COMMENT ON COLUMN candidates.ai_prompt_version IS 'Prompt version that produced ai_score, e.g. score_candidate@v1';
+COMMENT ON COLUMN pregenerated_questions.prompt_version IS 'Prompt version the questions were generated with, e.g. generate_questions@v1';
+COMMENT ON COLUMN interview_questions.ai_prompt_version IS 'Prompt version that produced ai_score, e.g. evaluate_answer@v1';
+COMMENT ON COLUMN ai_usage.prompt_version IS 'Prompt version sent in the call';
@@ -0,0 +1,26 @@
+-- Migration: Add rubric-weighted interview scoring
+-- Date: 2026-10-27
+-- Description: Interview scores are now computed from each answer's per-criterion
+--              scores weighted by the question's rubric, then weighted by question
+--              difficulty and category (lib/interview-scoring). Jobs can configure
+--              category weights and recommendation thresholds, and the computed
+--              breakdown is stored on the interview so recruiters can see how the
+--              score and recommendation were reached.
+
+-- ============================================================
+-- JOBS
+-- ============================================================
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS interview_scoring JSONB;
+
+COMMENT ON COLUMN jobs.interview_scoring IS 'Category weights and recommendation thresholds for interview scoring; null = defaults';
+
+-- ============================================================
+-- AI INTERVIEWS
+-- ============================================================
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS score_breakdown JSONB;
+
+COMMENT ON COLUMN ai_interviews.score_breakdown IS 'Per-question, per-category and threshold breakdown behind overall_score and recommendation';
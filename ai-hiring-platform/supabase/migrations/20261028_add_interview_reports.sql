@@ -0,0 +1,21 @@
+-- Migration: Add AI-written interview reports
+-- Date: 2026-10-28
+-- Description: After a completed interview's answers are graded, an AI step
+--              reads the whole interview (answers, per-question grades and the
+--              candidate's pre-interview match assessment) and writes a report:
+--              summary, strengths and concerns citing the questions they come
+--              from, a recommendation with rationale and focus areas for the next
+--              round. ai_summary, strengths and concerns are filled from it.
+
+-- ============================================================
+-- AI INTERVIEWS
+-- ============================================================
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS ai_report JSONB;
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS ai_report_prompt_version TEXT;
+
+COMMENT ON COLUMN ai_interviews.ai_report IS 'AI-written interview report; null when a score-based summary was saved instead';
+COMMENT ON COLUMN ai_interviews.ai_report_prompt_version IS 'Prompt version that produced ai_report, e.g. summarize_interview@v1';
@@ -0,0 +1,69 @@
+-- Migration: Add human review and score overrides for AI interview evaluations
+-- Date: 2026-10-29
+-- Description: Recruiters can override per-question AI scores, annotate
+--              feedback and override the interview's recommendation, with a
+--              reason. AI values are kept next to the human ones: overall_score
+--              and recommendation hold the effective (reviewed) values, while
+--              ai_overall_score and ai_recommendation keep what the AI produced.
+--              Reviewed interviews can be exported as labelled data.
+
+-- ============================================================
+-- INTERVIEW QUESTIONS
+-- ============================================================
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS human_score NUMERIC(3, 1)
+  CHECK (human_score >= 0 AND human_score <= 10);
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS human_feedback TEXT;
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS human_reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS human_reviewed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN interview_questions.human_score IS 'Recruiter override of ai_score (0-10); null = AI score stands';
+COMMENT ON COLUMN interview_questions.human_feedback IS 'Recruiter annotation on the answer, kept alongside ai_feedback';
+
+-- ============================================================
+-- AI INTERVIEWS
+-- ============================================================
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS ai_overall_score INTEGER;
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS ai_recommendation TEXT;
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS human_recommendation TEXT
+  CHECK (human_recommendation IN ('strong_yes', 'yes', 'maybe', 'no', 'strong_no'));
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS review_reason TEXT;
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS human_reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS human_reviewed_at TIMESTAMPTZ;
+
+-- Interviews evaluated before this migration: what's stored is the AI's result
+UPDATE ai_interviews
+SET ai_overall_score = overall_score,
+    ai_recommendation = recommendation
+WHERE overall_score IS NOT NULL
+  AND ai_overall_score IS NULL;
+
+-- Labelled data export
+CREATE INDEX IF NOT EXISTS idx_ai_interviews_human_reviewed
+ON ai_interviews(organization_id, human_reviewed_at DESC)
+WHERE human_reviewed_at IS NOT NULL;
+
+COMMENT ON COLUMN ai_interviews.ai_overall_score IS 'Overall score as evaluated by AI, before human overrides';
+COMMENT ON COLUMN ai_interviews.ai_recommendation IS 'Recommendation as evaluated by AI, before human overrides';
+COMMENT ON COLUMN ai_interviews.human_recommendation IS 'Recruiter override of the recommendation; null = score-based recommendation stands';
+COMMENT ON COLUMN ai_interviews.review_reason IS 'Why the recruiter overrode scores or the recommendation';
+COMMENT ON COLUMN ai_interviews.human_reviewed_at IS 'When scores or the recommendation were last reviewed by a recruiter (reviewed_at only records that the results were seen)';
@@ -0,0 +1,67 @@
+-- Migration: Add interview plans and scorecards
+-- Date: 2026-10-30
+-- Description: Jobs can define an interview plan listing the competencies each
+--              human interview stage (phone_screen, technical, onsite) assesses.
+--              Interviewers submit a scorecard per stage: a 1-4 rating per
+--              competency, notes and a hire/no-hire decision. Scorecards are
+--              compared with each other and with the AI interview result on the
+--              candidate panel.
+
+-- ============================================================
+-- JOBS
+-- ============================================================
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS interview_plan JSONB;
+
+COMMENT ON COLUMN jobs.interview_plan IS 'Competencies assessed in each human interview stage; null = no plan';
+
+-- ============================================================
+-- SCORECARDS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS candidate_scorecards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  candidate_id UUID NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  interviewer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL CHECK (stage IN ('phone_screen', 'technical', 'onsite')),
+  ratings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  decision TEXT NOT NULL CHECK (decision IN ('strong_yes', 'yes', 'no', 'strong_no')),
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- One scorecard per interviewer per stage; resubmitting updates it
+  UNIQUE (candidate_id, stage, interviewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_scorecards_candidate
+ON candidate_scorecards(candidate_id, stage);
+
+COMMENT ON TABLE candidate_scorecards IS 'Interviewer feedback from human interview stages';
+COMMENT ON COLUMN candidate_scorecards.ratings IS 'Array of { competency_id, competency, rating (1-4), notes } for the stage''s plan competencies';
+COMMENT ON COLUMN candidate_scorecards.decision IS 'Interviewer''s hire/no-hire decision';
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE candidate_scorecards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS candidate_scorecards_org_select ON candidate_scorecards;
+CREATE POLICY candidate_scorecards_org_select ON candidate_scorecards
+  FOR SELECT USING (organization_id = public.current_organization_id());
+
+-- Interviewers can only write their own scorecards
+DROP POLICY IF EXISTS candidate_scorecards_interviewer_write ON candidate_scorecards;
+CREATE POLICY candidate_scorecards_interviewer_write ON candidate_scorecards
+  FOR ALL USING (
+    organization_id = public.current_organization_id()
+    AND interviewer_id = auth.uid()
+  )
+  WITH CHECK (
+    organization_id = public.current_organization_id()
+    AND interviewer_id = auth.uid()
+  );
@@ -0,0 +1,34 @@
+-- Migration: Add adaptive follow-up questions
+-- Date: 2026-10-31
+-- Description: AI interviews can run in adaptive mode. After a shallow or
+--              ambiguous answer a follow-up question is generated and inserted
+--              right after it, up to max_follow_ups per interview and only while
+--              the interview's time budget allows. Follow-ups are regular
+--              interview questions linked to the question they follow up on, so
+--              they are answered in-flow and graded with the rest.
+
+-- ============================================================
+-- AI INTERVIEWS
+-- ============================================================
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS max_follow_ups INTEGER NOT NULL DEFAULT 0
+  CHECK (max_follow_ups BETWEEN 0 AND 5);
+
+COMMENT ON COLUMN ai_interviews.max_follow_ups IS 'Maximum AI follow-up questions inserted during the interview; 0 = adaptive mode off';
+
+-- ============================================================
+-- INTERVIEW QUESTIONS
+-- ============================================================
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS parent_question_id UUID REFERENCES interview_questions(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS follow_up_rationale TEXT;
+
+-- At most one follow-up per question, even when the same answer is submitted
+-- twice at once (NULLs are distinct, so planned questions aren't affected)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interview_questions_parent
+ON interview_questions(interview_id, parent_question_id);
+
+COMMENT ON COLUMN interview_questions.parent_question_id IS 'Question this follow-up was generated from; null for planned questions';
+COMMENT ON COLUMN interview_questions.follow_up_rationale IS 'Why the follow-up was asked (what the parent answer left unclear)';
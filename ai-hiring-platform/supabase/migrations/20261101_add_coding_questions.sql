@@ -0,0 +1,33 @@
+-- Migration: Add coding questions
+-- Date: 2026-11-01
+-- Description: Jobs can define coding questions (problem, starter code per
+--              language, visible and hidden test cases). They are added to every
+--              AI interview scheduled for the job. Candidates answer them in a
+--              code editor; the code is run against the test cases in a local
+--              sandbox and the results are stored with the answer and fed into
+--              its AI evaluation.
+
+-- ============================================================
+-- JOBS
+-- ============================================================
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS coding_questions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN jobs.coding_questions IS 'Array of coding questions (prompt, function_name, languages, starter_code, test_cases) added to AI interviews';
+
+-- ============================================================
+-- INTERVIEW QUESTIONS
+-- ============================================================
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS question_type TEXT NOT NULL DEFAULT 'text'
+  CHECK (question_type IN ('text', 'coding')),
+ADD COLUMN IF NOT EXISTS coding_spec JSONB,
+ADD COLUMN IF NOT EXISTS code_language TEXT
+  CHECK (code_language IN ('javascript', 'typescript', 'python')),
+ADD COLUMN IF NOT EXISTS code_execution JSONB;
+
+COMMENT ON COLUMN interview_questions.coding_spec IS 'Coding questions only: function_name, languages, starter_code and test_cases (including hidden ones)';
+COMMENT ON COLUMN interview_questions.code_language IS 'Language the coding answer was written in';
+COMMENT ON COLUMN interview_questions.code_execution IS 'Result of running the coding answer against all test cases';
@@ -0,0 +1,16 @@
+-- Migration: Add interview integrity signals
+-- Date: 2026-11-02
+-- Description: The candidate's browser records what it observes while each AI
+--              interview question is open: pastes (size and timing), the window
+--              losing focus, and typing cadence. They are stored per question
+--              and summarized as integrity notes in the recruiter's interview
+--              review, to help decide what to probe in a human round.
+
+-- ============================================================
+-- INTERVIEW QUESTIONS
+-- ============================================================
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS integrity_signals JSONB;
+
+COMMENT ON COLUMN interview_questions.integrity_signals IS 'Browser observations while the question was open: pastes, focus losses, keystrokes and typing time';
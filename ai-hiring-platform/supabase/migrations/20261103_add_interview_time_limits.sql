@@ -0,0 +1,43 @@
+-- Migration: Add server-enforced interview time limits
+-- Date: 2026-11-03
+-- Description: The interview clock runs on the server from ai_interviews.started_at.
+--              Interviews can enforce interview_duration_minutes as a hard cap, and
+--              cap each question. Questions record when they were first opened.
+--              Recruiters can grant a candidate extra time, as a multiplier applied
+--              to both limits.
+
+-- ============================================================
+-- AI INTERVIEWS
+-- ============================================================
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS enforce_time_limit BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS question_time_limit_minutes INTEGER
+  CHECK (question_time_limit_minutes IS NULL OR question_time_limit_minutes BETWEEN 1 AND 60);
+
+COMMENT ON COLUMN ai_interviews.enforce_time_limit IS 'Auto-submit the interview when interview_duration_minutes (times the candidate''s time multiplier) has passed since started_at';
+COMMENT ON COLUMN ai_interviews.question_time_limit_minutes IS 'Hard cap per question (times the candidate''s time multiplier); NULL = no per-question cap';
+
+-- Auto-submit sweep (/api/cron/interview-status)
+CREATE INDEX IF NOT EXISTS idx_ai_interviews_timed_in_progress
+ON ai_interviews(started_at)
+WHERE status = 'in_progress' AND enforce_time_limit;
+
+-- ============================================================
+-- INTERVIEW QUESTIONS
+-- ============================================================
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN interview_questions.started_at IS 'When the candidate first opened the question (server time); starts its time limit';
+
+-- ============================================================
+-- CANDIDATES
+-- ============================================================
+
+ALTER TABLE candidates
+ADD COLUMN IF NOT EXISTS interview_time_multiplier NUMERIC(3,2) NOT NULL DEFAULT 1.00
+  CHECK (interview_time_multiplier BETWEEN 1 AND 3);
+
+COMMENT ON COLUMN candidates.interview_time_multiplier IS 'Extended-time accommodation applied to interview time limits (1.00 = none)';
@@ -0,0 +1,25 @@
+-- Migration: Add interview answer drafts and heartbeat
+-- Date: 2026-11-04
+-- Description: The candidate's page autosaves the answer being written as a draft,
+--              so a crash or refresh doesn't lose work, and sends a heartbeat while
+--              open. The status cron uses the heartbeat to decide when an
+--              in-progress interview has been abandoned.
+
+-- ============================================================
+-- INTERVIEW QUESTIONS
+-- ============================================================
+
+ALTER TABLE interview_questions
+ADD COLUMN IF NOT EXISTS draft_answer TEXT,
+ADD COLUMN IF NOT EXISTS draft_saved_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN interview_questions.draft_answer IS 'Autosaved answer in progress; candidate_answer is set when the candidate moves on';
+
+-- ============================================================
+-- AI INTERVIEWS
+-- ============================================================
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN ai_interviews.last_heartbeat_at IS 'Last sign of the candidate''s page being open (clock sync or draft save)';
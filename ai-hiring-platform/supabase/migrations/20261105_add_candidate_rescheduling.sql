@@ -0,0 +1,21 @@
+-- Migration: Add candidate self-service rescheduling and declining
+-- Date: 2026-11-05
+-- Description: Candidates can move a scheduled AI interview to another slot
+--              within the availability the recruiter set when scheduling, up to
+--              a maximum number of times, or decline it from the interview link.
+
+-- ============================================================
+-- AI INTERVIEWS
+-- ============================================================
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS availability JSONB,
+ADD COLUMN IF NOT EXISTS max_candidate_reschedules INTEGER NOT NULL DEFAULT 0
+  CHECK (max_candidate_reschedules >= 0 AND max_candidate_reschedules <= 5),
+ADD COLUMN IF NOT EXISTS candidate_reschedule_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS declined_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS decline_reason TEXT;
+
+COMMENT ON COLUMN ai_interviews.availability IS 'InterviewAvailability: when the candidate may pick a new slot; null = candidate rescheduling off';
+COMMENT ON COLUMN ai_interviews.max_candidate_reschedules IS 'How many times the candidate may reschedule from the interview link';
+COMMENT ON COLUMN ai_interviews.declined_at IS 'When the candidate declined the interview (status is then cancelled)';
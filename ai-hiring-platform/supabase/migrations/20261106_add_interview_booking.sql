@@ -0,0 +1,38 @@
+-- Migration: Add candidate booking of AI interviews
+-- Date: 2026-11-06
+-- Description: Instead of picking an exact time, a recruiter can send a booking
+--              link with an availability (e.g. any time in the next 5 days,
+--              8am-10pm candidate local time). The interview waits in
+--              "awaiting_booking" until the candidate chooses a start time,
+--              then moves to "scheduled".
+
+-- ============================================================
+-- AI INTERVIEWS
+-- ============================================================
+
+ALTER TABLE ai_interviews DROP CONSTRAINT IF EXISTS ai_interviews_status_check;
+
+ALTER TABLE ai_interviews ADD CONSTRAINT ai_interviews_status_check
+CHECK (status IN (
+  'pending',
+  'awaiting_booking',
+  'scheduled',
+  'ready',
+  'sent',
+  'in_progress',
+  'completed',
+  'expired',
+  'abandoned',
+  'missed',
+  'cancelled'
+));
+
+ALTER TABLE ai_interviews
+ADD COLUMN IF NOT EXISTS booked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN ai_interviews.booked_at IS 'When the candidate chose the start time from a booking link';
+
+-- The expiry cron also closes booking links whose availability has ended
+CREATE INDEX IF NOT EXISTS idx_ai_interviews_awaiting_booking
+ON ai_interviews (expires_at)
+WHERE status = 'awaiting_booking';
@@ -0,0 +1,38 @@
+-- Migration: Add email outbox
+-- Date: 2026-11-07
+-- Description: With EMAIL_TRANSPORT=outbox, emails are kept here instead of
+--              being sent, so scheduling and reminder flows can be tried end
+--              to end without an email provider. The dev mailbox
+--              (/dev/mailbox) lists them.
+
+-- ============================================================
+-- EMAIL OUTBOX
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT NOT NULL,
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  raw TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created
+ON email_outbox(created_at DESC);
+
+COMMENT ON TABLE email_outbox IS 'Emails kept by the outbox transport instead of being sent (development and testing)';
+COMMENT ON COLUMN email_outbox.attachments IS 'Array of {filename, content_type, content} with base64 content';
+COMMENT ON COLUMN email_outbox.raw IS 'Full MIME message, as an .eml file would hold it';
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+-- Written and read by the server with the service role only; the outbox
+-- holds every organization's emails
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
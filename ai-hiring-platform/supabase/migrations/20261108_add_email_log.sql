@@ -0,0 +1,76 @@
+-- Migration: Add outbound email log
+-- Date: 2026-11-08
+-- Description: Every email the send_email background job delivers is recorded
+--              with its recipient, type, a hash of its template data, the
+--              interview and candidate it concerns, the transport message id
+--              and its status. Resend delivery webhooks move it on to
+--              delivered, opened, bounced or complained. The candidate
+--              timeline lists the log, and failed emails can be resent.
+
+-- ============================================================
+-- EMAIL LOG
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  candidate_id UUID REFERENCES candidates(id) ON DELETE CASCADE,
+  interview_id UUID REFERENCES ai_interviews(id) ON DELETE SET NULL,
+  -- One row per send_email job; retries of the job update it
+  background_job_id UUID UNIQUE REFERENCES background_jobs(id) ON DELETE SET NULL,
+  resent_from_id UUID REFERENCES email_log(id) ON DELETE SET NULL,
+  to_address TEXT NOT NULL,
+  type TEXT NOT NULL,
+  data_hash TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  message_id TEXT,
+  status TEXT NOT NULL CHECK (status IN (
+    'retrying', 'failed', 'sent', 'delivery_delayed', 'delivered', 'opened', 'bounced', 'complained'
+  )),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  opened_at TIMESTAMPTZ,
+  bounced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_log_candidate
+ON email_log(candidate_id, created_at DESC);
+
+-- Delivery webhooks look emails up by the provider's message id
+CREATE INDEX IF NOT EXISTS idx_email_log_message
+ON email_log(message_id)
+WHERE message_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION update_email_log_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS email_log_updated_at ON email_log;
+CREATE TRIGGER email_log_updated_at
+  BEFORE UPDATE ON email_log
+  FOR EACH ROW
+  EXECUTE FUNCTION update_email_log_updated_at();
+
+COMMENT ON TABLE email_log IS 'Outbound emails and their delivery status';
+COMMENT ON COLUMN email_log.data_hash IS 'SHA-256 of the template data; the data itself stays in the background job payload';
+COMMENT ON COLUMN email_log.status IS 'retrying = an attempt failed and the job will run again; later statuses come from delivery webhooks';
+COMMENT ON COLUMN email_log.resent_from_id IS 'The failed email this one resends';
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+-- Written by the queue worker and delivery webhooks with the service role
+ALTER TABLE email_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS email_log_org_select ON email_log;
+CREATE POLICY email_log_org_select ON email_log
+  FOR SELECT USING (organization_id = public.current_organization_id());
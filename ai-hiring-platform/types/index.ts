@@ -54,6 +54,39 @@ export type CandidateStage =
   | "hired"          // Candidate accepted offer
   | "rejected";      // Candidate rejected at any stage
 
+/**
+ * Access level of a team member within their organization
+ * See lib/auth/permissions.ts for what each role may do
+ */
+export type UserRole =
+  | "member"     // View pipelines and comment
+  | "recruiter"  // Manage jobs, candidates and interviews
+  | "admin";     // Everything, plus organization settings
+
+/**
+ * Actions that can be permission-checked, named `<resource>:<action>`
+ * Granted per role by ROLE_PERMISSIONS in lib/auth/permissions.ts
+ */
+export type Permission =
+  | "job:view"
+  | "job:create"
+  | "job:update"
+  | "job:delete"
+  | "candidate:view"
+  | "candidate:create"
+  | "candidate:update"
+  | "candidate:move"
+  | "candidate:delete"
+  | "candidate:comment"
+  | "candidate:scorecard"
+  | "interview:view"
+  | "interview:schedule"
+  | "interview:review"
+  | "interview:override"
+  | "ai:use"
+  | "org:view"
+  | "org:manage";
+
 /**
  * Job posting lifecycle status
  */
@@ -84,6 +117,7 @@ export type EmploymentType = "full-time" | "part-time" | "contract" | "internshi
  */
 export type InterviewStatus =
   | "pending"      // Questions being generated
+  | "awaiting_booking" // Booking link sent, candidate hasn't chosen a time
   | "scheduled"    // Interview scheduled for future time
   | "ready"        // Questions ready, waiting to send
   | "sent"         // Invitation email sent to candidate
@@ -120,24 +154,69 @@ export type QuestionCategory =
  */
 export type QuestionDifficulty = "easy" | "medium" | "hard";
 
+/**
+ * Backend used for AI requests (see lib/ai/providers)
+ */
+export type LLMProviderName =
+  | "openai"        // OpenAI API
+  | "anthropic"     // Anthropic Messages API
+  | "azure_openai"  // Azure OpenAI deployment
+  | "local"         // OpenAI-compatible local server (Ollama, vLLM)
+  | "fixture";      // Deterministic canned responses for tests and demos
+
+/**
+ * AI feature that made an LLM call, recorded with its usage (see lib/ai/usage)
+ */
+export type AIFeature =
+  | "generate_questions"
+  | "follow_up"
+  | "score_candidate"
+  | "parse_resume"
+  | "evaluate_answer"
+  | "grade_screening"
+  | "generate_job_description"
+  | "summarize_interview";
+
 // ============================================================
 // CORE ENTITY TYPES - Database table interfaces
 // ============================================================
 
+/**
+ * Organization (tenant) that owns jobs, candidates and interviews
+ * Every profile belongs to exactly one organization
+ * 
+ * @property slug - URL-safe unique identifier (e.g., for public pages)
+ * @property ai_provider - LLM provider for AI features (null = server default)
+ * @property ai_model - Model override for that provider (null = provider default)
+ * @property ai_monthly_budget_usd - Estimated AI spend allowed per calendar month (null = unlimited)
+ */
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  ai_provider: LLMProviderName | null;
+  ai_model: string | null;
+  ai_monthly_budget_usd: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * User profile stored in Supabase
  * Linked to Supabase Auth user via id field
  * 
  * @property id - UUID matching Supabase Auth user ID
+ * @property organization_id - Organization the user belongs to
  * @property role - Access level determining permissions
  * @property notification_preferences - JSON blob of email/push settings
  */
 export interface Profile {
   id: string;
+  organization_id: string;
   email: string;
   full_name: string | null;
   company_name: string | null;
-  role: "recruiter" | "admin" | "member";
+  role: UserRole;
   avatar_url: string | null;
   timezone: string;
   notification_preferences: Json;
@@ -160,6 +239,7 @@ export interface Profile {
  */
 export interface Job {
   id: string;
+  organization_id: string;
   created_by: string;
   title: string;
   slug: string | null;
@@ -184,6 +264,12 @@ export interface Job {
   require_cover_letter: boolean;
   require_linkedin: boolean;
   require_github: boolean;
+  /** InterviewScoringConfig; null uses the default weights and thresholds */
+  interview_scoring: Json | null;
+  /** InterviewPlan; null = no competencies defined for human interview stages */
+  interview_plan: Json | null;
+  /** CodingQuestion[] added to every AI interview for the job */
+  coding_questions: Json;
   /** Total number of candidates who applied */
   total_applicants: number;
   /** Candidates not yet rejected/hired */
@@ -211,6 +297,7 @@ export interface Job {
  */
 export interface Candidate {
   id: string;
+  organization_id: string;
   job_id: string;
   email: string;
   full_name: string;
@@ -226,6 +313,8 @@ export interface Candidate {
   screening_answers: Json;
   /** AI match score 0-100, null if not yet scored */
   ai_score: number | null;
+  /** Prompt version that produced ai_score, e.g. "score_candidate@v1" */
+  ai_prompt_version: string | null;
   /** Breakdown: { skills_match, experience_match, education_match, keywords_match } */
   ai_score_breakdown: Json;
   /** Brief AI-generated summary of candidate fit */
@@ -249,6 +338,10 @@ export interface Candidate {
   utm_source: string | null;
   utm_medium: string | null;
   utm_campaign: string | null;
+  /** Set when the candidate was created by a bulk import */
+  import_batch_id: string | null;
+  /** Extended-time accommodation applied to interview time limits (1 = none) */
+  interview_time_multiplier: number;
   last_activity_at: string;
   is_starred: boolean;
   is_archived: boolean;
@@ -271,6 +364,7 @@ export interface Candidate {
  */
 export interface AIInterview {
   id: string;
+  organization_id: string;
   candidate_id: string;
   job_id: string;
   /** OpenAI model used for question generation (e.g., "gpt-4o-2024-08-06") */
@@ -310,6 +404,45 @@ export interface AIInterview {
   reviewed_at: string | null;
   /** UUID of the user who reviewed the interview */
   reviewed_by: string | null;
+  /** How overall_score and recommendation were computed (InterviewScoreBreakdown), null until completed */
+  score_breakdown: Json | null;
+  /**
+   * AI-written InterviewReport; null until completed or if the report
+   * couldn't be generated (ai_summary then holds a score-based summary)
+   */
+  ai_report: Json | null;
+  /** Prompt version that produced ai_report, e.g. "summarize_interview@v1" */
+  ai_report_prompt_version: string | null;
+  // Human review - overall_score and recommendation hold the reviewed values
+  /** Overall score as evaluated by AI, before human overrides */
+  ai_overall_score: number | null;
+  /** Recommendation as evaluated by AI, before human overrides */
+  ai_recommendation: InterviewRecommendation | null;
+  /** Recruiter's recommendation override; null = score-based recommendation stands */
+  human_recommendation: InterviewRecommendation | null;
+  /** Why the recruiter overrode scores or the recommendation */
+  review_reason: string | null;
+  /** When scores or the recommendation were last reviewed (reviewed_at only records that the results were seen) */
+  human_reviewed_at: string | null;
+  human_reviewed_by: string | null;
+  /** Maximum AI follow-up questions inserted during the interview (0 = adaptive mode off) */
+  max_follow_ups: number;
+  /** Auto-submit when interview_duration_minutes has passed since started_at */
+  enforce_time_limit: boolean;
+  /** Hard cap per question in minutes, null = no cap */
+  question_time_limit_minutes: number | null;
+  /** Last sign of the candidate's page being open (clock sync or draft save) */
+  last_heartbeat_at: string | null;
+  /** InterviewAvailability for candidate rescheduling, null = the candidate can't reschedule */
+  availability: Json | null;
+  /** How many times the candidate may reschedule from the interview link */
+  max_candidate_reschedules: number;
+  candidate_reschedule_count: number;
+  /** When the candidate declined (status is then "cancelled") */
+  declined_at: string | null;
+  decline_reason: string | null;
+  /** When the candidate chose the start time from a booking link */
+  booked_at: string | null;
 }
 
 /**
@@ -328,20 +461,46 @@ export interface InterviewQuestion {
   difficulty: QuestionDifficulty | null;
   /** Order in which question appears (1-indexed) */
   question_order: number;
+  question_type: QuestionType;
+  /** CodingQuestionSpec for coding questions, null otherwise */
+  coding_spec: Json | null;
   estimated_time_minutes: number;
   /** JSON array of ScoringCriteria objects */
   scoring_rubric: Json;
-  /** Candidate's text response, null if unanswered */
+  /** Candidate's text response (code for coding questions), null if unanswered */
   candidate_answer: string | null;
+  /** Autosaved answer in progress */
+  draft_answer: string | null;
+  draft_saved_at: string | null;
+  /** Language a coding answer is written in */
+  code_language: CodeLanguage | null;
+  /** CodeExecutionResult of the coding answer against all test cases */
+  code_execution: Json | null;
+  /** IntegritySignals recorded by the candidate's browser */
+  integrity_signals: Json | null;
+  /** When the candidate first opened the question (server time) */
+  started_at: string | null;
   answered_at: string | null;
   /** How long candidate spent on this question */
   time_spent_seconds: number | null;
   /** AI score for this answer (0-10) */
   ai_score: number | null;
+  /** Prompt version that produced ai_score, e.g. "evaluate_answer@v1" */
+  ai_prompt_version: string | null;
   /** AI-generated feedback on the answer */
   ai_feedback: string | null;
   /** Per-criterion evaluation breakdown */
   ai_evaluation_breakdown: Json;
+  /** Recruiter's override of ai_score (0-10); null = AI score stands */
+  human_score: number | null;
+  /** Recruiter's annotation on the answer */
+  human_feedback: string | null;
+  human_reviewed_at: string | null;
+  human_reviewed_by: string | null;
+  /** Question this follow-up was generated from; null for planned questions */
+  parent_question_id: string | null;
+  /** Why the follow-up was asked */
+  follow_up_rationale: string | null;
   created_at: string;
 }
 
@@ -409,6 +568,8 @@ export interface PregeneratedQuestions {
   status: "pending" | "generating" | "ready" | "failed" | "used";
   error_message: string | null;
   model_used: string;
+  /** Prompt version the questions were generated with, e.g. "generate_questions@v1" */
+  prompt_version: string | null;
   generated_at: string | null;
   /** Timestamp when questions were used to create interview */
   used_at: string | null;
@@ -436,6 +597,122 @@ export interface Notification {
   created_at: string;
 }
 
+/**
+ * Kind of work a background job performs
+ * Each type has a handler in lib/queue/handlers
+ */
+export type BackgroundJobType =
+  | "score_candidate"
+  | "pregenerate_questions"
+  | "send_email"
+  | "evaluate_interview";
+
+/**
+ * Background job lifecycle state
+ * Jobs that fail are retried with backoff until max_attempts, then marked failed
+ */
+export type BackgroundJobStatus = "pending" | "running" | "completed" | "failed";
+
+/**
+ * Durable background job, processed by the cron-driven worker
+ * 
+ * @property run_at - Earliest time the job may (re)run
+ * @property locked_until - Lease held by the worker currently running the job
+ * @property dedupe_key - Prevents queueing the same work twice while pending or running
+ */
+export interface BackgroundJob {
+  id: string;
+  organization_id: string | null;
+  type: BackgroundJobType;
+  payload: Json;
+  status: BackgroundJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+  dedupe_key: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Email attachment kept by the outbox
+ */
+export interface OutboxEmailAttachment {
+  filename: string;
+  content_type: string;
+  /** Base64 content */
+  content: string;
+}
+
+/**
+ * An email kept by the outbox transport instead of being sent
+ * Shown in the dev mailbox (/dev/mailbox)
+ *
+ * @property raw - The full MIME message, as an .eml file would hold it
+ */
+export interface OutboxEmail {
+  id: string;
+  message_id: string;
+  from_address: string;
+  to_address: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments: OutboxEmailAttachment[];
+  raw: string;
+  created_at: string;
+}
+
+/**
+ * Delivery status of a logged email
+ * - retrying: an attempt failed and the send_email job will run again
+ * - failed: every attempt failed
+ * - sent: accepted by the transport
+ * - delivery_delayed, delivered, opened, bounced, complained: from delivery webhooks
+ */
+export type EmailStatus =
+  | "retrying"
+  | "failed"
+  | "sent"
+  | "delivery_delayed"
+  | "delivered"
+  | "opened"
+  | "bounced"
+  | "complained";
+
+/**
+ * An outbound email, recorded by the send_email job
+ *
+ * @property data_hash - SHA-256 of the template data (the data stays in the job payload)
+ * @property message_id - Transport message ID, matched by delivery webhooks
+ * @property resent_from_id - The failed email this one resends
+ */
+export interface EmailLogEntry {
+  id: string;
+  organization_id: string | null;
+  candidate_id: string | null;
+  interview_id: string | null;
+  background_job_id: string | null;
+  resent_from_id: string | null;
+  to_address: string;
+  type: string;
+  data_hash: string;
+  transport: string;
+  message_id: string | null;
+  status: EmailStatus;
+  error: string | null;
+  attempts: number;
+  sent_at: string | null;
+  delivered_at: string | null;
+  opened_at: string | null;
+  bounced_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================================
 // AI TYPES - Types for AI-powered features
 // These use camelCase to match OpenAI structured output format
@@ -844,6 +1121,677 @@ export const AnswerEvaluationSchema = z.object({
   follow_up_suggestion: z.string().optional(),
 });
 
+// ============================================================
+// INTERVIEW SCORING TYPES - Rubric-weighted interview scores
+// ============================================================
+
+/**
+ * Minimum interview score (0-100) for each recommendation
+ * Scores below `no` get "strong_no".
+ */
+export interface InterviewRecommendationThresholds {
+  strong_yes: number;
+  yes: number;
+  maybe: number;
+  no: number;
+}
+
+/**
+ * Interview scoring settings configured on a job (stored in jobs.interview_scoring)
+ *
+ * @property category_weights - Relative weight of each question category;
+ *   0 leaves the category out of the overall score
+ * @property thresholds - Recommendation cutoffs on the overall score
+ */
+export interface InterviewScoringConfig {
+  category_weights: Record<QuestionCategory, number>;
+  thresholds: InterviewRecommendationThresholds;
+}
+
+const CategoryWeightSchema = z.number().min(0).max(5);
+const ThresholdSchema = z.number().int().min(0).max(100);
+
+/**
+ * Zod schema for validating InterviewScoringConfig
+ */
+export const InterviewScoringConfigSchema = z.object({
+  category_weights: z.object({
+    technical: CategoryWeightSchema,
+    behavioral: CategoryWeightSchema,
+    "system-design": CategoryWeightSchema,
+    "problem-solving": CategoryWeightSchema,
+    "culture-fit": CategoryWeightSchema,
+  }),
+  thresholds: z
+    .object({
+      strong_yes: ThresholdSchema,
+      yes: ThresholdSchema,
+      maybe: ThresholdSchema,
+      no: ThresholdSchema,
+    })
+    .refine((t) => t.strong_yes > t.yes && t.yes > t.maybe && t.maybe > t.no, {
+      message: "Thresholds must decrease from strong yes to no",
+    }),
+});
+
+/**
+ * How one answered question contributed to the interview score
+ *
+ * @property score - Rubric-weighted answer score (0-10); the AI's overall
+ *   answer score when no criteria were graded
+ * @property ai_score - The AI's overall answer score (0-10)
+ * @property human_score - Recruiter's override (0-10), used instead of `score` when set
+ * @property weight - Difficulty weight x category weight
+ * @property criteria - Graded rubric criteria with their rubric weights
+ */
+export interface InterviewQuestionScore {
+  question_id: string;
+  question_order: number;
+  category: QuestionCategory | null;
+  difficulty: QuestionDifficulty | null;
+  score: number;
+  ai_score: number;
+  human_score?: number | null;
+  weight: number;
+  criteria: { aspect: string; weight: number; score: number }[];
+}
+
+/**
+ * Breakdown behind an interview's overall score (stored in ai_interviews.score_breakdown)
+ *
+ * @property categories - Difficulty-weighted average score (0-10) per category
+ *   and the category weight applied to it; null category = uncategorized questions
+ * @property thresholds - Cutoffs the recommendation was picked with
+ */
+export interface InterviewScoreBreakdown {
+  overall_score: number;
+  recommendation: InterviewRecommendation;
+  thresholds: InterviewRecommendationThresholds;
+  categories: {
+    category: QuestionCategory | null;
+    weight: number;
+    score: number;
+    question_count: number;
+  }[];
+  questions: InterviewQuestionScore[];
+}
+
+/**
+ * Strength or concern in an interview report, with the answers it's based on
+ *
+ * @property question_orders - question_order of each supporting question (1-indexed)
+ */
+export interface InterviewReportPoint {
+  point: string;
+  question_orders: number[];
+}
+
+/**
+ * AI-written report on a completed interview (stored in ai_interviews.ai_report)
+ *
+ * The recommendation is the model's holistic read of the whole interview
+ * and can differ from the score-based ai_interviews.recommendation; the
+ * rationale says why.
+ *
+ * @property focus_areas - Topics for the next (human) interview round to probe
+ */
+export interface InterviewReport {
+  summary: string;
+  strengths: InterviewReportPoint[];
+  concerns: InterviewReportPoint[];
+  recommendation: InterviewRecommendation;
+  recommendation_rationale: string;
+  focus_areas: string[];
+}
+
+const InterviewReportPointSchema = z.object({
+  point: z.string().describe("One specific strength or concern"),
+  question_orders: z
+    .array(z.number().int().min(1))
+    .describe("Numbers of the questions whose answers support this point"),
+});
+
+/**
+ * Zod schema for InterviewReport (OpenAI structured output)
+ * @see InterviewReport
+ */
+export const InterviewReportSchema = z.object({
+  summary: z.string().max(1200),
+  strengths: z.array(InterviewReportPointSchema).max(5),
+  concerns: z.array(InterviewReportPointSchema).max(5),
+  recommendation: z.enum(["strong_yes", "yes", "maybe", "no", "strong_no"]),
+  recommendation_rationale: z.string().max(800),
+  focus_areas: z.array(z.string()).max(5).describe("Topics the next interviewer should probe"),
+});
+
+// ============================================================
+// INTERVIEW REVIEW TYPES - Human overrides of AI evaluations
+// ============================================================
+
+const RecommendationSchema = z.enum(["strong_yes", "yes", "maybe", "no", "strong_no"]);
+
+/**
+ * Request body for PUT /api/interviews/:id/review
+ *
+ * Questions left out keep their current override; a null human_score
+ * clears a question's override, and a null recommendation clears the
+ * recommendation override.
+ */
+export const InterviewReviewRequestSchema = z
+  .object({
+    questions: z
+      .array(
+        z.object({
+          question_id: z.string().uuid(),
+          human_score: z.number().min(0).max(10).multipleOf(0.5).nullable(),
+          human_feedback: z.string().trim().max(2000).nullable().optional(),
+        })
+      )
+      .max(50)
+      .default([]),
+    recommendation: RecommendationSchema.nullable().optional(),
+    reason: z.string().trim().max(2000).optional(),
+  })
+  .refine(
+    (r) =>
+      !(r.questions.some((q) => q.human_score !== null) || r.recommendation) || !!r.reason,
+    { message: "A reason is required when overriding scores or the recommendation", path: ["reason"] }
+  );
+
+export type InterviewReviewRequest = z.infer<typeof InterviewReviewRequestSchema>;
+
+/**
+ * One reviewed answer in the labelled data export
+ * (GET /api/interviews/reviews/export)
+ *
+ * @property label_score - The score the reviewer settled on: human_score,
+ *   or ai_score if the reviewer kept it
+ */
+export interface InterviewReviewExportRow {
+  interview_id: string;
+  job_id: string;
+  job_title: string | null;
+  question_id: string;
+  question_order: number;
+  category: QuestionCategory | null;
+  difficulty: QuestionDifficulty | null;
+  question_text: string;
+  candidate_answer: string | null;
+  ai_score: number | null;
+  ai_prompt_version: string | null;
+  human_score: number | null;
+  label_score: number | null;
+  human_feedback: string | null;
+  ai_overall_score: number | null;
+  overall_score: number | null;
+  ai_recommendation: InterviewRecommendation | null;
+  human_recommendation: InterviewRecommendation | null;
+  review_reason: string | null;
+  reviewed_at: string;
+}
+
+/**
+ * AI-vs-human agreement for one month of reviews
+ *
+ * @property score_mean_absolute_error - Mean |ai_score - label_score| over reviewed answers
+ *   (0 for answers whose AI score was kept)
+ * @property score_agreement_rate - Share of reviewed answers whose AI score
+ *   was kept or changed by at most 1 point
+ * @property recommendation_agreement_rate - Share of reviewed interviews
+ *   whose recommendation wasn't overridden
+ */
+export interface InterviewReviewAgreement {
+  month: string;
+  interviews_reviewed: number;
+  answers_reviewed: number;
+  answers_overridden: number;
+  score_mean_absolute_error: number | null;
+  score_agreement_rate: number | null;
+  recommendation_agreement_rate: number | null;
+}
+
+// ============================================================
+// SCORECARD TYPES - Structured feedback from human interview stages
+// ============================================================
+
+/**
+ * Pipeline stages run by human interviewers, which scorecards belong to
+ */
+export type HumanInterviewStage = Extract<CandidateStage, "phone_screen" | "technical" | "onsite">;
+
+const HumanInterviewStageSchema = z.enum(["phone_screen", "technical", "onsite"]);
+
+/**
+ * A competency assessed in an interview stage
+ *
+ * @property id - Stable key that scorecard ratings refer to, so a
+ *   competency can be renamed without losing its ratings
+ */
+export interface InterviewPlanCompetency {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+/**
+ * Interview plan configured on a job (stored in jobs.interview_plan)
+ * Stages without an entry have no scorecard competencies.
+ */
+export interface InterviewPlan {
+  stages: {
+    stage: HumanInterviewStage;
+    competencies: InterviewPlanCompetency[];
+  }[];
+}
+
+/**
+ * Zod schema for validating InterviewPlan
+ */
+export const InterviewPlanSchema = z.object({
+  stages: z
+    .array(
+      z.object({
+        stage: HumanInterviewStageSchema,
+        competencies: z
+          .array(
+            z.object({
+              id: z.string().trim().min(1).max(64),
+              name: z.string().trim().min(1, "Competency name is required").max(80),
+              description: z.string().trim().max(500).nullable().default(null),
+            })
+          )
+          .min(1, "Add at least one competency")
+          .max(12)
+          .refine((c) => new Set(c.map((x) => x.id)).size === c.length, {
+            message: "Competency IDs must be unique",
+          }),
+      })
+    )
+    .max(3)
+    .refine((s) => new Set(s.map((x) => x.stage)).size === s.length, {
+      message: "Each stage can only be planned once",
+    }),
+});
+
+/**
+ * Interviewer's hire/no-hire decision (no "maybe": interviewers must pick a side)
+ */
+export type ScorecardDecision = Exclude<InterviewRecommendation, "maybe">;
+
+/**
+ * Rating of one competency on a scorecard
+ *
+ * @property competency - Competency name when the scorecard was submitted
+ * @property rating - 1 (poor) to 4 (excellent)
+ */
+export interface ScorecardRating {
+  competency_id: string;
+  competency: string;
+  rating: number;
+  notes: string | null;
+}
+
+/**
+ * Candidate scorecard record from database
+ * One per interviewer per stage
+ */
+export interface CandidateScorecard {
+  id: string;
+  organization_id: string;
+  candidate_id: string;
+  job_id: string;
+  interviewer_id: string;
+  stage: HumanInterviewStage;
+  /** ScorecardRating[] */
+  ratings: Json;
+  notes: string | null;
+  decision: ScorecardDecision;
+  submitted_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Request body for POST /api/candidates/:id/scorecards
+ * Ratings refer to competencies of the stage in the job's interview plan;
+ * competencies can be left unrated.
+ */
+export const SubmitScorecardRequestSchema = z.object({
+  stage: HumanInterviewStageSchema,
+  ratings: z
+    .array(
+      z.object({
+        competency_id: z.string().min(1),
+        rating: z.number().int().min(1).max(4),
+        notes: z.string().trim().max(2000).nullable().optional(),
+      })
+    )
+    .max(12),
+  notes: z.string().trim().max(5000).nullable().optional(),
+  decision: z.enum(["strong_yes", "yes", "no", "strong_no"]),
+});
+
+export type SubmitScorecardRequest = z.infer<typeof SubmitScorecardRequestSchema>;
+
+// ============================================================
+// CODING QUESTION TYPES - Code answers run against test cases
+// ============================================================
+
+/**
+ * How a question is answered: free text, or code run against test cases
+ */
+export type QuestionType = "text" | "coding";
+
+/**
+ * Languages coding questions can be answered in
+ */
+export type CodeLanguage = "javascript" | "typescript" | "python";
+
+export const CodeLanguageSchema = z.enum(["javascript", "typescript", "python"]);
+
+/**
+ * One test case of a coding question
+ *
+ * @property args - Arguments the candidate's function is called with
+ * @property expected - Expected return value (compared as JSON)
+ * @property hidden - Hidden tests only run when the interview is evaluated;
+ *   the candidate sees how many there are, not what they check
+ */
+export interface CodingTestCase {
+  id: string;
+  name: string;
+  args: Json[];
+  expected: Json;
+  hidden: boolean;
+}
+
+/**
+ * Coding question configured on a job (stored in jobs.coding_questions)
+ * Added to every AI interview scheduled for the job, after the generated questions.
+ *
+ * @property function_name - Function the candidate implements and the tests call
+ * @property starter_code - Template shown in the editor, per language
+ */
+export interface CodingQuestion {
+  id: string;
+  prompt: string;
+  difficulty: QuestionDifficulty;
+  estimated_minutes: number;
+  function_name: string;
+  languages: CodeLanguage[];
+  starter_code: Partial<Record<CodeLanguage, string>>;
+  test_cases: CodingTestCase[];
+}
+
+/**
+ * Zod schema for validating a job's coding questions
+ */
+export const CodingQuestionSchema = z.object({
+  id: z.string().trim().min(1).max(64),
+  prompt: z.string().trim().min(10, "Describe the problem").max(5000),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  estimated_minutes: z.number().int().min(5).max(60),
+  function_name: z
+    .string()
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Function name must be a valid identifier"),
+  languages: z.array(CodeLanguageSchema).min(1, "Pick at least one language"),
+  starter_code: z.object({
+    javascript: z.string().max(5000).optional(),
+    typescript: z.string().max(5000).optional(),
+    python: z.string().max(5000).optional(),
+  }),
+  test_cases: z
+    .array(
+      z.object({
+        id: z.string().trim().min(1).max(64),
+        name: z.string().trim().min(1).max(120),
+        args: z.array(z.custom<Json>()),
+        expected: z.custom<Json>(),
+        hidden: z.boolean(),
+      })
+    )
+    .min(1, "Add at least one test case")
+    .max(30),
+});
+
+export const CodingQuestionsSchema = z.array(CodingQuestionSchema).max(3);
+
+/**
+ * Coding question as stored on an interview question (interview_questions.coding_spec)
+ */
+export type CodingQuestionSpec = Omit<CodingQuestion, "id" | "prompt" | "difficulty" | "estimated_minutes">;
+
+export const CodingQuestionSpecSchema = CodingQuestionSchema.omit({
+  id: true,
+  prompt: true,
+  difficulty: true,
+  estimated_minutes: true,
+});
+
+/**
+ * Outcome of running one test case
+ *
+ * @property actual - Value the function returned; omitted for hidden tests shown to the candidate
+ * @property error - Exception thrown by the candidate's code, if any
+ */
+export interface CodeTestResult {
+  test_id: string;
+  name: string;
+  hidden: boolean;
+  passed: boolean;
+  actual?: Json;
+  error?: string;
+  duration_ms: number;
+}
+
+/**
+ * Outcome of running a code answer against its test cases
+ * (stored in interview_questions.code_execution)
+ *
+ * @property status - "error" when the code couldn't run (syntax error,
+ *   missing function), "timeout" when it was stopped for running too long
+ * @property output - Anything the code printed, truncated
+ */
+export interface CodeExecutionResult {
+  language: CodeLanguage;
+  status: "passed" | "failed" | "error" | "timeout";
+  passed: number;
+  total: number;
+  results: CodeTestResult[];
+  output: string;
+  error: string | null;
+  duration_ms: number;
+  ran_at: string;
+}
+
+// ============================================================
+// INTEGRITY TYPES - Behavioral signals from unproctored interviews
+// ============================================================
+
+/**
+ * What the candidate's browser observed while a question was open
+ * (stored in interview_questions.integrity_signals)
+ *
+ * These are observations, not verdicts: pasting from notes, switching
+ * tabs to look something up and slow typing all have innocent
+ * explanations. They help recruiters decide what to ask about in a
+ * human round.
+ *
+ * @property pastes - Each paste: characters pasted and ms after the question was opened
+ * @property focus_losses - Times the interview window lost focus
+ * @property away_ms - Total time the window was out of focus
+ * @property typing_ms - Time spent typing (gaps between keystrokes under 2 seconds)
+ * @property long_pauses - Gaps of over 30 seconds between keystrokes
+ */
+export interface IntegritySignals {
+  pastes: { chars: number; at_ms: number }[];
+  pasted_chars: number;
+  focus_losses: number;
+  away_ms: number;
+  keystrokes: number;
+  typing_ms: number;
+  long_pauses: number;
+}
+
+const signalCount = z.number().int().min(0).max(100_000_000);
+
+/**
+ * Zod schema for integrity signals sent by the candidate's browser
+ */
+export const IntegritySignalsSchema = z.object({
+  pastes: z
+    .array(z.object({ chars: signalCount, at_ms: signalCount }))
+    .max(100),
+  pasted_chars: signalCount,
+  focus_losses: signalCount,
+  away_ms: signalCount,
+  keystrokes: signalCount,
+  typing_ms: signalCount,
+  long_pauses: signalCount,
+});
+
+/**
+ * Observation shown to recruiters in the interview review
+ *
+ * @property question_order - Question it's about
+ */
+export interface IntegrityNote {
+  question_order: number;
+  kind: "paste" | "focus" | "timing" | "typing";
+  message: string;
+}
+
+// ============================================================
+// SCREENING TYPES - Application screening questions
+// ============================================================
+
+/**
+ * Kind of answer a screening question expects
+ * - text: free text, graded by AI against an optional ideal answer
+ * - yes_no: boolean, may flag one of the two answers
+ * - multiple_choice: one of `options`, may flag some options
+ * - numeric: a number, may flag values outside [min_value, max_value]
+ */
+export type ScreeningQuestionType = "text" | "yes_no" | "multiple_choice" | "numeric";
+
+/**
+ * Screening question configured on a job (stored in jobs.screening_questions)
+ * 
+ * Knockout settings never reject a candidate automatically - a matching
+ * answer is flagged for the recruiter in the candidate's score breakdown.
+ * 
+ * @property knockout_answer - yes_no: the answer that triggers a flag
+ * @property knockout_options - multiple_choice: options that trigger a flag
+ * @property min_value - numeric: answers below this trigger a flag
+ * @property max_value - numeric: answers above this trigger a flag
+ * @property ideal_answer - text: guidance for AI grading
+ */
+export interface ScreeningQuestion {
+  id: string;
+  type: ScreeningQuestionType;
+  prompt: string;
+  required: boolean;
+  options?: string[];
+  knockout_answer?: "yes" | "no";
+  knockout_options?: string[];
+  min_value?: number;
+  max_value?: number;
+  ideal_answer?: string;
+}
+
+/**
+ * Zod schema for validating ScreeningQuestion
+ */
+export const ScreeningQuestionSchema = z
+  .object({
+    id: z.string().min(1).max(64),
+    type: z.enum(["text", "yes_no", "multiple_choice", "numeric"]),
+    prompt: z.string().trim().min(1, "Question text is required").max(500),
+    required: z.boolean().default(true),
+    options: z.array(z.string().trim().min(1).max(200)).max(20).optional(),
+    knockout_answer: z.enum(["yes", "no"]).optional(),
+    knockout_options: z.array(z.string()).optional(),
+    min_value: z.number().optional(),
+    max_value: z.number().optional(),
+    ideal_answer: z.string().max(2000).optional(),
+  })
+  .refine(
+    (q) => q.type !== "multiple_choice" || (q.options?.length ?? 0) >= 2,
+    { message: "Multiple choice questions need at least two options", path: ["options"] }
+  );
+
+/**
+ * Candidate's answer to a screening question (stored in candidates.screening_answers)
+ */
+export interface ScreeningAnswer {
+  question_id: string;
+  /** "yes"/"no" for yes_no, the chosen option for multiple_choice */
+  value: string | number;
+}
+
+/**
+ * Zod schema for validating ScreeningAnswer
+ */
+export const ScreeningAnswerSchema = z.object({
+  question_id: z.string().min(1).max(64),
+  value: z.union([z.string().max(5000), z.number()]),
+});
+
+/**
+ * Outcome for a single screening question
+ * 
+ * @property flagged - True if the answer matched the question's knockout rule
+ * @property ai_score - Text questions only: AI grade 0-10
+ */
+export interface ScreeningAnswerResult {
+  question_id: string;
+  prompt: string;
+  type: ScreeningQuestionType;
+  /** Answer formatted for display, null if unanswered */
+  answer: string | null;
+  flagged: boolean;
+  /** Why the answer was flagged, e.g. "Answered yes" */
+  flag_reason?: string;
+  ai_score?: number;
+  ai_notes?: string;
+}
+
+/**
+ * Screening results folded into candidates.ai_score_breakdown.screening
+ * 
+ * @property score - 0-100: knockout questions count 100 (pass) or 0 (flagged),
+ *                   text questions count their AI grade; null if nothing was gradable
+ */
+export interface ScreeningEvaluation {
+  results: ScreeningAnswerResult[];
+  flagged_count: number;
+  score: number | null;
+  evaluated_at: string;
+}
+
+/**
+ * AI grades for free-text screening answers (OpenAI structured output)
+ */
+export const ScreeningGradesSchema = z.object({
+  grades: z.array(
+    z.object({
+      question_id: z.string(),
+      score: z.number().min(0).max(10),
+      notes: z.string().describe("One sentence explaining the grade"),
+    })
+  ),
+});
+
+export type ScreeningGrades = z.infer<typeof ScreeningGradesSchema>;
+
+/**
+ * Shape of candidates.ai_score_breakdown
+ * Match percentages from AI scoring plus screening results when the job has questions
+ */
+export type CandidateScoreBreakdown = Partial<MatchScore["breakdown"]> & {
+  screening?: ScreeningEvaluation;
+};
+
 // ============================================================
 // API TYPES - Request/Response interfaces for REST endpoints
 // ============================================================
@@ -894,6 +1842,18 @@ export interface CreateJobRequest {
   nice_to_have_skills?: string[];
   salary_min?: number;
   salary_max?: number;
+  /** Show the salary range on the public careers page */
+  show_salary?: boolean;
+  /** ISO timestamp after which the careers page stops accepting applications */
+  application_deadline?: string;
+  require_cover_letter?: boolean;
+  require_linkedin?: boolean;
+  require_github?: boolean;
+  screening_questions?: ScreeningQuestion[];
+  /** Interview scoring settings (default weights and thresholds if omitted) */
+  interview_scoring?: InterviewScoringConfig | null;
+  interview_plan?: InterviewPlan | null;
+  coding_questions?: CodingQuestion[];
   /** If true, AI will enhance the description */
   use_ai_description?: boolean;
   /** Initial status (default: "draft") */
@@ -983,6 +1943,214 @@ export interface MoveCandidateRequest {
   notes?: string;
 }
 
+// ============================================================
+// Organization API Types
+// ============================================================
+
+/**
+ * Response from GET /api/me
+ * The signed-in user with their organization and permissions
+ */
+export interface CurrentUserResponse {
+  profile: Profile;
+  organization: Organization;
+  permissions: Permission[];
+}
+
+/**
+ * Request body for PATCH /api/organization
+ */
+export interface UpdateOrganizationRequest {
+  name?: string;
+  slug?: string;
+  ai_provider?: LLMProviderName | null;
+  ai_model?: string | null;
+  ai_monthly_budget_usd?: number | null;
+}
+
+/**
+ * Request body for PATCH /api/organization/members/[id]
+ */
+export interface UpdateMemberRoleRequest {
+  role: UserRole;
+}
+
+/**
+ * Request body for POST /api/candidates/[id]/comments
+ */
+export interface CreateCommentRequest {
+  content: string;
+  mentioned_users?: string[];
+}
+
+/**
+ * Response from GET /api/organization/background-jobs
+ */
+export interface ListBackgroundJobsResponse {
+  jobs: BackgroundJob[];
+}
+
+/**
+ * Response from GET /api/dev/mailbox, newest first
+ */
+export interface ListOutboxEmailsResponse {
+  emails: OutboxEmail[];
+}
+
+/**
+ * Aggregated AI usage; cost_usd is an estimate from list prices
+ */
+export interface AIUsageTotals {
+  calls: number;
+  failed_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+/**
+ * Response from GET /api/organization/ai-usage
+ * 
+ * @property months - One entry per month (YYYY-MM, UTC) in the period, newest first
+ * @property by_feature - Usage per AI feature, for `month` if given, else the whole period
+ * @property by_job - Usage per job (job_id null = not tied to a job), same range as by_feature
+ */
+export interface AIUsageResponse {
+  budget: {
+    monthly_budget_usd: number | null;
+    spent_this_month_usd: number;
+  };
+  months: (AIUsageTotals & { month: string })[];
+  by_feature: (AIUsageTotals & { feature: AIFeature })[];
+  by_job: (AIUsageTotals & { job_id: string | null; job_title: string | null })[];
+}
+
+// ============================================================
+// Careers API Types
+// ============================================================
+
+/**
+ * Job as shown on the public careers page
+ * Internal fields (pipeline counts, creator, archive state) are omitted
+ * and the salary range is null unless the job has show_salary enabled
+ */
+export type PublicJob = Pick<
+  Job,
+  | "id"
+  | "title"
+  | "slug"
+  | "level"
+  | "department"
+  | "location"
+  | "location_type"
+  | "employment_type"
+  | "description"
+  | "responsibilities"
+  | "required_skills"
+  | "nice_to_have_skills"
+  | "salary_min"
+  | "salary_max"
+  | "salary_currency"
+  | "status"
+  | "application_deadline"
+  | "require_cover_letter"
+  | "require_linkedin"
+  | "require_github"
+  | "published_at"
+> & {
+  screening_questions: ScreeningQuestion[];
+};
+
+/**
+ * Request body for POST /api/careers/[orgSlug]/[jobSlug]/apply
+ */
+export interface CareersApplicationRequest {
+  full_name: string;
+  email: string;
+  phone?: string;
+  location?: string;
+  linkedin_url?: string;
+  github_url?: string;
+  portfolio_url?: string;
+  cover_letter?: string;
+  screening_answers?: ScreeningAnswer[];
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+}
+
+// ============================================================
+// Import API Types
+// ============================================================
+
+/** Export format of an imported file; detected from its headers */
+export type ImportSourceFormat = "csv" | "greenhouse" | "lever";
+
+/**
+ * One candidate row of a bulk import, after column mapping
+ * Empty cells are omitted rather than sent as empty strings
+ */
+export const ImportCandidateSchema = z.object({
+  full_name: z.string().trim().min(1, "Name is required").max(200),
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  phone: z.string().trim().max(50).optional(),
+  location: z.string().trim().max(200).optional(),
+  linkedin_url: z.string().trim().url("Invalid LinkedIn URL").optional(),
+  github_url: z.string().trim().url("Invalid GitHub URL").optional(),
+  portfolio_url: z.string().trim().url("Invalid portfolio URL").optional(),
+  cover_letter: z.string().max(10000).optional(),
+  source: z.string().trim().max(100).optional(),
+  applied_at: z.string().datetime({ offset: true, message: "Invalid application date" }).optional(),
+});
+
+export type ImportCandidate = z.infer<typeof ImportCandidateSchema>;
+
+/**
+ * Request body for POST /api/candidates/import
+ * With dry_run the rows are only validated and checked for duplicates
+ */
+export interface ImportCandidatesRequest {
+  job_id: string;
+  /** Client-generated id shared by every batch of one import */
+  import_id: string;
+  format: ImportSourceFormat;
+  candidates: Partial<ImportCandidate>[];
+  dry_run?: boolean;
+}
+
+/**
+ * Outcome for one imported row
+ * `duplicate` means the email already applied to the job or appears earlier in the file
+ */
+export interface ImportRowResult {
+  /** Position in the request's candidates array */
+  index: number;
+  status: "valid" | "invalid" | "duplicate" | "created";
+  errors?: string[];
+}
+
+/**
+ * Response from POST /api/candidates/import
+ */
+export interface ImportCandidatesResponse {
+  results: ImportRowResult[];
+  summary: {
+    valid: number;
+    invalid: number;
+    duplicate: number;
+    created: number;
+  };
+}
+
+/**
+ * Response from GET /api/candidates/import
+ * Scoring progress of an import's candidates
+ */
+export interface ImportStatusResponse {
+  total: number;
+  scored: number;
+}
+
 // ============================================================
 // AI API Types
 // ============================================================
@@ -1043,8 +2211,13 @@ export interface EvaluateAnswerRequest {
 export interface ScheduleInterviewRequest {
   candidate_id: string;
   job_id: string;
-  /** ISO 8601 datetime when interview should be available */
-  scheduled_at: string;
+  /**
+   * "fixed" (default): the interview is at scheduled_at.
+   * "booking": the candidate chooses a start time within `availability`.
+   */
+  scheduling_mode?: "fixed" | "booking";
+  /** ISO 8601 datetime when interview should be available; required in "fixed" mode */
+  scheduled_at?: string;
   /** Interview duration in minutes (default: 30) */
   duration_minutes?: number;
   /** Send email invitation immediately (default: true) */
@@ -1053,20 +2226,90 @@ export interface ScheduleInterviewRequest {
   custom_message?: string;
   /** Candidate's timezone for display (e.g., "America/New_York") */
   candidate_timezone?: string;
+  /** Maximum AI follow-up questions after shallow answers (default: 0 = off) */
+  max_follow_ups?: number;
+  /** Auto-submit when the duration runs out (default: false) */
+  enforce_time_limit?: boolean;
+  /** Hard cap per question in minutes (default: none) */
+  question_time_limit_minutes?: number | null;
+  /** Extended-time accommodation for the candidate; saved on the candidate */
+  time_multiplier?: number;
+  /**
+   * When the candidate may book or move the interview to; required in
+   * "booking" mode (default: candidate can't reschedule)
+   */
+  availability?: InterviewAvailability | null;
+  /** How many times the candidate may reschedule (default: 0) */
+  max_candidate_reschedules?: number;
 }
 
+/**
+ * Times an AI interview may be scheduled in, e.g. "any time in the next
+ * 5 days, 8am-10pm" in the candidate's timezone
+ */
+export interface InterviewAvailability {
+  /** Earliest start (ISO 8601) */
+  starts_at: string;
+  /** The interview must end by this time (ISO 8601) */
+  ends_at: string;
+  /** Earliest local start each day, "HH:mm" */
+  day_start: string;
+  /** Latest local end each day, "HH:mm"; "24:00" = midnight */
+  day_end: string;
+  /** IANA timezone of day_start and day_end; null = the candidate's own timezone */
+  timezone: string | null;
+}
+
+const LocalTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Expected HH:mm");
+
+/**
+ * Zod schema for validating InterviewAvailability
+ */
+export const InterviewAvailabilitySchema = z
+  .object({
+    starts_at: z.string().datetime("Invalid datetime format"),
+    ends_at: z.string().datetime("Invalid datetime format"),
+    day_start: LocalTimeSchema,
+    day_end: LocalTimeSchema,
+    timezone: z.string().min(1).nullable(),
+  })
+  .refine((a) => new Date(a.starts_at) < new Date(a.ends_at), {
+    message: "Availability must end after it starts",
+    path: ["ends_at"],
+  })
+  .refine((a) => a.day_start < a.day_end, {
+    message: "Daily hours must end after they start",
+    path: ["day_end"],
+  });
+
 /**
  * Zod schema for validating ScheduleInterviewRequest
  */
-export const ScheduleInterviewRequestSchema = z.object({
-  candidate_id: z.string().uuid("Invalid candidate ID"),
-  job_id: z.string().uuid("Invalid job ID"),
-  scheduled_at: z.string().datetime("Invalid datetime format"),
-  duration_minutes: z.number().min(15).max(120).optional().default(30),
-  send_immediate_invite: z.boolean().optional().default(true),
-  custom_message: z.string().max(1000).optional(),
-  candidate_timezone: z.string().optional(),
-});
+export const ScheduleInterviewRequestSchema = z
+  .object({
+    candidate_id: z.string().uuid("Invalid candidate ID"),
+    job_id: z.string().uuid("Invalid job ID"),
+    scheduling_mode: z.enum(["fixed", "booking"]).optional().default("fixed"),
+    scheduled_at: z.string().datetime("Invalid datetime format").optional(),
+    duration_minutes: z.number().min(15).max(120).optional().default(30),
+    send_immediate_invite: z.boolean().optional().default(true),
+    custom_message: z.string().max(1000).optional(),
+    candidate_timezone: z.string().optional(),
+    max_follow_ups: z.number().int().min(0).max(5).optional().default(0),
+    enforce_time_limit: z.boolean().optional().default(false),
+    question_time_limit_minutes: z.number().int().min(1).max(60).nullable().optional().default(null),
+    time_multiplier: z.number().min(1).max(3).optional(),
+    availability: InterviewAvailabilitySchema.nullable().optional().default(null),
+    max_candidate_reschedules: z.number().int().min(0).max(5).optional().default(0),
+  })
+  .refine((data) => data.scheduling_mode !== "fixed" || data.scheduled_at, {
+    message: "A scheduled time is required",
+    path: ["scheduled_at"],
+  })
+  .refine((data) => data.scheduling_mode !== "booking" || data.availability, {
+    message: "An availability is required for a booking link",
+    path: ["availability"],
+  });
 
 /**
  * Response from POST /api/interviews/schedule
@@ -1100,6 +2343,52 @@ export const RescheduleInterviewRequestSchema = z.object({
   reschedule_reason: z.string().max(500).optional(),
 });
 
+/**
+ * Request body for POST /api/interviews/:id/reschedule
+ * The candidate moves their scheduled interview from the interview link
+ */
+export const CandidateRescheduleRequestSchema = z.object({
+  token: z.string(),
+  /** New start, within the interview's availability (ISO 8601) */
+  scheduled_at: z.string().datetime("Invalid datetime format"),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * Request body for POST /api/interviews/:id/book
+ * The candidate chooses the start time from a booking link
+ */
+export const BookInterviewRequestSchema = z.object({
+  token: z.string(),
+  /** Chosen start, within the interview's availability (ISO 8601) */
+  scheduled_at: z.string().datetime("Invalid datetime format"),
+  /** Candidate's IANA timezone, for availabilities in their local time and the calendar invite */
+  timezone: z
+    .string()
+    .min(1)
+    .max(100)
+    .refine(
+      (timezone) => {
+        try {
+          new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: "Unknown timezone" }
+    ),
+});
+
+/**
+ * Request body for POST /api/interviews/:id/decline
+ * The candidate declines their scheduled interview
+ */
+export const DeclineInterviewRequestSchema = z.object({
+  token: z.string(),
+  reason: z.string().max(500).optional(),
+});
+
 /**
  * Request body for POST /api/interviews/:id/start
  * Candidate uses this to begin their interview
@@ -1121,6 +2410,28 @@ export interface StartInterviewResponse {
   total_duration_minutes: number;
   /** When the interview session expires */
   expires_at: string;
+  clock: InterviewClock;
+}
+
+/**
+ * The interview clock as the server sees it (POST /api/interviews/:id/clock)
+ *
+ * The candidate's countdown is computed from these against server_time, so
+ * a wrong device clock doesn't change the time left. Deadlines include the
+ * candidate's time multiplier.
+ *
+ * @property deadline - When the interview is auto-submitted, null if untimed
+ * @property question_deadline - When the current question locks, null if uncapped
+ * @property time_up - The interview was auto-submitted because time ran out
+ */
+export interface InterviewClock {
+  server_time: string;
+  started_at: string | null;
+  deadline: string | null;
+  question_id: string | null;
+  question_deadline: string | null;
+  time_multiplier: number;
+  time_up: boolean;
 }
 
 /**
@@ -1132,8 +2443,53 @@ export interface SubmitAnswerRequest {
   answer: string;
   /** Time spent on this question in seconds */
   time_spent_seconds: number;
+  /** Language of a coding answer */
+  language?: CodeLanguage;
+  /** What the browser observed while the question was open */
+  integrity_signals?: IntegritySignals;
+}
+
+/**
+ * Request body for POST /api/interviews/:id/clock
+ * Syncs the candidate's countdown and starts a question's time limit
+ */
+export const InterviewClockRequestSchema = z.object({
+  token: z.string(),
+  /** Question now on screen; its clock starts the first time it's sent */
+  question_id: z.string().uuid().optional(),
+});
+
+/**
+ * Request body for PUT /api/interviews/:id/draft
+ * Autosaves the answer being written
+ */
+export const SaveDraftRequestSchema = z.object({
+  token: z.string(),
+  question_id: z.string().uuid(),
+  draft: z.string().max(50000),
+  /** Language of a coding answer */
+  language: CodeLanguageSchema.optional(),
+});
+
+/**
+ * Response from PUT /api/interviews/:id/draft
+ */
+export interface SaveDraftResponse {
+  question_id: string;
+  saved_at: string;
 }
 
+/**
+ * Request body for POST /api/interviews/:id/run-code
+ * Runs a coding answer against the question's visible test cases
+ */
+export const RunCodeRequestSchema = z.object({
+  token: z.string(),
+  question_id: z.string().uuid(),
+  language: CodeLanguageSchema,
+  code: z.string().min(1, "Code cannot be empty").max(20000),
+});
+
 /**
  * Request body for POST /api/interviews/:id/submit
  * Submits all answers and completes the interview
@@ -1142,6 +2498,19 @@ export interface SubmitInterviewRequest {
   answers: SubmitAnswerRequest[];
 }
 
+/**
+ * Response from PATCH /api/interviews/:id/submit
+ *
+ * @property follow_up - Follow-up question inserted right after the
+ *   answered one (adaptive interviews only); later questions move down one
+ */
+export interface SaveAnswerResponse {
+  success: boolean;
+  question_id: string;
+  saved_at: string;
+  follow_up: InterviewQuestion | null;
+}
+
 /**
  * Response from POST /api/interviews/:id/submit
  */